@@ -47,6 +47,9 @@ export interface UserBudget {
   userId: string
   displayName: string
   tier: "standard" | "premium" | "unlimited"
+  /** Team and organization the user's spend rolls up into */
+  team?: string
+  org?: string
   limits: { daily: number; monthly: number }
   spend: { daily: number; monthly: number }
   remaining: { daily: number; monthly: number }
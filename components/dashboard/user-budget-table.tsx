@@ -2,6 +2,7 @@
 
 import * as React from "react"
 import { useDashboardData, useDashboardActions, type UserBudget } from "./dashboard-provider"
+import { rollupUserBudgets, type BudgetGroupRollup } from "@/lib/demo-data-engine"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import {
   Table,
@@ -47,7 +48,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { MoreHorizontal, Plus, RotateCcw, Trash2, ArrowUpDown, Pencil } from "lucide-react"
+import {
+  MoreHorizontal,
+  Plus,
+  RotateCcw,
+  Trash2,
+  ArrowUpDown,
+  Pencil,
+  ChevronRight,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useToast } from "@/hooks/use-toast"
 
@@ -57,7 +66,11 @@ const TIER_BADGE_CLASSES: Record<string, string> = {
   unlimited: "border-primary/30 bg-primary/10 text-primary",
 }
 
-const StatusBadge = React.memo(function StatusBadge({ user }: { user: UserBudget }) {
+const StatusBadge = React.memo(function StatusBadge({
+  user,
+}: {
+  user: Pick<UserBudget, "isOverBudget" | "percentUsed">
+}) {
   if (user.isOverBudget) {
     return (
       <Badge
@@ -313,6 +326,127 @@ function AddUserDialog() {
   )
 }
 
+/* ---- Team / org drill-down ---- */
+
+interface DrillPath {
+  org?: string
+  team?: string
+}
+
+function DrillBreadcrumb({
+  path,
+  onNavigate,
+}: {
+  path: DrillPath
+  onNavigate: (p: DrillPath) => void
+}) {
+  const crumbs: Array<{ label: string; target: DrillPath }> = [
+    { label: "All organizations", target: {} },
+  ]
+  if (path.org) crumbs.push({ label: path.org, target: { org: path.org } })
+  if (path.team) crumbs.push({ label: path.team, target: path })
+  return (
+    <nav aria-label="Budget hierarchy" className="flex items-center gap-1 px-4 pb-2 text-xs">
+      {crumbs.map((crumb, i) => {
+        const isLast = i === crumbs.length - 1
+        return (
+          <React.Fragment key={crumb.label + i}>
+            {i > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground/60" />}
+            {isLast ? (
+              <span className="font-medium text-foreground" aria-current="page">
+                {crumb.label}
+              </span>
+            ) : (
+              <button
+                onClick={() => onNavigate(crumb.target)}
+                className="text-muted-foreground transition-colors hover:text-foreground"
+              >
+                {crumb.label}
+              </button>
+            )}
+          </React.Fragment>
+        )
+      })}
+    </nav>
+  )
+}
+
+function GroupTable({
+  groups,
+  onOpen,
+}: {
+  groups: BudgetGroupRollup[]
+  onOpen: (group: BudgetGroupRollup) => void
+}) {
+  const label = groups[0]?.level === "team" ? "Team" : "Organization"
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-border/30 hover:bg-transparent">
+          <TableHead className="text-xs">{label}</TableHead>
+          <TableHead className="text-xs">Members</TableHead>
+          <TableHead className="text-xs">Daily Spend</TableHead>
+          <TableHead className="text-xs">Daily Limit</TableHead>
+          <TableHead className="text-xs">Monthly Spend</TableHead>
+          <TableHead className="text-xs">Monthly Limit</TableHead>
+          <TableHead className="text-xs">Usage</TableHead>
+          <TableHead className="text-xs">Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => {
+          const percent = Math.max(group.percentUsed.daily, group.percentUsed.monthly)
+          return (
+            <TableRow
+              key={`${group.org ?? ""}/${group.id}`}
+              className={cn(
+                "border-border/20 transition-colors",
+                percent >= 100 && "bg-[hsl(0,72%,51%)]/5",
+              )}
+            >
+              <TableCell className="py-2">
+                <button
+                  onClick={() => onOpen(group)}
+                  className="inline-flex items-center gap-1 text-xs font-medium text-foreground hover:underline"
+                >
+                  {group.id}
+                  <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                </button>
+              </TableCell>
+              <TableCell className="py-2 font-mono text-xs tabular-nums text-muted-foreground">
+                {group.members}
+                {group.overBudget > 0 && (
+                  <span className="text-[hsl(0,72%,65%)]"> ({group.overBudget} over)</span>
+                )}
+              </TableCell>
+              <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                ${group.spend.daily.toFixed(2)}
+              </TableCell>
+              <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                ${group.limits.daily.toFixed(0)}
+              </TableCell>
+              <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                ${group.spend.monthly.toFixed(2)}
+              </TableCell>
+              <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                ${group.limits.monthly.toFixed(0)}
+              </TableCell>
+              <TableCell className="py-2">
+                <PercentBar percent={percent} />
+              </TableCell>
+              <TableCell className="py-2">
+                <StatusBadge
+                  user={{ isOverBudget: percent >= 100, percentUsed: group.percentUsed }}
+                />
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
+
 /* ---- Main table ---- */
 
 type SortKey = "displayName" | "tier" | "dailySpend" | "monthlySpend" | "percentUsed"
@@ -377,6 +511,7 @@ export function UserBudgetTable() {
   const [sortKey, setSortKey] = React.useState<SortKey>("percentUsed")
   const [sortDir, setSortDir] = React.useState<"asc" | "desc">("desc")
   const [confirmRemoveUserId, setConfirmRemoveUserId] = React.useState<string | null>(null)
+  const [drill, setDrill] = React.useState<DrillPath>({})
   const confirmRemoveUser = data.users.find((u) => u.userId === confirmRemoveUserId)
 
   const handleSort = React.useCallback(
@@ -391,8 +526,23 @@ export function UserBudgetTable() {
     [sortKey],
   )
 
+  // Users with a team or org open on the org level; a flat list otherwise
+  const hasHierarchy = data.users.some((u) => u.org !== undefined || u.team !== undefined)
+  const groups = React.useMemo(() => {
+    if (!hasHierarchy || drill.team !== undefined) return null
+    return drill.org === undefined
+      ? rollupUserBudgets(data.users, "org")
+      : rollupUserBudgets(data.users, "team", drill.org)
+  }, [data.users, hasHierarchy, drill])
+
   const sorted = React.useMemo(() => {
-    return [...data.users].sort((a, b) => {
+    const visible =
+      hasHierarchy && drill.team !== undefined
+        ? data.users.filter(
+            (u) => (u.org ?? "unassigned") === drill.org && (u.team ?? "unassigned") === drill.team,
+          )
+        : data.users
+    return [...visible].sort((a, b) => {
       const aVal = getSortValue(a, sortKey)
       const bVal = getSortValue(b, sortKey)
       if (typeof aVal === "string" && typeof bVal === "string") {
@@ -402,7 +552,7 @@ export function UserBudgetTable() {
         ? (bVal as number) - (aVal as number)
         : (aVal as number) - (bVal as number)
     })
-  }, [data.users, sortKey, sortDir])
+  }, [data.users, hasHierarchy, drill, sortKey, sortDir])
 
   return (
     <Card className="border-border/40 bg-card/50">
@@ -419,133 +569,147 @@ export function UserBudgetTable() {
         <AddUserDialog />
       </CardHeader>
       <CardContent className="overflow-x-auto p-0 pb-2">
-        <Table>
-          <TableHeader>
-            <TableRow className="border-border/30 hover:bg-transparent">
-              <SortHeader
-                label="User"
-                sortKeyValue="displayName"
-                currentSortKey={sortKey}
-                currentSortDir={sortDir}
-                onSort={handleSort}
-              />
-              <SortHeader
-                label="Tier"
-                sortKeyValue="tier"
-                currentSortKey={sortKey}
-                currentSortDir={sortDir}
-                onSort={handleSort}
-              />
-              <TableHead className="text-xs">Daily Spend</TableHead>
-              <TableHead className="text-xs">Daily Limit</TableHead>
-              <TableHead className="text-xs">Monthly Spend</TableHead>
-              <TableHead className="text-xs">Monthly Limit</TableHead>
-              <SortHeader
-                label="Usage"
-                sortKeyValue="percentUsed"
-                currentSortKey={sortKey}
-                currentSortDir={sortDir}
-                onSort={handleSort}
-              />
-              <TableHead className="text-xs">Status</TableHead>
-              <TableHead className="w-10 text-xs">
-                <span className="sr-only">Actions</span>
-              </TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {sorted.map((user) => (
-              <TableRow
-                key={user.userId}
-                className={cn(
-                  "border-border/20 transition-colors",
-                  user.isOverBudget && "bg-[hsl(0,72%,51%)]/5",
-                )}
-              >
-                <TableCell className="py-2">
-                  <div className="flex flex-col">
-                    <span className="text-xs font-medium text-foreground">{user.displayName}</span>
-                    <span className="font-mono text-[10px] text-muted-foreground/60">
-                      {user.userId}
-                    </span>
-                  </div>
-                </TableCell>
-                <TableCell className="py-2">
-                  <Badge
-                    variant="outline"
-                    className={cn("text-[10px] capitalize", TIER_BADGE_CLASSES[user.tier])}
-                  >
-                    {user.tier}
-                  </Badge>
-                </TableCell>
-                <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
-                  ${user.spend.daily.toFixed(2)}
-                </TableCell>
-                <TableCell className="py-2">
-                  <EditableLimit
-                    value={user.limits.daily}
-                    onSave={(v) =>
-                      updateUserBudget(user.userId, {
-                        limits: { daily: v, monthly: user.limits.monthly },
-                      })
-                    }
-                  />
-                </TableCell>
-                <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
-                  ${user.spend.monthly.toFixed(2)}
-                </TableCell>
-                <TableCell className="py-2">
-                  <EditableLimit
-                    value={user.limits.monthly}
-                    onSave={(v) =>
-                      updateUserBudget(user.userId, {
-                        limits: { daily: user.limits.daily, monthly: v },
-                      })
-                    }
-                  />
-                </TableCell>
-                <TableCell className="py-2">
-                  <PercentBar
-                    percent={Math.max(user.percentUsed.daily, user.percentUsed.monthly)}
-                  />
-                </TableCell>
-                <TableCell className="py-2">
-                  <StatusBadge user={user} />
-                </TableCell>
-                <TableCell className="py-2">
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
-                        <MoreHorizontal className="h-3.5 w-3.5" />
-                        <span className="sr-only">User actions</span>
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => resetUserSpend(user.userId)}>
-                        <RotateCcw className="mr-2 h-3.5 w-3.5" />
-                        Reset Spend
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onSelect={() => setConfirmRemoveUserId(user.userId)}
-                        className="text-destructive focus:text-destructive"
-                      >
-                        <Trash2 className="mr-2 h-3.5 w-3.5" />
-                        Remove User
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </TableCell>
-              </TableRow>
-            ))}
-            {sorted.length === 0 && (
-              <TableRow>
-                <TableCell colSpan={9} className="h-24 text-center text-xs text-muted-foreground">
-                  No users configured. Click &quot;Add User&quot; to get started.
-                </TableCell>
+        {hasHierarchy && <DrillBreadcrumb path={drill} onNavigate={setDrill} />}
+        {groups ? (
+          <GroupTable
+            groups={groups}
+            onOpen={(group) =>
+              setDrill(
+                group.level === "org" ? { org: group.id } : { org: group.org, team: group.id },
+              )
+            }
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border/30 hover:bg-transparent">
+                <SortHeader
+                  label="User"
+                  sortKeyValue="displayName"
+                  currentSortKey={sortKey}
+                  currentSortDir={sortDir}
+                  onSort={handleSort}
+                />
+                <SortHeader
+                  label="Tier"
+                  sortKeyValue="tier"
+                  currentSortKey={sortKey}
+                  currentSortDir={sortDir}
+                  onSort={handleSort}
+                />
+                <TableHead className="text-xs">Daily Spend</TableHead>
+                <TableHead className="text-xs">Daily Limit</TableHead>
+                <TableHead className="text-xs">Monthly Spend</TableHead>
+                <TableHead className="text-xs">Monthly Limit</TableHead>
+                <SortHeader
+                  label="Usage"
+                  sortKeyValue="percentUsed"
+                  currentSortKey={sortKey}
+                  currentSortDir={sortDir}
+                  onSort={handleSort}
+                />
+                <TableHead className="text-xs">Status</TableHead>
+                <TableHead className="w-10 text-xs">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
               </TableRow>
-            )}
-          </TableBody>
-        </Table>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((user) => (
+                <TableRow
+                  key={user.userId}
+                  className={cn(
+                    "border-border/20 transition-colors",
+                    user.isOverBudget && "bg-[hsl(0,72%,51%)]/5",
+                  )}
+                >
+                  <TableCell className="py-2">
+                    <div className="flex flex-col">
+                      <span className="text-xs font-medium text-foreground">
+                        {user.displayName}
+                      </span>
+                      <span className="font-mono text-[10px] text-muted-foreground/60">
+                        {user.userId}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <Badge
+                      variant="outline"
+                      className={cn("text-[10px] capitalize", TIER_BADGE_CLASSES[user.tier])}
+                    >
+                      {user.tier}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                    ${user.spend.daily.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <EditableLimit
+                      value={user.limits.daily}
+                      onSave={(v) =>
+                        updateUserBudget(user.userId, {
+                          limits: { daily: v, monthly: user.limits.monthly },
+                        })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="py-2 font-mono text-xs tabular-nums text-foreground">
+                    ${user.spend.monthly.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <EditableLimit
+                      value={user.limits.monthly}
+                      onSave={(v) =>
+                        updateUserBudget(user.userId, {
+                          limits: { daily: user.limits.daily, monthly: v },
+                        })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <PercentBar
+                      percent={Math.max(user.percentUsed.daily, user.percentUsed.monthly)}
+                    />
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <StatusBadge user={user} />
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                          <span className="sr-only">User actions</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => resetUserSpend(user.userId)}>
+                          <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                          Reset Spend
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => setConfirmRemoveUserId(user.userId)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="mr-2 h-3.5 w-3.5" />
+                          Remove User
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {sorted.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center text-xs text-muted-foreground">
+                    No users configured. Click &quot;Add User&quot; to get started.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
       </CardContent>
 
       {/* Lifted outside DropdownMenu to avoid focus management conflicts */}
@@ -9,6 +9,7 @@ import {
   computeNextTick,
   createEmptyState,
   cloneInitialUsers,
+  rollupUserBudgets,
   preGenerateTickIds,
   generateInitialPipelineMetrics,
   generateInitialProviderHealth,
@@ -194,6 +195,37 @@ describe("cloneInitialUsers", () => {
   })
 })
 
+/* ------------------------------------------------------------------ */
+/*  rollupUserBudgets                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("rollupUserBudgets", () => {
+  it("sums limits and spend per org", () => {
+    const users = cloneInitialUsers()
+    users[0].spend.daily = 5
+    users[1].spend.daily = 5
+    users[1].isOverBudget = true
+    const orgs = rollupUserBudgets(users, "org")
+    const acme = orgs.find((o) => o.id === "acme")!
+    expect(orgs.map((o) => o.id).sort()).toEqual(["acme", "globex"])
+    expect(acme.members).toBe(3)
+    expect(acme.overBudget).toBe(1)
+    expect(acme.limits.daily).toBe(135)
+    expect(acme.percentUsed.daily).toBeCloseTo((10 / 135) * 100)
+  })
+
+  it("lists only the teams of the given org", () => {
+    const teams = rollupUserBudgets(cloneInitialUsers(), "team", "acme")
+    expect(teams.map((t) => t.id).sort()).toEqual(["research", "search"])
+    expect(teams.every((t) => t.org === "acme")).toBe(true)
+  })
+
+  it("groups users without a team under unassigned", () => {
+    const users = cloneInitialUsers().map(({ team: _team, ...u }) => u)
+    expect(rollupUserBudgets(users, "team").map((t) => t.id)).toEqual(["unassigned", "unassigned"])
+  })
+})
+
 /* ------------------------------------------------------------------ */
 /*  createEmptyState                                                   */
 /* ------------------------------------------------------------------ */
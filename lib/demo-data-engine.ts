@@ -60,6 +60,8 @@ export const INITIAL_USERS: UserBudget[] = [
     userId: "usr_alice",
     displayName: "Alice Chen",
     tier: "premium",
+    team: "search",
+    org: "acme",
     limits: { daily: 25, monthly: 500 },
     spend: { daily: 0, monthly: 0 },
     remaining: { daily: 25, monthly: 500 },
@@ -70,6 +72,8 @@ export const INITIAL_USERS: UserBudget[] = [
     userId: "usr_bob",
     displayName: "Bob Martinez",
     tier: "standard",
+    team: "search",
+    org: "acme",
     limits: { daily: 10, monthly: 200 },
     spend: { daily: 0, monthly: 0 },
     remaining: { daily: 10, monthly: 200 },
@@ -80,6 +84,8 @@ export const INITIAL_USERS: UserBudget[] = [
     userId: "usr_carol",
     displayName: "Carol Nguyen",
     tier: "unlimited",
+    team: "research",
+    org: "acme",
     limits: { daily: 100, monthly: 2000 },
     spend: { daily: 0, monthly: 0 },
     remaining: { daily: 100, monthly: 2000 },
@@ -90,6 +96,8 @@ export const INITIAL_USERS: UserBudget[] = [
     userId: "usr_dave",
     displayName: "Dave Patel",
     tier: "standard",
+    team: "support",
+    org: "globex",
     limits: { daily: 8, monthly: 150 },
     spend: { daily: 0, monthly: 0 },
     remaining: { daily: 8, monthly: 150 },
@@ -258,6 +266,68 @@ export function cloneInitialUsers(): UserBudget[] {
   }))
 }
 
+/* ------------------------------------------------------------------ */
+/*  Team / org budget rollup                                           */
+/* ------------------------------------------------------------------ */
+
+export interface BudgetGroupRollup {
+  level: "org" | "team"
+  id: string
+  /** Organization of a team row */
+  org?: string
+  members: number
+  overBudget: number
+  limits: { daily: number; monthly: number }
+  spend: { daily: number; monthly: number }
+  percentUsed: { daily: number; monthly: number }
+}
+
+/**
+ * Roll user budgets up into one row per organization or team. Limits and
+ * spend are summed over the members; users without a team or org are
+ * grouped under "unassigned". Pass `org` to list only that org's teams.
+ */
+export function rollupUserBudgets(
+  users: UserBudget[],
+  level: "org" | "team",
+  org?: string,
+): BudgetGroupRollup[] {
+  const groups = new Map<string, BudgetGroupRollup>()
+  for (const u of users) {
+    if (org !== undefined && (u.org ?? "unassigned") !== org) continue
+    const id = u[level] ?? "unassigned"
+    // Team names are only unique within an org
+    const key = level === "team" ? `${u.org ?? "unassigned"}/${id}` : id
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        level,
+        id,
+        members: 0,
+        overBudget: 0,
+        limits: { daily: 0, monthly: 0 },
+        spend: { daily: 0, monthly: 0 },
+        percentUsed: { daily: 0, monthly: 0 },
+      }
+      if (level === "team") group.org = u.org ?? "unassigned"
+      groups.set(key, group)
+    }
+    group.members++
+    if (u.isOverBudget) group.overBudget++
+    group.limits.daily += u.limits.daily
+    group.limits.monthly += u.limits.monthly
+    group.spend.daily += u.spend.daily
+    group.spend.monthly += u.spend.monthly
+  }
+  for (const group of groups.values()) {
+    group.percentUsed = {
+      daily: group.limits.daily > 0 ? (group.spend.daily / group.limits.daily) * 100 : 0,
+      monthly: group.limits.monthly > 0 ? (group.spend.monthly / group.limits.monthly) * 100 : 0,
+    }
+  }
+  return [...groups.values()]
+}
+
 /* ------------------------------------------------------------------ */
 /*  Empty initial state                                                */
 /* ------------------------------------------------------------------ */
@@ -257,6 +257,35 @@ describe("AuditLog", () => {
       expect(entry.description).toContain("hourly")
     })
 
+    it("logTrafficPaused and logTrafficResumed record manual control events", () => {
+      const paused = log.logTrafficPaused("incident", "gpt-4o", 1_700_000_000_000)
+      expect(paused.eventType).toBe("traffic_paused")
+      expect(paused.severity).toBe("critical")
+      expect(paused.data).toEqual({ reason: "incident", scope: "gpt-4o", until: 1_700_000_000_000 })
+      const resumed = log.logTrafficResumed("incident", undefined, 60_000)
+      expect(resumed.eventType).toBe("traffic_resumed")
+      expect(resumed.description).toContain("all")
+    })
+
+    it("logOverrideGranted records override_granted event", () => {
+      const entry = log.logOverrideGranted("admin", 5, 1_700_000_000_000)
+      expect(entry.eventType).toBe("override_granted")
+      expect(entry.severity).toBe("warn")
+      expect(entry.userId).toBe("admin")
+      expect(entry.description).toContain("$5.00")
+    })
+
+    it("logAnomalyActionApplied and logAnomalyActionExpired record anomaly action events", () => {
+      const applied = log.logAnomalyActionApplied("pause-user", "alice", 1_700_000_000_000, "alice")
+      expect(applied.eventType).toBe("anomaly_action_applied")
+      expect(applied.severity).toBe("warn")
+      expect(applied.userId).toBe("alice")
+      expect(applied.description).toContain("pause-user applied (alice)")
+      const expired = log.logAnomalyActionExpired("tighten-guard", undefined)
+      expect(expired.eventType).toBe("anomaly_action_expired")
+      expect(expired.description).toContain("(all)")
+    })
+
     it("logLicenseActivated records license_activated event", () => {
       const entry = log.logLicenseActivated("enterprise", "Acme Corp")
       expect(entry.eventType).toBe("license_activated")
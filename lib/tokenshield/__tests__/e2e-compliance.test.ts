@@ -85,6 +85,7 @@ describe("E2E License + Audit Compliance", () => {
       timestamp: Date.now(),
       detectionMethod: "z-score",
       severity: "critical",
+      key: "global",
     })
 
     // 5. Verify audit log captured all events
@@ -113,11 +113,14 @@ describe("Middleware Audit Log Integration", () => {
       timestamp: Date.now(),
       detectionMethod: "z-score",
       severity: "critical",
+      key: "global",
     })
     const entries = auditLog.getEntries({ eventType: "anomaly_detected" })
     expect(entries).toHaveLength(1)
     expect(entries[0].severity).toBe("warn")
     expect(entries[0].data.value).toBe(0.5)
+    expect(entries[0].data.metric).toBe("cost_spike")
+    expect(entries[0].data.zscore).toBe(8.0)
     mw.dispose()
   })
 
@@ -104,6 +104,45 @@ describe("semantic-minhash", () => {
     })
   })
 
+  describe("candidates and remove", () => {
+    it("should return bucket candidates best-first without a threshold", () => {
+      index.insert("how do I reset my account password today", "reset")
+      index.insert("how do I reset my account password now", "reset-now")
+      index.insert("completely unrelated question about gardening tools", "garden")
+      const results = index.candidates("how do I reset my account password today")
+      expect(results[0].entry.data).toBe("reset")
+      expect(results.map((r) => r.entry.data)).not.toContain("garden")
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].similarity).toBeGreaterThanOrEqual(results[i].similarity)
+      }
+    })
+
+    it("should remove an entry by its data and keep the rest findable", () => {
+      index.insert("What is the capital of France?", "paris")
+      index.insert("What is the capital of Germany?", "berlin")
+      index.insert("What is the capital of Spain?", "madrid")
+      expect(index.remove("paris")).toBe(true)
+      expect(index.remove("paris")).toBe(false)
+      expect(index.size).toBe(2)
+      expect(index.find("What is the capital of France?", 0.99)).toBeNull()
+      expect(index.find("What is the capital of Germany?", 0.99)?.entry.data).toBe("berlin")
+      expect(index.find("What is the capital of Spain?", 0.99)?.entry.data).toBe("madrid")
+    })
+
+    it("should remove entries moved by an earlier removal or eviction", () => {
+      const small = new SemanticMinHashIndex<string>({ maxEntries: 3 })
+      small.insert("What is the capital of France?", "paris")
+      small.insert("What is the capital of Germany?", "berlin")
+      small.insert("What is the capital of Spain?", "madrid")
+      small.insert("What is the capital of Italy?", "rome")
+      expect(small.remove("paris")).toBe(false)
+      expect(small.remove("rome")).toBe(true)
+      expect(small.remove("berlin")).toBe(true)
+      expect(small.size).toBe(1)
+      expect(small.find("What is the capital of Spain?", 0.99)?.entry.data).toBe("madrid")
+    })
+  })
+
   describe("clear", () => {
     it("should clear all entries", () => {
       index.insert("test prompt", "data")
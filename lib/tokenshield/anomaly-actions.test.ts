@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { AnomalyActionPolicy } from "./anomaly-actions"
+import { TokenShieldConfigError } from "./errors"
+import type { AnomalyEvent } from "./anomaly-detector"
+
+function anomaly(extra: Partial<AnomalyEvent> = {}): AnomalyEvent {
+  return {
+    type: "cost_spike",
+    value: 5,
+    mean: 0.1,
+    deviation: 0.05,
+    zScore: 98,
+    timestamp: Date.now(),
+    detectionMethod: "z-score",
+    severity: "critical",
+    key: "user:alice",
+    ...extra,
+  }
+}
+
+describe("AnomalyActionPolicy", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("applies only the rules whose severity and detection method match", () => {
+    const policy = new AnomalyActionPolicy([
+      { severity: "critical", action: { type: "pause-user" } },
+      { detectionMethod: ["ewma", "seasonal"], action: { type: "tighten-guard" } },
+    ])
+    const applied = policy.apply(anomaly(), { userId: "alice" })
+    expect(applied.map((a) => [a.type, a.userId])).toEqual([["pause-user", "alice"]])
+    expect(policy.userPause("alice")?.anomaly.type).toBe("cost_spike")
+    expect(policy.userPause("bob")).toBeUndefined()
+
+    expect(policy.apply(anomaly({ severity: "warning" }), { userId: "bob" })).toEqual([])
+  })
+
+  it("skips actions whose target the request doesn't have", () => {
+    const policy = new AnomalyActionPolicy([
+      { action: { type: "pause-user" } },
+      { action: { type: "trip-breaker" } },
+    ])
+    expect(policy.apply(anomaly(), {})).toEqual([])
+    expect(policy.apply(anomaly(), { scope: "gpt-4o" }).map((a) => a.scope)).toEqual(["gpt-4o"])
+  })
+
+  it("tightens the guard to the strictest active limit and restores it on expiry", () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+    const policy = new AnomalyActionPolicy(
+      [
+        { action: { type: "tighten-guard" }, durationMs: 60_000 },
+        { severity: "critical", action: { type: "tighten-guard", maxRequestsPerMinute: 5 } },
+      ],
+      { guardRateLimit: 40 },
+    )
+    expect(policy.guardRateLimit()).toBe(40)
+    policy.apply(anomaly({ severity: "warning" }), {})
+    expect(policy.guardRateLimit()).toBe(20)
+    policy.apply(anomaly(), {})
+    expect(policy.guardRateLimit()).toBe(5)
+
+    vi.setSystemTime(new Date("2025-01-15T10:20:00Z"))
+    expect(policy.expire().map((a) => a.maxRequestsPerMinute)).toEqual([20, 5])
+    expect(policy.guardRateLimit()).toBe(40)
+    expect(policy.getActive()).toEqual([])
+  })
+
+  it("extends an active action instead of stacking a second one", () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+    const policy = new AnomalyActionPolicy([
+      { action: { type: "force-tier", model: "gpt-4o-mini" }, durationMs: 60_000 },
+    ])
+    const [first] = policy.apply(anomaly(), {})
+    vi.setSystemTime(new Date("2025-01-15T10:00:30Z"))
+    const [second] = policy.apply(anomaly({ type: "token_spike" }), {})
+
+    expect(second.id).toBe(first.id)
+    expect(second.expiresAt).toBe(Date.now() + 60_000)
+    expect(policy.getActive()).toHaveLength(1)
+    expect(policy.forcedModel("anyone")).toBe("gpt-4o-mini")
+  })
+
+  it("forces the fallback model for the anomalous user only", () => {
+    const policy = new AnomalyActionPolicy([{ action: { type: "force-tier" } }], {
+      fallbackModel: "gpt-4o-mini",
+    })
+    policy.apply(anomaly(), { userId: "alice" })
+    expect(policy.forcedModel("alice")).toBe("gpt-4o-mini")
+    expect(policy.forcedModel("bob")).toBeUndefined()
+  })
+
+  it("rejects invalid rules", () => {
+    expect(() => new AnomalyActionPolicy([{ action: { type: "force-tier" } }])).toThrow(
+      TokenShieldConfigError,
+    )
+    expect(
+      () => new AnomalyActionPolicy([{ action: { type: "tighten-guard", factor: 2 } }]),
+    ).toThrow("anomaly.actions[0].action.factor must be in (0, 1]")
+    expect(
+      () => new AnomalyActionPolicy([{ action: { type: "pause-user" }, durationMs: 0 }]),
+    ).toThrow(TokenShieldConfigError)
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * TokenShield - Anomaly Actions
+ *
+ * Turns anomaly detections into temporary countermeasures. Rules match
+ * an anomaly by severity and detection method and name an action:
+ *
+ * - "tighten-guard": lower the RequestGuard rate limit
+ * - "force-tier":    send requests to a cheaper model
+ * - "pause-user":    block the anomalous user's requests
+ * - "trip-breaker":  pause the anomalous request's breaker scope
+ *
+ * Every action lasts `durationMs` and then lifts by itself. The policy
+ * only keeps the book of active actions; the middleware applies them,
+ * emits `anomaly:actionApplied` / `anomaly:actionExpired` and records
+ * both in the audit log.
+ */
+
+import { TokenShieldConfigError } from "./errors"
+import type { AnomalyEvent } from "./anomaly-detector"
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type AnomalyActionType = "tighten-guard" | "force-tier" | "pause-user" | "trip-breaker"
+
+export type AnomalyAction =
+  | {
+      type: "tighten-guard"
+      /** Fraction of the normal requests-per-minute limit to allow (default: 0.5) */
+      factor?: number
+      /** Absolute requests-per-minute limit; takes precedence over `factor` */
+      maxRequestsPerMinute?: number
+    }
+  | {
+      type: "force-tier"
+      /** Model to send requests to (default: the cheapest `router.tiers` model) */
+      model?: string
+    }
+  | { type: "pause-user" }
+  | {
+      type: "trip-breaker"
+      /** Scope to pause (default: the anomalous request's breaker scope, or its model) */
+      scope?: string
+    }
+
+export interface AnomalyActionRule {
+  /** Severities the rule applies to (default: all) */
+  severity?: AnomalyEvent["severity"] | AnomalyEvent["severity"][]
+  /** Detection methods the rule applies to (default: all) */
+  detectionMethod?: AnomalyEvent["detectionMethod"] | AnomalyEvent["detectionMethod"][]
+  action: AnomalyAction
+  /** How long the action stays in force, in ms (default: 900000 = 15 minutes) */
+  durationMs?: number
+}
+
+/** An action in force, as reported in events and the audit log */
+export interface AnomalyActionRecord {
+  id: string
+  type: AnomalyActionType
+  /** User the action is limited to; omitted when it applies to everyone */
+  userId?: string
+  /** Scope paused by "trip-breaker" */
+  scope?: string
+  /** Model requests are sent to by "force-tier" */
+  model?: string
+  /** Rate limit set by "tighten-guard" */
+  maxRequestsPerMinute?: number
+  /** The anomaly that triggered (or last extended) the action */
+  anomaly: Pick<AnomalyEvent, "type" | "severity" | "detectionMethod" | "key">
+  appliedAt: number
+  expiresAt: number
+}
+
+export interface AnomalyActionPolicyOptions {
+  /** The guard's normal requests-per-minute limit (default: 60) */
+  guardRateLimit?: number
+  /** Model for "force-tier" actions that don't name one */
+  fallbackModel?: string
+}
+
+// -------------------------------------------------------
+// Implementation
+// -------------------------------------------------------
+
+const DEFAULT_ACTION_DURATION_MS = 15 * 60_000
+
+const DEFAULT_GUARD_FACTOR = 0.5
+
+function matches<T>(filter: T | T[] | undefined, value: T): boolean {
+  if (filter === undefined) return true
+  return Array.isArray(filter) ? filter.includes(value) : filter === value
+}
+
+export class AnomalyActionPolicy {
+  private rules: AnomalyActionRule[]
+  private baseRateLimit: number
+  private fallbackModel?: string
+  /** Active actions by rule index and target, so a repeat extends rather than stacks */
+  private active = new Map<string, AnomalyActionRecord>()
+
+  constructor(rules: AnomalyActionRule[], options: AnomalyActionPolicyOptions = {}) {
+    this.baseRateLimit = options.guardRateLimit ?? 60
+    this.fallbackModel = options.fallbackModel
+    rules.forEach((rule, i) => {
+      const path = `anomaly.actions[${i}]`
+      if (rule.durationMs !== undefined && !(rule.durationMs > 0)) {
+        throw new TokenShieldConfigError(
+          `${path}.durationMs must be positive`,
+          `${path}.durationMs`,
+        )
+      }
+      const { action } = rule
+      if (action.type === "tighten-guard" && action.factor !== undefined) {
+        if (!(action.factor > 0 && action.factor <= 1)) {
+          throw new TokenShieldConfigError(
+            `${path}.action.factor must be in (0, 1]`,
+            `${path}.action.factor`,
+          )
+        }
+      }
+      if (action.type === "force-tier" && !action.model && !this.fallbackModel) {
+        throw new TokenShieldConfigError(
+          `${path}.action.model is required when router.tiers is not configured`,
+          `${path}.action.model`,
+        )
+      }
+    })
+    this.rules = rules
+  }
+
+  /**
+   * Start (or extend) the actions whose rules match an anomaly. `userId`
+   * and `scope` describe the request that triggered it; rules that need a
+   * target the request doesn't have are skipped. Returns the actions
+   * applied.
+   */
+  apply(anomaly: AnomalyEvent, target: { userId?: string; scope?: string }): AnomalyActionRecord[] {
+    const now = Date.now()
+    const applied: AnomalyActionRecord[] = []
+    this.rules.forEach((rule, i) => {
+      if (!matches(rule.severity, anomaly.severity)) return
+      if (!matches(rule.detectionMethod, anomaly.detectionMethod)) return
+
+      const { action } = rule
+      const record: AnomalyActionRecord = {
+        id: `aa_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+        type: action.type,
+        anomaly: {
+          type: anomaly.type,
+          severity: anomaly.severity,
+          detectionMethod: anomaly.detectionMethod,
+          key: anomaly.key,
+        },
+        appliedAt: now,
+        expiresAt: now + (rule.durationMs ?? DEFAULT_ACTION_DURATION_MS),
+      }
+      switch (action.type) {
+        case "tighten-guard":
+          record.maxRequestsPerMinute =
+            action.maxRequestsPerMinute ??
+            Math.max(1, Math.floor(this.baseRateLimit * (action.factor ?? DEFAULT_GUARD_FACTOR)))
+          break
+        case "force-tier":
+          record.model = action.model ?? this.fallbackModel
+          if (target.userId) record.userId = target.userId
+          break
+        case "pause-user":
+          if (!target.userId) return
+          record.userId = target.userId
+          break
+        case "trip-breaker":
+          record.scope = action.scope ?? target.scope
+          if (!record.scope) return
+          break
+      }
+
+      const slot = `${i}|${record.userId ?? ""}|${record.scope ?? ""}`
+      const existing = this.active.get(slot)
+      if (existing && existing.expiresAt > now) {
+        record.id = existing.id
+        record.appliedAt = existing.appliedAt
+      }
+      this.active.set(slot, record)
+      applied.push(record)
+    })
+    return applied
+  }
+
+  /** Remove and return the actions whose time is up. */
+  expire(now = Date.now()): AnomalyActionRecord[] {
+    const expired: AnomalyActionRecord[] = []
+    for (const [slot, record] of this.active) {
+      if (record.expiresAt <= now) {
+        this.active.delete(slot)
+        expired.push(record)
+      }
+    }
+    return expired
+  }
+
+  /** Actions in force, oldest first. */
+  getActive(): AnomalyActionRecord[] {
+    const now = Date.now()
+    return [...this.active.values()].filter((r) => r.expiresAt > now)
+  }
+
+  /** Requests-per-minute limit the guard should enforce right now. */
+  guardRateLimit(): number {
+    let limit = this.baseRateLimit
+    for (const record of this.getActive()) {
+      if (record.maxRequestsPerMinute !== undefined) {
+        limit = Math.min(limit, record.maxRequestsPerMinute)
+      }
+    }
+    return limit
+  }
+
+  /** Model a user's requests are forced to, if any. */
+  forcedModel(userId?: string): string | undefined {
+    return this.getActive().find(
+      (r) => r.type === "force-tier" && (r.userId === undefined || r.userId === userId),
+    )?.model
+  }
+
+  /** The "pause-user" action blocking a user, if any. */
+  userPause(userId: string): AnomalyActionRecord | undefined {
+    return this.getActive().find((r) => r.type === "pause-user" && r.userId === userId)
+  }
+}
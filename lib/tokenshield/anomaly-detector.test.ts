@@ -8,10 +8,14 @@
  * - Percentile-based detection
  * - NaN/Infinity guard
  * - Reset and baselines
+ * - Keyed (per-user/model/feature) baselines
+ * - Seasonality, warm-up and persistence
  */
 
-import { describe, it, expect, beforeEach } from "vitest"
-import { AnomalyDetector } from "./anomaly-detector"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { AnomalyDetector, anomalyBaselineKey, type AnomalySnapshot } from "./anomaly-detector"
+import { createMemoryBackend } from "./storage-adapter"
+import { TokenShieldConfigError } from "./errors"
 
 describe("AnomalyDetector", () => {
   let detector: AnomalyDetector
@@ -27,13 +31,13 @@ describe("AnomalyDetector", () => {
 
   describe("basic operation", () => {
     it("returns null when no anomaly is detected", () => {
-      const result = detector.check(0.10, 100)
+      const result = detector.check(0.1, 100)
       expect(result).toBeNull()
     })
 
     it("returns null for values below minCostThreshold", () => {
       // Seed history with some values
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
       // Cost below threshold
       const result = detector.check(0.005, 100)
       // Should not flag cost anomaly for below-threshold cost
@@ -42,9 +46,9 @@ describe("AnomalyDetector", () => {
 
     it("returns an AnomalyEvent with expected shape", () => {
       // Seed with consistent low values
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
       // Inject a spike
-      const result = detector.check(5.00, 10000)
+      const result = detector.check(5.0, 10000)
       expect(result).not.toBeNull()
       expect(result!).toHaveProperty("type")
       expect(result!).toHaveProperty("value")
@@ -60,23 +64,23 @@ describe("AnomalyDetector", () => {
   describe("Z-score detection", () => {
     it("detects cost spikes via Z-score", () => {
       // Seed with consistent values
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
       // Inject a spike well above the mean
-      const result = detector.check(2.00, 100)
+      const result = detector.check(2.0, 100)
       expect(result).not.toBeNull()
       expect(result!.type).toMatch(/cost/)
     })
 
     it("detects token spikes via Z-score", () => {
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
-      const result = detector.check(0.10, 5000)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
+      const result = detector.check(0.1, 5000)
       expect(result).not.toBeNull()
       expect(result!.type).toMatch(/token/)
     })
 
     it("does not flag normal variance", () => {
       // Values with moderate variance — none should be anomalous
-      const values = [0.10, 0.12, 0.09, 0.11, 0.13, 0.10, 0.11, 0.12, 0.09, 0.10]
+      const values = [0.1, 0.12, 0.09, 0.11, 0.13, 0.1, 0.11, 0.12, 0.09, 0.1]
       let anomaly = null
       for (const v of values) {
         anomaly = detector.check(v, 100)
@@ -96,9 +100,9 @@ describe("AnomalyDetector", () => {
         ignoreBelowCost: 0.01,
       })
       // Very consistent data
-      for (let i = 0; i < 10; i++) lowVarDetector.check(1.00, 100)
+      for (let i = 0; i < 10; i++) lowVarDetector.check(1.0, 100)
       // A moderate spike should be caught with adaptive threshold (tighter)
-      const result = lowVarDetector.check(1.50, 100)
+      const result = lowVarDetector.check(1.5, 100)
       // The adaptive threshold makes detection more sensitive for consistent data
       // But 1.50 vs 1.00 may or may not trigger depending on stddev
       expect(result === null || result.detectionMethod !== undefined).toBe(true)
@@ -113,7 +117,7 @@ describe("AnomalyDetector", () => {
         ignoreBelowCost: 0.01,
       })
       // Highly variable data
-      const values = [0.05, 0.50, 0.10, 0.80, 0.03, 0.60, 0.15, 0.90, 0.07, 0.70]
+      const values = [0.05, 0.5, 0.1, 0.8, 0.03, 0.6, 0.15, 0.9, 0.07, 0.7]
       for (const v of values) highVarDetector.check(v, 100)
       // A value within the high-variance range should not trigger
       const result = highVarDetector.check(0.85, 100)
@@ -126,9 +130,9 @@ describe("AnomalyDetector", () => {
         sensitivity: 3.0,
         adaptiveSensitivity: false,
       })
-      for (let i = 0; i < 10; i++) noAdaptive.check(1.00, 100)
+      for (let i = 0; i < 10; i++) noAdaptive.check(1.0, 100)
       // Just verify it doesn't crash
-      const result = noAdaptive.check(1.50, 100)
+      const result = noAdaptive.check(1.5, 100)
       expect(result === null || result !== null).toBe(true)
     })
   })
@@ -142,12 +146,12 @@ describe("AnomalyDetector", () => {
         minCostThreshold: 0.01,
         ignoreBelowCost: 0.01,
         rateOfChangeThreshold: 0, // disable rate-of-change
-        percentileThreshold: 0,   // disable percentile
+        percentileThreshold: 0, // disable percentile
       })
       // Build up EWMA baseline
-      for (let i = 0; i < 15; i++) ewmaDetector.check(0.10, 100)
+      for (let i = 0; i < 15; i++) ewmaDetector.check(0.1, 100)
       // Large spike
-      const result = ewmaDetector.check(5.00, 100)
+      const result = ewmaDetector.check(5.0, 100)
       expect(result).not.toBeNull()
     })
 
@@ -157,9 +161,9 @@ describe("AnomalyDetector", () => {
         sensitivity: 2.0,
         ewmaAlpha: 0,
       })
-      for (let i = 0; i < 10; i++) noEwma.check(0.10, 100)
+      for (let i = 0; i < 10; i++) noEwma.check(0.1, 100)
       // Should still work (Z-score still active)
-      const result = noEwma.check(5.00, 100)
+      const result = noEwma.check(5.0, 100)
       expect(result === null || result.detectionMethod !== "ewma").toBe(true)
     })
   })
@@ -175,9 +179,9 @@ describe("AnomalyDetector", () => {
         minCostThreshold: 0.01,
         ignoreBelowCost: 0.01,
       })
-      rateDetector.check(0.10, 100) // sets prevCost
+      rateDetector.check(0.1, 100) // sets prevCost
       // 5x jump
-      const result = rateDetector.check(0.50, 100)
+      const result = rateDetector.check(0.5, 100)
       expect(result).not.toBeNull()
       expect(result!.detectionMethod).toBe("rate-of-change")
       expect(result!.type).toBe("cost_rate_change")
@@ -191,8 +195,8 @@ describe("AnomalyDetector", () => {
         ewmaAlpha: 0,
         percentileThreshold: 0,
       })
-      rateDetector.check(0.10, 100)
-      const result = rateDetector.check(0.10, 500)
+      rateDetector.check(0.1, 100)
+      const result = rateDetector.check(0.1, 500)
       expect(result).not.toBeNull()
       expect(result!.type).toBe("token_rate_change")
     })
@@ -207,7 +211,7 @@ describe("AnomalyDetector", () => {
         minCostThreshold: 0.01,
         ignoreBelowCost: 0.01,
       })
-      rateDetector.check(0.10, 100)
+      rateDetector.check(0.1, 100)
       // 1.5x increase — below 3.0 threshold
       const result = rateDetector.check(0.15, 150)
       expect(result).toBeNull()
@@ -220,24 +224,24 @@ describe("AnomalyDetector", () => {
         ewmaAlpha: 0,
         percentileThreshold: 0,
       })
-      noRate.check(0.10, 100)
-      const result = noRate.check(5.00, 100)
+      noRate.check(0.1, 100)
+      const result = noRate.check(5.0, 100)
       expect(result).toBeNull()
     })
   })
 
   describe("severity levels", () => {
     it("assigns critical severity for extreme spikes", () => {
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
-      const result = detector.check(50.00, 50000)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
+      const result = detector.check(50.0, 50000)
       expect(result).not.toBeNull()
       expect(result!.severity).toBe("critical")
     })
 
     it("assigns warning severity for moderate spikes", () => {
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
       // A spike just above the threshold
-      const result = detector.check(0.80, 100)
+      const result = detector.check(0.8, 100)
       if (result) {
         expect(["warning", "critical"]).toContain(result.severity)
       }
@@ -246,7 +250,7 @@ describe("AnomalyDetector", () => {
 
   describe("reset and baselines", () => {
     it("reset clears all state", () => {
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
       detector.reset()
       const baselines = detector.getBaselines()
       expect(baselines.costEwma).toBeNull()
@@ -256,7 +260,7 @@ describe("AnomalyDetector", () => {
     })
 
     it("getBaselines returns current state", () => {
-      detector.check(0.10, 100)
+      detector.check(0.1, 100)
       const baselines = detector.getBaselines()
       expect(baselines.costEwma).not.toBeNull()
       expect(baselines.tokenEwma).not.toBeNull()
@@ -265,7 +269,7 @@ describe("AnomalyDetector", () => {
     })
 
     it("history does not exceed window size", () => {
-      for (let i = 0; i < 20; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 20; i++) detector.check(0.1, 100)
       const baselines = detector.getBaselines()
       expect(baselines.costHistory).toBe(10) // windowSize = 10
       expect(baselines.tokenHistory).toBe(10)
@@ -274,7 +278,7 @@ describe("AnomalyDetector", () => {
 
   describe("NaN/Infinity guards", () => {
     it("handles NaN input without crashing", () => {
-      for (let i = 0; i < 5; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 5; i++) detector.check(0.1, 100)
       // NaN should not crash or corrupt state
       const result = detector.check(NaN, NaN)
       // NaN cost is below minCostThreshold, NaN tokens is not > 0
@@ -285,7 +289,7 @@ describe("AnomalyDetector", () => {
     })
 
     it("handles Infinity input without crashing", () => {
-      for (let i = 0; i < 5; i++) detector.check(0.10, 100)
+      for (let i = 0; i < 5; i++) detector.check(0.1, 100)
       const result = detector.check(Infinity, Infinity)
       // Should not corrupt EWMA state
       const baselines = detector.getBaselines()
@@ -293,11 +297,205 @@ describe("AnomalyDetector", () => {
     })
   })
 
+  describe("keyed baselines", () => {
+    it("builds keys from the configured dimensions present in the context", () => {
+      expect(anomalyBaselineKey({ userId: "alice", model: "gpt-4o" })).toBe(
+        "user:alice|model:gpt-4o",
+      )
+      expect(anomalyBaselineKey({ userId: "alice", model: "gpt-4o" }, ["model"])).toBe(
+        "model:gpt-4o",
+      )
+      expect(anomalyBaselineKey({})).toBe("global")
+    })
+
+    it("compares a heavy user with their own spend once warmed up", () => {
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100, { userId: "light" })
+      // While the heavy user's baseline warms up, the global one flags them
+      const first = detector.check(1.0, 1000, { userId: "heavy" })
+      expect(first?.key).toBe("global")
+      for (let i = 0; i < 5; i++) detector.check(1.0, 1000, { userId: "heavy" })
+
+      expect(detector.check(1.0, 1000, { userId: "heavy" })).toBeNull()
+      expect(detector.getBaselines("user:heavy").costHistory).toBe(7)
+    })
+
+    it("flags a light user whose spend triples, tagged with their key", () => {
+      for (let i = 0; i < 10; i++) {
+        detector.check(1.0, 1000, { userId: "heavy" })
+        detector.check(0.1 + (i % 2) * 0.01, 100, { userId: "light" })
+      }
+      const result = detector.check(0.3, 250, { userId: "light" })
+      expect(result).not.toBeNull()
+      expect(result!.key).toBe("user:light")
+      expect(result!.context).toEqual({ userId: "light" })
+
+      // The same value is unremarkable against the global baseline
+      const global = new AnomalyDetector({
+        windowSize: 10,
+        sensitivity: 2.0,
+        ignoreBelowCost: 0.05,
+        baselineBy: [],
+      })
+      for (let i = 0; i < 10; i++) {
+        global.check(1.0, 1000, { userId: "heavy" })
+        global.check(0.1 + (i % 2) * 0.01, 100, { userId: "light" })
+      }
+      expect(global.check(0.3, 250, { userId: "light" })).toBeNull()
+    })
+
+    it("drops the least recently used baseline past maxBaselines", () => {
+      const lru = new AnomalyDetector({ maxBaselines: 2 })
+      lru.check(0.1, 100, { userId: "a" })
+      lru.check(0.1, 100, { userId: "b" })
+      lru.check(0.1, 100, { userId: "a" })
+      lru.check(0.1, 100, { userId: "c" })
+      expect(lru.getBaselineKeys()).toEqual(["user:a", "user:c"])
+    })
+  })
+
+  describe("seasonality", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    /** One Monday of traffic: quiet at 03:00, ramping up tenfold at 09:00 */
+    function mondayTraffic(d: AnomalyDetector, week: number) {
+      const monday = Date.UTC(2025, 2, 3 + 7 * week)
+      vi.setSystemTime(monday + 3 * 3_600_000)
+      for (let i = 0; i < 5; i++) d.check(0.1 + (i % 2) * 0.005, 0)
+      vi.setSystemTime(monday + 9 * 3_600_000)
+      return d.check(1.0, 0)
+    }
+
+    it("stops flagging a ramp-up that happens at the same hour every week", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const seasonal = new AnomalyDetector({
+        windowSize: 10,
+        sensitivity: 2.0,
+        ignoreBelowCost: 0.05,
+        seasonality: true,
+      })
+      const plain = new AnomalyDetector({ windowSize: 10, sensitivity: 2.0, ignoreBelowCost: 0.05 })
+
+      for (const d of [seasonal, plain]) {
+        mondayTraffic(d, 0)
+        for (let i = 0; i < 4; i++) d.check(1.0 + (i % 2) * 0.05, 0)
+      }
+
+      expect(mondayTraffic(plain, 1)?.detectionMethod).toBe("rate-of-change")
+      expect(mondayTraffic(seasonal, 1)).toBeNull()
+    })
+
+    it("flags values far above the same hour in earlier weeks", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const d = new AnomalyDetector({
+        windowSize: 10,
+        sensitivity: 2.0,
+        ignoreBelowCost: 0.05,
+        seasonality: { timeZone: "UTC" },
+      })
+      mondayTraffic(d, 0)
+      for (let i = 0; i < 4; i++) d.check(1.0 + (i % 2) * 0.05, 0)
+
+      vi.setSystemTime(Date.UTC(2025, 2, 10, 9, 30))
+      const result = d.check(5.0, 0)
+      expect(result?.detectionMethod).toBe("seasonal")
+      expect(result?.type).toBe("cost_seasonal")
+    })
+
+    it("rejects an unknown time zone", () => {
+      expect(() => new AnomalyDetector({ seasonality: { timeZone: "Mars/Olympus_Mons" } })).toThrow(
+        TokenShieldConfigError,
+      )
+    })
+  })
+
+  describe("warm-up", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("learns without reporting until the warm-up period has passed", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(Date.UTC(2025, 0, 15, 10))
+      const d = new AnomalyDetector({
+        windowSize: 10,
+        sensitivity: 2.0,
+        ignoreBelowCost: 0.05,
+        warmupMs: 60_000,
+      })
+      for (let i = 0; i < 10; i++) d.check(0.1, 100)
+      expect(d.check(5.0, 100)).toBeNull()
+
+      vi.setSystemTime(Date.UTC(2025, 0, 15, 10, 1))
+      expect(d.check(5.0, 100)).not.toBeNull()
+    })
+  })
+
+  describe("serialize / restore", () => {
+    it("round-trips every baseline through JSON", () => {
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100, { userId: "alice" })
+      const snapshot: AnomalySnapshot = JSON.parse(JSON.stringify(detector.serialize()))
+
+      const restored = new AnomalyDetector({
+        windowSize: 10,
+        sensitivity: 2.0,
+        ignoreBelowCost: 0.05,
+      })
+      restored.restore(snapshot)
+      expect(restored.getBaselines()).toEqual(detector.getBaselines())
+      expect(restored.getBaselines("user:alice")).toEqual(detector.getBaselines("user:alice"))
+      expect(restored.check(5.0, 100, { userId: "alice" })?.key).toBe("user:alice")
+    })
+
+    it("rejects snapshots from an unknown version", () => {
+      const snapshot = { ...detector.serialize(), version: 2 } as unknown as AnomalySnapshot
+      expect(() => detector.restore(snapshot)).toThrow(TokenShieldConfigError)
+    })
+
+    it("persists through a storage backend across instances", async () => {
+      const backend = createMemoryBackend()
+      const first = new AnomalyDetector({ backend })
+      expect(await first.hydrate()).toBe(0)
+      for (let i = 0; i < 10; i++) first.check(0.1, 100, { model: "gpt-4o" })
+      await first.save()
+
+      const second = new AnomalyDetector({ backend })
+      expect(await second.hydrate()).toBe(2)
+      expect(second.getBaselines("model:gpt-4o").costHistory).toBe(10)
+      expect(second.getBaselineKeys()).toEqual(["model:gpt-4o"])
+    })
+
+    it("saveIfHydrated() waits for an in-flight hydrate instead of overwriting", async () => {
+      const backend = createMemoryBackend()
+      const first = new AnomalyDetector({ backend })
+      for (let i = 0; i < 10; i++) first.check(0.1, 100, { model: "gpt-4o" })
+      await first.save()
+
+      const read = backend.get.bind(backend)
+      backend.get = async (key) => {
+        await new Promise((r) => setTimeout(r, 5))
+        return read(key)
+      }
+      const second = new AnomalyDetector({ backend })
+      await second.saveIfHydrated()
+      const hydrating = second.hydrate()
+      second.check(0.1, 100, { userId: "alice" })
+      await second.saveIfHydrated()
+      expect(await hydrating).toBe(2)
+
+      const third = new AnomalyDetector({ backend })
+      await third.hydrate()
+      expect(third.getBaselineKeys()).toEqual(["model:gpt-4o", "user:alice"])
+      expect(third.getBaselines("model:gpt-4o").costHistory).toBe(10)
+    })
+  })
+
   describe("returns most severe anomaly", () => {
     it("prefers critical over warning", () => {
       // Seed and then inject extreme spike that triggers multiple detectors
-      for (let i = 0; i < 10; i++) detector.check(0.10, 100)
-      const result = detector.check(100.00, 100000)
+      for (let i = 0; i < 10; i++) detector.check(0.1, 100)
+      const result = detector.check(100.0, 100000)
       expect(result).not.toBeNull()
       expect(result!.severity).toBe("critical")
     })
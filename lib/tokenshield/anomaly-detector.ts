@@ -7,11 +7,49 @@
  * 2. EWMA (Exponentially Weighted Moving Average): Adapts faster to recent trends
  * 3. Rate-of-change: Detects sudden acceleration in spending
  * 4. Percentile-based: Flags values above the Nth percentile of the window
+ * 5. Seasonal (opt-in): Compares with the same hour of the week in earlier weeks
  *
  * Adaptive thresholds: sensitivity automatically adjusts based on data variance.
  * High-variance workloads get more lenient thresholds; low-variance get stricter.
+ *
+ * Keyed baselines: each user/model/feature combination passed to check() gets
+ * its own history, so a heavy user is compared with their own spend rather
+ * than everyone's. Until a keyed baseline has enough samples the global one
+ * stands in. Keyed baselines are bounded by an LRU.
+ *
+ * Seasonality: traffic with daily and weekly patterns ramps up at the same
+ * hours every week. Once an hour-of-week has enough samples, its seasonal
+ * baseline decides on its own, so the morning ramp-up stops looking like a
+ * spike to detectors that only see the last few requests.
+ *
+ * Baselines can be serialized, restored and persisted through the storage
+ * adapter so they survive restarts.
  */
 
+import { get, set, createStore, type StorageBackend, type UseStore } from "./storage-adapter"
+import { hourOfWeek, isValidTimeZone } from "./budget-windows"
+import { TokenShieldConfigError } from "./errors"
+import { EncryptedStore, type EncryptionConfig } from "./crypto-store"
+
+/** Request attributes a baseline can be keyed by */
+export interface AnomalyContext {
+  userId?: string
+  model?: string
+  feature?: string
+}
+
+/** Which AnomalyContext attributes make up a baseline key */
+export type AnomalyDimension = "user" | "model" | "feature"
+
+export interface AnomalySeasonalityConfig {
+  /** IANA time zone whose wall clock defines the hours of the week (default: "UTC") */
+  timeZone?: string
+  /** Smoothing factor for each hour's mean and variance (default: 0.3) */
+  alpha?: number
+  /** Samples an hour needs before it is judged by its seasonal baseline (default: 3) */
+  minSamples?: number
+}
+
 export interface AnomalyConfig {
   /** Window size for moving average (default: 20) */
   windowSize?: number
@@ -44,24 +82,152 @@ export interface AnomalyConfig {
    * for high-variance workloads. Default: true.
    */
   adaptiveSensitivity?: boolean
+  /**
+   * Request attributes to key baselines by. Attributes missing from a
+   * check's context are left out of its key, so a check without context
+   * uses the global baseline.
+   * Default: ["user", "model", "feature"]. Set to [] for one global baseline.
+   */
+  baselineBy?: AnomalyDimension[]
+  /** Maximum keyed baselines kept in memory; the least recently used is dropped. Default: 1000 */
+  maxBaselines?: number
+  /** Hour-of-week seasonal baselines. Pass true for the defaults. Default: off */
+  seasonality?: boolean | AnomalySeasonalityConfig
+  /**
+   * Ms after the first observation during which baselines learn but no
+   * anomalies are reported. Restored baselines keep their start time.
+   * Default: 0
+   */
+  warmupMs?: number
+  /** Persist baselines (IndexedDB in browsers). Implied by `backend`. Default: false */
+  persist?: boolean
+  /** Server-side persistence backend; when set, baselines are stored here instead of IndexedDB */
+  backend?: StorageBackend
+  /** Encrypt persisted baselines with AES-GCM */
+  encryption?: EncryptionConfig
+  /** Called when saving or loading persisted baselines fails */
+  onStorageError?: (error: unknown) => void
 }
 
 export interface AnomalyEvent {
-  type: "cost_spike" | "token_spike" | "cost_rate_change" | "token_rate_change" | "cost_percentile" | "token_percentile"
+  type:
+    | "cost_spike"
+    | "token_spike"
+    | "cost_rate_change"
+    | "token_rate_change"
+    | "cost_percentile"
+    | "token_percentile"
+    | "cost_seasonal"
+    | "token_seasonal"
   value: number
   mean: number
   deviation: number
   zScore: number
   timestamp: number
   /** Which detection method flagged this anomaly */
-  detectionMethod: "z-score" | "ewma" | "rate-of-change" | "percentile"
+  detectionMethod: "z-score" | "ewma" | "rate-of-change" | "percentile" | "seasonal"
   /** Severity level based on how far the value deviates */
   severity: "warning" | "critical"
+  /** Baseline the value was compared with: "global" or e.g. "user:alice|model:gpt-4o" */
+  key: string
+  /** Request attributes passed to check(), if any */
+  context?: AnomalyContext
+}
+
+/** Key of the baseline shared by every request */
+export const GLOBAL_BASELINE_KEY = "global"
+
+const DEFAULT_BASELINE_BY: AnomalyDimension[] = ["user", "model", "feature"]
+
+const DIMENSION_FIELDS = { user: "userId", model: "model", feature: "feature" } as const
+
+/**
+ * The baseline key for a request's context: its attributes named in
+ * `baselineBy`, as "user:alice|model:gpt-4o", or "global" if none are set.
+ */
+export function anomalyBaselineKey(
+  context: AnomalyContext,
+  baselineBy: AnomalyDimension[] = DEFAULT_BASELINE_BY,
+): string {
+  const parts: string[] = []
+  for (const dimension of baselineBy) {
+    const value = context[DIMENSION_FIELDS[dimension]]
+    if (value) parts.push(`${dimension}:${value}`)
+  }
+  return parts.length > 0 ? parts.join("|") : GLOBAL_BASELINE_KEY
+}
+
+/** An anomaly before it is tagged with the baseline that flagged it */
+type Detection = Omit<AnomalyEvent, "key" | "context">
+
+/** Running mean and variance of one hour of the week */
+export interface SeasonalBucket {
+  mean: number
+  variance: number
+  count: number
+}
+
+/** Detection state for one baseline */
+export interface AnomalyBaseline {
+  costHistory: number[]
+  tokenHistory: number[]
+  // EWMA state
+  costEwma: number | null
+  costEwmaVar: number | null
+  tokenEwma: number | null
+  tokenEwmaVar: number | null
+  // Previous values for rate-of-change
+  prevCost: number | null
+  prevTokens: number | null
+  /** Seasonal buckets keyed by hour of the week (0-167) */
+  seasonal: { cost: Record<number, SeasonalBucket>; tokens: Record<number, SeasonalBucket> }
+}
+
+/** Serialized detector state, as produced by serialize() */
+export interface AnomalySnapshot {
+  version: 1
+  savedAt: number
+  /** When the detector first observed a value (start of the warm-up period) */
+  startedAt: number | null
+  global: AnomalyBaseline
+  /** Keyed baselines, least recently used first */
+  keyed: Array<[string, AnomalyBaseline]>
+}
+
+const SNAPSHOT_VERSION = 1
+/** Storage key for the persisted snapshot */
+const SNAPSHOT_KEY = "anomaly-baselines"
+/** Minimum ms between automatic saves */
+const SAVE_INTERVAL_MS = 60_000
+
+function emptyBaseline(): AnomalyBaseline {
+  return {
+    costHistory: [],
+    tokenHistory: [],
+    costEwma: null,
+    costEwmaVar: null,
+    tokenEwma: null,
+    tokenEwmaVar: null,
+    prevCost: null,
+    prevTokens: null,
+    seasonal: { cost: {}, tokens: {} },
+  }
+}
+
+function cloneBaseline(b: AnomalyBaseline): AnomalyBaseline {
+  return JSON.parse(JSON.stringify(b))
+}
+
+function hasObservations(b: AnomalyBaseline): boolean {
+  return b.costHistory.length > 0 || b.tokenHistory.length > 0
 }
 
 export class AnomalyDetector {
-  private costHistory: number[] = []
-  private tokenHistory: number[] = []
+  private global: AnomalyBaseline = emptyBaseline()
+  /** Keyed baselines, least recently used first */
+  private keyed = new Map<string, AnomalyBaseline>()
+  private baselineBy: AnomalyDimension[]
+  private maxBaselines: number
   private windowSize: number
   private sensitivity: number
   private minCostThreshold: number
@@ -70,67 +236,268 @@ export class AnomalyDetector {
   private rateOfChangeThreshold: number
   private percentileThreshold: number
   private adaptiveSensitivity: boolean
+  private seasonality: Required<AnomalySeasonalityConfig> | null
+  private warmupMs: number
+  private startedAt: number | null = null
 
-  // EWMA state
-  private costEwma: number | null = null
-  private costEwmaVar: number | null = null
-  private tokenEwma: number | null = null
-  private tokenEwmaVar: number | null = null
-
-  // Previous values for rate-of-change
-  private prevCost: number | null = null
-  private prevTokens: number | null = null
+  // Persistence
+  private store: UseStore | null = null
+  private hydrated = false
+  private hydrating: Promise<number> | null = null
+  private lastSavedAt = 0
+  private onStorageError?: (error: unknown) => void
 
   constructor(config: AnomalyConfig = {}) {
     this.windowSize = config.windowSize ?? 20
     this.sensitivity = config.sensitivity ?? 3.0
     this.minCostThreshold = config.minCostThreshold ?? 0.01
-    this.ignoreBelowCost = config.ignoreBelowCost ?? 0.10
+    this.ignoreBelowCost = config.ignoreBelowCost ?? 0.1
     this.ewmaAlpha = config.ewmaAlpha ?? 0.3
     this.rateOfChangeThreshold = config.rateOfChangeThreshold ?? 3.0
     this.percentileThreshold = config.percentileThreshold ?? 95
     this.adaptiveSensitivity = config.adaptiveSensitivity ?? true
+    this.baselineBy = config.baselineBy ?? DEFAULT_BASELINE_BY
+    this.maxBaselines = Math.max(1, config.maxBaselines ?? 1000)
+    this.warmupMs = config.warmupMs ?? 0
+
+    const seasonality = config.seasonality === true ? {} : config.seasonality || null
+    if (seasonality?.timeZone !== undefined && !isValidTimeZone(seasonality.timeZone)) {
+      throw new TokenShieldConfigError(
+        `Invalid time zone "${seasonality.timeZone}"`,
+        "seasonality.timeZone",
+      )
+    }
+    this.seasonality = seasonality
+      ? {
+          timeZone: seasonality.timeZone ?? "UTC",
+          alpha: seasonality.alpha ?? 0.3,
+          minSamples: seasonality.minSamples ?? 3,
+        }
+      : null
+
+    this.onStorageError = config.onStorageError
+    const { encryption } = config
+    if (encryption && encryption.mode !== "none") {
+      if (config.backend || (config.persist && typeof window !== "undefined")) {
+        try {
+          this.store = new EncryptedStore({
+            dbName: "tokenshield-anomaly",
+            storeName: "baselines",
+            encryption,
+            backend: config.backend,
+            onStorageError: config.onStorageError,
+          })
+        } catch {
+          // SSR or IDB unavailable
+        }
+      }
+    } else if (config.backend) {
+      this.store = config.backend
+    } else if (config.persist && typeof window !== "undefined") {
+      try {
+        this.store = createStore("tokenshield-anomaly", "baselines")
+      } catch {
+        // SSR or IDB unavailable
+      }
+    }
   }
 
   /**
    * Record a transaction and check for anomalies using all enabled detectors.
-   * Returns the most severe anomaly event if any are detected, null otherwise.
+   * With a `context`, the value is compared with the baseline for its key
+   * once that has enough samples, and with the global baseline until then.
+   * Both baselines learn from every transaction.
+   * Returns the most severe anomaly event if any are detected, null otherwise
+   * (always null during the warm-up period).
    */
-  check(cost: number, tokens: number): AnomalyEvent | null {
-    const anomalies: AnomalyEvent[] = []
+  check(cost: number, tokens: number, context?: AnomalyContext): AnomalyEvent | null {
+    const now = Date.now()
+    if (this.startedAt === null) this.startedAt = now
+    const hour = this.seasonality ? hourOfWeek(now, this.seasonality.timeZone) : null
+    const key = context ? anomalyBaselineKey(context, this.baselineBy) : GLOBAL_BASELINE_KEY
+
+    const globalAnomalies = this.checkBaseline(this.global, cost, tokens, hour)
+    let result: AnomalyEvent | null
+    if (key === GLOBAL_BASELINE_KEY) {
+      result = this.mostSevere(globalAnomalies, key, context)
+    } else {
+      const baseline = this.keyedBaseline(key)
+      const warm = this.hasEnoughSamples(baseline)
+      const keyedAnomalies = this.checkBaseline(baseline, cost, tokens, hour)
+      result = warm
+        ? this.mostSevere(keyedAnomalies, key, context)
+        : this.mostSevere(globalAnomalies, GLOBAL_BASELINE_KEY, context)
+    }
+
+    // Saving waits for hydrate() so a fresh process can't overwrite persisted baselines
+    if (this.store && this.hydrated && now - this.lastSavedAt >= SAVE_INTERVAL_MS) {
+      this.save().catch((err) => this.onStorageError?.(err))
+    }
+    return now - this.startedAt < this.warmupMs ? null : result
+  }
+
+  /** Snapshot of every baseline, for persistence or transfer to another process */
+  serialize(): AnomalySnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      startedAt: this.startedAt,
+      global: cloneBaseline(this.global),
+      keyed: [...this.keyed].map(([key, b]) => [key, cloneBaseline(b)]),
+    }
+  }
+
+  /** Replace all detection state with a snapshot from serialize() */
+  restore(snapshot: AnomalySnapshot): void {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new TokenShieldConfigError(
+        `Unsupported anomaly snapshot version ${snapshot?.version}`,
+        "version",
+      )
+    }
+    this.startedAt = snapshot.startedAt
+    this.global = cloneBaseline(snapshot.global)
+    this.keyed = new Map(
+      snapshot.keyed.slice(-this.maxBaselines).map(([key, b]) => [key, cloneBaseline(b)]),
+    )
+  }
+
+  /** Write the current snapshot to the persistence store (no-op without one) */
+  async save(): Promise<void> {
+    if (!this.store) return
+    this.lastSavedAt = Date.now()
+    await set(SNAPSHOT_KEY, this.serialize(), this.store)
+  }
+
+  /**
+   * Save once hydrate() has finished, e.g. on shutdown. Waits for an
+   * in-flight hydrate and skips the save if hydrate() never ran, so a
+   * fresh process can't overwrite persisted baselines.
+   */
+  async saveIfHydrated(): Promise<void> {
+    if (this.hydrating) await this.hydrating
+    if (this.hydrated) await this.save()
+  }
+
+  /**
+   * Load persisted baselines (for restart restore). Baselines learned
+   * before this resolves win over persisted ones for the same key.
+   * Enables automatic saves. Returns the number of baselines loaded.
+   */
+  async hydrate(): Promise<number> {
+    if (!this.store || this.hydrating) return 0
+    this.lastSavedAt = Date.now()
+    this.hydrating = this.loadSnapshot().finally(() => {
+      this.hydrated = true
+    })
+    return this.hydrating
+  }
+
+  /** Merge the persisted snapshot into the in-memory baselines */
+  private async loadSnapshot(): Promise<number> {
+    if (!this.store) return 0
+    try {
+      const snapshot = await get<AnomalySnapshot>(SNAPSHOT_KEY, this.store)
+      if (!snapshot || snapshot.version !== SNAPSHOT_VERSION) return 0
+
+      const learnedGlobal = this.global
+      const learned = this.keyed
+      const learnedSince = this.startedAt
+      this.restore(snapshot)
+      if (hasObservations(learnedGlobal)) this.global = learnedGlobal
+      for (const [key, b] of learned) {
+        this.keyed.delete(key)
+        this.keyed.set(key, b)
+      }
+      while (this.keyed.size > this.maxBaselines) {
+        this.keyed.delete(this.keyed.keys().next().value as string)
+      }
+      if (learnedSince !== null && (this.startedAt === null || learnedSince < this.startedAt)) {
+        this.startedAt = learnedSince
+      }
+      return snapshot.keyed.length + 1
+    } catch (err) {
+      this.onStorageError?.(err)
+      return 0
+    }
+  }
+
+  /** Get current EWMA baselines for monitoring dashboards (global by default) */
+  getBaselines(key: string = GLOBAL_BASELINE_KEY): {
+    costEwma: number | null
+    tokenEwma: number | null
+    costHistory: number
+    tokenHistory: number
+  } {
+    const baseline =
+      key === GLOBAL_BASELINE_KEY ? this.global : (this.keyed.get(key) ?? emptyBaseline())
+    return {
+      costEwma: baseline.costEwma,
+      tokenEwma: baseline.tokenEwma,
+      costHistory: baseline.costHistory.length,
+      tokenHistory: baseline.tokenHistory.length,
+    }
+  }
+
+  /** Keys of the keyed baselines in memory, least recently used first */
+  getBaselineKeys(): string[] {
+    return [...this.keyed.keys()]
+  }
+
+  /** Reset all detection state */
+  reset(): void {
+    this.global = emptyBaseline()
+    this.keyed.clear()
+    this.startedAt = null
+  }
+
+  // --- Private detection methods ---
+
+  /**
+   * Run every enabled detector against one baseline, then update it. With
+   * an `hour`, a warm seasonal bucket overrides the other detectors.
+   */
+  private checkBaseline(
+    b: AnomalyBaseline,
+    cost: number,
+    tokens: number,
+    hour: number | null,
+  ): Detection[] {
+    const anomalies: Detection[] = []
 
     // --- Cost anomaly detection ---
     if (cost >= this.minCostThreshold) {
+      const costStart = anomalies.length
       const costAnomaly = this.detectAnomaly(
         cost,
-        this.costHistory,
+        b.costHistory,
         "cost_spike",
         "cost_rate_change",
         "cost_percentile",
-        this.ignoreBelowCost
+        this.ignoreBelowCost,
       )
       if (costAnomaly) anomalies.push(costAnomaly)
 
       // EWMA detection for cost
       const ewmaCostAnomaly = this.checkEwma(
         cost,
-        this.costEwma,
-        this.costEwmaVar,
+        b.costEwma,
+        b.costEwmaVar,
         "cost_spike",
-        this.ignoreBelowCost
+        this.ignoreBelowCost,
       )
       if (ewmaCostAnomaly) anomalies.push(ewmaCostAnomaly)
 
       // Update EWMA state
-      const { ewma, ewmaVar } = this.updateEwma(cost, this.costEwma, this.costEwmaVar)
-      this.costEwma = ewma
-      this.costEwmaVar = ewmaVar
+      const { ewma, ewmaVar } = this.updateEwma(cost, b.costEwma, b.costEwmaVar)
+      b.costEwma = ewma
+      b.costEwmaVar = ewmaVar
 
       // Rate-of-change detection for cost
-      if (this.rateOfChangeThreshold > 0 && this.prevCost !== null && this.prevCost > 0) {
-        const ratio = cost / this.prevCost
+      if (this.rateOfChangeThreshold > 0 && b.prevCost !== null && b.prevCost > 0) {
+        const ratio = cost / b.prevCost
         if (ratio >= this.rateOfChangeThreshold && cost > this.ignoreBelowCost) {
-          const costStats = this.calculateStats(this.costHistory)
+          const costStats = this.calculateStats(b.costHistory)
           anomalies.push({
             type: "cost_rate_change",
             value: cost,
@@ -143,43 +510,50 @@ export class AnomalyDetector {
           })
         }
       }
-      this.prevCost = cost
-
-      this.updateHistory(this.costHistory, cost)
+      b.prevCost = cost
+
+      this.updateHistory(b.costHistory, cost)
+
+      if (hour !== null) {
+        const seasonal = this.checkSeasonal(
+          cost,
+          b.seasonal.cost,
+          hour,
+          "cost_seasonal",
+          this.ignoreBelowCost,
+        )
+        if (seasonal !== undefined)
+          anomalies.splice(costStart, anomalies.length - costStart, ...(seasonal ? [seasonal] : []))
+      }
     }
 
     // --- Token anomaly detection ---
     if (tokens > 0) {
+      const tokenStart = anomalies.length
       const tokenAnomaly = this.detectAnomaly(
         tokens,
-        this.tokenHistory,
+        b.tokenHistory,
         "token_spike",
         "token_rate_change",
         "token_percentile",
-        0
+        0,
       )
       if (tokenAnomaly) anomalies.push(tokenAnomaly)
 
       // EWMA detection for tokens
-      const ewmaTokenAnomaly = this.checkEwma(
-        tokens,
-        this.tokenEwma,
-        this.tokenEwmaVar,
-        "token_spike",
-        0
-      )
+      const ewmaTokenAnomaly = this.checkEwma(tokens, b.tokenEwma, b.tokenEwmaVar, "token_spike", 0)
       if (ewmaTokenAnomaly) anomalies.push(ewmaTokenAnomaly)
 
       // Update EWMA state
-      const { ewma, ewmaVar } = this.updateEwma(tokens, this.tokenEwma, this.tokenEwmaVar)
-      this.tokenEwma = ewma
-      this.tokenEwmaVar = ewmaVar
+      const { ewma, ewmaVar } = this.updateEwma(tokens, b.tokenEwma, b.tokenEwmaVar)
+      b.tokenEwma = ewma
+      b.tokenEwmaVar = ewmaVar
 
       // Rate-of-change detection for tokens
-      if (this.rateOfChangeThreshold > 0 && this.prevTokens !== null && this.prevTokens > 0) {
-        const ratio = tokens / this.prevTokens
+      if (this.rateOfChangeThreshold > 0 && b.prevTokens !== null && b.prevTokens > 0) {
+        const ratio = tokens / b.prevTokens
         if (ratio >= this.rateOfChangeThreshold) {
-          const tokenStats = this.calculateStats(this.tokenHistory)
+          const tokenStats = this.calculateStats(b.tokenHistory)
           anomalies.push({
             type: "token_rate_change",
             value: tokens,
@@ -192,51 +566,68 @@ export class AnomalyDetector {
           })
         }
       }
-      this.prevTokens = tokens
-
-      this.updateHistory(this.tokenHistory, tokens)
+      b.prevTokens = tokens
+
+      this.updateHistory(b.tokenHistory, tokens)
+
+      if (hour !== null) {
+        const seasonal = this.checkSeasonal(tokens, b.seasonal.tokens, hour, "token_seasonal", 0)
+        if (seasonal !== undefined)
+          anomalies.splice(
+            tokenStart,
+            anomalies.length - tokenStart,
+            ...(seasonal ? [seasonal] : []),
+          )
+      }
     }
 
-    // Return the most severe anomaly (critical > warning, higher z-score wins)
+    return anomalies
+  }
+
+  /** Return the most severe anomaly (critical > warning, higher z-score wins), tagged with its baseline */
+  private mostSevere(
+    anomalies: Detection[],
+    key: string,
+    context: AnomalyContext | undefined,
+  ): AnomalyEvent | null {
     if (anomalies.length === 0) return null
-    return anomalies.sort((a, b) => {
+    const worst = anomalies.sort((a, b) => {
       if (a.severity !== b.severity) return a.severity === "critical" ? -1 : 1
       return b.zScore - a.zScore
     })[0]
+    return context ? { ...worst, key, context } : { ...worst, key }
   }
 
-  /** Get current EWMA baselines for monitoring dashboards */
-  getBaselines(): { costEwma: number | null; tokenEwma: number | null; costHistory: number; tokenHistory: number } {
-    return {
-      costEwma: this.costEwma,
-      tokenEwma: this.tokenEwma,
-      costHistory: this.costHistory.length,
-      tokenHistory: this.tokenHistory.length,
+  /** Look up (or create) a keyed baseline and mark it most recently used */
+  private keyedBaseline(key: string): AnomalyBaseline {
+    let baseline = this.keyed.get(key)
+    if (baseline) {
+      this.keyed.delete(key)
+    } else {
+      baseline = emptyBaseline()
+      if (this.keyed.size >= this.maxBaselines) {
+        const oldest = this.keyed.keys().next().value
+        if (oldest !== undefined) this.keyed.delete(oldest)
+      }
     }
+    this.keyed.set(key, baseline)
+    return baseline
   }
 
-  /** Reset all detection state */
-  reset(): void {
-    this.costHistory = []
-    this.tokenHistory = []
-    this.costEwma = null
-    this.costEwmaVar = null
-    this.tokenEwma = null
-    this.tokenEwmaVar = null
-    this.prevCost = null
-    this.prevTokens = null
+  /** Whether a baseline has enough history for the statistical detectors */
+  private hasEnoughSamples(b: AnomalyBaseline): boolean {
+    const minSamples = Math.min(5, this.windowSize)
+    return b.costHistory.length >= minSamples || b.tokenHistory.length >= minSamples
   }
 
-  // --- Private detection methods ---
-
   private detectAnomaly(
     value: number,
     history: number[],
     spikeType: AnomalyEvent["type"],
     _rateType: AnomalyEvent["type"],
     percentileType: AnomalyEvent["type"],
-    minAbsoluteValue: number
-  ): AnomalyEvent | null {
+    minAbsoluteValue: number,
+  ): Detection | null {
     const stats = this.calculateStats(history)
     const minSamples = Math.min(5, this.windowSize)
 
@@ -288,8 +679,8 @@ export class AnomalyDetector {
     ewma: number | null,
     ewmaVar: number | null,
     spikeType: AnomalyEvent["type"],
-    minAbsoluteValue: number
-  ): AnomalyEvent | null {
+    minAbsoluteValue: number,
+  ): Detection | null {
     if (this.ewmaAlpha <= 0 || ewma === null || ewmaVar === null) return null
 
     const ewmaStdDev = Math.sqrt(ewmaVar)
@@ -314,14 +705,64 @@ export class AnomalyDetector {
     return null
   }
 
-  private updateEwma(value: number, currentEwma: number | null, currentVar: number | null): { ewma: number; ewmaVar: number } {
+  /**
+   * Compare a value with its hour-of-week bucket, then fold it in. Returns
+   * undefined while the bucket has too few samples (or no spread) to judge,
+   * leaving the verdict to the other detectors.
+   */
+  private checkSeasonal(
+    value: number,
+    buckets: Record<number, SeasonalBucket>,
+    hour: number,
+    type: AnomalyEvent["type"],
+    minAbsoluteValue: number,
+  ): Detection | null | undefined {
+    const { alpha, minSamples } = this.seasonality!
+    const bucket = buckets[hour] as SeasonalBucket | undefined
+    let result: Detection | null | undefined
+    const stdDev = bucket ? Math.sqrt(bucket.variance) : 0
+    // A bucket with no spread yet can't tell a spike from noise
+    if (bucket && bucket.count >= minSamples && stdDev > 0 && isFinite(stdDev)) {
+      result = null
+      const zScore = (value - bucket.mean) / stdDev
+      if (zScore > this.sensitivity && value > minAbsoluteValue) {
+        result = {
+          type,
+          value,
+          mean: bucket.mean,
+          deviation: stdDev,
+          zScore,
+          timestamp: Date.now(),
+          detectionMethod: "seasonal",
+          severity: zScore > this.sensitivity * 1.5 ? "critical" : "warning",
+        }
+      }
+    }
+
+    if (isFinite(value)) {
+      const { ewma, ewmaVar } = this.updateEwma(
+        value,
+        bucket?.mean ?? null,
+        bucket?.variance ?? null,
+        alpha,
+      )
+      buckets[hour] = { mean: ewma, variance: ewmaVar, count: (bucket?.count ?? 0) + 1 }
+    }
+    return result
+  }
+
+  private updateEwma(
+    value: number,
+    currentEwma: number | null,
+    currentVar: number | null,
+    alpha = this.ewmaAlpha,
+  ): { ewma: number; ewmaVar: number } {
     if (!isFinite(value)) return { ewma: currentEwma ?? 0, ewmaVar: currentVar ?? 0 }
 
     if (currentEwma === null || currentVar === null) {
       return { ewma: value, ewmaVar: 0 }
     }
 
-    const alpha = this.ewmaAlpha
     const newEwma = alpha * value + (1 - alpha) * currentEwma
     const diff = value - currentEwma
     const newVar = (1 - alpha) * (currentVar + alpha * diff * diff)
@@ -11,10 +11,11 @@
  * - Structured: machine-parseable JSON entries with consistent schema
  * - Exportable: JSON/CSV export for compliance reporting
  * - Configurable: filter by event type, severity, or module
- * - Persistent: optional IndexedDB persistence via storage-adapter
+ * - Persistent: optional IndexedDB (or pluggable server backend) persistence via storage-adapter
  */
 
-import { get, set } from "./storage-adapter"
+import { get, set, type StorageBackend } from "./storage-adapter"
+import { EncryptedStore, type EncryptionConfig } from "./crypto-store"
 
 export type AuditEventType =
   | "api_call"
@@ -31,6 +32,11 @@ export type AuditEventType =
   | "export_requested"
   | "compressor_applied"
   | "delta_applied"
+  | "traffic_paused"
+  | "traffic_resumed"
+  | "override_granted"
+  | "anomaly_action_applied"
+  | "anomaly_action_expired"
 
 export type AuditSeverity = "info" | "warn" | "error" | "critical"
 
@@ -77,6 +83,13 @@ export interface AuditLogConfig {
    * Without this callback, persistence errors are silently ignored.
    */
   onPersistError?: (error: unknown) => void
+  /** Server-side persistence backend. Implies `persist: true` unless set explicitly. */
+  backend?: StorageBackend
+  /**
+   * Encrypt the persisted log with AES-GCM. A plaintext log is read normally
+   * and re-written encrypted on hydrate.
+   */
+  encryption?: EncryptionConfig
 }
 
 const SEVERITY_RANK: Record<AuditSeverity, number> = {
@@ -86,7 +99,7 @@ const SEVERITY_RANK: Record<AuditSeverity, number> = {
   critical: 3,
 }
 
-const DEFAULT_CONFIG: Required<AuditLogConfig> = {
+const DEFAULT_CONFIG: Required<Omit<AuditLogConfig, "backend" | "encryption">> = {
   maxEntries: 50_000,
   eventTypes: [],
   minSeverity: "info",
@@ -161,7 +174,10 @@ export class AuditLog {
   private entries: AuditEntry[] = []
   private seq = 0
   private lastHash = "genesis"
-  private config: Required<AuditLogConfig>
+  private config: Required<Omit<AuditLogConfig, "backend" | "encryption">> &
+    Pick<AuditLogConfig, "backend" | "encryption">
+  /** Where entries persist: the backend, an encrypting wrapper, or the default IDB store */
+  private store: StorageBackend | undefined
   private persistTimer: ReturnType<typeof setTimeout> | null = null
   /** True when entries have been pruned — first entry's prevHash won't match "genesis" */
   private pruned = false
@@ -171,7 +187,23 @@ export class AuditLog {
   private _integrityCacheSeq = -1
 
   constructor(config: AuditLogConfig = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      persist: config.persist ?? config.backend !== undefined,
+    }
+    const { encryption } = config
+    this.store =
+      encryption && encryption.mode !== "none"
+        ? new EncryptedStore({
+            // idb-keyval's default database, where unencrypted logs are kept
+            dbName: "keyval-store",
+            storeName: "keyval",
+            encryption,
+            backend: config.backend,
+            onStorageError: (err) => this.config.onPersistError(err),
+          })
+        : config.backend
   }
 
   /**
@@ -314,6 +346,33 @@ export class AuditLog {
     )
   }
 
+  logAnomalyActionApplied(
+    action: string,
+    target: string | undefined,
+    expiresAt: number,
+    userId?: string,
+  ): AuditEntry {
+    return this.record(
+      "anomaly_action_applied",
+      "warn",
+      "anomaly-detector",
+      `Anomaly action ${action} applied (${target ?? "all"}) until ${new Date(expiresAt).toISOString()}`,
+      { action, target, expiresAt },
+      userId,
+    )
+  }
+
+  logAnomalyActionExpired(action: string, target: string | undefined, userId?: string): AuditEntry {
+    return this.record(
+      "anomaly_action_expired",
+      "info",
+      "anomaly-detector",
+      `Anomaly action ${action} expired (${target ?? "all"})`,
+      { action, target },
+      userId,
+    )
+  }
+
   logModelRouted(fromModel: string, toModel: string, reason: string, userId?: string): AuditEntry {
     return this.record(
       "model_routed",
@@ -369,6 +428,41 @@ export class AuditLog {
     return this.record("breaker_reset", "info", "circuit-breaker", `Breaker reset: ${limitType}`, { limitType })
   }
 
+  logTrafficPaused(reason: string, scope?: string, until?: number): AuditEntry {
+    return this.record(
+      "traffic_paused",
+      "critical",
+      "shield-control",
+      `Traffic paused (${scope ?? "all"}): ${reason}`,
+      { reason, scope, until },
+    )
+  }
+
+  logTrafficResumed(reason: string, scope?: string, pausedMs?: number): AuditEntry {
+    return this.record(
+      "traffic_resumed",
+      "info",
+      "shield-control",
+      `Traffic resumed (${scope ?? "all"})`,
+      {
+        reason,
+        scope,
+        pausedMs,
+      },
+    )
+  }
+
+  logOverrideGranted(userId: string, amount: number, expiresAt: number): AuditEntry {
+    return this.record(
+      "override_granted",
+      "warn",
+      "shield-control",
+      `Budget override granted to ${userId}: $${amount.toFixed(2)} until ${new Date(expiresAt).toISOString()}`,
+      { userId, amount, expiresAt },
+      userId,
+    )
+  }
+
   logLicenseActivated(tier: string, holder: string): AuditEntry {
     return this.record("license_activated", "info", "license", `License activated: ${tier} tier for ${holder}`, {
       tier,
@@ -522,7 +616,7 @@ export class AuditLog {
   async hydrate(): Promise<number> {
     if (!this.config.persist) return 0
     try {
-      const stored = await get<AuditEntry[]>(this.config.storageKey)
+      const stored = await get<AuditEntry[]>(this.config.storageKey, this.store)
       if (stored && Array.isArray(stored)) {
         this.entries = stored
         this._integrityCache = null
@@ -564,7 +658,7 @@ export class AuditLog {
     }
     if (this.config.persist) {
       try {
-        await set(this.config.storageKey, [])
+        await set(this.config.storageKey, [], this.store)
       } catch (err) {
         this.config.onPersistError(err)
       }
@@ -595,7 +689,7 @@ export class AuditLog {
   }
 
   private persistAsync(): void {
-    set(this.config.storageKey, this.entries).catch((err) => {
+    set(this.config.storageKey, this.entries, this.store).catch((err) => {
       this.config.onPersistError(err)
     })
   }
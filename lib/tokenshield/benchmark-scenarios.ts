@@ -276,6 +276,32 @@ export async function runAllBenchmarks(): Promise<BenchmarkResult[]> {
     }),
   )
 
+  // Fuzzy lookup at 10k entries: linear bigram scan vs. MinHash LSH candidates
+  const fuzzyPool = generateWords(49).split(" ")
+  const fuzzyPrompt = (i: number) =>
+    Array.from({ length: 12 }, (_, j) => fuzzyPool[(i * 13 + j * ((i % 11) + 1)) % 49]).join(" ") +
+    ` ref ${i}`
+  for (const encodingStrategy of ["bigram", "minhash"] as const) {
+    const largeCache = new ResponseCache({
+      maxEntries: 10_000,
+      ttlMs: 3600000,
+      similarityThreshold: 0.85,
+      encodingStrategy,
+    })
+    for (let i = 0; i < 10_000; i++) {
+      await largeCache.store(fuzzyPrompt(i), `response ${i}`, "gpt-4o", 50, 30)
+    }
+    results.push(
+      await benchAsync(
+        `cache fuzzy lookup, 10k entries (${encodingStrategy})`,
+        async () => {
+          await largeCache.lookup(fuzzyPrompt(4242) + " thanks", "gpt-4o")
+        },
+        50,
+      ),
+    )
+  }
+
   // ==========================================================
   // 5. Context Fitting
   // ==========================================================
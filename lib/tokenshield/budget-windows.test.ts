@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest"
+import {
+  billingAnchorDay,
+  hourOfWeek,
+  isValidTimeZone,
+  previousWindowStart,
+  retentionCutoff,
+  validateWindowConfig,
+  windowResetsAt,
+  windowStart,
+  ONE_DAY_MS,
+  ONE_HOUR_MS,
+  THIRTY_DAYS_MS,
+} from "./budget-windows"
+import { TokenShieldConfigError } from "./errors"
+
+const at = (iso: string) => new Date(iso).getTime()
+
+describe("rolling windows", () => {
+  const now = at("2025-03-10T15:30:00Z")
+
+  it("measure back from now", () => {
+    expect(windowStart("hour", now, {})).toBe(now - ONE_HOUR_MS)
+    expect(windowStart("day", now, {})).toBe(now - ONE_DAY_MS)
+    expect(windowStart("month", now, { windowMode: "rolling" })).toBe(now - THIRTY_DAYS_MS)
+  })
+
+  it("reset when the oldest counted record ages out", () => {
+    const oldest = now - 2 * ONE_HOUR_MS
+    expect(windowResetsAt("day", now, {}, oldest)).toBe(oldest + ONE_DAY_MS)
+    expect(windowResetsAt("day", now, {}, null)).toBeNull()
+  })
+})
+
+describe("calendar windows", () => {
+  const utc = { windowMode: "calendar" as const }
+
+  it("align to the clock hour and UTC midnight by default", () => {
+    const now = at("2025-03-10T15:30:00Z")
+    expect(windowStart("hour", now, utc)).toBe(at("2025-03-10T15:00:00Z"))
+    expect(windowResetsAt("hour", now, utc, null)).toBe(at("2025-03-10T16:00:00Z"))
+    expect(windowStart("day", now, utc)).toBe(at("2025-03-10T00:00:00Z"))
+    expect(windowResetsAt("day", now, utc, null)).toBe(at("2025-03-11T00:00:00Z"))
+    expect(windowStart("month", now, utc)).toBe(at("2025-03-01T00:00:00Z"))
+    expect(windowResetsAt("month", now, utc, null)).toBe(at("2025-04-01T00:00:00Z"))
+  })
+
+  it("use local midnight in the configured time zone", () => {
+    const tokyo = { windowMode: "calendar" as const, timeZone: "Asia/Tokyo" }
+    // 23:30 UTC on the 10th is 08:30 on the 11th in Tokyo (UTC+9)
+    const now = at("2025-03-10T23:30:00Z")
+    expect(windowStart("day", now, tokyo)).toBe(at("2025-03-10T15:00:00Z"))
+    expect(windowResetsAt("day", now, tokyo, null)).toBe(at("2025-03-11T15:00:00Z"))
+  })
+
+  it("follow DST transitions", () => {
+    const ny = { windowMode: "calendar" as const, timeZone: "America/New_York" }
+    // 2025-03-09 is the spring-forward day in New York: 23 hours long
+    const now = at("2025-03-09T12:00:00Z")
+    const start = windowStart("day", now, ny)
+    expect(start).toBe(at("2025-03-09T05:00:00Z"))
+    expect(windowResetsAt("day", now, ny, null)! - start).toBe(23 * ONE_HOUR_MS)
+  })
+
+  it("start months on monthStartDay", () => {
+    const billing = { windowMode: "calendar" as const, monthStartDay: 15 }
+    expect(windowStart("month", at("2025-03-20T00:00:00Z"), billing)).toBe(
+      at("2025-03-15T00:00:00Z"),
+    )
+    // Before the 15th the window began in the previous month, across a year boundary
+    expect(windowStart("month", at("2025-01-05T00:00:00Z"), billing)).toBe(
+      at("2024-12-15T00:00:00Z"),
+    )
+    expect(windowResetsAt("month", at("2025-01-05T00:00:00Z"), billing, null)).toBe(
+      at("2025-01-15T00:00:00Z"),
+    )
+  })
+
+  it("keep records for a full 31-day calendar month", () => {
+    const now = at("2025-01-31T12:00:00Z")
+    expect(retentionCutoff(now, utc)).toBe(at("2025-01-01T00:00:00Z"))
+    expect(retentionCutoff(now, {})).toBe(now - THIRTY_DAYS_MS)
+  })
+})
+
+describe("previousWindowStart", () => {
+  const now = at("2025-03-10T15:30:00Z")
+
+  it("is the span before the current rolling window", () => {
+    expect(previousWindowStart("day", now, {})).toBe(now - 2 * ONE_DAY_MS)
+  })
+
+  it("is the start of the previous calendar period", () => {
+    const calendar = { windowMode: "calendar" as const, monthStartDay: 15 }
+    expect(previousWindowStart("day", now, calendar)).toBe(at("2025-03-09T00:00:00Z"))
+    expect(previousWindowStart("month", now, calendar)).toBe(at("2025-01-15T00:00:00Z"))
+  })
+})
+
+describe("billingAnchorDay", () => {
+  it("takes plain dates as written and timestamps in the time zone", () => {
+    expect(billingAnchorDay("2025-03-15", "America/Los_Angeles")).toBe(15)
+    // 02:00 UTC on the 15th is still the 14th in Los Angeles
+    expect(billingAnchorDay(at("2025-03-15T02:00:00Z"), "America/Los_Angeles")).toBe(14)
+  })
+
+  it("starts months anchored on the 29th-31st on the 28th", () => {
+    expect(billingAnchorDay("2025-01-31")).toBe(28)
+  })
+
+  it("rejects dates it cannot parse", () => {
+    expect(() => billingAnchorDay("someday")).toThrow(TokenShieldConfigError)
+  })
+})
+
+describe("hourOfWeek", () => {
+  it("counts hours from Sunday midnight on the local wall clock", () => {
+    // Monday 2025-03-10 15:30 UTC is 11:30 in New York
+    expect(hourOfWeek(at("2025-03-10T15:30:00Z"))).toBe(24 + 15)
+    expect(hourOfWeek(at("2025-03-10T15:30:00Z"), "America/New_York")).toBe(24 + 11)
+    // Sunday 02:00 UTC is still Saturday evening in New York
+    expect(hourOfWeek(at("2025-03-09T02:00:00Z"), "America/New_York")).toBe(6 * 24 + 21)
+  })
+})
+
+describe("validateWindowConfig", () => {
+  it("accepts valid zones and month-start days", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true)
+    expect(() => validateWindowConfig({ timeZone: "UTC", monthStartDay: 28 })).not.toThrow()
+  })
+
+  it("rejects unknown zones and out-of-range month-start days", () => {
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false)
+    expect(() => validateWindowConfig({ timeZone: "Mars/Olympus" })).toThrow(TokenShieldConfigError)
+    expect(() => validateWindowConfig({ monthStartDay: 29 })).toThrow(TokenShieldConfigError)
+    expect(() => validateWindowConfig({ monthStartDay: 1.5 })).toThrow(TokenShieldConfigError)
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * TokenShield - Budget Windows
+ *
+ * Time-window arithmetic shared by the circuit breaker and per-user budgets.
+ *
+ * - "rolling" (default): the last 1h / 24h / 30 days, measured back from
+ *   now. Spend drops out gradually as records age past the window.
+ * - "calendar": the current clock hour, calendar day and billing month in
+ *   an IANA time zone. Spend resets all at once at the boundary, e.g. at
+ *   local midnight or on the configured month-start day.
+ *
+ * Calendar boundaries are resolved with Intl.DateTimeFormat, so they follow
+ * the zone's DST rules without a timezone database dependency.
+ */
+
+import { TokenShieldConfigError } from "./errors"
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type WindowMode = "rolling" | "calendar"
+
+export type BudgetPeriod = "hour" | "day" | "month"
+
+export interface BudgetWindowConfig {
+  /** How spend windows are measured (default: "rolling") */
+  windowMode?: WindowMode
+  /** IANA time zone for calendar windows, e.g. "America/New_York" (default: "UTC") */
+  timeZone?: string
+  /** Day of the month (1-28) on which calendar months start (default: 1) */
+  monthStartDay?: number
+}
+
+// -------------------------------------------------------
+// Constants
+// -------------------------------------------------------
+
+export const ONE_HOUR_MS = 60 * 60 * 1000
+export const ONE_DAY_MS = 24 * 60 * 60 * 1000
+export const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
+
+const ROLLING_DURATION: Record<BudgetPeriod, number> = {
+  hour: ONE_HOUR_MS,
+  day: ONE_DAY_MS,
+  month: THIRTY_DAYS_MS,
+}
+
+// -------------------------------------------------------
+// Validation
+// -------------------------------------------------------
+
+/** Whether `timeZone` is an IANA zone name this runtime recognises. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a window config up front so a typo in the time zone fails at
+ * construction rather than on the first budget check.
+ */
+export function validateWindowConfig(config: BudgetWindowConfig): void {
+  if (config.timeZone !== undefined && !isValidTimeZone(config.timeZone)) {
+    throw new TokenShieldConfigError(`Unknown time zone "${config.timeZone}"`, "timeZone")
+  }
+  const day = config.monthStartDay
+  if (day !== undefined && (!Number.isInteger(day) || day < 1 || day > 28)) {
+    throw new TokenShieldConfigError(
+      `monthStartDay must be an integer from 1 to 28, got ${day}`,
+      "monthStartDay",
+    )
+  }
+}
+
+// -------------------------------------------------------
+// Zoned calendar arithmetic
+// -------------------------------------------------------
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone)
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    formatters.set(timeZone, fmt)
+  }
+  return fmt
+}
+
+/** Wall-clock fields of `timestamp` in `timeZone` (month is 1-based). */
+function zonedParts(timestamp: number, timeZone: string): ZonedParts & { offsetMs: number } {
+  const fields: Record<string, number> = {}
+  for (const part of formatterFor(timeZone).formatToParts(timestamp)) {
+    if (part.type !== "literal") fields[part.type] = Number(part.value)
+  }
+  const wallClock = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+  )
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    offsetMs: wallClock - Math.floor(timestamp / 1000) * 1000,
+  }
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads the given local
+ * time. Out-of-range fields roll over (day 32 → next month). A local time
+ * skipped by a DST jump resolves to the first instant after the gap.
+ */
+function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour)
+  // Two passes converge on the offset in effect at the target instant
+  let guess = wallClock - zonedParts(wallClock, timeZone).offsetMs
+  guess = wallClock - zonedParts(guess, timeZone).offsetMs
+  return guess
+}
+
+/** [start, end) of the calendar period containing `now`. */
+function calendarBounds(
+  period: BudgetPeriod,
+  now: number,
+  timeZone: string,
+  monthStartDay: number,
+): [number, number] {
+  const { year, month, day, hour } = zonedParts(now, timeZone)
+  if (period === "hour") {
+    return [
+      zonedTimeToUtc(timeZone, year, month, day, hour),
+      zonedTimeToUtc(timeZone, year, month, day, hour + 1),
+    ]
+  }
+  if (period === "day") {
+    return [
+      zonedTimeToUtc(timeZone, year, month, day),
+      zonedTimeToUtc(timeZone, year, month, day + 1),
+    ]
+  }
+  const startMonth = day >= monthStartDay ? month : month - 1
+  return [
+    zonedTimeToUtc(timeZone, year, startMonth, monthStartDay),
+    zonedTimeToUtc(timeZone, year, startMonth + 1, monthStartDay),
+  ]
+}
+
+// -------------------------------------------------------
+// Public API
+// -------------------------------------------------------
+
+/** First timestamp that counts toward `period` at time `now`. */
+export function windowStart(period: BudgetPeriod, now: number, config: BudgetWindowConfig): number {
+  if (config.windowMode !== "calendar") return now - ROLLING_DURATION[period]
+  return calendarBounds(period, now, config.timeZone ?? "UTC", config.monthStartDay ?? 1)[0]
+}
+
+/**
+ * First timestamp of the window before the one containing `now`: the
+ * previous calendar period, or the rolling span before the current one.
+ */
+export function previousWindowStart(
+  period: BudgetPeriod,
+  now: number,
+  config: BudgetWindowConfig,
+): number {
+  if (config.windowMode !== "calendar") return now - 2 * ROLLING_DURATION[period]
+  return windowStart(period, windowStart(period, now, config) - 1, config)
+}
+
+/**
+ * Day of the month a billing anchor falls on in `timeZone`, for use as a
+ * calendar `monthStartDay`. Plain dates ("2025-03-15") are taken as
+ * written; anchors on the 29th-31st start their months on the 28th.
+ */
+export function billingAnchorDay(anchor: number | string, timeZone = "UTC"): number {
+  const plainDate = typeof anchor === "string" ? /^\d{4}-\d{2}-(\d{2})$/.exec(anchor) : null
+  const timestamp = typeof anchor === "number" ? anchor : Date.parse(anchor)
+  if (!Number.isFinite(timestamp)) {
+    throw new TokenShieldConfigError(`Invalid billing anchor "${anchor}"`, "billingAnchor")
+  }
+  const day = plainDate ? Number(plainDate[1]) : zonedParts(timestamp, timeZone).day
+  return Math.min(day, 28)
+}
+
+/**
+ * Hour of the week `timestamp` falls in on the wall clock in `timeZone`,
+ * from 0 (Sunday 00:00-00:59) to 167 (Saturday 23:00-23:59).
+ */
+export function hourOfWeek(timestamp: number, timeZone = "UTC"): number {
+  const { year, month, day, hour } = zonedParts(timestamp, timeZone)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() * 24 + hour
+}
+
+/**
+ * When spend in `period` resets. Calendar windows reset at the next
+ * boundary. Rolling windows reset when `oldestCounted`, the oldest record
+ * inside the window, ages out; with nothing counted there is no reset
+ * pending (null).
+ */
+export function windowResetsAt(
+  period: BudgetPeriod,
+  now: number,
+  config: BudgetWindowConfig,
+  oldestCounted: number | null,
+): number | null {
+  if (config.windowMode === "calendar") {
+    return calendarBounds(period, now, config.timeZone ?? "UTC", config.monthStartDay ?? 1)[1]
+  }
+  return oldestCounted === null ? null : oldestCounted + ROLLING_DURATION[period]
+}
+
+/**
+ * Records older than this can no longer count toward any monthly window
+ * and may be pruned. Calendar months can run to 31 days, so the cutoff is
+ * the earlier of the rolling 30 days and the current month's start.
+ */
+export function retentionCutoff(now: number, config: BudgetWindowConfig): number {
+  return Math.min(now - THIRTY_DAYS_MS, windowStart("month", now, config))
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  compressText,
+  decompressText,
+  jsonByteSize,
+  lzwCompress,
+  lzwDecompress,
+  utf8Length,
+} from "./cache-compression"
+
+describe("cache-compression", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("measures UTF-8 length including multi-byte characters", () => {
+    expect(utf8Length("abc")).toBe(3)
+    expect(utf8Length("é")).toBe(2)
+    expect(utf8Length("€")).toBe(3)
+    expect(utf8Length("😀")).toBe(4)
+    expect(jsonByteSize({ a: "é" })).toBe(10)
+  })
+
+  it("round-trips text through the LZW coder", () => {
+    const samples = [
+      "",
+      "a",
+      "TOBEORNOTTOBEORTOBEORNOT",
+      "￿ literal marker ￿￿",
+      "😀 emoji 😀 emoji 😀",
+      "repeat ".repeat(2000),
+    ]
+    for (const text of samples) {
+      expect(lzwDecompress(lzwCompress(text))).toBe(text)
+    }
+    expect(lzwCompress("repeat ".repeat(2000)).length).toBeLessThan(1000)
+  })
+
+  it("keeps working after the LZW dictionary fills up", () => {
+    let text = ""
+    for (let i = 0; i < 150_000; i++) text += String.fromCharCode(32 + ((i * 7919) % 5000))
+    expect(lzwDecompress(lzwCompress(text))).toBe(text)
+  })
+
+  it("uses gzip when CompressionStream is available", async () => {
+    const text = "The quick brown fox. ".repeat(200)
+    const compressed = await compressText(text)
+    expect(compressed.codec).toBe("gzip")
+    expect(compressed.data.length).toBeLessThan(text.length / 4)
+    expect(await decompressText(compressed)).toBe(text)
+  })
+
+  it("falls back to LZW without CompressionStream", async () => {
+    vi.stubGlobal("CompressionStream", undefined)
+    const text = "The quick brown fox. ".repeat(200)
+    const compressed = await compressText(text)
+    expect(compressed.codec).toBe("lzw")
+    expect(await decompressText(compressed)).toBe(text)
+  })
+})
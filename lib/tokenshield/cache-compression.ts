@@ -0,0 +1,144 @@
+/**
+ * TokenShield - Cache Compression
+ *
+ * Compresses large cached responses before they are persisted so long
+ * answers don't exhaust IndexedDB quota. Uses the platform's gzip
+ * CompressionStream when available (browsers, Node 18+, edge runtimes) and
+ * a small pure-JS LZW coder elsewhere. Both encodings are plain strings so
+ * they survive JSON-based storage backends.
+ */
+
+export type CompressionCodec = "gzip" | "lzw"
+
+export interface CompressedText {
+  codec: CompressionCodec
+  /** base64 for gzip; packed UTF-16 code units for lzw */
+  data: string
+}
+
+/** UTF-8 byte length of a string, without allocating an encoded copy */
+export function utf8Length(text: string): number {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4
+      i++ // low surrogate is part of the same code point
+    } else bytes += 3
+  }
+  return bytes
+}
+
+/** Approximate stored size of a value: the UTF-8 length of its JSON form */
+export function jsonByteSize(value: unknown): number {
+  return utf8Length(JSON.stringify(value) ?? "")
+}
+
+function hasCompressionStreams(): boolean {
+  return typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined"
+}
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/** First dictionary code; lower codes are literal UTF-16 code units */
+const LZW_BASE = 0x10000
+/** Dictionary capacity. Once full, the coder keeps using the existing phrases. */
+const LZW_CAPACITY = 0xffff
+/** Escape marker: followed by a dictionary offset, or by itself for a literal U+FFFF */
+const LZW_ESCAPE = 0xffff
+
+/**
+ * LZW over UTF-16 code units. Each code becomes one output char (two for
+ * dictionary phrases, which are escaped), so repetitive text shrinks well.
+ */
+export function lzwCompress(text: string): string {
+  if (!text) return ""
+  const dict = new Map<string, number>()
+  const out: string[] = []
+  const emit = (phrase: string) => {
+    if (phrase.length > 1) {
+      out.push(String.fromCharCode(LZW_ESCAPE, dict.get(phrase)! - LZW_BASE))
+    } else if (phrase.charCodeAt(0) === LZW_ESCAPE) {
+      out.push(String.fromCharCode(LZW_ESCAPE, LZW_ESCAPE))
+    } else {
+      out.push(phrase)
+    }
+  }
+
+  let phrase = text[0]
+  for (let i = 1; i < text.length; i++) {
+    const candidate = phrase + text[i]
+    if (dict.has(candidate)) {
+      phrase = candidate
+      continue
+    }
+    emit(phrase)
+    if (dict.size < LZW_CAPACITY) dict.set(candidate, LZW_BASE + dict.size)
+    phrase = text[i]
+  }
+  emit(phrase)
+  return out.join("")
+}
+
+/** Inverse of lzwCompress() */
+export function lzwDecompress(packed: string): string {
+  if (!packed) return ""
+  const dict: string[] = []
+  const read = (i: number): [string | undefined, number] => {
+    const c = packed.charCodeAt(i)
+    if (c !== LZW_ESCAPE) return [packed[i], i + 1]
+    const offset = packed.charCodeAt(i + 1)
+    return [offset === LZW_ESCAPE ? packed[i + 1] : dict[offset], i + 2]
+  }
+
+  let [previous, i] = read(0)
+  const parts = [previous!]
+  while (i < packed.length) {
+    const [found, next] = read(i)
+    // The only unknown phrase is the one being defined by this very step
+    const current = found ?? previous! + previous![0]
+    parts.push(current)
+    if (dict.length < LZW_CAPACITY) dict.push(previous! + current[0])
+    previous = current
+    i = next
+  }
+  return parts.join("")
+}
+
+/** Compress text with gzip when the runtime supports it, LZW otherwise. */
+export async function compressText(text: string): Promise<CompressedText> {
+  if (hasCompressionStreams()) {
+    const bytes = await pipeBytes(new TextEncoder().encode(text), new CompressionStream("gzip"))
+    return { codec: "gzip", data: toBase64(bytes) }
+  }
+  return { codec: "lzw", data: lzwCompress(text) }
+}
+
+export async function decompressText(compressed: CompressedText): Promise<string> {
+  if (compressed.codec === "lzw") return lzwDecompress(compressed.data)
+  const bytes = await pipeBytes(fromBase64(compressed.data), new DecompressionStream("gzip"))
+  return new TextDecoder().decode(bytes)
+}
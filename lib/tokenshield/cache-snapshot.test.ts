@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest"
+import {
+  CACHE_SNAPSHOT_VERSION,
+  parseSnapshot,
+  serializeSnapshot,
+  toWarmEntry,
+} from "./cache-snapshot"
+import { TokenShieldSnapshotError } from "./errors"
+
+describe("cache-snapshot", () => {
+  describe("parseSnapshot", () => {
+    it("reads both encodings produced by serializeSnapshot", () => {
+      for (const encoding of ["json", "jsonl"] as const) {
+        const text = serializeSnapshot([], encoding)
+        expect(parseSnapshot(text)).toEqual({ version: CACHE_SNAPSHOT_VERSION, records: [] })
+      }
+    })
+
+    it("accepts plain arrays and headerless JSONL corpora", () => {
+      expect(parseSnapshot('[{"prompt":"a","response":"b"}]').records).toHaveLength(1)
+      const jsonl = '{"prompt":"a","response":"b"}\n\n{"prompt":"c","response":"d"}\n'
+      expect(parseSnapshot(jsonl).records).toHaveLength(2)
+    })
+
+    it("accepts a pretty-printed snapshot document", () => {
+      const text = JSON.stringify(
+        { format: "tokenshield-cache-snapshot", version: 1, exportedAt: 0, entries: [{}] },
+        null,
+        2,
+      )
+      expect(parseSnapshot(text).records).toHaveLength(1)
+    })
+
+    it("reports the failing line for malformed JSONL", () => {
+      expect(() => parseSnapshot('{"prompt":"a","response":"b"}\nnot json')).toThrow(/line 2/)
+    })
+
+    it("rejects unsupported versions", () => {
+      const header = JSON.stringify({ format: "tokenshield-cache-snapshot", version: 2, count: 0 })
+      expect(() => parseSnapshot(header + "\n")).toThrow(TokenShieldSnapshotError)
+      expect(() =>
+        parseSnapshot({
+          format: "tokenshield-cache-snapshot",
+          version: 0,
+          exportedAt: 0,
+          entries: [],
+        }),
+      ).toThrow(/Invalid cache snapshot version/)
+    })
+  })
+
+  describe("toWarmEntry", () => {
+    it("requires prompt, response and a model", () => {
+      expect(toWarmEntry({ prompt: "a", response: "b" })).toBeNull()
+      expect(toWarmEntry({ prompt: "a" }, "gpt-4o")).toBeNull()
+      expect(toWarmEntry("nope", "gpt-4o")).toBeNull()
+      expect(toWarmEntry({ prompt: "a", response: "b" }, "gpt-4o")).toEqual({
+        prompt: "a",
+        response: "b",
+        model: "gpt-4o",
+      })
+    })
+
+    it("drops invalid optional fields", () => {
+      const entry = toWarmEntry({
+        prompt: "a",
+        response: "b",
+        model: "m",
+        inputTokens: -1,
+        contentType: "bogus",
+        tags: ["ok", 3, ""],
+      })
+      expect(entry).toEqual({ prompt: "a", response: "b", model: "m", tags: ["ok"] })
+    })
+  })
+})
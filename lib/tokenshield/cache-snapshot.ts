@@ -0,0 +1,216 @@
+/**
+ * TokenShield - Cache Snapshots
+ *
+ * Versioned serialization of ResponseCache entries so a cache can be
+ * pre-seeded in CI, shipped with a deployment, or warmed from a corpus of
+ * prompt/response pairs.
+ *
+ * Two encodings are supported:
+ * - JSON:  `{ format, version, exportedAt, entries: [...] }`
+ * - JSONL: a header line `{ format, version, exportedAt, count }` followed
+ *          by one entry per line (streams well and diffs cleanly)
+ *
+ * Entry keys are recomputed on import, so snapshots survive changes to the
+ * hashing scheme; the stored `key` is informational.
+ */
+
+import type { CacheEntry, ContentType } from "./response-cache"
+import { TokenShieldSnapshotError, ERROR_CODES } from "./errors"
+
+/** Marker identifying a TokenShield cache snapshot */
+export const CACHE_SNAPSHOT_FORMAT = "tokenshield-cache-snapshot"
+
+/** Current snapshot schema version. Bump when the entry layout changes. */
+export const CACHE_SNAPSHOT_VERSION = 1
+
+export type SnapshotEncoding = "json" | "jsonl"
+
+export interface CacheSnapshot {
+  format: typeof CACHE_SNAPSHOT_FORMAT
+  version: number
+  /** Epoch ms when the snapshot was taken */
+  exportedAt: number
+  entries: CacheEntry[]
+}
+
+/**
+ * One prompt/response pair for warm(). Only `prompt` and `response` are
+ * required; `model` falls back to the warm() `model` option and token
+ * counts are estimated when absent.
+ */
+export interface WarmEntry {
+  prompt: string
+  response: string
+  model?: string
+  inputTokens?: number
+  outputTokens?: number
+  contextKey?: string
+  tags?: string[]
+  contentType?: ContentType
+  /** Epoch ms; defaults to the time of the warm() call */
+  createdAt?: number
+}
+
+/** How import/warm resolves an entry whose key already exists */
+export type SnapshotConflictPolicy = "newest-wins" | "keep-existing"
+
+export interface SnapshotImportOptions {
+  /** Default: "newest-wins" (compares `createdAt`) */
+  conflict?: SnapshotConflictPolicy
+}
+
+export interface SnapshotImportResult {
+  /** Entries written to the cache */
+  imported: number
+  /** Entries dropped by the conflict policy */
+  skipped: number
+  /** Entries already past their TTL */
+  expired: number
+  /** Records that were missing required fields */
+  invalid: number
+}
+
+const CONTENT_TYPES: ReadonlySet<string> = new Set(["factual", "general", "time-sensitive"])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** Serialize entries as a versioned JSON or JSONL snapshot. */
+export function serializeSnapshot(
+  entries: CacheEntry[],
+  encoding: SnapshotEncoding = "json",
+): string {
+  const exportedAt = Date.now()
+  if (encoding === "jsonl") {
+    const header = {
+      format: CACHE_SNAPSHOT_FORMAT,
+      version: CACHE_SNAPSHOT_VERSION,
+      exportedAt,
+      count: entries.length,
+    }
+    return [header, ...entries].map((line) => JSON.stringify(line)).join("\n") + "\n"
+  }
+  const snapshot: CacheSnapshot = {
+    format: CACHE_SNAPSHOT_FORMAT,
+    version: CACHE_SNAPSHOT_VERSION,
+    exportedAt,
+    entries,
+  }
+  return JSON.stringify(snapshot)
+}
+
+function checkVersion(version: unknown): void {
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new TokenShieldSnapshotError(
+      `Invalid cache snapshot version: ${String(version)}`,
+      ERROR_CODES.SNAPSHOT_INVALID,
+    )
+  }
+  if (version > CACHE_SNAPSHOT_VERSION) {
+    throw new TokenShieldSnapshotError(
+      `Cache snapshot version ${version} is newer than supported version ${CACHE_SNAPSHOT_VERSION}`,
+      ERROR_CODES.SNAPSHOT_VERSION_UNSUPPORTED,
+    )
+  }
+}
+
+/**
+ * Parse snapshot or corpus text into raw records. Accepts a JSON snapshot,
+ * a JSONL snapshot, a plain JSON array, or JSONL without a header.
+ * Throws TokenShieldSnapshotError for malformed input or newer versions.
+ */
+export function parseSnapshot(input: string | CacheSnapshot | unknown[]): {
+  version: number
+  records: unknown[]
+} {
+  if (Array.isArray(input)) return { version: CACHE_SNAPSHOT_VERSION, records: input }
+  if (isRecord(input)) {
+    checkVersion(input.version)
+    if (!Array.isArray(input.entries)) {
+      throw new TokenShieldSnapshotError(
+        "Cache snapshot has no entries array",
+        ERROR_CODES.SNAPSHOT_INVALID,
+      )
+    }
+    return { version: input.version as number, records: input.entries }
+  }
+
+  const text = String(input).trim()
+  if (!text) return { version: CACHE_SNAPSHOT_VERSION, records: [] }
+
+  // A whole-document JSON value (snapshot object, array, or pretty-printed)
+  let whole: unknown
+  try {
+    whole = JSON.parse(text)
+  } catch {
+    /* not a single JSON document — treat as JSONL */
+  }
+  if (Array.isArray(whole)) return { version: CACHE_SNAPSHOT_VERSION, records: whole }
+  if (isRecord(whole)) {
+    if (whole.format === CACHE_SNAPSHOT_FORMAT && Array.isArray(whole.entries)) {
+      return parseSnapshot(whole as unknown as CacheSnapshot)
+    }
+    if (whole.format !== CACHE_SNAPSHOT_FORMAT) {
+      return { version: CACHE_SNAPSHOT_VERSION, records: [whole] }
+    }
+  }
+
+  const records: unknown[] = []
+  let version = CACHE_SNAPSHOT_VERSION
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(line)
+    } catch (err) {
+      throw new TokenShieldSnapshotError(
+        `Cache snapshot line ${i + 1} is not valid JSON`,
+        ERROR_CODES.SNAPSHOT_INVALID,
+        { cause: err },
+      )
+    }
+    if (records.length === 0 && isRecord(parsed) && parsed.format === CACHE_SNAPSHOT_FORMAT) {
+      checkVersion(parsed.version)
+      version = parsed.version as number
+      continue
+    }
+    records.push(parsed)
+  }
+  return { version, records }
+}
+
+/**
+ * Normalize a snapshot record or corpus pair into a WarmEntry, or null if
+ * it lacks a prompt, response or model. Older snapshot versions map here
+ * too; fields the current version adds are simply absent.
+ */
+export function toWarmEntry(record: unknown, defaultModel?: string): WarmEntry | null {
+  if (!isRecord(record)) return null
+  const { prompt, response } = record
+  if (typeof prompt !== "string" || !prompt || typeof response !== "string") return null
+  const model = typeof record.model === "string" && record.model ? record.model : defaultModel
+  if (!model) return null
+
+  const num = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : undefined
+  const entry: WarmEntry = { prompt, response, model }
+  const inputTokens = num(record.inputTokens)
+  const outputTokens = num(record.outputTokens)
+  const createdAt = num(record.createdAt)
+  if (inputTokens !== undefined) entry.inputTokens = inputTokens
+  if (outputTokens !== undefined) entry.outputTokens = outputTokens
+  if (createdAt !== undefined) entry.createdAt = createdAt
+  if (typeof record.contextKey === "string" && record.contextKey) {
+    entry.contextKey = record.contextKey
+  }
+  if (Array.isArray(record.tags)) {
+    entry.tags = record.tags.filter((t): t is string => typeof t === "string" && t.length > 0)
+  }
+  if (typeof record.contentType === "string" && CONTENT_TYPES.has(record.contentType)) {
+    entry.contentType = record.contentType as ContentType
+  }
+  return entry
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from "vitest"
-import { CostCircuitBreaker } from "./circuit-breaker"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { CostCircuitBreaker, resolveBreakerScope } from "./circuit-breaker"
 
 describe("CostCircuitBreaker", () => {
   let breaker: CostCircuitBreaker
@@ -246,4 +246,310 @@ describe("CostCircuitBreaker", () => {
     b.check()
     expect(warningCount).toBe(1) // Should fire only once
   })
+
+  describe("calendar windows", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("resets the daily limit at local midnight and reports the reset time", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      // 22:00 in Berlin (UTC+1)
+      vi.setSystemTime(new Date("2025-01-15T21:00:00Z"))
+      const b = new CostCircuitBreaker({
+        limits: { perDay: 1.0 },
+        action: "stop",
+        windowMode: "calendar",
+        timeZone: "Europe/Berlin",
+      })
+      b.recordSpend(1.0, "gpt-4o-mini")
+      expect(b.check().allowed).toBe(false)
+      expect(b.getStatus().resetsAt.day).toBe(new Date("2025-01-15T23:00:00Z").getTime())
+
+      // Just past local midnight: a new calendar day, though only 2 hours later
+      vi.setSystemTime(new Date("2025-01-15T23:00:01Z"))
+      expect(b.check().allowed).toBe(true)
+      expect(b.getStatus().spend.lastDay).toBe(0)
+    })
+
+    it("reports rolling reset times from the oldest counted spend", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const t0 = new Date("2025-01-15T10:00:00Z").getTime()
+      vi.setSystemTime(t0)
+      const b = new CostCircuitBreaker({ limits: { perHour: 5 }, action: "stop" })
+      expect(b.getStatus().resetsAt.hour).toBeNull()
+      b.recordSpend(0.5, "gpt-4o-mini")
+      vi.setSystemTime(t0 + 10 * 60_000)
+      b.recordSpend(0.5, "gpt-4o-mini")
+      expect(b.getStatus().resetsAt.hour).toBe(t0 + 60 * 60_000)
+    })
+
+    it("rejects an unknown time zone at construction", () => {
+      expect(
+        () => new CostCircuitBreaker({ limits: {}, action: "stop", timeZone: "Nowhere/Land" }),
+      ).toThrow(/time zone/)
+    })
+  })
+
+  describe("token limits", () => {
+    it("blocks when a token quota would be exceeded, even at zero cost", () => {
+      const b = new CostCircuitBreaker({
+        limits: {},
+        tokenLimits: { perHour: { output: 1_000 } },
+        action: "stop",
+      })
+      // A free model still meters tokens
+      b.recordSpend(0, "llama-free", { input: 100, output: 800 })
+      expect(b.check("llama-free", 50, 100).allowed).toBe(true)
+
+      const result = b.check("llama-free", 50, 300)
+      expect(result.allowed).toBe(false)
+      expect(result.reason).toContain("hour output token limit")
+      expect(result.trippedBy).toMatchObject({ unit: "tokens", tokenKind: "output", limit: 1_000 })
+    })
+
+    it("applies per-family quotas only to models in that family", () => {
+      const b = new CostCircuitBreaker({
+        limits: {},
+        tokenLimits: { perDay: { byModelFamily: { "gpt-4o": { total: 1_000 } } } },
+        action: "stop",
+      })
+      b.recordSpend(0.01, "gpt-4o-2024-08-06", { input: 600, output: 400 })
+      expect(b.check("gpt-4o-2024-08-06", 10, 10).trippedBy?.modelFamily).toBe("gpt-4o")
+      expect(b.check("claude-haiku-4-5", 10, 10).allowed).toBe(true)
+    })
+
+    it("reports token usage, remaining quota and token trips in getStatus", () => {
+      const b = new CostCircuitBreaker({
+        limits: {},
+        tokenLimits: { perSession: { input: 500, total: 2_000 } },
+        action: "stop",
+      })
+      b.recordSpend(0.01, "gpt-4o-mini", { input: 500, output: 250 })
+      const status = b.getStatus()
+      expect(status.tokens.session.used).toEqual({ input: 500, output: 250, total: 750 })
+      expect(status.tokens.session.remaining).toEqual({ input: 0, output: null, total: 1_250 })
+      expect(status.trippedLimits).toEqual([
+        expect.objectContaining({ limitType: "session", unit: "tokens", tokenKind: "input" }),
+      ])
+    })
+
+    it("fires one warning per quota at 80%", () => {
+      const warnings: string[] = []
+      const b = new CostCircuitBreaker({
+        limits: {},
+        tokenLimits: { perHour: { total: 1_000 } },
+        action: "warn",
+        onWarning: (e) => warnings.push(`${e.unit}:${e.tokenKind}`),
+      })
+      b.recordSpend(0, "gpt-4o-mini", { input: 700, output: 150 })
+      b.check("gpt-4o-mini", 10, 10)
+      b.check("gpt-4o-mini", 10, 10)
+      expect(warnings).toEqual(["tokens:total"])
+    })
+  })
+
+  describe("downgrade action", () => {
+    it("routes to the fallback model for a tripped limit instead of blocking", () => {
+      const onTripped = vi.fn()
+      const b = new CostCircuitBreaker({
+        limits: { perHour: 1.0, perDay: 2.0 },
+        action: "downgrade",
+        downgradeTo: { hour: "gpt-4o-mini" },
+        onTripped,
+      })
+      b.recordSpend(1.0, "gpt-4o")
+      const result = b.check("gpt-4o")
+      expect(result.allowed).toBe(true)
+      expect(result.downgradeTo).toBe("gpt-4o-mini")
+      expect(result.trippedBy?.limitType).toBe("hour")
+      expect(onTripped).toHaveBeenCalledWith(expect.objectContaining({ action: "downgrade" }))
+      expect(b.getStatus().tripped).toBe(false)
+    })
+
+    it("blocks limits that have no fallback", () => {
+      const b = new CostCircuitBreaker({
+        limits: { perDay: 2.0 },
+        action: "downgrade",
+        downgradeTo: { hour: "gpt-4o-mini" },
+      })
+      b.recordSpend(2.0, "gpt-4o")
+      expect(b.check("gpt-4o").allowed).toBe(false)
+      expect(b.getStatus().tripped).toBe(true)
+    })
+
+    it("requires downgradeTo", () => {
+      expect(() => new CostCircuitBreaker({ limits: {}, action: "downgrade" })).toThrow(
+        /downgradeTo/,
+      )
+    })
+  })
+
+  describe("half-open recovery", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("lets probes through after the cooldown, then reopens", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const t0 = new Date("2025-01-15T10:00:00Z").getTime()
+      vi.setSystemTime(t0)
+      const onHalfOpen = vi.fn()
+      const b = new CostCircuitBreaker({
+        limits: { perSession: 1.0 },
+        action: "stop",
+        halfOpen: { cooldownMs: 60_000, maxProbes: 2 },
+        onHalfOpen,
+      })
+      b.recordSpend(1.0, "gpt-4o")
+      expect(b.check().allowed).toBe(false)
+      expect(b.getStatus().state).toBe("open")
+
+      vi.setSystemTime(t0 + 30_000)
+      expect(b.check().allowed).toBe(false)
+
+      vi.setSystemTime(t0 + 60_000)
+      const probe = b.check()
+      expect(probe).toMatchObject({ allowed: true, probe: true })
+      expect(onHalfOpen).toHaveBeenCalledTimes(1)
+      expect(b.getStatus().state).toBe("half-open")
+      expect(b.check().probe).toBe(true)
+
+      // Probes used up while the limit still trips: open for another cooldown
+      expect(b.check().allowed).toBe(false)
+      expect(b.getStatus().state).toBe("open")
+      vi.setSystemTime(t0 + 60_000 + 59_000)
+      expect(b.check().allowed).toBe(false)
+      vi.setSystemTime(t0 + 120_000)
+      expect(b.check().probe).toBe(true)
+      expect(onHalfOpen).toHaveBeenCalledTimes(2)
+    })
+
+    it("recovers when the limit clears and reports the downtime", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const t0 = new Date("2025-01-15T10:00:00Z").getTime()
+      vi.setSystemTime(t0)
+      const onRecovered = vi.fn()
+      const b = new CostCircuitBreaker({
+        limits: { perHour: 1.0 },
+        action: "stop",
+        halfOpen: { cooldownMs: 60_000 },
+        onRecovered,
+      })
+      b.recordSpend(1.0, "gpt-4o")
+      expect(b.check().allowed).toBe(false)
+
+      // The hour window rolls: the next check closes the breaker
+      vi.setSystemTime(t0 + 61 * 60_000)
+      const result = b.check()
+      expect(result.allowed).toBe(true)
+      expect(result.probe).toBeUndefined()
+      expect(b.getStatus().state).toBe("closed")
+      expect(onRecovered).toHaveBeenCalledWith(61 * 60_000)
+    })
+  })
+
+  describe("scopes", () => {
+    function scopedBreaker(
+      overrides: Partial<ConstructorParameters<typeof CostCircuitBreaker>[0]> = {},
+    ) {
+      return new CostCircuitBreaker({
+        limits: { perHour: 10 },
+        action: "stop",
+        scopes: {
+          summarize: { limits: { perHour: 1 } },
+          chat: { limits: { perHour: 5 }, action: "warn" },
+        },
+        ...overrides,
+      })
+    }
+
+    it("trips one scope without blocking the others", () => {
+      const onTripped = vi.fn()
+      const b = scopedBreaker({ onTripped })
+      b.recordSpend(1, "gpt-4o-mini", undefined, "summarize")
+
+      const blocked = b.check(undefined, undefined, undefined, "summarize")
+      expect(blocked).toMatchObject({ allowed: false, scope: "summarize" })
+      expect(blocked.trippedBy?.scope).toBe("summarize")
+      expect(onTripped).toHaveBeenCalledWith(expect.objectContaining({ scope: "summarize" }))
+      expect(b.check(undefined, undefined, undefined, "chat").allowed).toBe(true)
+      expect(b.check().allowed).toBe(true)
+    })
+
+    it("still enforces the global limit across scopes", () => {
+      const b = scopedBreaker()
+      b.recordSpend(4, "gpt-4o", undefined, "chat")
+      b.recordSpend(6, "gpt-4o", undefined, "unscoped-job")
+      const result = b.check(undefined, undefined, undefined, "chat")
+      expect(result.allowed).toBe(false)
+      expect(result.trippedBy?.scope).toBeUndefined()
+      expect(b.getStatus().spend.lastHour).toBe(10)
+    })
+
+    it("reports each scope's status", () => {
+      const b = scopedBreaker()
+      b.recordSpend(1, "gpt-4o-mini", undefined, "summarize")
+      b.check(undefined, undefined, undefined, "summarize")
+      const { scopes } = b.getStatus()
+      expect(Object.keys(scopes)).toEqual(["summarize", "chat"])
+      expect(scopes.summarize).toMatchObject({ tripped: true, state: "open" })
+      expect(scopes.summarize.spend.lastHour).toBe(1)
+      expect(scopes.chat.tripped).toBe(false)
+    })
+
+    it("leaves scope statuses out of check results", () => {
+      const b = scopedBreaker()
+      b.recordSpend(1, "gpt-4o-mini", undefined, "chat")
+      const result = b.check(undefined, undefined, undefined, "chat")
+      expect(result.status.scopes).toEqual({})
+      expect(result.status.spend.lastHour).toBe(1)
+    })
+
+    it("applies defaultScope to unlisted scope keys", () => {
+      const b = new CostCircuitBreaker({
+        limits: {},
+        action: "stop",
+        defaultScope: { limits: { perSession: 0.5 } },
+      })
+      b.recordSpend(0.5, "gpt-4o", undefined, "gpt-4o")
+      expect(b.check("gpt-4o", undefined, undefined, "gpt-4o").allowed).toBe(false)
+      expect(b.check("gpt-4o-mini", undefined, undefined, "gpt-4o-mini").allowed).toBe(true)
+    })
+
+    it("carries a scope's downgrade into the result", () => {
+      const b = scopedBreaker({
+        scopes: {
+          chat: {
+            limits: { perHour: 1 },
+            action: "downgrade",
+            downgradeTo: { hour: "gpt-4o-mini" },
+          },
+        },
+      })
+      b.recordSpend(1, "gpt-4o", undefined, "chat")
+      const result = b.check("gpt-4o", undefined, undefined, "chat")
+      expect(result).toMatchObject({ allowed: true, downgradeTo: "gpt-4o-mini", scope: "chat" })
+    })
+
+    it("validates configured scopes at construction", () => {
+      expect(() =>
+        scopedBreaker({ scopes: { chat: { limits: {}, action: "downgrade" } } }),
+      ).toThrow(/downgradeTo/)
+    })
+
+    it("resolves scope keys by model, provider, feature or a custom resolver", () => {
+      const request = { modelId: "claude-sonnet-4.5", feature: "search", params: { tag: "x" } }
+      expect(resolveBreakerScope({ scopeBy: "model" }, request)).toBe("claude-sonnet-4.5")
+      expect(resolveBreakerScope({ scopeBy: "provider" }, request)).toBe("anthropic")
+      expect(resolveBreakerScope({ scopeBy: "feature" }, request)).toBe("search")
+      expect(
+        resolveBreakerScope(
+          { scopeBy: "model", scopeResolver: (params) => String(params.tag) },
+          request,
+        ),
+      ).toBe("x")
+      expect(resolveBreakerScope({}, request)).toBeUndefined()
+    })
+  })
 })
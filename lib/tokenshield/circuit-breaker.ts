@@ -10,14 +10,42 @@
  * operates per-request), this is a session/time-window level kill switch.
  *
  * Features:
- * - Per-session, hourly, daily, and 30-day rolling cost limits
- * - Configurable actions: warn, throttle, or hard-stop
+ * - Per-session, hourly, daily, and monthly cost limits over rolling
+ *   windows or calendar windows in a given time zone
+ * - Token quotas (input/output/total, optionally per model family)
+ *   enforced alongside the dollar limits
+ * - Configurable actions: warn, throttle, hard-stop, or downgrade to a
+ *   cheaper fallback model
+ * - Half-open recovery: after a cooldown, a trickle of probe requests is
+ *   let through a stopped breaker instead of blocking until the window rolls
+ * - Scoped limits per model, provider, feature or custom key, enforced on
+ *   top of the global limits so one runaway workload doesn't stop the rest
  * - Optional persistence via localStorage (survives page refresh)
  * - Alert callbacks for integration with monitoring
  * - Automatic recovery when time windows roll over
  */
 
 import { estimateCost, MODEL_PRICING } from "./cost-estimator"
+import { TokenShieldConfigError } from "./errors"
+import { detectProvider } from "./prefix-optimizer"
+import {
+  type BudgetWindowConfig,
+  retentionCutoff,
+  validateWindowConfig,
+  windowResetsAt,
+  windowStart,
+} from "./budget-windows"
+import {
+  type TokenKind,
+  type TokenLimits,
+  type TokenWindowStatus,
+  describeQuota,
+  evaluateTokenQuotas,
+  exceedsQuota,
+  exhaustedQuotas,
+  tallyTokens,
+  tokenWindowStatus,
+} from "./token-quotas"
 
 // -------------------------------------------------------
 // Types
@@ -26,21 +54,83 @@ import { estimateCost, MODEL_PRICING } from "./cost-estimator"
 export interface BreakerLimits {
   /** Maximum spend per session (resets on page refresh unless persisted) */
   perSession?: number
-  /** Maximum spend per rolling 1-hour window */
+  /** Maximum spend per hour (rolling 60 minutes, or the clock hour in calendar mode) */
   perHour?: number
-  /** Maximum spend per rolling 24-hour window */
+  /** Maximum spend per day (rolling 24 hours, or the calendar day in calendar mode) */
   perDay?: number
-  /** Maximum spend per rolling 30-day window (not calendar month) */
+  /** Maximum spend per month (rolling 30 days, or the billing month in calendar mode) */
   perMonth?: number
 }
 
-export type BreakerAction = "warn" | "throttle" | "stop"
+/** Token quotas per window, enforced alongside the dollar limits */
+export interface BreakerTokenLimits {
+  perSession?: TokenLimits
+  perHour?: TokenLimits
+  perDay?: TokenLimits
+  perMonth?: TokenLimits
+}
+
+export type BreakerAction = "warn" | "throttle" | "stop" | "downgrade"
+
+/**
+ * "closed": requests flow normally. "open": a limit tripped and requests
+ * are blocked. "half-open": the cooldown elapsed and probe requests are
+ * let through to test whether the limit has cleared.
+ */
+export type BreakerState = "closed" | "open" | "half-open"
+
+export interface BreakerHalfOpenConfig {
+  /** How long the breaker stays open before letting probes through (ms) */
+  cooldownMs: number
+  /** Probe requests allowed per half-open period (default: 1) */
+  maxProbes?: number
+}
 
-export interface BreakerConfig {
+/** What a scope key is derived from: the model ID, its provider, or `ledger.feature` */
+export type BreakerScopeBy = "model" | "provider" | "feature"
+
+/**
+ * Limits and behaviour for one scope. Windows follow the parent breaker;
+ * `action`, `downgradeTo` and `halfOpen` default to the parent's.
+ */
+export interface BreakerScopeConfig {
+  limits: BreakerLimits
+  tokenLimits?: BreakerTokenLimits
+  action?: BreakerAction
+  downgradeTo?: Partial<Record<BreakerEvent["limitType"], string>>
+  halfOpen?: BreakerHalfOpenConfig
+}
+
+/**
+ * `windowMode: "calendar"` aligns the hour/day/month limits to the clock in
+ * `timeZone`, with months starting on `monthStartDay`.
+ *
+ * With `scopes`, each request is also checked against the limits of its
+ * scope (see resolveBreakerScope); the top-level limits still apply to all
+ * spend combined.
+ */
+export interface BreakerConfig extends BudgetWindowConfig {
   /** Spending limits */
   limits: BreakerLimits
+  /** Token quotas, checked after the dollar limits with the same action */
+  tokenLimits?: BreakerTokenLimits
   /** What to do when a limit is hit */
   action: BreakerAction
+  /**
+   * With action "downgrade": the cheaper model to switch to when each limit
+   * trips. Limits without a fallback block as with "stop".
+   */
+  downgradeTo?: Partial<Record<BreakerEvent["limitType"], string>>
+  /** Let probe requests through a blocking breaker after a cooldown */
+  halfOpen?: BreakerHalfOpenConfig
+  /** How the middleware derives a request's scope key */
+  scopeBy?: BreakerScopeBy
+  /** Custom scope key for a request's params; takes precedence over `scopeBy` */
+  scopeResolver?: (params: Record<string, unknown>) => string | undefined
+  /** Limits per scope key, enforced in addition to the global limits */
+  scopes?: Record<string, BreakerScopeConfig>
+  /** Limits for scope keys without an entry in `scopes` */
+  defaultScope?: BreakerScopeConfig
   /** If throttle: max requests per minute when throttled */
   throttleRate?: number
   /** Persist state across page refreshes */
@@ -53,29 +143,43 @@ export interface BreakerConfig {
   onTripped?: (detail: BreakerEvent) => void
   /** Called when the breaker resets (time window rolls over) */
   onReset?: (window: string) => void
+  /** Called when the cooldown elapses and probes are let through */
+  onHalfOpen?: (detail: BreakerEvent) => void
+  /** Called when a blocking breaker sees its limits clear, with how long it blocked */
+  onRecovered?: (downtimeMs: number, scope?: string) => void
 }
 
 export interface BreakerEvent {
   /** Which limit was hit */
   limitType: "session" | "hour" | "day" | "month"
-  /** Current spend in that window */
+  /** Current spend in that window (tokens when `unit` is "tokens") */
   currentSpend: number
-  /** The limit value */
+  /** The limit value (tokens when `unit` is "tokens") */
   limit: number
+  /** Whether a dollar limit or a token quota was hit */
+  unit?: "usd" | "tokens"
+  /** For token quotas: which count hit its quota */
+  tokenKind?: TokenKind
+  /** For token quotas: the model family the quota belongs to */
+  modelFamily?: string
   /** Percentage of limit used */
   percentUsed: number
   /** What action was taken */
   action: BreakerAction
   /** Timestamp */
   timestamp: number
+  /** Set when a scope's limit (rather than a global one) was hit */
+  scope?: string
 }
 
 export interface BreakerStatus {
   /** Whether the breaker is currently tripped (blocking requests) */
   tripped: boolean
+  /** Open/half-open state as of the last check() */
+  state: BreakerState
   /** Which limits are currently exceeded */
   trippedLimits: BreakerEvent[]
-  /** Current spend per window */
+  /** Current spend per window (the current hour/day/month in calendar mode) */
   spend: {
     session: number
     lastHour: number
@@ -89,10 +193,29 @@ export interface BreakerStatus {
     day: number | null
     month: number | null
   }
+  /** Token usage and remaining token quota per window */
+  tokens: {
+    session: TokenWindowStatus
+    hour: TokenWindowStatus
+    day: TokenWindowStatus
+    month: TokenWindowStatus
+  }
+  /**
+   * When each window's spend next resets (ms since epoch). Calendar windows
+   * reset at the next boundary; rolling windows when their oldest counted
+   * spend ages out, or null when nothing has been spent in the window.
+   */
+  resetsAt: {
+    hour: number | null
+    day: number | null
+    month: number | null
+  }
   /** Total requests tracked */
   totalRequests: number
   /** Requests blocked by the breaker */
   requestsBlocked: number
+  /** Status of each scope that has limits, keyed by scope (empty in check() results) */
+  scopes: Record<string, BreakerStatus>
 }
 
 export interface BreakerCheckResult {
@@ -100,7 +223,15 @@ export interface BreakerCheckResult {
   allowed: boolean
   /** If blocked, the reason */
   reason?: string
-  /** Current breaker status */
+  /** The limit or quota that tripped the breaker */
+  trippedBy?: BreakerEvent
+  /** With action "downgrade": the fallback model to send the request to */
+  downgradeTo?: string
+  /** The request was let through as a half-open probe despite a tripped limit */
+  probe?: boolean
+  /** The scope the request was checked against */
+  scope?: string
+  /** Current breaker status; `scopes` is empty, use getStatus() for those */
   status: BreakerStatus
 }
 
@@ -112,6 +243,8 @@ interface SpendRecord {
   timestamp: number
   cost: number
   model: string
+  inputTokens?: number
+  outputTokens?: number
 }
 
 interface PersistedState {
@@ -137,18 +270,13 @@ const DEFAULT_CONFIG: BreakerConfig = {
 
 /** Warning threshold: fire warnings when spend reaches this fraction of the limit */
 const WARNING_THRESHOLD = 0.8
-/** One hour in milliseconds */
-const ONE_HOUR_MS = 60 * 60 * 1000
-/** One day in milliseconds */
-const ONE_DAY_MS = 24 * 60 * 60 * 1000
-/** Thirty days in milliseconds */
-const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
-
 /** Maximum spend records kept in memory (prevents unbounded growth in high-throughput scenarios) */
 const MAX_BREAKER_RECORDS = 50_000
 
 /** Percentage displayed when a limit is zero (avoids division by zero) */
 const UNLIMITED_PERCENTAGE = 999
+/** Maximum scopes created from `defaultScope` before the oldest is dropped */
+const MAX_DEFAULT_SCOPES = 1000
 
 /**
  * Maps each limit type to its config key, spend key, and remaining key.
@@ -174,9 +302,27 @@ export class CostCircuitBreaker {
   private totalRequests = 0
   private totalBlocked = 0
   private warningFired = new Set<string>()
+  private state: BreakerState = "closed"
+  /** When the breaker first blocked, for the recovery downtime */
+  private trippedAt = 0
+  /** When the current open period (and its cooldown) began */
+  private openedAt = 0
+  private probesLeft = 0
+  private scoped = new Map<string, CostCircuitBreaker>()
+  /** Set on the child breakers that enforce a scope's limits */
+  private scopeName?: string
 
   constructor(config: Partial<BreakerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
+    validateWindowConfig(this.config)
+    if (this.config.action === "downgrade" && !this.config.downgradeTo) {
+      throw new TokenShieldConfigError(
+        'Breaker action "downgrade" requires a downgradeTo fallback model',
+        "downgradeTo",
+      )
+    }
+    // Configured scopes are created up front so their config is validated now
+    for (const scope of Object.keys(this.config.scopes ?? {})) this.scopeBreaker(scope)
     this.sessionStart = Date.now()
 
     // Restore from persistence
@@ -189,14 +335,44 @@ export class CostCircuitBreaker {
    * Check if a request should proceed given current spending.
    * Call before every API call. Returns a decision with the current
    * status and optional warning/throttle signals.
+   *
+   * With a `scope`, the scope's limits are checked first, then the global
+   * limits; a downgrade or probe from either carries into the result.
    */
   check(
     modelId?: string,
     estimatedInputTokens?: number,
     estimatedOutputTokens?: number,
+    scope?: string,
+  ): BreakerCheckResult {
+    const child = scope !== undefined ? this.scopeBreaker(scope) : null
+    const scoped = child?.check(modelId, estimatedInputTokens, estimatedOutputTokens)
+    if (scoped && !scoped.allowed) {
+      this.totalRequests++
+      this.totalBlocked++
+      return { ...scoped, scope, status: this.ownStatus() }
+    }
+
+    const result = this.checkLimits(modelId, estimatedInputTokens, estimatedOutputTokens)
+    if (!scoped || !result.allowed || !scoped.trippedBy) return { ...result, scope }
+    return {
+      ...result,
+      reason: scoped.reason ?? result.reason,
+      trippedBy: scoped.trippedBy,
+      downgradeTo: scoped.downgradeTo ?? result.downgradeTo,
+      probe: scoped.probe || result.probe,
+      scope,
+    }
+  }
+
+  /** Check the breaker's own limits and quotas (ignoring scopes) */
+  private checkLimits(
+    modelId?: string,
+    estimatedInputTokens?: number,
+    estimatedOutputTokens?: number,
   ): BreakerCheckResult {
     this.totalRequests++
-    const status = this.getStatus()
+    const status = this.ownStatus()
 
     // Check each limit
     const limits = this.config.limits
@@ -244,12 +420,12 @@ export class CostCircuitBreaker {
           percentUsed: pctUsed,
           action: "warn",
           timestamp: Date.now(),
+          unit: "usd",
         })
       }
 
       // Check if limit exceeded
       if (projectedSpend >= c.limit) {
-        this.totalBlocked++
         const event: BreakerEvent = {
           limitType: c.type,
           currentSpend: c.current,
@@ -257,48 +433,183 @@ export class CostCircuitBreaker {
           percentUsed: pctUsed,
           action: this.config.action,
           timestamp: Date.now(),
+          unit: "usd",
         }
 
-        this.config.onTripped?.(event)
-        this.save()
+        const result = this.trip(
+          event,
+          c.type,
+          `${this.label()}: ${c.type} limit exceeded ($${c.current.toFixed(4)} / $${c.limit.toFixed(2)})`,
+        )
+        if (result) return result
+      }
+    }
+
+    // Token quotas: same warning threshold and action as the dollar limits
+    const tokenLimits = this.config.tokenLimits
+    if (tokenLimits) {
+      const estimate = {
+        input: estimatedInputTokens ?? 0,
+        output: estimatedInputTokens ? (estimatedOutputTokens ?? 500) : 0,
+      }
+      for (const def of LIMIT_DEFS) {
+        const quota = tokenLimits[def.configKey]
+        if (!quota) continue
+        const windowTokens = status.tokens[def.remainKey]
+        for (const q of evaluateTokenQuotas(windowTokens, quota, modelId ?? "", estimate)) {
+          const pctUsed = q.limit > 0 ? (q.projected / q.limit) * 100 : UNLIMITED_PERCENTAGE
+          const detail = {
+            limitType: def.type,
+            currentSpend: q.used,
+            limit: q.limit,
+            percentUsed: pctUsed,
+            timestamp: Date.now(),
+            unit: "tokens" as const,
+            tokenKind: q.kind,
+            modelFamily: q.modelFamily,
+          }
 
-        if (this.config.action === "stop") {
-          return {
-            allowed: false,
-            reason: `Circuit breaker: ${c.type} limit exceeded ($${c.current.toFixed(4)} / $${c.limit.toFixed(2)})`,
-            status: this.getStatus(),
+          const warningKey = `${def.type}-${describeQuota(q)}-warning`
+          if (q.used < q.limit * WARNING_THRESHOLD) this.warningFired.delete(warningKey)
+          if (q.projected >= q.limit * WARNING_THRESHOLD && !this.warningFired.has(warningKey)) {
+            this.warningFired.add(warningKey)
+            this.config.onWarning?.({ ...detail, action: "warn" })
           }
-        }
 
-        if (this.config.action === "throttle") {
-          // Allow but at reduced rate (caller handles throttling)
-          return {
-            allowed: true,
-            reason: `Throttled: ${c.type} limit at ${pctUsed.toFixed(0)}%`,
-            status: this.getStatus(),
+          if (exceedsQuota(q)) {
+            const result = this.trip(
+              { ...detail, action: this.config.action },
+              `${def.type} ${describeQuota(q)}`,
+              `${this.label()}: ${def.type} ${describeQuota(q)} limit exceeded (${q.used} / ${q.limit} tokens)`,
+            )
+            if (result) return result
           }
         }
+      }
+    }
+
+    if (this.state !== "closed") {
+      this.state = "closed"
+      this.config.onRecovered?.(Date.now() - this.trippedAt)
+    }
+    return { allowed: true, status: this.ownStatus() }
+  }
+
+  /**
+   * Count a tripped limit and apply the configured action. Returns the
+   * check result for "stop", "throttle" and "downgrade"; undefined for
+   * "warn", where the request proceeds and checking continues.
+   */
+  private trip(
+    event: BreakerEvent,
+    limitName: string,
+    reason: string,
+  ): BreakerCheckResult | undefined {
+    if (this.scopeName !== undefined) event = { ...event, scope: this.scopeName }
+    const fallback = this.config.downgradeTo?.[event.limitType]
+    if (this.config.action === "downgrade" && fallback) {
+      this.config.onTripped?.(event)
+      return {
+        allowed: true,
+        reason: `Downgraded to ${fallback}: ${limitName} limit exceeded`,
+        trippedBy: event,
+        downgradeTo: fallback,
+        status: this.ownStatus(),
+      }
+    }
 
-        // "warn" action: allow but fire the callback (already fired above)
+    if (this.blocks(event) && this.admitProbe(event)) {
+      return {
+        allowed: true,
+        reason: `Half-open probe: ${reason}`,
+        trippedBy: event,
+        probe: true,
+        status: this.ownStatus(),
       }
     }
 
-    return { allowed: true, status: this.getStatus() }
+    this.totalBlocked++
+    this.config.onTripped?.(event)
+    this.save()
+
+    if (this.blocks(event)) {
+      return { allowed: false, reason, trippedBy: event, status: this.ownStatus() }
+    }
+
+    if (this.config.action === "throttle") {
+      // Allow but at reduced rate (caller handles throttling)
+      return {
+        allowed: true,
+        reason: `Throttled: ${limitName} limit at ${event.percentUsed.toFixed(0)}%`,
+        trippedBy: event,
+        status: this.ownStatus(),
+      }
+    }
+
+    // "warn" action: allow but fire the callback (already fired above)
+    return undefined
+  }
+
+  private label(): string {
+    return this.scopeName === undefined ? "Circuit breaker" : `Circuit breaker (${this.scopeName})`
+  }
+
+  /** Whether a tripped limit blocks requests: "stop", or "downgrade" without a fallback */
+  private blocks(event: BreakerEvent): boolean {
+    const { action, downgradeTo } = this.config
+    return action === "stop" || (action === "downgrade" && !downgradeTo?.[event.limitType])
+  }
+
+  /**
+   * Advance the open → half-open state machine for a blocking trip.
+   * Returns true when the request may go through as a probe.
+   */
+  private admitProbe(event: BreakerEvent): boolean {
+    const now = Date.now()
+    if (this.state === "closed") {
+      this.state = "open"
+      this.trippedAt = now
+      this.openedAt = now
+    }
+    const halfOpen = this.config.halfOpen
+    if (!halfOpen) return false
+
+    if (this.state === "open") {
+      if (now - this.openedAt < halfOpen.cooldownMs) return false
+      this.state = "half-open"
+      this.probesLeft = halfOpen.maxProbes ?? 1
+      this.config.onHalfOpen?.(event)
+    }
+    if (this.probesLeft > 0) {
+      this.probesLeft--
+      return true
+    }
+    // Probes used up and the limit still trips: open for another cooldown
+    this.state = "open"
+    this.openedAt = now
+    return false
   }
 
   /**
    * Record actual spending after a request completes.
    */
-  recordSpend(cost: number, model: string): void {
+  recordSpend(
+    cost: number,
+    model: string,
+    tokens?: { input: number; output: number },
+    scope?: string,
+  ): void {
+    if (scope !== undefined) this.scopeBreaker(scope)?.recordSpend(cost, model, tokens)
     this.records.push({
       timestamp: Date.now(),
       cost,
       model,
+      ...(tokens && { inputTokens: tokens.input, outputTokens: tokens.output }),
     })
 
-    // Clean up old records (keep last 30 days) + enforce hard cap
-    const thirtyDaysAgo = Date.now() - THIRTY_DAYS_MS
-    this.records = this.records.filter((r) => r.timestamp > thirtyDaysAgo)
+    // Clean up records outside every window + enforce hard cap
+    const cutoff = retentionCutoff(Date.now(), this.config)
+    this.records = this.records.filter((r) => r.timestamp >= cutoff)
     if (this.records.length > MAX_BREAKER_RECORDS) {
       this.records = this.records.slice(-MAX_BREAKER_RECORDS)
     }
@@ -307,33 +618,61 @@ export class CostCircuitBreaker {
   }
 
   /**
-   * Get comprehensive status of all spending windows.
+   * Get comprehensive status of all spending windows, with the status of
+   * each scope.
    */
   getStatus(): BreakerStatus {
+    return {
+      ...this.ownStatus(),
+      scopes: Object.fromEntries(
+        [...this.scoped].map(([scope, child]) => [scope, child.getStatus()]),
+      ),
+    }
+  }
+
+  /**
+   * Status of the breaker's own windows, with `scopes` left empty. check()
+   * returns this: building every scope's status on each request would
+   * cost as much again per scope.
+   */
+  private ownStatus(): BreakerStatus {
     const now = Date.now()
-    const oneHourAgo = now - ONE_HOUR_MS
-    const oneDayAgo = now - ONE_DAY_MS
-    const oneMonthAgo = now - THIRTY_DAYS_MS
-
-    let sessionSpend = 0
-    let hourSpend = 0
-    let daySpend = 0
-    let monthSpend = 0
-
-    for (const r of this.records) {
-      if (r.timestamp >= this.sessionStart) sessionSpend += r.cost
-      if (r.timestamp >= oneHourAgo) hourSpend += r.cost
-      if (r.timestamp >= oneDayAgo) daySpend += r.cost
-      if (r.timestamp >= oneMonthAgo) monthSpend += r.cost
+    const spend = {} as BreakerStatus["spend"]
+    const tokens = {} as BreakerStatus["tokens"]
+    const resetsAt: BreakerStatus["resetsAt"] = { hour: null, day: null, month: null }
+    const tokenTrips: BreakerEvent[] = []
+
+    for (const def of LIMIT_DEFS) {
+      const counted = this.recordsSince(this.windowStartFor(def.type, now))
+      spend[def.spendKey] = counted.reduce((sum, r) => sum + r.cost, 0)
+
+      const tally = tallyTokens(counted)
+      const quota = this.config.tokenLimits?.[def.configKey]
+      tokens[def.remainKey] = tokenWindowStatus(tally, quota)
+      for (const q of quota ? exhaustedQuotas(tokens[def.remainKey], quota) : []) {
+        tokenTrips.push({
+          limitType: def.type,
+          currentSpend: q.used,
+          limit: q.limit,
+          percentUsed: q.limit > 0 ? (q.used / q.limit) * 100 : UNLIMITED_PERCENTAGE,
+          action: this.config.action,
+          timestamp: now,
+          unit: "tokens",
+          tokenKind: q.kind,
+          modelFamily: q.modelFamily,
+        })
+      }
+
+      if (def.type !== "session") {
+        const oldest = counted.reduce<number | null>(
+          (min, r) => (min === null || r.timestamp < min ? r.timestamp : min),
+          null,
+        )
+        resetsAt[def.type] = windowResetsAt(def.type, now, this.config, oldest)
+      }
     }
 
     const limits = this.config.limits
-    const spend: BreakerStatus["spend"] = {
-      session: sessionSpend,
-      lastHour: hourSpend,
-      lastDay: daySpend,
-      lastMonth: monthSpend,
-    }
 
     const trippedLimits: BreakerEvent[] = LIMIT_DEFS.flatMap((def) => {
       const limitVal = limits[def.configKey]
@@ -348,9 +687,11 @@ export class CostCircuitBreaker {
           percentUsed: limitVal > 0 ? (currentSpend / limitVal) * 100 : UNLIMITED_PERCENTAGE,
           action: this.config.action,
           timestamp: now,
+          unit: "usd" as const,
         },
       ]
     })
+    trippedLimits.push(...tokenTrips)
 
     const remaining = Object.fromEntries(
       LIMIT_DEFS.map((def) => {
@@ -363,13 +704,68 @@ export class CostCircuitBreaker {
     ) as BreakerStatus["remaining"]
 
     return {
-      tripped: trippedLimits.length > 0 && this.config.action === "stop",
+      tripped: trippedLimits.some((e) => this.blocks(e)),
+      state: this.state,
       trippedLimits,
       spend,
       remaining,
+      tokens,
+      resetsAt,
       totalRequests: this.totalRequests,
       requestsBlocked: this.totalBlocked,
+      scopes: {},
+    }
+  }
+
+  /**
+   * The breaker enforcing a scope's limits: its `scopes` entry, else
+   * `defaultScope`, else null (only the global limits apply).
+   */
+  private scopeBreaker(scope: string): CostCircuitBreaker | null {
+    const existing = this.scoped.get(scope)
+    if (existing) return existing
+    const configured = this.config.scopes?.[scope]
+    const scopeConfig = configured ?? this.config.defaultScope
+    if (!scopeConfig) return null
+
+    if (!configured && this.scoped.size >= MAX_DEFAULT_SCOPES) {
+      for (const key of this.scoped.keys()) {
+        if (this.config.scopes?.[key]) continue
+        this.scoped.delete(key)
+        break
+      }
     }
+
+    const { config } = this
+    const child = new CostCircuitBreaker({
+      windowMode: config.windowMode,
+      timeZone: config.timeZone,
+      monthStartDay: config.monthStartDay,
+      action: config.action,
+      downgradeTo: config.downgradeTo,
+      halfOpen: config.halfOpen,
+      throttleRate: config.throttleRate,
+      ...scopeConfig,
+      persist: config.persist,
+      storageKey: `${config.storageKey ?? "tokenshield-breaker"}:${scope}`,
+      // Trips are tagged with the scope in trip(); warnings are tagged here
+      onWarning: (e) => config.onWarning?.({ ...e, scope }),
+      onTripped: (e) => config.onTripped?.(e),
+      onHalfOpen: (e) => config.onHalfOpen?.(e),
+      onRecovered: (downtimeMs) => config.onRecovered?.(downtimeMs, scope),
+    })
+    child.scopeName = scope
+    this.scoped.set(scope, child)
+    return child
+  }
+
+  /** Start of a limit's window: the session start, or the hour/day/month window start */
+  private windowStartFor(type: BreakerEvent["limitType"], now = Date.now()): number {
+    return type === "session" ? this.sessionStart : windowStart(type, now, this.config)
+  }
+
+  private recordsSince(start: number): SpendRecord[] {
+    return this.records.filter((r) => r.timestamp >= start)
   }
 
   /**
@@ -381,6 +777,8 @@ export class CostCircuitBreaker {
     this.totalRequests = 0
     this.totalBlocked = 0
     this.warningFired.clear()
+    this.state = "closed"
+    for (const child of this.scoped.values()) child.reset()
     this.save()
     this.config.onReset?.("all")
   }
@@ -426,3 +824,27 @@ export class CostCircuitBreaker {
     }
   }
 }
+
+/**
+ * The scope key for a request under `config`: the `scopeResolver` result,
+ * else the model ID, its provider or the feature tag per `scopeBy`.
+ * Undefined means only the global limits apply.
+ */
+export function resolveBreakerScope(
+  config: Pick<BreakerConfig, "scopeBy" | "scopeResolver">,
+  request: { modelId: string; feature?: string; params?: Record<string, unknown> },
+): string | undefined {
+  if (config.scopeResolver && request.params) {
+    return config.scopeResolver(request.params) || undefined
+  }
+  switch (config.scopeBy) {
+    case "model":
+      return request.modelId || undefined
+    case "provider":
+      return request.modelId ? detectProvider(request.modelId) : undefined
+    case "feature":
+      return request.feature || undefined
+    default:
+      return undefined
+  }
+}
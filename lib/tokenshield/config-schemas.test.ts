@@ -226,4 +226,162 @@ describe("validateConfig", () => {
   it("rejects cache.similarityThreshold of 0 (would match everything)", () => {
     expect(() => validateConfig({ cache: { similarityThreshold: 0 } })).toThrow()
   })
+
+  it("accepts cache.encodingStrategy values and rejects unknown ones", () => {
+    const config = validateConfig({ cache: { encodingStrategy: "minhash" } })
+    expect(config.cache!.encodingStrategy).toBe("minhash")
+    expect(() => validateConfig({ cache: { encodingStrategy: "vector" } })).toThrow()
+  })
+
+  it("accepts cache byte budget, eviction policy and compression options", () => {
+    const config = validateConfig({
+      cache: { maxBytes: 1_000_000, evictionPolicy: "lfu", compression: { minBytes: 512 } },
+    })
+    expect(config.cache!.evictionPolicy).toBe("lfu")
+    expect(validateConfig({ cache: { compression: true } }).cache!.compression).toBe(true)
+    expect(() => validateConfig({ cache: { evictionPolicy: "fifo" } })).toThrow()
+    expect(() => validateConfig({ cache: { maxBytes: 0 } })).toThrow()
+  })
+
+  it("validates encryption modes for persisting modules", () => {
+    const config = validateConfig({
+      encryption: { mode: "passphrase", passphrase: "hunter2" },
+      ledger: { encryption: { mode: "none" } },
+    })
+    expect(config.encryption).toEqual({ mode: "passphrase", passphrase: "hunter2" })
+    expect(() => validateConfig({ cache: { encryption: { mode: "rot13" } } })).toThrow()
+    expect(() => validateConfig({ encryption: { mode: "passphrase", passphrase: "" } })).toThrow()
+    expect(() => validateConfig({ encryption: { mode: "key" } })).toThrow()
+  })
+
+  it("validates calendar window options for breaker and user budgets", () => {
+    const config = validateConfig({
+      breaker: { limits: { perDay: 5 }, windowMode: "calendar", timeZone: "Europe/Berlin" },
+      userBudget: { windowMode: "calendar", monthStartDay: 15 },
+    })
+    expect(config.breaker!.timeZone).toBe("Europe/Berlin")
+    expect(config.userBudget!.monthStartDay).toBe(15)
+    expect(() => validateConfig({ breaker: { limits: {}, windowMode: "weekly" } })).toThrow()
+    expect(() => validateConfig({ breaker: { limits: {}, timeZone: "Mars/Olympus" } })).toThrow()
+    expect(() => validateConfig({ userBudget: { monthStartDay: 31 } })).toThrow()
+  })
+  it("validates token quotas for breaker and user budgets", () => {
+    const config = validateConfig({
+      breaker: {
+        limits: {},
+        tokenLimits: {
+          perDay: { total: 1_000_000, byModelFamily: { "gpt-4o": { output: 50_000 } } },
+        },
+      },
+      userBudget: {
+        defaultBudget: { daily: 0, monthly: 0, tokens: { monthly: { input: 200_000 } } },
+      },
+    })
+    expect(config.breaker!.tokenLimits!.perDay!.byModelFamily!["gpt-4o"].output).toBe(50_000)
+    expect(config.userBudget!.defaultBudget!.tokens!.monthly!.input).toBe(200_000)
+    expect(() =>
+      validateConfig({ breaker: { limits: {}, tokenLimits: { perHour: { output: -1 } } } }),
+    ).toThrow()
+    expect(() =>
+      validateConfig({ breaker: { limits: {}, tokenLimits: { perHour: { total: 1.5 } } } }),
+    ).toThrow()
+  })
+
+  it("validates the downgrade action and half-open recovery", () => {
+    const config = validateConfig({
+      breaker: {
+        limits: { perHour: 1 },
+        action: "downgrade",
+        downgradeTo: { hour: "gpt-4o-mini" },
+        halfOpen: { cooldownMs: 30_000, maxProbes: 3 },
+      },
+    })
+    expect(config.breaker!.downgradeTo!.hour).toBe("gpt-4o-mini")
+    expect(config.breaker!.halfOpen!.maxProbes).toBe(3)
+    expect(() =>
+      validateConfig({ breaker: { limits: {}, halfOpen: { cooldownMs: -1 } } }),
+    ).toThrow()
+    expect(() =>
+      validateConfig({ breaker: { limits: {}, halfOpen: { cooldownMs: 0, maxProbes: 0 } } }),
+    ).toThrow()
+  })
+
+  it("validates breaker scopes", () => {
+    const resolver = () => "batch"
+    const config = validateConfig({
+      breaker: {
+        limits: { perDay: 50 },
+        scopeBy: "provider",
+        scopeResolver: resolver,
+        scopes: { openai: { limits: { perDay: 20 }, action: "warn" } },
+        defaultScope: { limits: { perDay: 10 } },
+      },
+    })
+    expect(config.breaker!.scopes!.openai.action).toBe("warn")
+    expect(() => validateConfig({ breaker: { limits: {}, scopeBy: "region" } })).toThrow()
+    expect(() =>
+      validateConfig({ breaker: { limits: {}, scopes: { chat: { action: "stop" } } } }),
+    ).toThrow()
+  })
+
+  it("validates the budget hierarchy", () => {
+    const config = validateConfig({
+      userBudget: {
+        hierarchy: {
+          orgs: { acme: { limits: { daily: 100, monthly: 2000 } } },
+          teams: { search: { org: "acme", defaultUserBudget: { daily: 5, monthly: 50 } } },
+          members: { alice: { team: "search" } },
+          resolve: () => undefined,
+        },
+      },
+    })
+    expect(config.userBudget!.hierarchy!.teams!.search.org).toBe("acme")
+    expect(() =>
+      validateConfig({
+        userBudget: { hierarchy: { orgs: { acme: { limits: { daily: -1, monthly: 0 } } } } },
+      }),
+    ).toThrow()
+  })
+
+  it("validates rollover, grace and reset policies on user limits", () => {
+    const config = validateConfig({
+      userBudget: {
+        defaultBudget: {
+          daily: 5,
+          monthly: 100,
+          rollover: { daily: 2 },
+          grace: { daily: 1, monthly: 10 },
+          resetPolicy: { billingAnchor: "2025-03-15", timeZone: "Europe/Berlin" },
+        },
+      },
+    })
+    expect(config.userBudget!.defaultBudget!.resetPolicy!.billingAnchor).toBe("2025-03-15")
+    expect(() =>
+      validateConfig({
+        userBudget: { defaultBudget: { daily: 5, monthly: 0, grace: { daily: -1 } } },
+      }),
+    ).toThrow()
+    expect(() =>
+      validateConfig({
+        userBudget: {
+          defaultBudget: { daily: 5, monthly: 0, resetPolicy: { billingAnchor: "someday" } },
+        },
+      }),
+    ).toThrow()
+  })
+
+  it("validates the wallet overdraft allowance", () => {
+    expect(validateConfig({ userBudget: { wallet: { overdraft: 5 } } }).userBudget?.wallet).toEqual(
+      {
+        overdraft: 5,
+      },
+    )
+    expect(() => validateConfig({ userBudget: { wallet: { overdraft: () => 1 } } })).not.toThrow()
+    expect(() => validateConfig({ userBudget: { wallet: { overdraft: -1 } } })).toThrow()
+  })
+
+  it("validates the manual control sync interval", () => {
+    expect(validateConfig({ control: { syncIntervalMs: 0 } }).control?.syncIntervalMs).toBe(0)
+    expect(() => validateConfig({ control: { syncIntervalMs: -1 } })).toThrow()
+  })
 })
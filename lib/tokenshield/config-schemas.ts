@@ -1,4 +1,53 @@
 import * as v from "valibot"
+import { isValidTimeZone } from "./budget-windows"
+
+// ---------------------------------------------------------------------------
+// Encryption (shared by persisting modules)
+// ---------------------------------------------------------------------------
+
+export const EncryptionConfigSchema = v.variant("mode", [
+  v.object({
+    mode: v.literal("passphrase"),
+    passphrase: v.pipe(v.string(), v.minLength(1)),
+    allowPlaintextMigration: v.optional(v.boolean()),
+  }),
+  v.object({ mode: v.literal("session"), allowPlaintextMigration: v.optional(v.boolean()) }),
+  v.object({
+    mode: v.literal("key"),
+    key: v.custom<CryptoKey>((key) => typeof key === "object" && key !== null),
+    allowPlaintextMigration: v.optional(v.boolean()),
+  }),
+  v.object({ mode: v.literal("none") }),
+])
+
+// ---------------------------------------------------------------------------
+// Budget windows (shared by breaker and user budgets)
+// ---------------------------------------------------------------------------
+
+const BudgetWindowEntries = {
+  windowMode: v.optional(v.picklist(["rolling", "calendar"])),
+  timeZone: v.optional(v.pipe(v.string(), v.check(isValidTimeZone, "Unknown IANA time zone"))),
+  monthStartDay: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(28))),
+}
+
+// ---------------------------------------------------------------------------
+// Token quotas (shared by breaker and user budgets)
+// ---------------------------------------------------------------------------
+
+const TokenCount = v.pipe(v.number(), v.integer(), v.minValue(0))
+
+const TokenQuotaEntries = {
+  input: v.optional(TokenCount),
+  output: v.optional(TokenCount),
+  total: v.optional(TokenCount),
+}
+
+export const TokenLimitsSchema = v.object({
+  ...TokenQuotaEntries,
+  byModelFamily: v.optional(
+    v.record(v.pipe(v.string(), v.minLength(1)), v.object(TokenQuotaEntries)),
+  ),
+})
 
 // ---------------------------------------------------------------------------
 // Guard
@@ -31,6 +80,8 @@ const ContentTypeTtlSchema = v.optional(
   }),
 )
 
+const CacheKeyPresetSchema = v.picklist(["last-message", "full-conversation", "deterministic-only"])
+
 export const CacheConfigSchema = v.object({
   maxEntries: v.optional(v.pipe(v.number(), v.finite(), v.minValue(1)), 500),
   ttlMs: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0)), 86_400_000),
@@ -40,6 +91,52 @@ export const CacheConfigSchema = v.object({
     0.85,
   ),
   scopeByModel: v.optional(v.boolean(), true),
+  key: v.optional(
+    v.union([
+      CacheKeyPresetSchema,
+      v.object({
+        preset: v.optional(CacheKeyPresetSchema),
+        systemPrompt: v.optional(v.boolean()),
+        previousTurns: v.optional(v.pipe(v.number(), v.minValue(0))),
+        tools: v.optional(v.boolean()),
+        responseFormat: v.optional(v.boolean()),
+        sampling: v.optional(v.boolean()),
+        providerOptions: v.optional(v.array(v.string())),
+        deterministicOnly: v.optional(v.boolean()),
+        build: v.optional(v.function()),
+      }),
+    ]),
+  ),
+  replay: v.optional(
+    v.object({
+      mode: v.optional(v.picklist(["instant", "paced", "recorded"])),
+      tokensPerChunk: v.optional(v.pipe(v.number(), v.finite(), v.minValue(1))),
+      intervalMs: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
+      speed: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0.01))),
+      maxDurationMs: v.optional(v.pipe(v.number(), v.minValue(0))),
+    }),
+  ),
+  encodingStrategy: v.optional(v.picklist(["bigram", "holographic", "minhash"])),
+  embedder: v.optional(v.object({ id: v.pipe(v.string(), v.minLength(1)), embed: v.function() })),
+  embeddingThreshold: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0), v.maxValue(1))),
+  maxBytes: v.optional(v.pipe(v.number(), v.finite(), v.minValue(1))),
+  evictionPolicy: v.optional(v.picklist(["lru", "lfu"])),
+  compression: v.optional(
+    v.union([
+      v.boolean(),
+      v.object({ minBytes: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))) }),
+    ]),
+  ),
+  tagResolver: v.optional(v.function()),
+  staleWhileRevalidateMs: ContentTypeTtlSchema,
+  feedback: v.optional(
+    v.object({
+      maxBadReports: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+      thresholdStep: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0), v.maxValue(1))),
+      maxTrackedRequests: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+    }),
+  ),
+  encryption: v.optional(EncryptionConfigSchema),
 })
 
 export type CacheConfig = v.InferOutput<typeof CacheConfigSchema>
@@ -90,6 +187,7 @@ export type PrefixConfig = v.InferOutput<typeof PrefixConfigSchema>
 export const LedgerConfigSchema = v.object({
   persist: v.optional(v.boolean(), false),
   feature: v.optional(v.string()),
+  encryption: v.optional(EncryptionConfigSchema),
 })
 
 export type LedgerConfig = v.InferOutput<typeof LedgerConfigSchema>
@@ -98,15 +196,56 @@ export type LedgerConfig = v.InferOutput<typeof LedgerConfigSchema>
 // Breaker
 // ---------------------------------------------------------------------------
 
+const BreakerLimitsSchema = v.object({
+  perSession: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
+  perHour: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
+  perDay: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
+  perMonth: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
+})
+
+const BreakerBehaviourEntries = {
+  tokenLimits: v.optional(
+    v.object({
+      perSession: v.optional(TokenLimitsSchema),
+      perHour: v.optional(TokenLimitsSchema),
+      perDay: v.optional(TokenLimitsSchema),
+      perMonth: v.optional(TokenLimitsSchema),
+    }),
+  ),
+  downgradeTo: v.optional(
+    v.object({
+      session: v.optional(v.pipe(v.string(), v.minLength(1))),
+      hour: v.optional(v.pipe(v.string(), v.minLength(1))),
+      day: v.optional(v.pipe(v.string(), v.minLength(1))),
+      month: v.optional(v.pipe(v.string(), v.minLength(1))),
+    }),
+  ),
+  halfOpen: v.optional(
+    v.object({
+      cooldownMs: v.pipe(v.number(), v.finite(), v.minValue(0)),
+      maxProbes: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+    }),
+  ),
+}
+
+const BreakerActionSchema = v.picklist(["warn", "throttle", "stop", "downgrade"])
+
+const BreakerScopeSchema = v.object({
+  limits: BreakerLimitsSchema,
+  action: v.optional(BreakerActionSchema),
+  ...BreakerBehaviourEntries,
+})
+
 export const BreakerConfigSchema = v.object({
-  limits: v.object({
-    perSession: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
-    perHour: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
-    perDay: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
-    perMonth: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))),
-  }),
-  action: v.optional(v.picklist(["warn", "throttle", "stop"]), "stop"),
+  limits: BreakerLimitsSchema,
+  action: v.optional(BreakerActionSchema, "stop"),
+  ...BreakerBehaviourEntries,
+  scopeBy: v.optional(v.picklist(["model", "provider", "feature"])),
+  scopeResolver: v.optional(v.function()),
+  scopes: v.optional(v.record(v.pipe(v.string(), v.minLength(1)), BreakerScopeSchema)),
+  defaultScope: v.optional(BreakerScopeSchema),
   persist: v.optional(v.boolean(), false),
+  ...BudgetWindowEntries,
 })
 
 export type BreakerConfig = v.InferOutput<typeof BreakerConfigSchema>
@@ -115,19 +254,73 @@ export type BreakerConfig = v.InferOutput<typeof BreakerConfigSchema>
 // User Budget
 // ---------------------------------------------------------------------------
 
+const NonNegativeDollars = v.pipe(v.number(), v.finite(), v.minValue(0))
+
 export const UserBudgetLimitsSchema = v.object({
   daily: v.pipe(v.number(), v.finite(), v.minValue(0)),
   monthly: v.pipe(v.number(), v.finite(), v.minValue(0)),
   tier: v.optional(v.picklist(["standard", "premium", "unlimited"])),
+  tokens: v.optional(
+    v.object({ daily: v.optional(TokenLimitsSchema), monthly: v.optional(TokenLimitsSchema) }),
+  ),
+  rollover: v.optional(
+    v.object({ daily: v.optional(NonNegativeDollars), monthly: v.optional(NonNegativeDollars) }),
+  ),
+  grace: v.optional(
+    v.object({ daily: v.optional(NonNegativeDollars), monthly: v.optional(NonNegativeDollars) }),
+  ),
+  resetPolicy: v.optional(
+    v.object({
+      ...BudgetWindowEntries,
+      billingAnchor: v.optional(
+        v.union([
+          v.pipe(v.number(), v.finite()),
+          v.pipe(
+            v.string(),
+            v.check((s) => !Number.isNaN(Date.parse(s)), "Invalid billing anchor date"),
+          ),
+        ]),
+      ),
+    }),
+  ),
 })
 
 export type UserBudgetLimitsConfig = v.InferOutput<typeof UserBudgetLimitsSchema>
 
+const BudgetGroupEntries = {
+  limits: v.optional(UserBudgetLimitsSchema),
+  defaultUserBudget: v.optional(UserBudgetLimitsSchema),
+}
+
+export const BudgetHierarchySchema = v.object({
+  orgs: v.optional(
+    v.record(
+      v.string(),
+      v.object({ ...BudgetGroupEntries, defaultTeamBudget: v.optional(UserBudgetLimitsSchema) }),
+    ),
+  ),
+  teams: v.optional(
+    v.record(v.string(), v.object({ ...BudgetGroupEntries, org: v.optional(v.string()) })),
+  ),
+  members: v.optional(
+    v.record(v.string(), v.object({ team: v.optional(v.string()), org: v.optional(v.string()) })),
+  ),
+  resolve: v.optional(v.function()),
+})
+
 export const UserBudgetConfigSchema = v.object({
   users: v.optional(v.record(v.string(), UserBudgetLimitsSchema)),
   defaultBudget: v.optional(UserBudgetLimitsSchema),
+  hierarchy: v.optional(BudgetHierarchySchema),
+  wallet: v.optional(
+    v.object({
+      overdraft: v.optional(v.union([v.pipe(v.number(), v.minValue(0)), v.function()])),
+    }),
+  ),
   persist: v.optional(v.boolean(), false),
   tierModels: v.optional(v.record(v.picklist(["standard", "premium", "unlimited"]), v.string())),
+  encryption: v.optional(EncryptionConfigSchema),
+  ...BudgetWindowEntries,
 })
 
 export type UserBudgetConfig = v.InferOutput<typeof UserBudgetConfigSchema>
@@ -155,6 +348,10 @@ export const TokenShieldConfigSchema = v.object({
   ledger: v.optional(LedgerConfigSchema),
   breaker: v.optional(BreakerConfigSchema),
   userBudget: v.optional(UserBudgetConfigSchema),
+  encryption: v.optional(EncryptionConfigSchema),
+  control: v.optional(
+    v.object({ syncIntervalMs: v.optional(v.pipe(v.number(), v.finite(), v.minValue(0))) }),
+  ),
 })
 
 export type TokenShieldConfig = v.InferOutput<typeof TokenShieldConfigSchema>
@@ -378,6 +378,28 @@ describe("CostLedger", () => {
     expect(summary.cacheHitRate).toBeCloseTo(0.5, 10)
   })
 
+  it("getSummary separates stale-hit savings from normal cache hits", async () => {
+    const fresh = await ledger.recordCacheHit({
+      model: "gpt-4o-mini",
+      savedInputTokens: 1000,
+      savedOutputTokens: 500,
+    })
+    const stale = await ledger.recordCacheHit({
+      model: "gpt-4o-mini",
+      savedInputTokens: 2000,
+      savedOutputTokens: 500,
+      stale: true,
+    })
+    expect(fresh.staleHit).toBeUndefined()
+    expect(stale.staleHit).toBe(true)
+
+    const summary = ledger.getSummary()
+    expect(summary.cacheHits).toBe(2)
+    expect(summary.staleHits).toBe(1)
+    expect(summary.staleSavings).toBeCloseTo(stale.savings.cache, 10)
+    expect(summary.byModule.cache).toBeCloseTo(fresh.savings.cache + stale.savings.cache, 10)
+  })
+
   it("getSummary computes savingsRate as totalSaved / (totalSpent + totalSaved)", async () => {
     // Record a call with original tokens higher than actual to generate savings
     await ledger.record({
@@ -569,4 +591,23 @@ describe("CostLedger", () => {
       ledger.record({ model: "gpt-4o-mini", inputTokens: 10, outputTokens: 5, savings: {} }),
     ).not.toThrow()
   })
+
+  it("records embedding calls as overhead outside totalCalls", async () => {
+    await ledger.record({ model: "gpt-4o-mini", inputTokens: 100, outputTokens: 50, savings: {} })
+    const entry = await ledger.recordEmbedding({
+      model: "text-embedding-3-small",
+      inputTokens: 1000,
+      cost: 0.00002,
+      feature: "search",
+    })
+    expect(entry.embedding).toBe(true)
+    expect(entry.totalSaved).toBeCloseTo(-0.00002)
+
+    const summary = ledger.getSummary()
+    expect(summary.totalCalls).toBe(1)
+    expect(summary.embeddingCalls).toBe(1)
+    expect(summary.embeddingCost).toBeCloseTo(0.00002)
+    expect(summary.byModel["text-embedding-3-small"]).toBeUndefined()
+    expect(summary.byFeature.search.cost).toBeCloseTo(0.00002)
+  })
 })
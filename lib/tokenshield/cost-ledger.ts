@@ -13,13 +13,15 @@
  *
  * Free tier: session-only (Map in memory). Resets on page refresh.
  * Pro tier: persists to IndexedDB via idb-keyval, export to JSON.
+ * Servers: pass a StorageBackend to persist entries to disk, SQLite or Redis.
  *
  * Concurrency Safety:
  * - Uses BroadcastChannel to sync ledger entries across multiple tabs/windows.
  * - Ensures global visibility of spend/savings in real-time.
  */
 
-import { get, set, keys, createStore, type UseStore } from "./storage-adapter"
+import { get, set, keys, createStore, type UseStore, type StorageBackend } from "./storage-adapter"
+import { EncryptedStore, type EncryptionConfig } from "./crypto-store"
 import { estimateCost, MODEL_PRICING } from "./cost-estimator"
 import { FALLBACK_INPUT_PER_MILLION, FALLBACK_OUTPUT_PER_MILLION } from "./middleware-types"
 
@@ -52,6 +54,12 @@ export interface LedgerEntry {
   latencyMs?: number
   /** Whether this was a cache hit (no API call) */
   cacheHit: boolean
+  /** Cache hit served from the stale-while-revalidate window */
+  staleHit?: boolean /**
+   * Embedding call made by the semantic cache. Its cost is TokenShield
+   * overhead, so it counts against totalSaved rather than as a model call.
+   */
+  embedding?: boolean
 }
 
 export interface LedgerSummary {
@@ -60,6 +68,14 @@ export interface LedgerSummary {
   totalCalls: number
   callsBlocked: number
   cacheHits: number
+  /** Subset of cacheHits served stale while a refresh ran in the background */
+  staleHits: number
+  /** Portion of byModule.cache saved by stale hits */
+  staleSavings: number
+  /** Embedding calls made by the semantic cache (not included in totalCalls) */
+  embeddingCalls: number
+  /** Spend on those embedding calls, included in totalSpent */
+  embeddingCost: number
   cacheHitRate: number
   avgCostPerCall: number
   avgSavingsPerCall: number
@@ -85,13 +101,41 @@ export class CostLedger {
   private hydrated = false
   private channel: BroadcastChannel | null = null
 
-  constructor(options?: { persist?: boolean; storeName?: string }) {
-    this.persistEnabled = options?.persist ?? false
+  constructor(options?: {
+    persist?: boolean
+    storeName?: string
+    /** Server-side persistence backend. Implies `persist: true` unless set explicitly. */
+    backend?: StorageBackend
+    /** Encrypt persisted entries with AES-GCM; plaintext entries migrate on hydrate */
+    encryption?: EncryptionConfig
+    /** Called when decryption or key derivation fails */
+    onStorageError?: (error: unknown) => void
+  }) {
+    this.persistEnabled = options?.persist ?? options?.backend !== undefined
+    const storeName = options?.storeName ?? "tokenshield-ledger"
+    const encryption = options?.encryption
+    if (encryption && encryption.mode !== "none" && this.persistEnabled) {
+      if (options?.backend || typeof window !== "undefined") {
+        try {
+          this.idbStore = new EncryptedStore({
+            dbName: storeName,
+            storeName: "entries",
+            encryption,
+            backend: options?.backend,
+            onStorageError: options?.onStorageError,
+          })
+        } catch {
+          // SSR or IDB unavailable
+        }
+      }
+    } else if (options?.backend) {
+      this.idbStore = options.backend
+    }
     if (typeof window !== "undefined") {
       // Setup persistence
-      if (this.persistEnabled) {
+      if (this.persistEnabled && !this.idbStore) {
         try {
-          this.idbStore = createStore(options?.storeName ?? "tokenshield-ledger", "entries")
+          this.idbStore = createStore(storeName, "entries")
         } catch {
           // SSR or IDB unavailable
         }
@@ -167,6 +211,7 @@ export class CostLedger {
     feature?: string
     latencyMs?: number
     cacheHit?: boolean
+    staleHit?: boolean
     /** Token count that would have been sent without TokenShield */
     originalInputTokens?: number
     /** Model that would have been used without TokenShield */
@@ -212,8 +257,20 @@ export class CostLedger {
       feature: entry.feature,
       latencyMs: entry.latencyMs,
       cacheHit: entry.cacheHit ?? false,
+      ...(entry.staleHit ? { staleHit: true } : {}),
     }
 
+    const persisted = this.commit(ledgerEntry)
+    if (persisted) await persisted
+    return ledgerEntry
+  }
+
+  /**
+   * Append an entry, broadcast it to other tabs, persist it and notify
+   * listeners. Only returns a promise when persisting, so in-memory
+   * records resolve without extra ticks.
+   */
+  private commit(ledgerEntry: LedgerEntry): Promise<void> | undefined {
     // Update local state
     this.entries.push(ledgerEntry)
     this.pruneEntries()
@@ -225,15 +282,15 @@ export class CostLedger {
 
     // Persist to IndexedDB if enabled
     if (this.persistEnabled && this.idbStore) {
-      try {
-        await set(ledgerEntry.id, ledgerEntry, this.idbStore)
-      } catch {
-        // IDB write failed, data still in memory
-      }
+      return set(ledgerEntry.id, ledgerEntry, this.idbStore)
+        .catch(() => {
+          // IDB write failed, data still in memory
+        })
+        .then(() => this.notify())
     }
 
     this.notify()
-    return ledgerEntry
+    return undefined
   }
 
   /**
@@ -272,6 +329,8 @@ export class CostLedger {
     savedInputTokens: number
     savedOutputTokens: number
     feature?: string
+    /** Served from the stale-while-revalidate window */
+    stale?: boolean
   }): Promise<LedgerEntry> {
     const wouldHaveCost = this.calculateCost(
       entry.model,
@@ -288,9 +347,41 @@ export class CostLedger {
       savings: { cache: wouldHaveCost },
       feature: entry.feature,
       cacheHit: true,
+      staleHit: entry.stale,
     })
   }
 
+  /**
+   * Record an embedding call made by the semantic cache. `cost` overrides
+   * the pricing-table estimate (e.g. for a self-hosted model).
+   */
+  async recordEmbedding(entry: {
+    model: string
+    inputTokens: number
+    cost?: number
+    feature?: string
+  }): Promise<LedgerEntry> {
+    const actualCost = entry.cost ?? this.calculateCost(entry.model, entry.inputTokens, 0, 0)
+    const ledgerEntry: LedgerEntry = {
+      id: `ts_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: 0,
+      cachedTokens: 0,
+      actualCost,
+      costWithoutShield: 0,
+      totalSaved: -actualCost,
+      savings: { guard: 0, cache: 0, context: 0, router: 0, prefix: 0 },
+      feature: entry.feature,
+      cacheHit: false,
+      embedding: true,
+    }
+    const persisted = this.commit(ledgerEntry)
+    if (persisted) await persisted
+    return ledgerEntry
+  }
+
   /**
    * Get a full summary of all tracked costs and savings.
    */
@@ -302,12 +393,26 @@ export class CostLedger {
     let totalSpent = 0
     let totalSaved = 0
     let cacheHits = 0
+    let staleHits = 0
+    let staleSavings = 0
     let callsBlocked = 0
+    let embeddingCalls = 0
+    let embeddingCost = 0
 
     for (const e of this.entries) {
       totalSpent += e.actualCost
       totalSaved += e.totalSaved
 
+      const feat = e.feature ?? "_untagged"
+      if (e.embedding) {
+        embeddingCalls++
+        embeddingCost += e.actualCost
+        if (!byFeature[feat]) byFeature[feat] = { calls: 0, cost: 0, saved: 0 }
+        byFeature[feat].cost += e.actualCost
+        byFeature[feat].saved += e.totalSaved
+        continue
+      }
+
       byModule.guard += e.savings.guard
       byModule.cache += e.savings.cache
       byModule.context += e.savings.context
@@ -315,6 +420,10 @@ export class CostLedger {
       byModule.prefix += e.savings.prefix
 
       if (e.cacheHit) cacheHits++
+      if (e.staleHit) {
+        staleHits++
+        staleSavings += e.savings.cache
+      }
       if (e.savings.guard > 0 && e.inputTokens === 0) callsBlocked++
 
       // Per-model breakdown
@@ -324,14 +433,13 @@ export class CostLedger {
       byModel[e.model].tokens += e.inputTokens + e.outputTokens
 
       // Per-feature breakdown
-      const feat = e.feature ?? "_untagged"
       if (!byFeature[feat]) byFeature[feat] = { calls: 0, cost: 0, saved: 0 }
       byFeature[feat].calls++
       byFeature[feat].cost += e.actualCost
       byFeature[feat].saved += e.totalSaved
     }
 
-    const totalCalls = this.entries.length
+    const totalCalls = this.entries.length - embeddingCalls
     const totalPossibleSpend = totalSpent + totalSaved
 
     return {
@@ -340,6 +448,10 @@ export class CostLedger {
       totalCalls,
       callsBlocked,
       cacheHits,
+      staleHits,
+      staleSavings,
+      embeddingCalls,
+      embeddingCost,
       cacheHitRate: totalCalls > 0 ? cacheHits / totalCalls : 0,
       avgCostPerCall: totalCalls > 0 ? totalSpent / totalCalls : 0,
       avgSavingsPerCall: totalCalls > 0 ? totalSaved / totalCalls : 0,
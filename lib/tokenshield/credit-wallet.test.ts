@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest"
+import { CreditWallet } from "./credit-wallet"
+import { TokenShieldConfigError } from "./errors"
+import type { LedgerEntry } from "./cost-ledger"
+
+function ledgerEntry(
+  id: string,
+  actualCost: number,
+  extra: Partial<LedgerEntry> = {},
+): LedgerEntry {
+  return {
+    id,
+    timestamp: Date.now(),
+    model: "gpt-4o-mini",
+    inputTokens: 100,
+    outputTokens: 50,
+    cachedTokens: 0,
+    actualCost,
+    costWithoutShield: actualCost,
+    totalSaved: 0,
+    savings: { guard: 0, cache: 0, context: 0, router: 0, prefix: 0 },
+    cacheHit: false,
+    ...extra,
+  }
+}
+
+describe("CreditWallet", () => {
+  describe("balances", () => {
+    it("tracks credits and debits with the balance after each transaction", () => {
+      const wallet = new CreditWallet()
+      wallet.credit("alice", 10, "top-up")
+      wallet.debit("alice", 2.5, "usage", { model: "gpt-4o" })
+      wallet.credit("alice", 1, "refund")
+
+      expect(wallet.balanceOf("alice")).toBeCloseTo(8.5)
+      expect(wallet.getTransactions("alice").map((t) => [t.type, t.balance])).toEqual([
+        ["credit", 10],
+        ["debit", 7.5],
+        ["credit", 8.5],
+      ])
+      expect(wallet.balanceOf("bob")).toBe(0)
+    })
+
+    it("keeps transactions immutable", () => {
+      const wallet = new CreditWallet()
+      const t = wallet.credit("alice", 5, "top-up")
+      expect(Object.isFrozen(t)).toBe(true)
+      expect(() => {
+        ;(t as { amount: number }).amount = 500
+      }).toThrow(TypeError)
+      wallet.getTransactions().pop()
+      expect(wallet.getTransactions()).toHaveLength(1)
+    })
+
+    it("rejects non-positive amounts and empty user IDs", () => {
+      const wallet = new CreditWallet()
+      expect(() => wallet.credit("alice", 0, "x")).toThrow(TokenShieldConfigError)
+      expect(() => wallet.debit("alice", -1, "x")).toThrow(TokenShieldConfigError)
+      expect(() => wallet.credit("", 5, "x")).toThrow(TokenShieldConfigError)
+    })
+
+    it("covers requests up to the balance plus overdraft, minus reservations", () => {
+      const wallet = new CreditWallet({ overdraft: (userId) => (userId === "vip" ? 5 : 0) })
+      wallet.credit("alice", 1, "top-up")
+      wallet.credit("vip", 1, "top-up")
+
+      expect(wallet.covers("alice", 0.5)).toBe(true)
+      expect(wallet.covers("alice", 0.5, 0.6)).toBe(false)
+      expect(wallet.covers("vip", 4)).toBe(true)
+      expect(wallet.getBalance("vip", 1)).toEqual({ balance: 1, available: 5, overdraft: 5 })
+      // An empty wallet covers nothing, not even a request with no estimate
+      expect(wallet.covers("bob", 0)).toBe(false)
+    })
+  })
+
+  describe("persistence", () => {
+    it("rebuilds balances from loaded transactions without duplicates", () => {
+      const source = new CreditWallet()
+      source.credit("alice", 10, "top-up")
+      source.debit("alice", 3, "usage")
+      const history = source.getTransactions()
+
+      const restored = new CreditWallet()
+      expect(restored.load(history)).toBe(2)
+      expect(restored.load(history)).toBe(2)
+      expect(restored.balanceOf("alice")).toBe(7)
+    })
+
+    it("replays transactions made before loading on top of the persisted balance", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        vi.setSystemTime(1_000)
+        const source = new CreditWallet()
+        source.credit("alice", 50, "top-up")
+        const history = source.getTransactions()
+
+        vi.setSystemTime(2_000)
+        const restored = new CreditWallet()
+        restored.debit("alice", 1, "usage")
+        restored.load(history, source.getBalances())
+        expect(restored.balanceOf("alice")).toBe(49)
+        expect(restored.getTransactions().map((t) => t.balance)).toEqual([50, 49])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("keeps persisted balances whose transactions were pruned", () => {
+      const restored = new CreditWallet()
+      restored.load([], { alice: 12 })
+      restored.credit("alice", 3, "top-up")
+      expect(restored.balanceOf("alice")).toBe(15)
+    })
+  })
+
+  describe("export", () => {
+    it("exports JSON with balances and CSV with escaped reasons", () => {
+      const wallet = new CreditWallet()
+      wallet.credit("alice", 10, 'promo "spring", 2025')
+      wallet.debit("alice", 0.25, "usage", { model: "gpt-4o", ledgerEntryId: "ts_1" })
+
+      const json = JSON.parse(wallet.exportJSON())
+      expect(json.balances).toEqual({ alice: 9.75 })
+      expect(json.transactions).toHaveLength(2)
+
+      const lines = wallet.exportCSV().split("\n")
+      expect(lines[0]).toBe("id,timestamp,userId,type,amount,balance,reason,model,ledgerEntryId")
+      expect(lines[1]).toContain(',"promo ""spring"", 2025",,')
+      expect(lines[2]).toMatch(/,alice,debit,0\.250000,9\.750000,usage,gpt-4o,ts_1$/)
+    })
+  })
+
+  describe("reconcile", () => {
+    it("matches spend debits to ledger entries and reports the gaps", () => {
+      const wallet = new CreditWallet()
+      wallet.credit("alice", 10, "top-up")
+      wallet.debit("alice", 0.1, "usage", { model: "gpt-4o", ledgerEntryId: "ts_a" })
+      wallet.debit("alice", 0.2, "usage", { model: "gpt-4o", ledgerEntryId: "ts_b" })
+      wallet.debit("alice", 0.3, "usage", { model: "gpt-4o", ledgerEntryId: "ts_missing" })
+      wallet.debit("alice", 1, "manual adjustment")
+
+      const report = wallet.reconcile([
+        ledgerEntry("ts_a", 0.1),
+        ledgerEntry("ts_b", 0.25),
+        ledgerEntry("ts_unbilled", 0.4),
+        ledgerEntry("ts_cached", 0, { cacheHit: true }),
+      ])
+      expect(report.matched).toBe(1)
+      expect(report.mismatched).toHaveLength(1)
+      expect(report.mismatched[0].difference).toBeCloseTo(-0.05)
+      expect(report.unmatchedTransactions.map((t) => t.ledgerEntryId)).toEqual(["ts_missing"])
+      expect(report.unmatchedEntries.map((e) => e.id)).toEqual(["ts_unbilled"])
+    })
+  })
+})
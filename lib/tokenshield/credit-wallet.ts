@@ -0,0 +1,304 @@
+/**
+ * TokenShield - Credit Wallet
+ *
+ * Prepaid dollar balances for end users who buy AI credits. Credits
+ * (top-ups, refunds, grants) raise a balance and debits lower it. In
+ * wallet mode the UserBudgetManager debits each request's actual cost
+ * automatically and refuses requests the balance can't cover.
+ *
+ * Every change is an append-only, frozen transaction that carries the
+ * balance after it, so the history doubles as an audit trail: export it
+ * as JSON or CSV, or reconcile spend debits against CostLedger entries.
+ *
+ * Features:
+ * - Per-user balances with an optional overdraft allowance
+ * - Immutable transaction history linked to ledger entries
+ * - JSON/CSV export and ledger reconciliation for finance tooling
+ */
+
+import { TokenShieldConfigError } from "./errors"
+import type { LedgerEntry } from "./cost-ledger"
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type WalletTransactionType = "credit" | "debit"
+
+export interface WalletTransaction {
+  id: string
+  userId: string
+  type: WalletTransactionType
+  /** Always positive; `type` gives the direction */
+  amount: number
+  /** The user's balance after this transaction */
+  balance: number
+  reason: string
+  timestamp: number
+  /** Model of the request a spend debit paid for */
+  model?: string
+  /** CostLedger entry of the request a spend debit paid for */
+  ledgerEntryId?: string
+}
+
+export interface WalletConfig {
+  /**
+   * How far below zero a balance may go, in dollars (default: 0). Pass a
+   * function for per-user allowances.
+   */
+  overdraft?: number | ((userId: string) => number)
+}
+
+export interface WalletBalance {
+  balance: number
+  /** What the user can still spend: balance minus in-flight reservations plus overdraft */
+  available: number
+  overdraft: number
+}
+
+export interface WalletReconciliation {
+  /** Spend debits whose ledger entry has the same actual cost */
+  matched: number
+  /** Spend debits whose ledger entry has a different actual cost */
+  mismatched: Array<{ transaction: WalletTransaction; entry: LedgerEntry; difference: number }>
+  /** Spend debits with no ledger entry among those passed in */
+  unmatchedTransactions: WalletTransaction[]
+  /** Billed ledger entries that no debit paid for */
+  unmatchedEntries: LedgerEntry[]
+}
+
+// -------------------------------------------------------
+// Implementation
+// -------------------------------------------------------
+
+/** Maximum transactions kept in memory; balances survive pruning */
+const MAX_WALLET_TRANSACTIONS = 100_000
+
+/** Dollar differences below this are rounding, not a reconciliation error */
+const RECONCILE_TOLERANCE = 1e-9
+
+/** A transaction's effect on the balance */
+function signedAmount(t: WalletTransaction): number {
+  return t.type === "credit" ? t.amount : -t.amount
+}
+
+export class CreditWallet {
+  private transactions: WalletTransaction[] = []
+  private balances = new Map<string, number>()
+  private config: WalletConfig
+
+  constructor(config: WalletConfig = {}) {
+    this.config = config
+  }
+
+  /** Add `amount` dollars to a user's balance. */
+  credit(userId: string, amount: number, reason: string): WalletTransaction {
+    return this.append(userId, "credit", amount, reason)
+  }
+
+  /**
+   * Take `amount` dollars from a user's balance. Debits always apply, even
+   * past the overdraft allowance; only new requests are refused.
+   */
+  debit(
+    userId: string,
+    amount: number,
+    reason: string,
+    ref: { model?: string; ledgerEntryId?: string } = {},
+  ): WalletTransaction {
+    return this.append(userId, "debit", amount, reason, ref)
+  }
+
+  /** Current balance (0 for users who were never credited). */
+  balanceOf(userId: string): number {
+    return this.balances.get(userId) ?? 0
+  }
+
+  overdraftFor(userId: string): number {
+    const { overdraft } = this.config
+    const allowance = typeof overdraft === "function" ? overdraft(userId) : overdraft
+    return allowance !== undefined && allowance > 0 ? allowance : 0
+  }
+
+  /** Balance, overdraft and what is left after `reserved` in-flight dollars. */
+  getBalance(userId: string, reserved = 0): WalletBalance {
+    const balance = this.balanceOf(userId)
+    const overdraft = this.overdraftFor(userId)
+    return { balance, available: balance - reserved + overdraft, overdraft }
+  }
+
+  /** Whether a request costing `amount` fits in what the user has left. */
+  covers(userId: string, amount: number, reserved = 0): boolean {
+    const { available } = this.getBalance(userId, reserved)
+    return available > 0 && available >= amount
+  }
+
+  /** Transactions oldest first, for one user or everyone. */
+  getTransactions(userId?: string): WalletTransaction[] {
+    return userId === undefined
+      ? this.transactions.slice()
+      : this.transactions.filter((t) => t.userId === userId)
+  }
+
+  /** The latest `limit` transactions, oldest first. */
+  getRecentTransactions(limit: number): WalletTransaction[] {
+    return this.transactions.slice(-limit)
+  }
+
+  /** Balances by user, including users whose transactions were pruned. */
+  getBalances(): Record<string, number> {
+    return Object.fromEntries(this.balances)
+  }
+
+  /**
+   * Merge persisted transactions (deduplicated by ID) and rebuild balances.
+   * `balances` are the persisted balances those transactions end at (for
+   * histories saved without them, each user's latest transaction stands
+   * in). The merged history is replayed in timestamp order from there, so
+   * credits and debits made before loading add to the persisted balance
+   * instead of replacing it.
+   */
+  load(transactions: WalletTransaction[], balances?: Record<string, number>): number {
+    const persistedBalances = new Map(balances ? Object.entries(balances) : [])
+    const sorted = transactions.slice().sort((a, b) => a.timestamp - b.timestamp)
+    if (!balances) for (const t of sorted) persistedBalances.set(t.userId, t.balance)
+
+    // Each user's balance before the oldest persisted transaction
+    const running = new Map(persistedBalances)
+    for (const t of sorted) {
+      running.set(t.userId, (running.get(t.userId) ?? 0) - signedAmount(t))
+    }
+
+    const seen = new Set(transactions.map((t) => t.id))
+    const merged = sorted.concat(this.transactions.filter((t) => !seen.has(t.id)))
+    merged.sort((a, b) => a.timestamp - b.timestamp)
+    const replayed = merged.map((t) => {
+      const balance = (running.get(t.userId) ?? 0) + signedAmount(t)
+      running.set(t.userId, balance)
+      return Object.isFrozen(t) && t.balance === balance ? t : Object.freeze({ ...t, balance })
+    })
+    this.transactions = replayed.slice(-MAX_WALLET_TRANSACTIONS)
+    this.balances = running
+    return this.transactions.length
+  }
+
+  /**
+   * Match spend debits to CostLedger entries by ID and compare amounts.
+   * Pass the ledger entries for wallet users only; any billed entry
+   * without a debit is reported in `unmatchedEntries`.
+   */
+  reconcile(entries: LedgerEntry[]): WalletReconciliation {
+    const billed = entries.filter((e) => !e.cacheHit && !e.embedding && e.actualCost > 0)
+    const byId = new Map(billed.map((e) => [e.id, e]))
+    const paid = new Set<string>()
+    const result: WalletReconciliation = {
+      matched: 0,
+      mismatched: [],
+      unmatchedTransactions: [],
+      unmatchedEntries: [],
+    }
+
+    for (const t of this.transactions) {
+      // Manual debits have no request behind them
+      if (t.type !== "debit" || (!t.model && !t.ledgerEntryId)) continue
+      const entry = t.ledgerEntryId ? byId.get(t.ledgerEntryId) : undefined
+      if (!entry) {
+        result.unmatchedTransactions.push(t)
+        continue
+      }
+      paid.add(entry.id)
+      const difference = t.amount - entry.actualCost
+      if (Math.abs(difference) <= RECONCILE_TOLERANCE) result.matched++
+      else result.mismatched.push({ transaction: t, entry, difference })
+    }
+    result.unmatchedEntries = billed.filter((e) => !paid.has(e.id))
+    return result
+  }
+
+  /** Export the transaction history as JSON (for finance teams / reporting). */
+  exportJSON(): string {
+    const balances: Record<string, number> = {}
+    for (const [userId, balance] of this.balances) balances[userId] = balance
+    return JSON.stringify(
+      { exportedAt: new Date().toISOString(), balances, transactions: this.transactions },
+      null,
+      2,
+    )
+  }
+
+  /** Export the transaction history as CSV (for spreadsheet / finance tooling). */
+  exportCSV(): string {
+    const headers = [
+      "id",
+      "timestamp",
+      "userId",
+      "type",
+      "amount",
+      "balance",
+      "reason",
+      "model",
+      "ledgerEntryId",
+    ]
+    const rows = this.transactions.map((t) =>
+      [
+        t.id,
+        new Date(t.timestamp).toISOString(),
+        t.userId,
+        t.type,
+        t.amount.toFixed(6),
+        t.balance.toFixed(6),
+        t.reason,
+        t.model ?? "",
+        t.ledgerEntryId ?? "",
+      ]
+        .map((v) => {
+          const s = String(v)
+          if (s.includes(",") || s.includes('"') || s.includes("\n")) {
+            return `"${s.replace(/"/g, '""')}"`
+          }
+          return s
+        })
+        .join(","),
+    )
+    return [headers.join(","), ...rows].join("\n")
+  }
+
+  /** Drop every transaction and balance. */
+  clear(): void {
+    this.transactions = []
+    this.balances.clear()
+  }
+
+  private append(
+    userId: string,
+    type: WalletTransactionType,
+    amount: number,
+    reason: string,
+    ref: { model?: string; ledgerEntryId?: string } = {},
+  ): WalletTransaction {
+    if (!userId) {
+      throw new TokenShieldConfigError(`wallet ${type} userId must be a non-empty string`, "userId")
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new TokenShieldConfigError(`wallet ${type} amount must be a positive number`, "amount")
+    }
+    const balance = this.balanceOf(userId) + (type === "credit" ? amount : -amount)
+    const transaction: WalletTransaction = Object.freeze({
+      id: `wt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      type,
+      amount,
+      balance,
+      reason,
+      timestamp: Date.now(),
+      ...(ref.model && { model: ref.model }),
+      ...(ref.ledgerEntryId && { ledgerEntryId: ref.ledgerEntryId }),
+    })
+    this.transactions.push(transaction)
+    if (this.transactions.length > MAX_WALLET_TRANSACTIONS) {
+      this.transactions = this.transactions.slice(-MAX_WALLET_TRANSACTIONS)
+    }
+    this.balances.set(userId, balance)
+    return transaction
+  }
+}
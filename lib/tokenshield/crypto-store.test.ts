@@ -21,6 +21,9 @@ const mockSubtle = {
     return new Uint8Array(data).slice(12).buffer
   }),
   exportKey: vi.fn().mockResolvedValue({ kty: "oct", k: "test-key" }),
+  digest: vi
+    .fn()
+    .mockImplementation(async (_alg: unknown, data: Uint8Array) => data.slice().buffer),
 }
 
 // Set up globals before importing the module
@@ -75,7 +78,8 @@ vi.mock("idb-keyval", () => ({
   createStore: vi.fn(),
 }))
 
-import { EncryptedStore, createEncryptedStore } from "./crypto-store"
+import { EncryptedStore, createEncryptedStore, type EncryptedStoreConfig } from "./crypto-store"
+import { createMemoryBackend, isStorageBackend, type StorageBackend } from "./storage-adapter"
 
 describe("EncryptedStore", () => {
   beforeEach(() => {
@@ -305,4 +309,118 @@ describe("EncryptedStore", () => {
     expect(errors).toHaveLength(1)
     expect((errors[0] as Error).message).toBe("Key derivation failed")
   })
+
+  // -------------------------------------------------------
+  // StorageBackend API
+  // -------------------------------------------------------
+
+  describe("as a StorageBackend", () => {
+    const encrypted = (backend: StorageBackend, encryption?: EncryptedStoreConfig["encryption"]) =>
+      new EncryptedStore({
+        dbName: "test-db-backend",
+        storeName: "test",
+        encryption: encryption ?? { mode: "key", key: mockKey },
+        backend,
+      })
+
+    it("writes JSON-safe envelopes to the wrapped backend and reads them back", async () => {
+      const backend = createMemoryBackend()
+      const store = encrypted(backend)
+      expect(isStorageBackend(store)).toBe(true)
+      await store.set("k", { secret: "customer data" })
+
+      const raw = await backend.get<{ format: string; data: string }>("k")
+      expect(raw?.format).toBe("tokenshield-encrypted-v1")
+      expect(typeof raw?.data).toBe("string")
+      expect(JSON.stringify(raw)).not.toContain("customer data")
+      expect(await store.get("k")).toEqual({ secret: "customer data" })
+    })
+
+    it("passes TTLs through and supports batch, del and keys", async () => {
+      const backend = createMemoryBackend()
+      const store = encrypted(backend)
+      await store.batch([
+        { type: "set", key: "a", value: 1, ttlMs: 60_000 },
+        { type: "set", key: "b", value: 2 },
+        { type: "del", key: "b" },
+      ])
+      expect(await store.keys()).toEqual(["a"])
+      expect(await store.ttl("a")).toBeGreaterThan(0)
+      expect(await backend.get("a")).not.toBe(1)
+      await store.del("a")
+      expect(await store.get("a")).toBeUndefined()
+    })
+
+    it("rejects plaintext records when migration is turned off", async () => {
+      const backend = createMemoryBackend()
+      await backend.set("planted", { admin: true })
+      const errors: unknown[] = []
+      const store = new EncryptedStore({
+        dbName: "test-db-backend",
+        storeName: "test",
+        encryption: { mode: "key", key: mockKey, allowPlaintextMigration: false },
+        backend,
+        onStorageError: (err) => errors.push(err),
+      })
+
+      expect(await store.get("planted")).toBeUndefined()
+      expect((errors[0] as Error).message).toMatch(/refusing plaintext record "planted"/)
+      expect(await store.migrate()).toBe(0)
+      expect(await backend.get("planted")).toEqual({ admin: true })
+    })
+
+    it("serves plaintext records and re-writes them encrypted", async () => {
+      const backend = createMemoryBackend()
+      await backend.set("legacy", { plain: true }, { ttlMs: 60_000 })
+      const store = encrypted(backend)
+
+      expect(await store.get("legacy")).toEqual({ plain: true })
+      await new Promise((r) => setTimeout(r, 10))
+      const raw = await backend.get<{ format?: string }>("legacy")
+      expect(raw?.format).toBe("tokenshield-encrypted-v1")
+      expect(await backend.ttl("legacy")).toBeGreaterThan(0)
+      expect(await store.get("legacy")).toEqual({ plain: true })
+    })
+
+    it("migrate() encrypts every plaintext record eagerly", async () => {
+      const backend = createMemoryBackend()
+      await backend.set("one", [1, 2, 3])
+      await backend.set("two", "text")
+      const store = encrypted(backend)
+      await store.set("three", 3)
+
+      expect(await store.migrate()).toBe(2)
+      for (const key of ["one", "two", "three"]) {
+        expect((await backend.get<{ format?: string }>(key))?.format).toBe(
+          "tokenshield-encrypted-v1",
+        )
+      }
+      expect(await store.get("one")).toEqual([1, 2, 3])
+      expect(await store.migrate()).toBe(0)
+    })
+
+    it("stores values unchanged in mode: none", async () => {
+      const backend = createMemoryBackend()
+      const store = encrypted(backend, { mode: "none" })
+      await store.set("k", { a: 1 })
+      expect(await backend.get("k")).toEqual({ a: 1 })
+      expect(await store.migrate()).toBe(0)
+    })
+
+    it("shares one derived key between stores with the same passphrase", async () => {
+      const backend = createMemoryBackend()
+      const a = encrypted(backend, { mode: "passphrase", passphrase: "shared-secret" })
+      const b = encrypted(backend, { mode: "passphrase", passphrase: "shared-secret" })
+      await a.set("k", "v")
+      expect(await b.get("k")).toBe("v")
+      expect(mockSubtle.deriveKey).toHaveBeenCalledTimes(1)
+    })
+
+    it("derives a separate key for a different passphrase", async () => {
+      const backend = createMemoryBackend()
+      await encrypted(backend, { mode: "passphrase", passphrase: "first-secret" }).set("a", 1)
+      await encrypted(backend, { mode: "passphrase", passphrase: "second-secret" }).set("b", 2)
+      expect(mockSubtle.deriveKey).toHaveBeenCalledTimes(2)
+    })
+  })
 })
@@ -12,26 +12,65 @@
  * 1. Passphrase → PBKDF2 key derivation (user-provided, survives sessions)
  * 2. Auto-generated key stored in sessionStorage (per-tab, auto-expires)
  * 3. Bring your own CryptoKey (for advanced integrations)
+ *
+ * Passphrase and session modes keep their salt/key in browser storage; on
+ * servers, use mode "key" with a key loaded from your secret manager.
+ *
+ * EncryptedStore is itself a StorageBackend, so persisting modules accept
+ * it anywhere a store is expected (see their `encryption` options). Records
+ * written before encryption was enabled are read as plaintext and re-written
+ * encrypted on first access, unless `allowPlaintextMigration` is turned off.
  */
 
-import { get, set, del, keys, createStore, type UseStore } from "./storage-adapter"
+import {
+  get,
+  set,
+  del,
+  keys,
+  createStore,
+  isStorageBackend,
+  type UseStore,
+  type StorageBackend,
+  type StorageBatchOp,
+  type StorageSetOptions,
+} from "./storage-adapter"
 import { TokenShieldCryptoError, ERROR_CODES } from "./errors"
 
 // -------------------------------------------------------
 // Types
 // -------------------------------------------------------
 
+/** Options shared by the encrypting modes */
+interface EncryptionOptions {
+  /**
+   * Accept records written before encryption was enabled, serving them
+   * as-is and re-writing them encrypted (default: true). Plaintext records
+   * carry no GCM tag, so anyone with write access to the store could plant
+   * one; set this to false once every record is encrypted. Plaintext
+   * records are then reported through `onStorageError` and read as missing.
+   */
+  allowPlaintextMigration?: boolean
+}
+
+/** Encryption mode for EncryptedStore and the modules' `encryption` options */
+export type EncryptionConfig =
+  | ({ mode: "passphrase"; passphrase: string } & EncryptionOptions)
+  | ({ mode: "session" } & EncryptionOptions)
+  | ({ mode: "key"; key: CryptoKey } & EncryptionOptions)
+  | { mode: "none" }
+
 export interface EncryptedStoreConfig {
   /** IndexedDB database name */
   dbName: string
   /** IndexedDB store name */
   storeName: string
   /** Encryption mode */
-  encryption:
-    | { mode: "passphrase"; passphrase: string }
-    | { mode: "session" }
-    | { mode: "key"; key: CryptoKey }
-    | { mode: "none" }
+  encryption: EncryptionConfig
+  /**
+   * Storage backend to encrypt into instead of IndexedDB. When set, `dbName`
+   * and `storeName` are only used as labels.
+   */
+  backend?: StorageBackend
   /**
    * Called when a storage or crypto operation fails (e.g., key derivation,
    * decryption, IDB unavailable). Without this callback, some errors are
@@ -48,6 +87,70 @@ const SALT_KEY = "tokenshield-crypto-salt"
 const SESSION_KEY_NAME = "tokenshield-session-key"
 const ALGORITHM = "AES-GCM"
 const IV_LENGTH = 12
+/** Marks a JSON-safe encrypted record written through the StorageBackend API */
+const ENVELOPE_FORMAT = "tokenshield-encrypted-v1"
+
+/** Persisted form of an encrypted value: base64 of IV + ciphertext */
+interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT
+  data: string
+}
+
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { format?: unknown }).format === ENVELOPE_FORMAT &&
+    typeof (value as { data?: unknown }).data === "string"
+  )
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * In-flight key derivations shared by every store in the page, so the
+ * modules of one middleware instance run PBKDF2 once and don't race to
+ * generate different session keys. Keyed by a SHA-256 digest so raw
+ * passphrases aren't held for the lifetime of the page.
+ */
+const passphraseKeys = new Map<string, Promise<CryptoKey>>()
+let sessionKey: Promise<CryptoKey> | null = null
+
+async function sharedPassphraseKey(passphrase: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(passphrase))
+  const id = toBase64(new Uint8Array(digest))
+  let pending = passphraseKeys.get(id)
+  if (!pending) {
+    pending = deriveKeyFromPassphrase(passphrase)
+    pending.catch(() => passphraseKeys.delete(id))
+    passphraseKeys.set(id, pending)
+  }
+  return pending
+}
+
+function sharedSessionKey(): Promise<CryptoKey> {
+  if (!sessionKey) {
+    const pending = getSessionKey()
+    pending.catch(() => {
+      if (sessionKey === pending) sessionKey = null
+    })
+    sessionKey = pending
+  }
+  return sessionKey
+}
 
 /**
  * Derive a CryptoKey from a passphrase using PBKDF2.
@@ -149,20 +252,23 @@ async function decrypt(data: Uint8Array, key: CryptoKey): Promise<string> {
 // Encrypted Store
 // -------------------------------------------------------
 
-export class EncryptedStore {
+export class EncryptedStore implements StorageBackend {
   private idbStore: UseStore
   private cryptoKey: CryptoKey | null = null
   private keyPromise: Promise<CryptoKey> | null = null
   private encryptionEnabled: boolean
+  private allowPlaintext: boolean
 
   constructor(private config: EncryptedStoreConfig) {
-    this.idbStore = createStore(config.dbName, config.storeName)
+    this.idbStore = config.backend ?? createStore(config.dbName, config.storeName)
     this.encryptionEnabled = config.encryption.mode !== "none"
+    this.allowPlaintext =
+      config.encryption.mode !== "none" && config.encryption.allowPlaintextMigration !== false
 
     if (config.encryption.mode === "key") {
       this.cryptoKey = config.encryption.key
     } else if (config.encryption.mode === "passphrase") {
-      this.keyPromise = deriveKeyFromPassphrase(config.encryption.passphrase)
+      this.keyPromise = sharedPassphraseKey(config.encryption.passphrase)
       this.keyPromise
         .then((k) => {
           this.cryptoKey = k
@@ -173,7 +279,7 @@ export class EncryptedStore {
           this.config.onStorageError?.(err)
         })
     } else if (config.encryption.mode === "session") {
-      this.keyPromise = getSessionKey()
+      this.keyPromise = sharedSessionKey()
       this.keyPromise
         .then((k) => {
           this.cryptoKey = k
@@ -245,6 +351,105 @@ export class EncryptedStore {
   async getAllKeys(): Promise<string[]> {
     return (await keys(this.idbStore)) as string[]
   }
+
+  // -------------------------------------------------------
+  // StorageBackend API (JSON-safe envelopes, plaintext migration)
+  // -------------------------------------------------------
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const raw = await get<unknown>(key, this.idbStore)
+    if (raw === undefined || !this.encryptionEnabled) return raw as T | undefined
+    if (!isEnvelope(raw) && !(raw instanceof Uint8Array)) {
+      if (!this.allowPlaintext) {
+        // Unauthenticated: could have been planted by anyone who can write the store
+        this.config.onStorageError?.(
+          new TokenShieldCryptoError(
+            `EncryptedStore: refusing plaintext record "${key}" (allowPlaintextMigration is off)`,
+            ERROR_CODES.CRYPTO_DECRYPTION_FAILED,
+          ),
+        )
+        return undefined
+      }
+      // Written before encryption was enabled: serve it, then encrypt in place
+      this.migrateRecord(key, raw).catch((err) => this.config.onStorageError?.(err))
+      return raw as T
+    }
+    try {
+      const cryptoKey = await this.getKey()
+      const bytes = isEnvelope(raw) ? fromBase64(raw.data) : raw
+      return JSON.parse(await decrypt(bytes, cryptoKey)) as T
+    } catch (err) {
+      this.config.onStorageError?.(err)
+      return undefined
+    }
+  }
+
+  async set(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+    await set(key, await this.seal(value), this.idbStore, options)
+  }
+
+  async del(key: string): Promise<void> {
+    await del(key, this.idbStore)
+  }
+
+  async keys(): Promise<string[]> {
+    return (await keys(this.idbStore)) as string[]
+  }
+
+  async batch(ops: StorageBatchOp[]): Promise<void> {
+    const sealed: StorageBatchOp[] = []
+    for (const op of ops) {
+      sealed.push(op.type === "set" ? { ...op, value: await this.seal(op.value) } : op)
+    }
+    if (isStorageBackend(this.idbStore)) {
+      await this.idbStore.batch(sealed)
+      return
+    }
+    for (const op of sealed) {
+      if (op.type === "set") await set(op.key, op.value, this.idbStore, { ttlMs: op.ttlMs })
+      else await del(op.key, this.idbStore)
+    }
+  }
+
+  async ttl(key: string): Promise<number | null | undefined> {
+    if (isStorageBackend(this.idbStore)) return this.idbStore.ttl(key)
+    return (await get(key, this.idbStore)) === undefined ? undefined : null
+  }
+
+  /**
+   * Encrypt every plaintext record in the store. Reads migrate records
+   * lazily; call this to finish the job eagerly. Returns the number migrated
+   * (always 0 when `allowPlaintextMigration` is off).
+   */
+  async migrate(): Promise<number> {
+    if (!this.allowPlaintext) return 0
+    let migrated = 0
+    for (const key of await this.keys()) {
+      const raw = await get<unknown>(key, this.idbStore)
+      if (raw === undefined || isEnvelope(raw) || raw instanceof Uint8Array) continue
+      await this.migrateRecord(key, raw)
+      migrated++
+    }
+    return migrated
+  }
+
+  /** Encrypt a value into a JSON-safe envelope (identity when encryption is off) */
+  private async seal(value: unknown): Promise<unknown> {
+    if (!this.encryptionEnabled) return value
+    const encrypted = await encrypt(JSON.stringify(value), await this.getKey())
+    const envelope: EncryptedEnvelope = { format: ENVELOPE_FORMAT, data: toBase64(encrypted) }
+    return envelope
+  }
+
+  /** Re-write a plaintext record encrypted, keeping its remaining TTL */
+  private async migrateRecord(key: string, value: unknown): Promise<void> {
+    const ttlMs = await this.ttl(key)
+    await this.set(
+      key,
+      value,
+      typeof ttlMs === "number" ? { ttlMs: Math.max(1, ttlMs) } : undefined,
+    )
+  }
 }
 
 /**
@@ -2,13 +2,14 @@
  * Dashboard Sections Utility Tests
  *
  * Tests for pure utility functions exported from dashboard-sections.tsx:
- * formatDollars, formatPercent, formatTime, summarizeEventData,
+ * formatDollars, formatAmount, formatPercent, formatTime, summarizeEventData,
  * EVENT_COLORS, DEFAULT_EVENT_COLOR.
  */
 
 import { describe, it, expect } from "vitest"
 import {
   formatDollars,
+  formatAmount,
   formatPercent,
   formatTime,
   summarizeEventData,
@@ -41,6 +42,13 @@ describe("formatDollars", () => {
   })
 })
 
+describe("formatAmount", () => {
+  it("formats dollars by default and token counts as tokens", () => {
+    expect(formatAmount(1.5)).toBe("$1.50")
+    expect(formatAmount(1_050_000.4, "tokens")).toBe(`${(1_050_000).toLocaleString()} tokens`)
+  })
+})
+
 describe("formatPercent", () => {
   it("formats ratio as percentage with 1 decimal", () => {
     expect(formatPercent(0)).toBe("0.0%")
@@ -87,6 +95,21 @@ describe("summarizeEventData", () => {
     expect(result).toBe("model: gpt-4o")
   })
 
+  it("summarizes cache:invalidated with reason and count", () => {
+    const result = summarizeEventData("cache:invalidated", { reason: "tag", removed: 3 })
+    expect(result).toBe("tag: 3 entries removed")
+  })
+
+  it("summarizes anomaly:detected with the baseline key when not global", () => {
+    const data = { type: "cost_spike", zScore: 4.26, value: 0.5 }
+    expect(summarizeEventData("anomaly:detected", { ...data, key: "global" })).toBe(
+      "cost_spike: z-score 4.3, value: 0.5",
+    )
+    expect(summarizeEventData("anomaly:detected", { ...data, key: "user:alice" })).toBe(
+      "cost_spike: z-score 4.3, value: 0.5 (user:alice)",
+    )
+  })
+
   it("summarizes request:allowed with model", () => {
     const result = summarizeEventData("request:allowed", { model: "gpt-4o" })
     expect(result).toBe("model: gpt-4o")
@@ -161,6 +184,25 @@ describe("summarizeEventData", () => {
     expect(result).toContain("monthly")
   })
 
+  it("names the hierarchy level that blocked a userBudget:exceeded request", () => {
+    const result = summarizeEventData("userBudget:exceeded", {
+      userId: "u-123",
+      limitType: "daily",
+      level: "team",
+      levelId: "search",
+    })
+    expect(result).toBe("team: search (user: u-123), daily")
+  })
+
+  it("summarizes userBudget:grace with the grace amount", () => {
+    const result = summarizeEventData("userBudget:grace", {
+      userId: "u-123",
+      limitType: "daily",
+      grace: 2,
+    })
+    expect(result).toBe("user: u-123, daily: over limit, $2.00 grace")
+  })
+
   it("summarizes userBudget:spend", () => {
     const result = summarizeEventData("userBudget:spend", {
       userId: "u-123",
@@ -170,6 +212,24 @@ describe("summarizeEventData", () => {
     expect(result).toContain("$1.50")
   })
 
+  it("summarizes userBudget:credit with the new balance", () => {
+    const result = summarizeEventData("userBudget:credit", {
+      userId: "u-123",
+      amount: 10,
+      balance: 12.5,
+    })
+    expect(result).toBe("user: u-123, +$10.00, balance: $12.50")
+  })
+
+  it("summarizes userBudget:insufficientCredits", () => {
+    const result = summarizeEventData("userBudget:insufficientCredits", {
+      userId: "u-123",
+      required: 0.05,
+      available: 0.02,
+    })
+    expect(result).toBe("user: u-123, required: $0.0500, available: $0.0200")
+  })
+
   it("summarizes stream:chunk with tokens and cost", () => {
     const result = summarizeEventData("stream:chunk", {
       outputTokens: 50,
@@ -193,6 +253,63 @@ describe("summarizeEventData", () => {
     expect(result).toContain("$0.0200")
   })
 
+  it("summarizes pii:detected with types and policies", () => {
+    const result = summarizeEventData("pii:detected", {
+      types: ["email", "phone"],
+      count: 2,
+      policies: ["skip-cache"],
+    })
+    expect(result).toBe("email, phone → skip-cache")
+  })
+
+  it("summarizes anomaly actions with their target and expiry", () => {
+    const action = {
+      type: "pause-user",
+      userId: "alice",
+      expiresAt: new Date(2025, 0, 15, 10, 15, 0).getTime(),
+    }
+    expect(summarizeEventData("anomaly:actionApplied", action)).toBe(
+      "pause-user (alice) until 10:15:00",
+    )
+    expect(summarizeEventData("anomaly:actionExpired", { ...action, userId: undefined })).toBe(
+      "pause-user expired 10:15:00",
+    )
+  })
+
+  it("summarizes loop detection and stop hints", () => {
+    expect(
+      summarizeEventData("loop:detected", {
+        sessionId: "run-1",
+        signals: ["tool-cycle", "context-growth"],
+        action: "stop-hint",
+      }),
+    ).toBe("tool-cycle, context-growth → stop-hint (session: run-1)")
+    expect(summarizeEventData("loop:hintInjected", { sessionId: "run-1", hint: "Stop" })).toBe(
+      "stop hint sent (session: run-1)",
+    )
+  })
+
+  it("summarizes breaker half-open and recovery events", () => {
+    expect(summarizeEventData("breaker:halfOpen", { limitType: "hour", probes: 2 })).toBe(
+      "hour: 2 probe(s) allowed",
+    )
+    expect(summarizeEventData("breaker:recovered", { downtimeMs: 90_000 })).toBe(
+      "recovered after 90s",
+    )
+  })
+
+  it("summarizes manual control events", () => {
+    expect(summarizeEventData("control:paused", { reason: "incident" })).toBe(
+      "all traffic: incident",
+    )
+    expect(summarizeEventData("control:resumed", { scope: "gpt-4o", pausedMs: 60_000 })).toBe(
+      "gpt-4o resumed after 60s",
+    )
+    expect(summarizeEventData("control:overrideGranted", { userId: "admin", amount: 5 })).toContain(
+      "user: admin",
+    )
+  })
+
   it("falls back to first 2 keys for unknown event types", () => {
     const result = summarizeEventData("custom:event", { foo: "bar", baz: "qux", extra: "skip" })
     expect(result).toContain("foo: bar")
@@ -16,11 +16,13 @@ import {
   useUserBudget,
   useEventLog,
   useProviderHealth,
+  useCacheStats,
   usePipelineMetrics,
 } from "./react"
 import type { CostCircuitBreaker } from "./circuit-breaker"
 import type { UserBudgetManager } from "./user-budget-manager"
 import type { ProviderAdapter } from "./provider-adapter"
+import type { ResponseCache } from "./response-cache"
 import type { AuditLog, AuditEntry, AuditSeverity, AuditEventType } from "./audit-log"
 
 // -------------------------------------------------------
@@ -34,6 +36,11 @@ export function formatDollars(amount: number): string {
   return "$0.00"
 }
 
+/** Format a gauge amount: dollars, or a whole number of tokens. */
+export function formatAmount(value: number, unit: "usd" | "tokens" = "usd"): string {
+  return unit === "tokens" ? `${Math.round(value).toLocaleString()} tokens` : formatDollars(value)
+}
+
 export function formatPercent(ratio: number): string {
   return `${(ratio * 100).toFixed(1)}%`
 }
@@ -47,6 +54,7 @@ export function Gauge({
   value,
   max,
   label,
+  unit = "usd",
   color = "#22c55e",
   warnColor = "#f59e0b",
   dangerColor = "#ef4444",
@@ -54,6 +62,7 @@ export function Gauge({
   value: number
   max: number
   label: string
+  unit?: "usd" | "tokens"
   color?: string
   warnColor?: string
   dangerColor?: string
@@ -68,7 +77,7 @@ export function Gauge({
       >
         <span>{label}</span>
         <span>
-          {formatDollars(value)} / {formatDollars(max)}
+          {formatAmount(value, unit)} / {formatAmount(max, unit)}
         </span>
       </div>
       <div
@@ -76,7 +85,7 @@ export function Gauge({
         aria-valuenow={Math.round(pct)}
         aria-valuemin={0}
         aria-valuemax={100}
-        aria-label={`${label}: ${formatDollars(value)} of ${formatDollars(max)}`}
+        aria-label={`${label}: ${formatAmount(value, unit)} of ${formatAmount(max, unit)}`}
         style={{ background: "#e5e7eb", borderRadius: 4, height: 8, overflow: "hidden" }}
       >
         <div
@@ -179,10 +188,39 @@ export function BreakerSection({ breaker }: { breaker: CostCircuitBreaker }) {
         <Gauge
           value={budget.currentSpend}
           max={budget.limit}
+          unit={budget.unit}
           label={budget.limitType ? `${budget.limitType} limit` : "Budget"}
         />
       )}
       <div style={{ fontSize: 12, color: "#6b7280" }}>{budget.percentUsed.toFixed(1)}% used</div>
+      {Object.entries(budget.scopes).map(([scope, s]) => (
+        <div key={scope} style={{ marginTop: 8 }}>
+          <div style={{ fontSize: 12, fontWeight: 600 }}>
+            {scope}
+            {s.state !== "closed" && (
+              <span
+                style={{
+                  color: s.state === "open" ? "#ef4444" : "#f59e0b",
+                  marginLeft: 8,
+                  fontSize: 11,
+                }}
+              >
+                {s.state.toUpperCase()}
+              </span>
+            )}
+          </div>
+          {s.limit > 0 ? (
+            <Gauge
+              value={s.currentSpend}
+              max={s.limit}
+              unit={s.unit}
+              label={s.limitType ? `${s.limitType} limit` : "Budget"}
+            />
+          ) : (
+            <div style={{ fontSize: 12, color: "#6b7280" }}>No spend yet</div>
+          )}
+        </div>
+      ))}
     </div>
   )
 }
@@ -203,15 +241,28 @@ export function UserBudgetSection({
         {status.isOverBudget && (
           <span style={{ color: "#ef4444", marginLeft: 8, fontSize: 12 }}>OVER BUDGET</span>
         )}
+        {!status.isOverBudget && status.inGrace && (
+          <span style={{ color: "#f59e0b", marginLeft: 8, fontSize: 12 }}>IN GRACE</span>
+        )}
       </h3>
       <div style={{ fontSize: 12, color: "#6b7280", marginBottom: 8 }}>
         Tier: {status.tier} | In-flight: {formatDollars(status.inflight)}
+        {status.rollover.daily + status.rollover.monthly > 0 &&
+          ` | Rollover: ${formatDollars(status.rollover.daily)} daily, ${formatDollars(status.rollover.monthly)} monthly`}
       </div>
       {status.limits?.daily != null && status.limits.daily > 0 && (
-        <Gauge value={status.spend.daily} max={status.limits.daily} label="Daily" />
+        <Gauge
+          value={status.spend.daily}
+          max={status.limits.daily + status.rollover.daily}
+          label="Daily"
+        />
       )}
       {status.limits?.monthly != null && status.limits.monthly > 0 && (
-        <Gauge value={status.spend.monthly} max={status.limits.monthly} label="Monthly" />
+        <Gauge
+          value={status.spend.monthly}
+          max={status.limits.monthly + status.rollover.monthly}
+          label="Monthly"
+        />
       )}
     </div>
   )
@@ -227,15 +278,27 @@ export const EVENT_COLORS: Record<string, string> = {
   "request:allowed": "#22c55e",
   "cache:hit": "#22c55e",
   "stream:complete": "#22c55e",
+  "breaker:recovered": "#22c55e",
+  "control:resumed": "#22c55e",
   "cache:store": "#22c55e",
+  "userBudget:credit": "#22c55e",
   // Yellow: warnings / informational
   "anomaly:detected": "#f59e0b",
+  "anomaly:actionApplied": "#f59e0b",
+  "anomaly:actionExpired": "#22c55e",
   "router:holdback": "#f59e0b",
   "breaker:warning": "#f59e0b",
+  "breaker:halfOpen": "#f59e0b",
   "userBudget:warning": "#f59e0b",
+  "userBudget:grace": "#f59e0b",
   "context:trimmed": "#f59e0b",
   "router:downgraded": "#f59e0b",
   "stream:chunk": "#f59e0b",
+  "cache:invalidated": "#f59e0b",
+  "pii:detected": "#f59e0b",
+  "control:overrideGranted": "#f59e0b",
+  "loop:detected": "#f59e0b",
+  "loop:hintInjected": "#f59e0b",
   // Blue: optimization events
   "compressor:applied": "#3b82f6",
   "delta:applied": "#8b5cf6",
@@ -244,6 +307,8 @@ export const EVENT_COLORS: Record<string, string> = {
   "breaker:tripped": "#ef4444",
   "userBudget:exceeded": "#ef4444",
   "stream:abort": "#ef4444",
+  "control:paused": "#ef4444",
+  "userBudget:insufficientCredits": "#ef4444",
 }
 
 export const DEFAULT_EVENT_COLOR = "#6b7280"
@@ -258,6 +323,14 @@ export function formatTime(ts: number): string {
   })
 }
 
+/** "user: u1", or "team: search (user: u1)" for limits higher up the budget hierarchy */
+function budgetLevelLabel(data: Record<string, unknown>): string {
+  if (data.level === "team" || data.level === "org") {
+    return `${data.level}: ${data.levelId} (user: ${data.userId})`
+  }
+  return `user: ${data.userId}`
+}
+
 /** Summarize key data fields from an event into a short string. */
 export function summarizeEventData(type: string, data: Record<string, unknown>): string {
   try {
@@ -268,6 +341,8 @@ export function summarizeEventData(type: string, data: Record<string, unknown>):
         return `prompt: ${typeof data.prompt === "string" ? data.prompt.slice(0, 30) : "?"}...`
       case "cache:store":
         return `model: ${data.model ?? "?"}`
+      case "cache:invalidated":
+        return `${data.reason ?? "?"}: ${data.removed ?? "?"} entries removed`
       case "request:allowed":
         return `model: ${data.model ?? "?"}`
       case "request:blocked":
@@ -282,12 +357,28 @@ export function summarizeEventData(type: string, data: Record<string, unknown>):
         return `${data.limitType}: ${typeof data.percentUsed === "number" ? data.percentUsed.toFixed(0) : "?"}% used`
       case "breaker:tripped":
         return `${data.limitType}: ${data.action ?? "blocked"}`
+      case "breaker:halfOpen":
+        return `${data.limitType}: ${data.probes ?? "?"} probe(s) allowed`
+      case "breaker:recovered":
+        return `recovered after ${typeof data.downtimeMs === "number" ? Math.round(data.downtimeMs / 1000) : "?"}s`
+      case "control:paused":
+        return `${data.scope ?? "all traffic"}: ${data.reason ?? "?"}`
+      case "control:resumed":
+        return `${data.scope ?? "all traffic"} resumed after ${typeof data.pausedMs === "number" ? Math.round(data.pausedMs / 1000) : "?"}s`
+      case "control:overrideGranted":
+        return `user: ${data.userId}, amount: ${typeof data.amount === "number" ? formatDollars(data.amount) : "?"}`
       case "userBudget:warning":
-        return `user: ${data.userId}, ${data.limitType}: ${typeof data.percentUsed === "number" ? data.percentUsed.toFixed(0) : "?"}%`
+        return `${budgetLevelLabel(data)}, ${data.limitType}: ${typeof data.percentUsed === "number" ? data.percentUsed.toFixed(0) : "?"}%`
       case "userBudget:exceeded":
-        return `user: ${data.userId}, ${data.limitType}`
+        return `${budgetLevelLabel(data)}, ${data.limitType}`
+      case "userBudget:grace":
+        return `${budgetLevelLabel(data)}, ${data.limitType}: over limit, ${typeof data.grace === "number" ? formatDollars(data.grace) : "?"} grace`
       case "userBudget:spend":
         return `user: ${data.userId}, cost: ${typeof data.cost === "number" ? formatDollars(data.cost) : "?"}`
+      case "userBudget:credit":
+        return `user: ${data.userId}, +${typeof data.amount === "number" ? formatDollars(data.amount) : "?"}, balance: ${typeof data.balance === "number" ? formatDollars(data.balance) : "?"}`
+      case "userBudget:insufficientCredits":
+        return `user: ${data.userId}, required: ${typeof data.required === "number" ? formatDollars(data.required) : "?"}, available: ${typeof data.available === "number" ? formatDollars(data.available) : "?"}`
       case "stream:chunk":
         return `tokens: ${data.outputTokens ?? "?"}, est: ${typeof data.estimatedCost === "number" ? formatDollars(data.estimatedCost) : "?"}`
       case "stream:abort":
@@ -299,9 +390,21 @@ export function summarizeEventData(type: string, data: Record<string, unknown>):
       case "delta:applied":
         return `saved: ${data.savedTokens ?? "?"} tokens (${data.originalTokens} → ${data.encodedTokens})`
       case "anomaly:detected":
-        return `${data.type}: z-score ${typeof data.zScore === "number" ? data.zScore.toFixed(1) : "?"}, value: ${data.value ?? "?"}`
+        return `${data.type}: z-score ${typeof data.zScore === "number" ? data.zScore.toFixed(1) : "?"}, value: ${data.value ?? "?"}${data.key && data.key !== "global" ? ` (${data.key})` : ""}`
+      case "anomaly:actionApplied":
+      case "anomaly:actionExpired": {
+        const target = data.userId ?? data.scope
+        const state = type === "anomaly:actionApplied" ? "until" : "expired"
+        return `${data.type}${target ? ` (${target})` : ""} ${state} ${typeof data.expiresAt === "number" ? new Date(data.expiresAt).toISOString().slice(11, 19) : "?"}`
+      }
       case "router:holdback":
         return `model: ${data.model ?? "?"}, holdback: ${typeof data.holdbackRate === "number" ? (data.holdbackRate * 100).toFixed(0) + "%" : "?"}`
+      case "pii:detected":
+        return `${Array.isArray(data.types) ? data.types.join(", ") : "?"} → ${Array.isArray(data.policies) ? data.policies.join(", ") : "?"}`
+      case "loop:detected":
+        return `${Array.isArray(data.signals) ? data.signals.join(", ") : "?"} → ${data.action ?? "?"} (session: ${data.sessionId ?? "?"})`
+      case "loop:hintInjected":
+        return `stop hint sent (session: ${data.sessionId ?? "?"})`
       default: {
         // Fallback: show first 2 keys
         const keys = Object.keys(data).slice(0, 2)
@@ -560,6 +663,32 @@ export function ProviderHealthSection({ adapter }: { adapter: ProviderAdapter })
   )
 }
 
+export function CacheSection({ cache }: { cache: ResponseCache }) {
+  const stats = useCacheStats(cache)
+  if (!stats) return null
+  const { feedback } = stats
+
+  return (
+    <div>
+      <h3 style={{ margin: "0 0 12px", fontSize: 14, fontWeight: 600 }}>Response Cache</h3>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <Stat label="Entries" value={String(stats.entries)} />
+        <Stat
+          label="Hit Rate"
+          value={formatPercent(stats.hitRate)}
+          sub={`${stats.totalHits} hits, ${stats.staleHits} stale`}
+        />
+        <Stat label="Feedback" value={`${feedback.good} / ${feedback.bad}`} sub="good / bad" />
+        <Stat
+          label="Corrected"
+          value={String(feedback.evictions + feedback.demotions)}
+          sub={`${feedback.evictions} evicted, ${feedback.demotions} demoted`}
+        />
+      </div>
+    </div>
+  )
+}
+
 export function PipelineMetricsSection() {
   const metrics = usePipelineMetrics()
 
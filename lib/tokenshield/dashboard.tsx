@@ -28,6 +28,7 @@ import React, { Component, useMemo } from "react"
 import type { CostCircuitBreaker } from "./circuit-breaker"
 import type { UserBudgetManager } from "./user-budget-manager"
 import type { ProviderAdapter } from "./provider-adapter"
+import type { ResponseCache } from "./response-cache"
 
 import {
   SavingsSection,
@@ -36,6 +37,7 @@ import {
   UserBudgetSection,
   EventLogSection,
   ProviderHealthSection,
+  CacheSection,
   PipelineMetricsSection,
   AuditLogSection,
   SavingsAttributionSection,
@@ -77,6 +79,8 @@ export interface TokenShieldDashboardProps {
   showPipeline?: boolean
   /** Optional provider adapter for health monitoring */
   providerAdapter?: ProviderAdapter
+  /** Optional response cache (e.g. `shield.cache`) for hit-rate and feedback stats */
+  cache?: ResponseCache | null
   /** Optional audit log instance for compliance monitoring */
   auditLog?: AuditLog
   /** Optional per-module savings attribution data for breakdown visualization */
@@ -99,6 +103,7 @@ export function TokenShieldDashboard({
   showEventLog = true,
   showPipeline = true,
   providerAdapter,
+  cache,
   auditLog,
   savingsAttribution,
   className,
@@ -150,6 +155,12 @@ export function TokenShieldDashboard({
           </OptionalSection>
         )}
 
+        {cache && (
+          <OptionalSection>
+            <CacheSection cache={cache} />
+          </OptionalSection>
+        )}
+
         {showPipeline && (
           <OptionalSection>
             <PipelineMetricsSection />
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest"
+import { VectorIndex, cosineSimilarity, createHashingEmbedder } from "./embedding-index"
+
+describe("embedding-index", () => {
+  describe("cosineSimilarity", () => {
+    it("scores identical, orthogonal and zero vectors", () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1)
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+    })
+  })
+
+  describe("VectorIndex", () => {
+    it("returns matches above the score floor, best first", () => {
+      const index = new VectorIndex()
+      index.add("a", [1, 0, 0])
+      index.add("b", [0.9, 0.1, 0])
+      index.add("c", [0, 1, 0])
+      const matches = index.search([1, 0, 0], 0.5)
+      expect(matches.map((m) => m.key)).toEqual(["a", "b"])
+      expect(matches[0].score).toBeCloseTo(1)
+    })
+
+    it("removes and clears vectors", () => {
+      const index = new VectorIndex()
+      index.add("a", [1, 0])
+      index.add("zero", [0, 0])
+      expect(index.size).toBe(1)
+      expect(index.remove("a")).toBe(true)
+      expect(index.search([1, 0])).toEqual([])
+      index.add("b", [1, 0])
+      index.clear()
+      expect(index.size).toBe(0)
+    })
+  })
+
+  describe("createHashingEmbedder", () => {
+    const embedder = createHashingEmbedder({ dimensions: 128 })
+
+    it("is deterministic and sized by dimensions", () => {
+      const a = embedder.embed("How do I cancel my plan?") as Float32Array
+      const b = embedder.embed("How do I cancel my plan?") as Float32Array
+      expect(a).toHaveLength(128)
+      expect(Array.from(a)).toEqual(Array.from(b))
+      expect(embedder.id).toBe("hashing-v1-128")
+      expect(embedder.costPerMillionTokens).toBe(0)
+    })
+
+    it("ignores stopwords so rephrasings land close together", () => {
+      const embed = (text: string) => embedder.embed(text) as Float32Array
+      const close = cosineSimilarity(
+        embed("how do I cancel my plan"),
+        embed("can you cancel the plan"),
+      )
+      const far = cosineSimilarity(
+        embed("how do I cancel my plan"),
+        embed("recipe for banana bread"),
+      )
+      expect(close).toBeGreaterThan(0.95)
+      expect(far).toBeLessThan(0.5)
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * TokenShield - Embedding Index
+ *
+ * Pluggable embedding support for ResponseCache. An Embedder turns text
+ * into a vector; the VectorIndex finds the cached prompts whose vectors
+ * are closest by cosine similarity. This catches paraphrases that share
+ * few characters ("how do I cancel my plan" / "steps to end my
+ * subscription") when backed by a real embedding model.
+ *
+ * Ships with a deterministic hashing-trick embedder that needs no network
+ * or model weights. It only captures lexical overlap, so it is a stand-in
+ * for tests and offline development, not a semantic model.
+ */
+
+export interface Embedder {
+  /**
+   * Stable identifier for the vector space, e.g. "openai:text-embedding-3-small".
+   * Persisted vectors from a different embedder are ignored and recomputed.
+   */
+  readonly id: string
+  /** Pricing model ID used for ledger records. Omit for free local embedders. */
+  readonly model?: string
+  /** USD per million input tokens. Overrides the pricing table when set. */
+  readonly costPerMillionTokens?: number
+  embed(text: string): Promise<Float32Array> | Float32Array
+}
+
+/** One embed() call, reported so its cost can be recorded in the CostLedger. */
+export interface EmbeddingUsage {
+  embedderId: string
+  model?: string
+  /** Estimated input tokens for the embedded text */
+  inputTokens: number
+  /** Cost in USD when the embedder declares `costPerMillionTokens` */
+  cost?: number
+  purpose: "lookup" | "store"
+}
+
+export interface VectorMatch {
+  key: string
+  score: number
+}
+
+/** Cosine similarity of two vectors (0 when either is all zeros). */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = Math.min(a.length, b.length)
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < n; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * In-memory vector index with brute-force cosine search. Vectors are
+ * L2-normalized on insert so each comparison is a single dot product.
+ */
+export class VectorIndex {
+  private vectors = new Map<string, Float32Array>()
+
+  add(key: string, vector: ArrayLike<number>): void {
+    const normalized = new Float32Array(vector.length)
+    let norm = 0
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i]
+    norm = Math.sqrt(norm)
+    if (norm === 0) return
+    for (let i = 0; i < vector.length; i++) normalized[i] = vector[i] / norm
+    this.vectors.set(key, normalized)
+  }
+
+  remove(key: string): boolean {
+    return this.vectors.delete(key)
+  }
+
+  has(key: string): boolean {
+    return this.vectors.has(key)
+  }
+
+  /** Entries scoring at least `minScore`, best first, at most `limit`. */
+  search(query: ArrayLike<number>, minScore = 0, limit = 10): VectorMatch[] {
+    let norm = 0
+    for (let i = 0; i < query.length; i++) norm += query[i] * query[i]
+    norm = Math.sqrt(norm)
+    if (norm === 0) return []
+
+    const matches: VectorMatch[] = []
+    for (const [key, vector] of this.vectors) {
+      const n = Math.min(vector.length, query.length)
+      let dot = 0
+      for (let i = 0; i < n; i++) dot += vector[i] * query[i]
+      const score = dot / norm
+      if (score >= minScore) matches.push({ key, score })
+    }
+    matches.sort((a, b) => b.score - a.score)
+    return matches.slice(0, limit)
+  }
+
+  get size(): number {
+    return this.vectors.size
+  }
+
+  clear(): void {
+    this.vectors.clear()
+  }
+}
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "is",
+  "are",
+  "was",
+  "be",
+  "to",
+  "of",
+  "in",
+  "on",
+  "for",
+  "and",
+  "or",
+  "i",
+  "me",
+  "my",
+  "you",
+  "your",
+  "it",
+  "do",
+  "does",
+  "can",
+  "how",
+  "what",
+  "please",
+])
+
+/** FNV-1a, used to hash features into vector slots */
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let h = seed
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Deterministic hashing-trick embedder. Word unigrams (minus stopwords,
+ * with a crude suffix strip) and character trigrams are hashed into a
+ * fixed-size signed vector. Free, offline and stable across runs.
+ */
+export function createHashingEmbedder(options: { dimensions?: number } = {}): Embedder {
+  const dimensions = options.dimensions ?? 256
+  const addFeature = (vector: Float32Array, feature: string, weight: number) => {
+    const h = fnv1a(feature)
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1
+    vector[h % dimensions] += sign * weight
+  }
+
+  return {
+    id: `hashing-v1-${dimensions}`,
+    costPerMillionTokens: 0,
+    embed(text: string): Float32Array {
+      const vector = new Float32Array(dimensions)
+      const words = text
+        .toLowerCase()
+        .replace(/[^\w\s]/g, " ")
+        .split(/\s+/)
+        .filter((w) => w && !STOPWORDS.has(w))
+      for (const word of words) {
+        const stem = word.length > 4 ? word.replace(/(ing|ed|es|s)$/, "") : word
+        addFeature(vector, `w:${stem}`, 1)
+        const padded = ` ${stem} `
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          addFeature(vector, `c:${padded.slice(i, i + 3)}`, 0.5)
+        }
+      }
+      return vector
+    },
+  }
+}
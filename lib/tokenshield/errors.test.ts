@@ -7,6 +7,7 @@ import {
   TokenShieldBudgetError,
   TokenShieldCryptoError,
   TokenShieldAPIError,
+  TokenShieldSnapshotError,
 } from "./errors"
 
 describe("errors", () => {
@@ -30,6 +31,7 @@ describe("errors", () => {
       expect(ERROR_CODES.BUDGET_DAILY_EXCEEDED).toBe("BUDGET_DAILY_EXCEEDED")
       expect(ERROR_CODES.BUDGET_MONTHLY_EXCEEDED).toBe("BUDGET_MONTHLY_EXCEEDED")
       expect(ERROR_CODES.BUDGET_USER_ID_INVALID).toBe("BUDGET_USER_ID_INVALID")
+      expect(ERROR_CODES.BUDGET_USER_PAUSED).toBe("BUDGET_USER_PAUSED")
     })
 
     it("has config and crypto codes", () => {
@@ -44,9 +46,25 @@ describe("errors", () => {
       expect(ERROR_CODES.API_INVALID_RESPONSE).toBe("API_INVALID_RESPONSE")
     })
 
+    it("has snapshot error codes", () => {
+      expect(ERROR_CODES.SNAPSHOT_INVALID).toBe("SNAPSHOT_INVALID")
+      expect(ERROR_CODES.SNAPSHOT_VERSION_UNSUPPORTED).toBe("SNAPSHOT_VERSION_UNSUPPORTED")
+    })
+
+    it("has PII error codes", () => {
+      expect(ERROR_CODES.PII_BLOCKED).toBe("PII_BLOCKED")
+    })
+
+    it("has loop detection error codes", () => {
+      expect(ERROR_CODES.LOOP_DUPLICATE_PROMPT).toBe("LOOP_DUPLICATE_PROMPT")
+      expect(ERROR_CODES.LOOP_TOOL_CYCLE).toBe("LOOP_TOOL_CYCLE")
+      expect(ERROR_CODES.LOOP_CONTEXT_GROWTH).toBe("LOOP_CONTEXT_GROWTH")
+      expect(ERROR_CODES.LOOP_RETRY_CHAIN).toBe("LOOP_RETRY_CHAIN")
+    })
+
     it("is immutable (as const prevents mutation at type level)", () => {
       const keys = Object.keys(ERROR_CODES)
-      expect(keys.length).toBe(18)
+      expect(keys.length).toBe(31)
       // Each value matches its key
       for (const key of keys) {
         expect(ERROR_CODES[key as keyof typeof ERROR_CODES]).toBe(key)
@@ -211,6 +229,20 @@ describe("errors", () => {
     })
   })
 
+  describe("TokenShieldSnapshotError", () => {
+    it("defaults code to SNAPSHOT_INVALID", () => {
+      const err = new TokenShieldSnapshotError("bad snapshot")
+      expect(err.name).toBe("TokenShieldSnapshotError")
+      expect(err.code).toBe("SNAPSHOT_INVALID")
+      expect(err).toBeInstanceOf(TokenShieldError)
+    })
+
+    it("accepts the version code", () => {
+      const err = new TokenShieldSnapshotError("too new", ERROR_CODES.SNAPSHOT_VERSION_UNSUPPORTED)
+      expect(err.code).toBe("SNAPSHOT_VERSION_UNSUPPORTED")
+    })
+  })
+
   describe("TokenShieldAPIError", () => {
     it("has provider and statusCode properties", () => {
       const err = new TokenShieldAPIError("API failed", "openai", 429)
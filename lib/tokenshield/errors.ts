@@ -19,11 +19,19 @@ export const ERROR_CODES = {
   BREAKER_HOUR_LIMIT: "BREAKER_HOUR_LIMIT",
   BREAKER_DAY_LIMIT: "BREAKER_DAY_LIMIT",
   BREAKER_MONTH_LIMIT: "BREAKER_MONTH_LIMIT",
+  BREAKER_TOKEN_LIMIT: "BREAKER_TOKEN_LIMIT",
 
   // Budget errors
   BUDGET_DAILY_EXCEEDED: "BUDGET_DAILY_EXCEEDED",
   BUDGET_MONTHLY_EXCEEDED: "BUDGET_MONTHLY_EXCEEDED",
+  BUDGET_DAILY_TOKENS_EXCEEDED: "BUDGET_DAILY_TOKENS_EXCEEDED",
+  BUDGET_MONTHLY_TOKENS_EXCEEDED: "BUDGET_MONTHLY_TOKENS_EXCEEDED",
   BUDGET_USER_ID_INVALID: "BUDGET_USER_ID_INVALID",
+  BUDGET_INSUFFICIENT_CREDITS: "BUDGET_INSUFFICIENT_CREDITS",
+  BUDGET_USER_PAUSED: "BUDGET_USER_PAUSED",
+
+  // Manual control errors
+  CONTROL_PAUSED: "CONTROL_PAUSED",
 
   // Config errors
   CONFIG_INVALID: "CONFIG_INVALID",
@@ -36,6 +44,19 @@ export const ERROR_CODES = {
   // API errors
   API_REQUEST_FAILED: "API_REQUEST_FAILED",
   API_INVALID_RESPONSE: "API_INVALID_RESPONSE",
+
+  // Cache snapshot errors
+  SNAPSHOT_INVALID: "SNAPSHOT_INVALID",
+  SNAPSHOT_VERSION_UNSUPPORTED: "SNAPSHOT_VERSION_UNSUPPORTED",
+
+  // PII errors
+  PII_BLOCKED: "PII_BLOCKED",
+
+  // Loop detection errors
+  LOOP_DUPLICATE_PROMPT: "LOOP_DUPLICATE_PROMPT",
+  LOOP_TOOL_CYCLE: "LOOP_TOOL_CYCLE",
+  LOOP_CONTEXT_GROWTH: "LOOP_CONTEXT_GROWTH",
+  LOOP_RETRY_CHAIN: "LOOP_RETRY_CHAIN",
 } as const
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES]
@@ -151,3 +172,16 @@ export class TokenShieldAPIError extends TokenShieldError {
     Object.setPrototypeOf(this, new.target.prototype)
   }
 }
+
+/** Thrown when a cache snapshot or warm-up corpus cannot be read. */
+export class TokenShieldSnapshotError extends TokenShieldError {
+  constructor(
+    message: string,
+    code: ErrorCode = ERROR_CODES.SNAPSHOT_INVALID,
+    options?: { cause?: unknown },
+  ) {
+    super(message, code, options)
+    this.name = "TokenShieldSnapshotError"
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
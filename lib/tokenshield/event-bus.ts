@@ -1,12 +1,41 @@
 import mitt from "mitt"
 import type { AnomalyEvent } from "./anomaly-detector"
+import type { AnomalyActionRecord } from "./anomaly-actions"
+import type { LoopDetection } from "./loop-detector"
+import type { CacheInvalidation } from "./response-cache"
+import type { TokenKind } from "./token-quotas"
+import type { BudgetLevel } from "./user-budget-types"
+
+/** Set on limit events raised by a token quota rather than a dollar limit */
+type TokenQuotaFields = {
+  unit?: "usd" | "tokens"
+  tokenKind?: TokenKind
+  modelFamily?: string
+}
+
+/** Which level of the budget hierarchy a userBudget event refers to */
+type BudgetLevelFields = {
+  level?: BudgetLevel
+  /** ID of the user, team or org at `level` */
+  levelId?: string
+}
 
 export type TokenShieldEvents = {
   "request:blocked": { reason: string; estimatedCost: number }
   "request:allowed": { prompt: string; model: string }
-  "cache:hit": { matchType: "exact" | "fuzzy"; similarity: number; savedCost: number }
+  "cache:hit": {
+    matchType: "exact" | "fuzzy"
+    similarity: number
+    savedCost: number
+    /** Served from the stale-while-revalidate window */
+    stale?: boolean
+    /** Entry key and request ID accepted by ResponseCache.reportFeedback() */
+    key?: string
+    requestId?: string
+  }
   "cache:miss": { prompt: string }
   "cache:store": { prompt: string; model: string }
+  "cache:invalidated": CacheInvalidation
   "context:trimmed": { originalTokens: number; trimmedTokens: number; savedTokens: number }
   "router:downgraded": {
     originalModel: string
@@ -22,24 +51,67 @@ export type TokenShieldEvents = {
     cost: number
     saved: number
   }
-  "breaker:warning": { limitType: string; currentSpend: number; limit: number; percentUsed: number }
-  "breaker:tripped": { limitType: string; currentSpend: number; limit: number; action: string }
+  "breaker:warning": {
+    limitType: string
+    currentSpend: number
+    limit: number
+    percentUsed: number
+    scope?: string
+  } & TokenQuotaFields
+  "breaker:tripped": {
+    limitType: string
+    currentSpend: number
+    limit: number
+    action: string
+    scope?: string
+  } & TokenQuotaFields
+  "breaker:halfOpen": { limitType: string; probes: number; scope?: string }
+  "breaker:recovered": { downtimeMs: number; scope?: string }
+  "control:paused": { reason: string; scope?: string; until?: number }
+  "control:resumed": { reason: string; scope?: string; pausedMs: number }
+  "control:overrideGranted": { userId: string; amount: number; expiresAt: number }
   "userBudget:warning": {
     userId: string
     limitType: string
     currentSpend: number
     limit: number
     percentUsed: number
-  }
-  "userBudget:exceeded": { userId: string; limitType: string; currentSpend: number; limit: number }
+  } & TokenQuotaFields &
+    BudgetLevelFields
+  "userBudget:exceeded": {
+    userId: string
+    limitType: string
+    currentSpend: number
+    limit: number
+  } & TokenQuotaFields &
+    BudgetLevelFields
+  "userBudget:grace": {
+    userId: string
+    limitType: string
+    currentSpend: number
+    limit: number
+    grace: number
+  } & BudgetLevelFields
   "userBudget:spend": { userId: string; cost: number; model: string }
+  "userBudget:credit": { userId: string; amount: number; balance: number; reason: string }
+  "userBudget:insufficientCredits": {
+    userId: string
+    balance: number
+    available: number
+    required: number
+  }
   "stream:chunk": { outputTokens: number; estimatedCost: number }
   "stream:abort": { inputTokens: number; outputTokens: number; estimatedCost: number }
   "stream:complete": { inputTokens: number; outputTokens: number; totalCost: number }
   "anomaly:detected": AnomalyEvent
+  "anomaly:actionApplied": AnomalyActionRecord
+  "anomaly:actionExpired": AnomalyActionRecord
   "compressor:applied": { savedTokens: number; originalTokens: number; compressedTokens: number }
   "delta:applied": { savedTokens: number; originalTokens: number; encodedTokens: number }
   "storage:error": { module: string; operation: string; error: unknown }
+  "pii:detected": { types: string[]; count: number; policies: string[] }
+  "loop:detected": LoopDetection
+  "loop:hintInjected": { sessionId: string; hint: string }
 }
 
 export type EventBus = ReturnType<typeof mitt<TokenShieldEvents>>
@@ -49,6 +49,7 @@ export {
   truncateToTokenBudget,
   countModelTokens,
   getTokenizerAccuracy,
+  splitTokenChunks,
   type ChatMessage,
   type TokenCount,
   type ChatTokenCount,
@@ -88,7 +89,50 @@ export {
   type ContentType,
   type CacheEntry,
   type CacheConfig,
+  type CacheKeyOptions,
+  type CacheLookupOptions,
+  type CacheLookupResult,
+  type CacheFeedbackVerdict,
+  type CacheFeedbackResult,
+  type CacheFeedbackConfig,
+  type CacheStoreOptions,
+  type CacheInvalidation,
+  type CacheInvalidationReason,
+  type CacheEvictionReason,
+  type CachedContentPart,
+  type ChunkTiming,
 } from "./response-cache"
+export {
+  CACHE_SNAPSHOT_FORMAT,
+  CACHE_SNAPSHOT_VERSION,
+  parseSnapshot,
+  serializeSnapshot,
+  type CacheSnapshot,
+  type SnapshotEncoding,
+  type SnapshotConflictPolicy,
+  type SnapshotImportOptions,
+  type SnapshotImportResult,
+  type WarmEntry,
+} from "./cache-snapshot"
+export {
+  VectorIndex,
+  cosineSimilarity,
+  createHashingEmbedder,
+  type Embedder,
+  type EmbeddingUsage,
+  type VectorMatch,
+} from "./embedding-index"
+export {
+  compressText,
+  decompressText,
+  lzwCompress,
+  lzwDecompress,
+  type CompressedText,
+  type CompressionCodec,
+} from "./cache-compression"
+
+// Structured-output validation for cached JSON responses
+export { validateJsonSchema, type JsonSchema, type JsonSchemaResult } from "./json-schema-validator"
 
 // 5. Model Router
 export {
@@ -133,10 +177,26 @@ export {
 // 10. Streaming Token Tracker
 export { StreamTokenTracker, type StreamUsage, type StreamTrackerConfig } from "./stream-tracker"
 
+// Cache-hit stream replay
+export {
+  createReplayStream,
+  planReplay,
+  type ReplayConfig,
+  type ReplayMode,
+  type ReplayChunk,
+} from "./stream-replay"
+
 // 11. Cost Circuit Breaker
 export {
   CostCircuitBreaker,
+  resolveBreakerScope,
   type BreakerLimits,
+  type BreakerTokenLimits,
+  type BreakerAction,
+  type BreakerState,
+  type BreakerHalfOpenConfig,
+  type BreakerScopeBy,
+  type BreakerScopeConfig,
   type BreakerConfig,
   type BreakerEvent,
   type BreakerStatus,
@@ -152,10 +212,78 @@ export {
   type UserBudgetStatus,
   type BudgetExceededEvent,
   type BudgetWarningEvent,
+  type BudgetGraceEvent,
+  type BudgetResetPolicy,
+  type BudgetLevel,
+  type BudgetMembership,
+  type BudgetGroupConfig,
+  type BudgetTeamConfig,
+  type BudgetOrgConfig,
+  type BudgetHierarchyConfig,
+  type BudgetGroupStatus,
 } from "./user-budget-manager"
 
+// Prepaid credit wallets (user budget wallet mode)
+export {
+  CreditWallet,
+  type WalletConfig,
+  type WalletBalance,
+  type WalletTransaction,
+  type WalletTransactionType,
+  type WalletReconciliation,
+} from "./credit-wallet"
+
+// Budget windows (shared by breaker and user budgets)
+export {
+  windowStart,
+  windowResetsAt,
+  previousWindowStart,
+  billingAnchorDay,
+  hourOfWeek,
+  isValidTimeZone,
+  type WindowMode,
+  type BudgetPeriod,
+  type BudgetWindowConfig,
+} from "./budget-windows"
+
+// Token quotas (shared by breaker and user budgets)
+export {
+  modelFamilyOf,
+  tokenWindowStatus,
+  evaluateTokenQuotas,
+  exceedsQuota,
+  exhaustedQuotas,
+  type TokenKind,
+  type TokenQuota,
+  type TokenLimits,
+  type TokenUsage,
+  type TokenRemaining,
+  type TokenWindowStatus,
+  type TokenQuotaCheck,
+} from "./token-quotas"
+
 // 13. Anomaly Detector
-export { AnomalyDetector, type AnomalyConfig, type AnomalyEvent } from "./anomaly-detector"
+export {
+  AnomalyDetector,
+  anomalyBaselineKey,
+  GLOBAL_BASELINE_KEY,
+  type AnomalyConfig,
+  type AnomalyEvent,
+  type AnomalyContext,
+  type AnomalyDimension,
+  type AnomalySeasonalityConfig,
+  type AnomalySnapshot,
+  type AnomalyBaseline,
+  type SeasonalBucket,
+} from "./anomaly-detector"
+export {
+  AnomalyActionPolicy,
+  type AnomalyActionType,
+  type AnomalyAction,
+  type AnomalyActionRule,
+  type AnomalyActionRecord,
+  type AnomalyActionPolicyOptions,
+} from "./anomaly-actions"
 
 // AI SDK Middleware
 export {
@@ -168,6 +296,19 @@ export {
 // Middleware Health Check
 export { type HealthCheckResult } from "./middleware-types"
 
+// Manual Control (kill switch and overrides)
+export {
+  ShieldControl,
+  type ShieldControlConfig,
+  type ControlPause,
+  type ControlOverride,
+  type ControlState,
+} from "./shield-control"
+
+// Middleware Cache Keys
+export { buildCacheKey, resolveCacheTags } from "./middleware-transform"
+export { type CacheKeyPreset, type CacheKeyConfig } from "./middleware-types"
+
 // Middleware Plugin Registry
 export {
   registerPlugin,
@@ -199,10 +340,12 @@ export {
   useUserBudget,
   useEventLog,
   useProviderHealth,
+  useCacheStats,
   usePipelineMetrics,
   useSessionSavings,
   useShieldedCall,
   type TokenShieldProviderProps,
+  type CacheStats,
   type EventLogEntry,
   type PipelineMetrics,
   type SessionSavingsState,
@@ -245,6 +388,7 @@ export {
   TokenShieldBudgetError,
   TokenShieldCryptoError,
   TokenShieldAPIError,
+  TokenShieldSnapshotError,
   ERROR_CODES,
   type ErrorCode,
 } from "./errors"
@@ -260,19 +404,62 @@ export {
   BreakerConfigSchema,
   UserBudgetConfigSchema,
   UserBudgetLimitsSchema,
+  BudgetHierarchySchema,
   type TokenShieldConfig,
 } from "./config-schemas"
 
 // Encrypted Storage
-export { EncryptedStore, createEncryptedStore, type EncryptedStoreConfig } from "./crypto-store"
+export {
+  EncryptedStore,
+  createEncryptedStore,
+  type EncryptedStoreConfig,
+  type EncryptionConfig,
+} from "./crypto-store"
 
 // Storage Adapter (Edge Runtime compatible)
-export { isPersistent } from "./storage-adapter"
+export {
+  isPersistent,
+  isStorageBackend,
+  createMemoryBackend,
+  createNamespacedBackend,
+  type StorageBackend,
+  type StorageBatchOp,
+  type StorageSetOptions,
+} from "./storage-adapter"
+
+// PII Scanner
+export {
+  PiiScanner,
+  luhnValid,
+  shannonEntropy,
+  unmaskPii,
+  createPiiUnmasker,
+  type PiiType,
+  type PiiPolicy,
+  type PiiDetector,
+  type PiiMatch,
+  type PiiScannerConfig,
+  type PiiScanResult,
+  type PiiMaskResult,
+} from "./pii-scanner"
+
+// Loop Detector
+export {
+  LoopDetector,
+  findToolCycle,
+  DEFAULT_STOP_HINT,
+  type LoopSignal,
+  type LoopAction,
+  type LoopDetectorConfig,
+  type LoopRequest,
+  type LoopDetection,
+} from "./loop-detector"
 
 // Composable Pipeline
 export {
   Pipeline,
   createPipeline,
+  createPiiStage,
   createBreakerStage,
   createBudgetStage,
   createGuardStage,
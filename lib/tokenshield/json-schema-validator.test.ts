@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest"
+import { validateJsonSchema } from "./json-schema-validator"
+
+describe("json-schema-validator", () => {
+  const person = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      age: { type: "integer", minimum: 0 },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  }
+
+  it("accepts a value matching the schema", () => {
+    expect(validateJsonSchema({ name: "Ada", age: 36, tags: ["math"] }, person)).toEqual({
+      valid: true,
+      errors: [],
+    })
+  })
+
+  it("reports missing, mistyped and unexpected properties with paths", () => {
+    const result = validateJsonSchema({ age: 1.5, tags: ["a", 2, "c"], extra: true }, person)
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        "/name: required",
+        "/age: expected integer, got number",
+        "/tags: more than 2 items",
+        "/tags/1: expected string, got integer",
+        "/extra: unexpected property",
+      ]),
+    )
+  })
+
+  it("supports enum, const and combinators", () => {
+    expect(validateJsonSchema("b", { enum: ["a", "b"] }).valid).toBe(true)
+    expect(validateJsonSchema({ x: 1 }, { const: { x: 1 } }).valid).toBe(true)
+    expect(validateJsonSchema(3, { anyOf: [{ type: "string" }, { type: "number" }] }).valid).toBe(
+      true,
+    )
+    expect(validateJsonSchema(3, { oneOf: [{ type: "number" }, { type: "integer" }] }).valid).toBe(
+      false,
+    )
+    expect(validateJsonSchema(5, { allOf: [{ minimum: 1 }, { maximum: 4 }] }).valid).toBe(false)
+  })
+
+  it("treats boolean schemas and unknown keywords permissively", () => {
+    expect(validateJsonSchema(null, true).valid).toBe(true)
+    expect(validateJsonSchema(null, false).valid).toBe(false)
+    expect(validateJsonSchema("x", { format: "email", pattern: "^y" }).valid).toBe(true)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * TokenShield - JSON Schema Validator
+ *
+ * Minimal, dependency-free JSON Schema check used before serving a cached
+ * structured-output (generateObject-style) response. Covers the keywords
+ * that AI SDK schema converters (zod, valibot, jsonSchema()) emit:
+ * type, properties, required, additionalProperties, items, enum, const,
+ * anyOf/oneOf/allOf, min/max length, minimum/maximum, min/max items.
+ *
+ * Unknown keywords are ignored, so a schema this module can't fully check
+ * is treated permissively rather than rejecting valid cached output.
+ */
+
+export type JsonSchema = boolean | { [keyword: string]: unknown }
+
+export interface JsonSchemaResult {
+  valid: boolean
+  /** JSON-pointer-style paths with a short reason, e.g. "/items/0: expected number" */
+  errors: string[]
+}
+
+/** Cap on reported errors; validation stops early once reached */
+const MAX_ERRORS = 20
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  if (type === "number") return actual === "number" || actual === "integer"
+  return actual === type
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const ka = Object.keys(a as object)
+  const kb = Object.keys(b as object)
+  if (ka.length !== kb.length) return false
+  return ka.every((k) =>
+    deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]),
+  )
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return
+  if (schema === true) return
+  if (schema === false) {
+    errors.push(`${path || "/"}: not allowed`)
+    return
+  }
+  const s = schema as Record<string, unknown>
+  const at = path || "/"
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string]
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${at}: expected ${types.join(" | ")}, got ${typeOf(value)}`)
+      return
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((e) => deepEqual(e, value))) {
+    errors.push(`${at}: not one of the allowed values`)
+  }
+  if ("const" in s && !deepEqual(s.const, value)) {
+    errors.push(`${at}: does not equal const`)
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf as JsonSchema[]) check(value, sub, path, errors)
+  }
+  if (Array.isArray(s.anyOf)) {
+    const ok = (s.anyOf as JsonSchema[]).some((sub) => validateJsonSchema(value, sub).valid)
+    if (!ok) errors.push(`${at}: matches none of anyOf`)
+  }
+  if (Array.isArray(s.oneOf)) {
+    const count = (s.oneOf as JsonSchema[]).filter(
+      (sub) => validateJsonSchema(value, sub).valid,
+    ).length
+    if (count !== 1) errors.push(`${at}: matches ${count} of oneOf (expected 1)`)
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      errors.push(`${at}: shorter than ${s.minLength}`)
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      errors.push(`${at}: longer than ${s.maxLength}`)
+    }
+  }
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) errors.push(`${at}: below minimum`)
+    if (typeof s.maximum === "number" && value > s.maximum) errors.push(`${at}: above maximum`)
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      errors.push(`${at}: fewer than ${s.minItems} items`)
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      errors.push(`${at}: more than ${s.maxItems} items`)
+    }
+    if (s.items !== undefined && !Array.isArray(s.items)) {
+      value.forEach((item, i) => check(item, s.items as JsonSchema, `${path}/${i}`, errors))
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>
+    const props = (s.properties ?? {}) as Record<string, JsonSchema>
+    if (Array.isArray(s.required)) {
+      for (const key of s.required as string[]) {
+        if (!(key in obj)) errors.push(`${path}/${key}: required`)
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in props) {
+        check(child, props[key], `${path}/${key}`, errors)
+      } else if (s.additionalProperties === false) {
+        errors.push(`${path}/${key}: unexpected property`)
+      } else if (typeof s.additionalProperties === "object" && s.additionalProperties !== null) {
+        check(child, s.additionalProperties as JsonSchema, `${path}/${key}`, errors)
+      }
+    }
+  }
+}
+
+/**
+ * Validate a parsed JSON value against a JSON Schema (draft-07 subset).
+ *
+ * @example
+ * ```ts
+ * validateJsonSchema({ name: "Ada" }, {
+ *   type: "object",
+ *   properties: { name: { type: "string" } },
+ *   required: ["name"],
+ * })
+ * // { valid: true, errors: [] }
+ * ```
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): JsonSchemaResult {
+  const errors: string[] = []
+  check(value, schema, "", errors)
+  return { valid: errors.length === 0, errors }
+}
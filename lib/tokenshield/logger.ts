@@ -76,22 +76,36 @@ const EVENT_LOG_LEVELS: Record<keyof TokenShieldEvents, LogLevel> = {
   "cache:hit": "info",
   "cache:miss": "debug",
   "cache:store": "debug",
+  "cache:invalidated": "info",
   "context:trimmed": "info",
   "router:downgraded": "info",
   "router:holdback": "debug",
   "ledger:entry": "debug",
   "breaker:warning": "warn",
   "breaker:tripped": "error",
+  "breaker:halfOpen": "warn",
+  "breaker:recovered": "info",
+  "control:paused": "warn",
+  "control:resumed": "info",
+  "control:overrideGranted": "warn",
   "userBudget:warning": "warn",
   "userBudget:exceeded": "error",
+  "userBudget:grace": "warn",
   "userBudget:spend": "debug",
+  "userBudget:credit": "info",
+  "userBudget:insufficientCredits": "warn",
   "stream:chunk": "debug",
   "stream:abort": "warn",
   "stream:complete": "info",
   "anomaly:detected": "warn",
+  "anomaly:actionApplied": "warn",
+  "anomaly:actionExpired": "info",
   "compressor:applied": "info",
   "delta:applied": "info",
   "storage:error": "warn",
+  "pii:detected": "warn",
+  "loop:detected": "warn",
+  "loop:hintInjected": "info",
 }
 
 // -------------------------------------------------------
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { LoopDetector, findToolCycle, type LoopRequest } from "./loop-detector"
+
+function request(extra: Partial<LoopRequest> = {}): LoopRequest {
+  return {
+    sessionId: "run-1",
+    prompt: "Find the cheapest flight",
+    userTurns: 1,
+    contextSize: 100,
+    ...extra,
+  }
+}
+
+describe("LoopDetector", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe("duplicate prompts", () => {
+    it("flags near-duplicate new turns once they reach the limit", () => {
+      const detector = new LoopDetector()
+      expect(detector.check(request({ prompt: "Summarize the report" }))).toBeNull()
+      expect(detector.check(request({ prompt: "summarize the report!", userTurns: 2 }))).toBeNull()
+
+      const loop = detector.check(request({ prompt: "Summarize the report.", userTurns: 3 }))
+      expect(loop?.signals).toEqual(["duplicate-prompt"])
+      expect(loop?.counts["duplicate-prompt"]).toBe(3)
+      expect(loop?.action).toBe("warn")
+    })
+
+    it("keeps sessions apart and forgets requests outside the window", () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+      const detector = new LoopDetector({ windowMs: 60_000 })
+      detector.check(request())
+      detector.check(request({ sessionId: "run-2" }))
+      vi.setSystemTime(new Date("2025-01-15T10:02:00Z"))
+      detector.check(request())
+      expect(detector.check(request())).toBeNull()
+      expect(detector.check(request())?.signals).toEqual(["duplicate-prompt"])
+    })
+  })
+
+  describe("tool cycles", () => {
+    it("finds the tail sequence with the most back-to-back repeats", () => {
+      expect(findToolCycle(["plan()", "a()", "b()", "a()", "b()", "a()", "b()"])).toEqual({
+        pattern: ["a()", "b()"],
+        repeats: 3,
+      })
+      expect(findToolCycle(["a()", "a()", "a()", "a()"])).toEqual({ pattern: ["a()"], repeats: 4 })
+      expect(findToolCycle(["a()", "b()", "c()"])).toBeNull()
+    })
+
+    it("flags a repeating tool-call sequence with its tool names", () => {
+      const detector = new LoopDetector()
+      const calls = ['search({"q":"x"})', 'read({"id":1})']
+      expect(detector.check(request({ toolCalls: [...calls, ...calls] }))).toBeNull()
+      const loop = detector.check(
+        request({ contextSize: 200, toolCalls: [...calls, ...calls, ...calls] }),
+      )
+      expect(loop?.signals).toEqual(["tool-cycle"])
+      expect(loop?.reason).toContain("search → read repeated 3 times")
+    })
+  })
+
+  describe("context growth", () => {
+    it("flags steps that keep growing the context with no new user input", () => {
+      const detector = new LoopDetector({ maxContextGrowth: 3 })
+      expect(detector.check(request({ contextSize: 100 }))).toBeNull()
+      expect(detector.check(request({ contextSize: 200 }))).toBeNull()
+      expect(detector.check(request({ contextSize: 300 }))).toBeNull()
+      expect(detector.check(request({ contextSize: 400 }))?.counts["context-growth"]).toBe(3)
+
+      // A new user turn resets the streak
+      expect(
+        detector.check(request({ prompt: "Now book it", userTurns: 2, contextSize: 500 })),
+      ).toBeNull()
+    })
+  })
+
+  describe("retry chains", () => {
+    it("flags consecutive failures until an attempt succeeds", () => {
+      const detector = new LoopDetector({ maxRetries: 2, maxSimilarPrompts: 10 })
+      detector.recordOutcome("run-1", false)
+      detector.recordOutcome("run-1", false)
+      expect(detector.check(request())?.signals).toEqual(["retry-chain"])
+
+      detector.recordOutcome("run-1", true)
+      expect(detector.check(request())).toBeNull()
+    })
+  })
+
+  describe("actions", () => {
+    it("applies the most severe configured action and exposes the stop hint", () => {
+      const detector = new LoopDetector({
+        maxRetries: 1,
+        maxSimilarPrompts: 2,
+        action: "stop-hint",
+        actions: { "retry-chain": "block" },
+        stopHint: "Stop now.",
+      })
+      detector.check(request())
+      expect(detector.check(request())?.action).toBe("stop-hint")
+      detector.recordOutcome("run-1", false)
+      expect(detector.check(request())?.action).toBe("block")
+      expect(detector.stopHint).toBe("Stop now.")
+    })
+
+    it("drops the least recently used session past maxSessions", () => {
+      const detector = new LoopDetector({ maxSessions: 1, maxSimilarPrompts: 2 })
+      detector.check(request())
+      detector.check(request({ sessionId: "run-2" }))
+      expect(detector.check(request())).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * TokenShield - Loop Detector
+ *
+ * Catches agents that are stuck before they burn through a budget. Each
+ * session (an agent run or conversation) keeps a sliding window of its
+ * recent requests, and every new request is checked for four signals:
+ *
+ * - "duplicate-prompt": the same (or nearly the same) prompt is sent
+ *   again and again as a new turn
+ * - "tool-cycle":       the conversation ends in a tool-call sequence that
+ *   repeats, e.g. search → read → search → read
+ * - "context-growth":   the context keeps growing step after step with no
+ *   new user input
+ * - "retry-chain":      the session's last attempts all failed
+ *
+ * What happens when a signal fires is decided by actions:
+ * - "warn":      report the loop and let the request through
+ * - "stop-hint": ask the model to stop repeating, in the leading system message
+ * - "block":     reject the request
+ */
+
+import { textSimilarity } from "./response-cache"
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type LoopSignal = "duplicate-prompt" | "tool-cycle" | "context-growth" | "retry-chain"
+
+export type LoopAction = "warn" | "stop-hint" | "block"
+
+export interface LoopDetectorConfig {
+  /** Requests kept per session (default: 20) */
+  windowSize?: number
+  /** Requests older than this are forgotten, in ms (default: 600000 = 10 minutes) */
+  windowMs?: number
+  /** Similarity (0-1) above which two prompts count as duplicates (default: 0.9) */
+  similarityThreshold?: number
+  /** Near-duplicate prompts in the window, current one included, that flag a loop (default: 3) */
+  maxSimilarPrompts?: number
+  /** Back-to-back repeats of a tool-call sequence that flag a loop (default: 3) */
+  maxToolCycleRepeats?: number
+  /** Consecutive requests that grow the context without new user input (default: 10) */
+  maxContextGrowth?: number
+  /** Consecutive failed attempts that flag a retry chain (default: 3) */
+  maxRetries?: number
+  /** Action for any signal (default: "warn") */
+  action?: LoopAction
+  /** Actions for specific signals. Replaces `action` for that signal. */
+  actions?: Partial<Record<LoopSignal, LoopAction>>
+  /** Text the "stop-hint" action adds to the leading system message */
+  stopHint?: string
+  /** Sessions tracked at once; the least recently used is dropped (default: 1000) */
+  maxSessions?: number
+}
+
+/** One request as seen by the detector. */
+export interface LoopRequest {
+  /** Agent run or conversation the request belongs to */
+  sessionId: string
+  /** Last user message */
+  prompt: string
+  /** Number of user messages in the conversation */
+  userTurns: number
+  /** Size of the whole conversation, in any unit that is used consistently (e.g. characters) */
+  contextSize: number
+  /** Tool calls in the conversation, oldest first, as `name(arguments)` signatures */
+  toolCalls?: string[]
+}
+
+export interface LoopDetection {
+  sessionId: string
+  /** Signals that fired, in detection order */
+  signals: LoopSignal[]
+  /** Most severe action among the fired signals */
+  action: LoopAction
+  /** Human-readable summary of every signal */
+  reason: string
+  /** Measured value per signal: duplicates, cycle repeats, growth steps or failures */
+  counts: Partial<Record<LoopSignal, number>>
+}
+
+// -------------------------------------------------------
+// Implementation
+// -------------------------------------------------------
+
+/** Longest tool-call sequence checked for repeats */
+const MAX_TOOL_CYCLE_LENGTH = 4
+
+const ACTION_SEVERITY: Record<LoopAction, number> = { warn: 0, "stop-hint": 1, block: 2 }
+
+export const DEFAULT_STOP_HINT =
+  "You appear to be repeating the same steps without making progress. Stop calling tools, " +
+  "summarize what you have found so far and give your best final answer."
+
+interface WindowEntry {
+  prompt: string
+  userTurns: number
+  contextSize: number
+  timestamp: number
+  /** Same prompt and turn count as the previous request, with a larger context */
+  continuation: boolean
+}
+
+interface SessionState {
+  entries: WindowEntry[]
+  /** Timestamps of consecutive failed attempts, cleared by a success */
+  failures: number[]
+}
+
+/**
+ * Find the sequence of 1-4 tool calls that the list ends with and that
+ * repeats most often back to back (the shortest one wins ties). Returns
+ * the sequence and its repeat count, or null when nothing repeats.
+ */
+export function findToolCycle(toolCalls: string[]): { pattern: string[]; repeats: number } | null {
+  let best: { pattern: string[]; repeats: number } | null = null
+  for (let len = 1; len <= MAX_TOOL_CYCLE_LENGTH && len * 2 <= toolCalls.length; len++) {
+    const pattern = toolCalls.slice(-len)
+    let repeats = 1
+    for (let end = toolCalls.length - len; end - len >= 0; end -= len) {
+      const chunk = toolCalls.slice(end - len, end)
+      if (chunk.some((call, i) => call !== pattern[i])) break
+      repeats++
+    }
+    if (repeats > 1 && (!best || repeats > best.repeats)) best = { pattern, repeats }
+  }
+  return best
+}
+
+export class LoopDetector {
+  private sessions = new Map<string, SessionState>()
+  private config: Required<Omit<LoopDetectorConfig, "actions">> &
+    Pick<LoopDetectorConfig, "actions">
+
+  constructor(config: LoopDetectorConfig = {}) {
+    this.config = {
+      windowSize: config.windowSize ?? 20,
+      windowMs: config.windowMs ?? 600_000,
+      similarityThreshold: config.similarityThreshold ?? 0.9,
+      maxSimilarPrompts: config.maxSimilarPrompts ?? 3,
+      maxToolCycleRepeats: config.maxToolCycleRepeats ?? 3,
+      maxContextGrowth: config.maxContextGrowth ?? 10,
+      maxRetries: config.maxRetries ?? 3,
+      action: config.action ?? "warn",
+      actions: config.actions,
+      stopHint: config.stopHint ?? DEFAULT_STOP_HINT,
+      maxSessions: config.maxSessions ?? 1000,
+    }
+  }
+
+  /** Text the "stop-hint" action adds to the leading system message. */
+  get stopHint(): string {
+    return this.config.stopHint
+  }
+
+  /**
+   * Check a request against its session's recent history, then add it to
+   * the window. Returns null when no signal fires.
+   */
+  check(request: LoopRequest): LoopDetection | null {
+    const now = Date.now()
+    const session = this.session(request.sessionId, now)
+    const { entries } = session
+    const previous = entries[entries.length - 1]
+    const continuation =
+      previous !== undefined &&
+      previous.prompt === request.prompt &&
+      previous.userTurns === request.userTurns &&
+      request.contextSize > previous.contextSize
+
+    const counts: Partial<Record<LoopSignal, number>> = {}
+    const reasons: string[] = []
+
+    // Agent steps re-send the same prompt with tool results appended; only
+    // fresh turns are compared, or every step would look like a duplicate
+    if (!continuation && request.prompt) {
+      let similar = 1
+      for (const entry of entries) {
+        if (entry.continuation) continue
+        if (textSimilarity(entry.prompt, request.prompt) >= this.config.similarityThreshold) {
+          similar++
+        }
+      }
+      if (similar >= this.config.maxSimilarPrompts) {
+        counts["duplicate-prompt"] = similar
+        reasons.push(`${similar} near-duplicate prompts`)
+      }
+    }
+
+    const cycle = request.toolCalls ? findToolCycle(request.toolCalls) : null
+    if (cycle && cycle.repeats >= this.config.maxToolCycleRepeats) {
+      counts["tool-cycle"] = cycle.repeats
+      const names = cycle.pattern.map((call) => call.split("(")[0])
+      reasons.push(`tool calls ${names.join(" → ")} repeated ${cycle.repeats} times`)
+    }
+
+    if (continuation) {
+      let growth = 1
+      for (let i = entries.length - 1; i >= 0 && entries[i].continuation; i--) growth++
+      if (growth >= this.config.maxContextGrowth) {
+        counts["context-growth"] = growth
+        reasons.push(`context grew ${growth} times without new user input`)
+      }
+    }
+
+    if (session.failures.length >= this.config.maxRetries) {
+      counts["retry-chain"] = session.failures.length
+      reasons.push(`${session.failures.length} failed attempts in a row`)
+    }
+
+    entries.push({
+      prompt: request.prompt,
+      userTurns: request.userTurns,
+      contextSize: request.contextSize,
+      timestamp: now,
+      continuation,
+    })
+    if (entries.length > this.config.windowSize) entries.shift()
+
+    const signals = Object.keys(counts) as LoopSignal[]
+    if (signals.length === 0) return null
+    const action = signals
+      .map((signal) => this.actionFor(signal))
+      .reduce((a, b) => (ACTION_SEVERITY[b] > ACTION_SEVERITY[a] ? b : a))
+    return {
+      sessionId: request.sessionId,
+      signals,
+      action,
+      reason: `Agent loop detected: ${reasons.join("; ")}`,
+      counts,
+    }
+  }
+
+  /** Record whether the session's latest attempt succeeded, for retry chains. */
+  recordOutcome(sessionId: string, ok: boolean): void {
+    const now = Date.now()
+    const session = this.session(sessionId, now)
+    if (ok) session.failures = []
+    else session.failures.push(now)
+  }
+
+  /** Action configured for a signal. */
+  actionFor(signal: LoopSignal): LoopAction {
+    return this.config.actions?.[signal] ?? this.config.action
+  }
+
+  /** Forget one session, or all of them. */
+  reset(sessionId?: string): void {
+    if (sessionId === undefined) this.sessions.clear()
+    else this.sessions.delete(sessionId)
+  }
+
+  /** Get (or create) a session, expire old entries and mark it most recently used. */
+  private session(sessionId: string, now: number): SessionState {
+    let session = this.sessions.get(sessionId)
+    if (session) {
+      this.sessions.delete(sessionId)
+    } else {
+      session = { entries: [], failures: [] }
+      if (this.sessions.size >= this.config.maxSessions) {
+        const oldest = this.sessions.keys().next().value
+        if (oldest !== undefined) this.sessions.delete(oldest)
+      }
+    }
+    this.sessions.set(sessionId, session)
+
+    const cutoff = now - this.config.windowMs
+    while (session.entries.length > 0 && session.entries[0].timestamp < cutoff) {
+      session.entries.shift()
+    }
+    session.failures = session.failures.filter((t) => t >= cutoff)
+    return session
+  }
+}
@@ -8,6 +8,7 @@
 import { describe, it, expect, vi } from "vitest"
 import { tokenShieldMiddleware } from "./middleware"
 import { SHIELD_META, type ShieldMeta } from "./middleware-types"
+import { buildCacheKey } from "./middleware-transform"
 
 /** Create an AI SDK-format prompt from simple messages */
 function makePrompt(messages: Array<{ role: string; content: string }>) {
@@ -160,6 +161,201 @@ describe("buildTransformParams (via tokenShieldMiddleware)", () => {
       expect(meta.cacheHit).toBeUndefined()
       shield.dispose()
     })
+
+    it("does not serve a response cached under a different system prompt", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10, ttlMs: 60000, similarityThreshold: 0.85 },
+      })
+      const ask = (system: string) => ({
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([
+          { role: "system", content: system },
+          { role: "user", content: "Translate 'hello'" },
+        ]),
+      })
+
+      const first = await shield.transformParams({ params: ask("Answer in French.") })
+      const firstMeta = (first as Record<string | symbol, unknown>)[SHIELD_META] as ShieldMeta
+      await shield.cache!.store("Translate 'hello'", "Bonjour", "gpt-4o-mini", 10, 5, {
+        contextKey: firstMeta.cacheContextKey,
+      })
+
+      const same = await shield.transformParams({ params: ask("Answer in French.") })
+      expect(
+        ((same as Record<string | symbol, unknown>)[SHIELD_META] as ShieldMeta).cacheHit,
+      ).toBeDefined()
+      const other = await shield.transformParams({ params: ask("Answer in German.") })
+      expect(
+        ((other as Record<string | symbol, unknown>)[SHIELD_META] as ShieldMeta).cacheHit,
+      ).toBeUndefined()
+      shield.dispose()
+    })
+
+    it("misses when a cached response does not satisfy the requested JSON schema", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10 },
+      })
+      const schema = {
+        type: "object",
+        properties: { answer: { type: "number" } },
+        required: ["answer"],
+      }
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "What is 2+2?" }]),
+        responseFormat: { type: "json", schema },
+      }
+      const { contextKey } = buildCacheKey(params)
+      const metaFor = async () => {
+        const result = await shield.transformParams({ params })
+        return (result as Record<string | symbol, unknown>)[SHIELD_META] as ShieldMeta
+      }
+      const store = (response: string) =>
+        shield.cache!.store("What is 2+2?", response, "gpt-4o-mini", 10, 5, { contextKey })
+
+      await store("four")
+      expect((await metaFor()).cacheHit).toBeUndefined()
+
+      await store('{"answer":"four"}')
+      expect((await metaFor()).cacheHit).toBeUndefined()
+
+      await store('{"answer":4}')
+      expect((await metaFor()).cacheHit?.response).toBe('{"answer":4}')
+      shield.dispose()
+    })
+
+    it("skips the cache for non-zero temperature with the deterministic-only preset", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { similarityThreshold: 0.85, key: "deterministic-only" },
+      })
+      await shield.cache!.store("What is 2+2?", "4", "gpt-4o-mini", 10, 5)
+      const lookupSpy = vi.spyOn(shield.cache!, "lookup")
+
+      const params = {
+        modelId: "gpt-4o-mini",
+        temperature: 0.7,
+        prompt: makePrompt([{ role: "user", content: "What is 2+2?" }]),
+      }
+      const result = await shield.transformParams({ params })
+      const meta = (result as Record<string | symbol, unknown>)[SHIELD_META] as ShieldMeta
+      expect(meta.cacheSkipped).toBe(true)
+      expect(meta.cacheHit).toBeUndefined()
+      expect(lookupSpy).not.toHaveBeenCalled()
+      shield.dispose()
+    })
+  })
+
+  describe("buildCacheKey", () => {
+    const conversation = (earlier: string) =>
+      makePrompt([
+        { role: "system", content: "You are helpful." },
+        { role: "user", content: earlier },
+        { role: "assistant", content: "Sure." },
+        { role: "user", content: "And then?" },
+      ])
+
+    it("returns an empty context key when only the last message is present", () => {
+      const key = buildCacheKey({ prompt: makePrompt([{ role: "user", content: "Hi" }]) })
+      expect(key).toEqual({ contextKey: "", cacheable: true })
+    })
+
+    it("keys on tools, responseFormat and sampling params by default", () => {
+      const prompt = makePrompt([{ role: "user", content: "Hi" }])
+      const base = buildCacheKey({ prompt }).contextKey
+      const withTools = buildCacheKey({
+        prompt,
+        tools: [{ type: "function", name: "search", inputSchema: {} }],
+      }).contextKey
+      const withFormat = buildCacheKey({ prompt, responseFormat: { type: "json" } }).contextKey
+      const withSeed = buildCacheKey({ prompt, seed: 42 }).contextKey
+      expect(new Set([base, withTools, withFormat, withSeed]).size).toBe(4)
+    })
+
+    it("ignores earlier turns for last-message and keys them for full-conversation", () => {
+      const a = conversation("Tell me about cats")
+      const b = conversation("Tell me about dogs")
+      expect(buildCacheKey({ prompt: a }, "last-message").contextKey).toBe(
+        buildCacheKey({ prompt: b }, "last-message").contextKey,
+      )
+      expect(buildCacheKey({ prompt: a }, "full-conversation").contextKey).not.toBe(
+        buildCacheKey({ prompt: b }, "full-conversation").contextKey,
+      )
+    })
+
+    it("limits keyed history to the previous N turns", () => {
+      const a = conversation("Tell me about cats")
+      const b = conversation("Tell me about dogs")
+      // Only the assistant reply precedes the last user message within one turn
+      expect(buildCacheKey({ prompt: a }, { previousTurns: 1 }).contextKey).toBe(
+        buildCacheKey({ prompt: b }, { previousTurns: 1 }).contextKey,
+      )
+      expect(buildCacheKey({ prompt: a }, { previousTurns: 2 }).contextKey).not.toBe(
+        buildCacheKey({ prompt: b }, { previousTurns: 2 }).contextKey,
+      )
+    })
+
+    it("keys only the selected providerOptions namespaces, independent of key order", () => {
+      const prompt = makePrompt([{ role: "user", content: "Hi" }])
+      const config = { providerOptions: ["openai"] }
+      const a = buildCacheKey(
+        { prompt, providerOptions: { openai: { reasoningEffort: "low", user: "x" } } },
+        config,
+      )
+      const b = buildCacheKey(
+        {
+          prompt,
+          providerOptions: { openai: { user: "x", reasoningEffort: "low" }, anthropic: { a: 1 } },
+        },
+        config,
+      )
+      const c = buildCacheKey(
+        { prompt, providerOptions: { openai: { reasoningEffort: "high", user: "x" } } },
+        config,
+      )
+      expect(a.contextKey).toBe(b.contextKey)
+      expect(a.contextKey).not.toBe(c.contextKey)
+    })
+
+    it("marks the request uncacheable for deterministic-only with temperature > 0", () => {
+      const prompt = makePrompt([{ role: "user", content: "Hi" }])
+      expect(buildCacheKey({ prompt, temperature: 0.5 }, "deterministic-only").cacheable).toBe(
+        false,
+      )
+      expect(buildCacheKey({ prompt, temperature: 0 }, "deterministic-only").cacheable).toBe(true)
+      expect(buildCacheKey({ prompt, temperature: 0.5 }, "full-conversation").cacheable).toBe(true)
+    })
+
+    it("lets a custom builder extend the key or opt out of caching", () => {
+      const prompt = makePrompt([{ role: "user", content: "Hi" }])
+      const tenantA = buildCacheKey({ prompt }, { build: () => "tenant-a" })
+      const tenantB = buildCacheKey({ prompt }, { build: () => "tenant-b" })
+      expect(tenantA.contextKey).not.toBe(tenantB.contextKey)
+      expect(buildCacheKey({ prompt }, { build: () => null }).cacheable).toBe(false)
+    })
   })
 
   describe("context trim module", () => {
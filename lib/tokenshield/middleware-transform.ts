@@ -3,7 +3,7 @@
  *
  * Builds the transformParams function that runs BEFORE the model receives
  * the request. This is where all pre-model optimizations happen:
- * breaker -> user budget -> guard -> cache lookup -> compress -> delta -> context trim -> route -> prefix optimize
+ * PII scan -> loop detection -> manual control -> breaker -> user budget -> guard -> cache lookup -> compress -> delta -> context trim -> route -> prefix optimize -> PII mask
  */
 
 import { countTokens } from "gpt-tokenizer"
@@ -15,15 +15,279 @@ import { optimizePrefix } from "./prefix-optimizer"
 import { MODEL_PRICING, estimateCost } from "./cost-estimator"
 import { countToolTokens, predictOutputTokens, type ToolDefinition } from "./tool-token-counter"
 import type { ChatMessage } from "./token-counter"
-import { TokenShieldBlockedError, ERROR_CODES } from "./errors"
+import { TokenShieldBlockedError, ERROR_CODES, type ErrorCode } from "./errors"
+import { resolveBreakerScope } from "./circuit-breaker"
+import { validateJsonSchema, type JsonSchema } from "./json-schema-validator"
+import type { CacheEntry } from "./response-cache"
+import type { PiiPolicy } from "./pii-scanner"
+import type { LoopRequest, LoopSignal } from "./loop-detector"
 import {
   SHIELD_META,
   MSG_OVERHEAD_TOKENS,
   safeCost,
+  type CacheKeyConfig,
+  type CacheKeyPreset,
   type MiddlewareContext,
   type ShieldMeta,
 } from "./middleware-types"
 
+// -------------------------------------------------------
+// Cache key builder
+// -------------------------------------------------------
+
+type ResolvedCacheKeyConfig = Required<Omit<CacheKeyConfig, "preset" | "build">> &
+  Pick<CacheKeyConfig, "build">
+
+const CACHE_KEY_PRESETS: Record<CacheKeyPreset, Omit<ResolvedCacheKeyConfig, "build">> = {
+  "last-message": {
+    systemPrompt: true,
+    previousTurns: 0,
+    tools: true,
+    responseFormat: true,
+    sampling: true,
+    providerOptions: [],
+    deterministicOnly: false,
+  },
+  "full-conversation": {
+    systemPrompt: true,
+    previousTurns: Infinity,
+    tools: true,
+    responseFormat: true,
+    sampling: true,
+    providerOptions: [],
+    deterministicOnly: false,
+  },
+  "deterministic-only": {
+    systemPrompt: true,
+    previousTurns: Infinity,
+    tools: true,
+    responseFormat: true,
+    sampling: true,
+    providerOptions: [],
+    deterministicOnly: true,
+  },
+}
+
+function resolveCacheKeyConfig(key?: CacheKeyPreset | CacheKeyConfig): ResolvedCacheKeyConfig {
+  if (typeof key === "string") return { ...CACHE_KEY_PRESETS[key] }
+  const base = CACHE_KEY_PRESETS[key?.preset ?? "last-message"]
+  const overrides = Object.fromEntries(
+    Object.entries(key ?? {}).filter(([k, v]) => k !== "preset" && v !== undefined),
+  )
+  return { ...base, ...overrides }
+}
+
+/** JSON with sorted object keys so semantically equal values hash identically. */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null"
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null"
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  const obj = value as Record<string, unknown>
+  const entries = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined && typeof obj[k] !== "function")
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+  return `{${entries.join(",")}}`
+}
+
+/** 64-bit fingerprint from two independent 32-bit hashes (djb2 + FNV-1a). */
+function fingerprint(input: string): string {
+  let djb2 = 5381
+  let fnv = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charCodeAt(i)
+    djb2 = ((djb2 << 5) + djb2 + c) | 0
+    fnv = Math.imul(fnv ^ c, 0x01000193)
+  }
+  return (djb2 >>> 0).toString(36) + (fnv >>> 0).toString(36)
+}
+
+/**
+ * Build the request-context part of the cache key from AI SDK call params.
+ *
+ * The last user message and model are keyed by ResponseCache itself; this
+ * fingerprints everything else the config selects. Returns an empty
+ * `contextKey` when nothing beyond the prompt applies, so prompt-only
+ * entries keep their original keys. `cacheable` is false when the
+ * request must bypass the cache (non-deterministic sampling or a custom
+ * builder returning null).
+ */
+export function buildCacheKey(
+  params: Record<string, unknown>,
+  key?: CacheKeyPreset | CacheKeyConfig,
+): { contextKey: string; cacheable: boolean } {
+  const cfg = resolveCacheKeyConfig(key)
+  const temperature = params.temperature
+  if (cfg.deterministicOnly && typeof temperature === "number" && temperature > 0) {
+    return { contextKey: "", cacheable: false }
+  }
+
+  const parts: Record<string, unknown> = {}
+  const prompt = Array.isArray(params.prompt)
+    ? (params.prompt as Array<{ role: string; content: unknown }>)
+    : []
+  let lastUserIndex = -1
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    if (prompt[i].role === "user") {
+      lastUserIndex = i
+      break
+    }
+  }
+
+  if (cfg.systemPrompt) {
+    const system = prompt.filter((m) => m.role === "system").map((m) => m.content)
+    if (system.length > 0) parts.system = system
+  }
+  if (cfg.previousTurns > 0 && lastUserIndex > 0) {
+    const earlier = prompt.slice(0, lastUserIndex).filter((m) => m.role !== "system")
+    const turns = cfg.previousTurns === Infinity ? earlier : earlier.slice(-cfg.previousTurns)
+    if (turns.length > 0) parts.turns = turns
+  }
+  // Tool calls and results after the last user message belong to the current turn
+  const trailing = lastUserIndex >= 0 ? prompt.slice(lastUserIndex + 1) : []
+  if (trailing.length > 0) parts.trailing = trailing
+
+  if (cfg.tools) {
+    if (Array.isArray(params.tools) && params.tools.length > 0) parts.tools = params.tools
+    if (params.toolChoice !== undefined) parts.toolChoice = params.toolChoice
+  }
+  if (cfg.responseFormat && params.responseFormat !== undefined) {
+    parts.responseFormat = params.responseFormat
+  }
+  if (cfg.sampling) {
+    for (const name of ["temperature", "seed", "topP", "topK"]) {
+      if (params[name] !== undefined) parts[name] = params[name]
+    }
+  }
+  if (cfg.providerOptions.length > 0 && params.providerOptions) {
+    const all = params.providerOptions as Record<string, unknown>
+    const chosen: Record<string, unknown> = {}
+    for (const ns of cfg.providerOptions) {
+      if (all[ns] !== undefined) chosen[ns] = all[ns]
+    }
+    if (Object.keys(chosen).length > 0) parts.providerOptions = chosen
+  }
+  if (cfg.build) {
+    const custom = cfg.build(params)
+    if (custom === null) return { contextKey: "", cacheable: false }
+    if (custom) parts.custom = custom
+  }
+
+  if (Object.keys(parts).length === 0) return { contextKey: "", cacheable: true }
+  return { contextKey: fingerprint(stableStringify(parts)), cacheable: true }
+}
+
+/**
+ * Collect cache tags for a request: per-request tags from
+ * `providerOptions.tokenshield.cacheTags` plus the configured tagResolver.
+ */
+export function resolveCacheTags(
+  params: Record<string, unknown>,
+  tagResolver?: (params: Record<string, unknown>) => string[] | undefined,
+): string[] {
+  const tags = new Set<string>()
+  const shieldOptions = (params.providerOptions as Record<string, unknown> | undefined)
+    ?.tokenshield as { cacheTags?: unknown } | undefined
+  if (Array.isArray(shieldOptions?.cacheTags)) {
+    for (const tag of shieldOptions.cacheTags) if (typeof tag === "string" && tag) tags.add(tag)
+  }
+  for (const tag of tagResolver?.(params) ?? []) if (tag) tags.add(tag)
+  return [...tags]
+}
+
+/**
+ * Describe a request for the loop detector. The session comes from
+ * `getSessionId`, then `providerOptions.tokenshield.sessionId`, then a
+ * fingerprint of the user (from `getUserId`) and the first system and user
+ * messages, which stay the same for every step of an agent run. The user
+ * keeps end users who open with the same question out of each other's
+ * session.
+ */
+function buildLoopRequest(
+  params: Record<string, unknown>,
+  messages: ChatMessage[],
+  getSessionId?: (params: Record<string, unknown>) => string | undefined,
+  getUserId?: () => string,
+): LoopRequest {
+  const shieldOptions = (params.providerOptions as Record<string, unknown> | undefined)
+    ?.tokenshield as { sessionId?: unknown } | undefined
+  const explicit =
+    getSessionId?.(params) ??
+    (typeof shieldOptions?.sessionId === "string" ? shieldOptions.sessionId : undefined)
+  const firstSystem = messages.find((m) => m.role === "system")?.content ?? ""
+  const firstUser = messages.find((m) => m.role === "user")?.content ?? ""
+  let userId = ""
+  if (!explicit && getUserId) {
+    try {
+      userId = getUserId() || ""
+    } catch {
+      // Resolution errors surface in the budget check
+    }
+  }
+
+  // Tool calls arrive as assistant content parts; `args` is the pre-v5 name for `input`.
+  // Tool results count toward the context size even though they carry no text part.
+  const toolCalls: string[] = []
+  let contextSize = 0
+  for (const msg of params.prompt as Array<{ content: unknown }>) {
+    if (!Array.isArray(msg.content)) {
+      contextSize += String(msg.content ?? "").length
+      continue
+    }
+    for (const part of msg.content as Array<Record<string, unknown>>) {
+      if (typeof part.text === "string") contextSize += part.text.length
+      if (part.type === "tool-call") {
+        const call = `${String(part.toolName)}(${stableStringify(part.input ?? part.args)})`
+        toolCalls.push(call)
+        contextSize += call.length
+      } else if (part.type === "tool-result") {
+        contextSize += stableStringify(part.output ?? part.result).length
+      }
+    }
+  }
+
+  return {
+    sessionId: explicit || `conv_${fingerprint(stableStringify([userId, firstSystem, firstUser]))}`,
+    prompt: messages.filter((m) => m.role === "user").pop()?.content ?? "",
+    userTurns: messages.filter((m) => m.role === "user").length,
+    contextSize,
+    toolCalls,
+  }
+}
+
+const LOOP_ERROR_CODES: Record<LoopSignal, ErrorCode> = {
+  "duplicate-prompt": ERROR_CODES.LOOP_DUPLICATE_PROMPT,
+  "tool-cycle": ERROR_CODES.LOOP_TOOL_CYCLE,
+  "context-growth": ERROR_CODES.LOOP_CONTEXT_GROWTH,
+  "retry-chain": ERROR_CODES.LOOP_RETRY_CHAIN,
+}
+
+/** Short unique ID for a cache lookup, used to route feedback on the answer. */
+function createRequestId(): string {
+  return `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * For JSON response formats, only serve cached entries whose text parses
+ * as JSON and satisfies the requested schema (if any). Truncated or
+ * schema-drifted outputs are treated as misses and regenerated.
+ */
+function structuredOutputFilter(
+  responseFormat: unknown,
+): ((entry: CacheEntry) => boolean) | undefined {
+  const format = responseFormat as { type?: string; schema?: JsonSchema } | undefined
+  if (format?.type !== "json") return undefined
+  return (entry) => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(entry.response)
+    } catch {
+      return false
+    }
+    return format.schema === undefined || validateJsonSchema(parsed, format.schema).valid
+  }
+}
+
 /**
  * Build the transformParams function for the middleware pipeline.
  * Captures the initialized module instances via the context object.
@@ -37,9 +301,13 @@ export function buildTransformParams(ctx: MiddlewareContext) {
     breaker,
     userBudgetManager,
     anomalyDetector,
+    anomalyActions,
+    piiScanner,
+    loopDetector,
     instanceEvents,
     log,
     adapter: _adapter,
+    control,
   } = ctx
 
   return async ({ params }: { params: Record<string, unknown> }) => {
@@ -57,6 +325,21 @@ export function buildTransformParams(ctx: MiddlewareContext) {
     }
 
     try {
+      // Lift anomaly actions whose time is up
+      if (anomalyActions) {
+        const expired = anomalyActions.expire()
+        if (guard && expired.some((a) => a.type === "tighten-guard")) {
+          guard.updateConfig({ maxRequestsPerMinute: anomalyActions.guardRateLimit() })
+        }
+        for (const action of expired) {
+          try {
+            instanceEvents.emit("anomaly:actionExpired", action)
+          } catch {
+            /* non-fatal */
+          }
+        }
+      }
+
       // Extract text content from AI SDK prompt format
       const messages: ChatMessage[] = prompt.map((msg) => ({
         role: msg.role as ChatMessage["role"],
@@ -72,6 +355,29 @@ export function buildTransformParams(ctx: MiddlewareContext) {
       const lastUserText = lastUserMessage?.content ?? ""
       meta.lastUserText = lastUserText
 
+      // PII scan runs first so its policies cover every step below
+      let piiPolicies: PiiPolicy[] = []
+      let loggedUserText = lastUserText
+      if (piiScanner) {
+        const pii = piiScanner.check(messages.map((m) => m.content))
+        if (pii.matches.length > 0) {
+          piiPolicies = pii.policies
+          meta.piiTypes = pii.types
+          if (piiPolicies.includes("redact-before-log")) {
+            loggedUserText = piiScanner.redact(lastUserText)
+          }
+          try {
+            instanceEvents.emit("pii:detected", {
+              types: pii.types,
+              count: pii.matches.length,
+              policies: pii.policies,
+            })
+          } catch {
+            /* non-fatal */
+          }
+        }
+      }
+
       // -- DRY-RUN MODE: simulate pipeline without modifying params --
       // Uses side-effect-free read-only probes (cache.peek, guard.stats)
       // so that dry-run doesn't pollute rate-limit state or cache access counts.
@@ -101,10 +407,12 @@ export function buildTransformParams(ctx: MiddlewareContext) {
         }
 
         // User budget dry-run check
+        let dryRunUserId: string | undefined
         if (userBudgetManager && config.userBudget) {
           try {
             const userId = config.userBudget.getUserId()
             if (userId) {
+              dryRunUserId = userId
               const status = userBudgetManager.getStatus(userId)
               const wouldExceedDaily = status.limits?.daily
                 ? status.spend.daily + estimatedCost >= status.limits.daily
@@ -142,12 +450,20 @@ export function buildTransformParams(ctx: MiddlewareContext) {
           config.onDryRun?.({ module: "guard", description })
         }
         if (cache && lastUserText) {
-          const peek = cache.peek(lastUserText, modelId)
+          const cacheKey = buildCacheKey(params, config.cache?.key)
+          const peek = cacheKey.cacheable
+            ? cache.peek(lastUserText, modelId, {
+                contextKey: cacheKey.contextKey,
+                accept: structuredOutputFilter(params.responseFormat),
+              })
+            : { hit: false as const }
           config.onDryRun?.({
             module: "cache",
-            description: peek.hit
-              ? `Cache ${peek.matchType} hit (similarity: ${peek.similarity?.toFixed(2)})`
-              : "Cache miss",
+            description: !cacheKey.cacheable
+              ? "Cache skipped by cache key policy"
+              : peek.hit
+                ? `Cache ${peek.matchType} hit (similarity: ${peek.similarity?.toFixed(2)})`
+                : "Cache miss",
             estimatedSavings: peek.hit
               ? safeCost(modelId, peek.entry!.inputTokens, peek.entry!.outputTokens)
               : 0,
@@ -184,28 +500,160 @@ export function buildTransformParams(ctx: MiddlewareContext) {
           }
         }
 
+        if (meta.piiTypes) {
+          config.onDryRun?.({
+            module: "pii",
+            description: `Found ${meta.piiTypes.join(", ")}; would apply ${piiPolicies.join(", ")}`,
+          })
+        }
+
         // Anomaly dry-run check
         if (anomalyDetector) {
-          const anomaly = anomalyDetector.check(estimatedCost, inputTokens + expectedOut)
+          const anomaly = anomalyDetector.check(estimatedCost, inputTokens + expectedOut, {
+            userId: dryRunUserId,
+            model: modelId,
+            feature: config.ledger?.feature,
+          })
           config.onDryRun?.({
             module: "anomaly",
             description: anomaly
-              ? `Anomaly detected: ${anomaly.type} (z-score: ${anomaly.zScore.toFixed(2)}, value: ${anomaly.value.toFixed(4)}, mean: ${anomaly.mean.toFixed(4)})`
+              ? `Anomaly detected: ${anomaly.type} on ${anomaly.key} (z-score: ${anomaly.zScore.toFixed(2)}, value: ${anomaly.value.toFixed(4)}, mean: ${anomaly.mean.toFixed(4)})`
               : "No anomaly detected",
           })
         }
 
+        if (loopDetector) {
+          const loop = loopDetector.check(
+            buildLoopRequest(
+              params,
+              messages,
+              config.loop?.getSessionId,
+              config.userBudget?.getUserId,
+            ),
+          )
+          config.onDryRun?.({
+            module: "loop",
+            description: loop ? `${loop.reason}; would ${loop.action}` : "No agent loop detected",
+          })
+        }
+
         span?.end({ dryRun: true })
         ;(params as Record<string | symbol, unknown>)[SHIELD_META] = meta
         return params // Pass through unchanged
       }
 
+      // -- PII BLOCK --
+      if (piiPolicies.includes("block")) {
+        const reason = `Prompt contains sensitive data (${meta.piiTypes!.join(", ")})`
+        try {
+          instanceEvents.emit("request:blocked", { reason, estimatedCost: 0 })
+        } catch {
+          /* non-fatal */
+        }
+        config.onBlocked?.(reason)
+        throw new TokenShieldBlockedError(reason, ERROR_CODES.PII_BLOCKED, {
+          suggestion: "Remove personal data or secrets from the prompt",
+          details: { types: meta.piiTypes },
+        })
+      }
+
+      // -- LOOP DETECTION: duplicate prompts, tool cycles, context growth, retry chains --
+      let loopHint: string | undefined
+      if (loopDetector) {
+        const loopRequest = buildLoopRequest(
+          params,
+          messages,
+          config.loop?.getSessionId,
+          config.userBudget?.getUserId,
+        )
+        meta.loopSession = loopRequest.sessionId
+        const loop = loopDetector.check(loopRequest)
+        if (loop) {
+          try {
+            instanceEvents.emit("loop:detected", loop)
+          } catch {
+            /* non-fatal */
+          }
+          config.loop?.onLoopDetected?.(loop)
+          if (loop.action === "block") {
+            const signal = loop.signals.find((s) => loopDetector.actionFor(s) === "block")!
+            try {
+              instanceEvents.emit("request:blocked", { reason: loop.reason, estimatedCost: 0 })
+            } catch {
+              /* non-fatal */
+            }
+            config.onBlocked?.(loop.reason)
+            throw new TokenShieldBlockedError(loop.reason, LOOP_ERROR_CODES[signal], {
+              suggestion: "Stop the agent run or start a new session with a different approach",
+              details: { sessionId: loop.sessionId, signals: loop.signals, counts: loop.counts },
+            })
+          }
+          if (loop.action === "stop-hint") loopHint = loopDetector.stopHint
+        }
+      }
+
+      // -- 0a. MANUAL CONTROL: operator pauses and per-user overrides --
+      // A failed read keeps the last known state rather than failing the request
+      await control.refresh().catch((err) => {
+        try {
+          instanceEvents.emit("storage:error", {
+            module: "control",
+            operation: "refresh",
+            error: err,
+          })
+        } catch {
+          /* non-fatal */
+        }
+      })
+      const requestModelId = String(params.modelId ?? "")
+      const scope = resolveBreakerScope(config.breaker ?? {}, {
+        modelId: requestModelId,
+        feature: config.ledger?.feature,
+        params,
+      })
+      const pause = control.pausedFor([scope, requestModelId, config.ledger?.feature])
+      if (pause) {
+        const reason = `Traffic paused${pause.scope ? ` for ${pause.scope}` : ""}: ${pause.reason}`
+        try {
+          instanceEvents.emit("request:blocked", { reason, estimatedCost: 0 })
+        } catch {
+          /* non-fatal */
+        }
+        config.onBlocked?.(reason)
+        throw new TokenShieldBlockedError(reason, ERROR_CODES.CONTROL_PAUSED, {
+          suggestion: pause.until
+            ? `Retry after ${new Date(pause.until).toISOString()}`
+            : "Wait for an operator to resume traffic",
+          details: { scope: pause.scope, until: pause.until },
+        })
+      }
+      // Overrides need the user ID; resolution errors surface in the budget check
+      let overrideUserId: string | undefined
+      if (config.userBudget) {
+        try {
+          const userId = config.userBudget.getUserId()
+          const estCost = safeCost(
+            requestModelId,
+            lastUserText ? countTokens(lastUserText) : 0,
+            config.context?.reserveForOutput ?? 500,
+          )
+          if (userId && control.reserveOverride(userId, estCost)) {
+            overrideUserId = userId
+            meta.controlOverrideReserved = estCost
+          }
+        } catch {
+          /* handled in 0b */
+        }
+      }
+      meta.controlOverride = overrideUserId
+      if (breaker) meta.breakerScope = scope
+
       // -- 0. BREAKER CHECK --
-      if (breaker && lastUserText) {
+      if (breaker && lastUserText && !overrideUserId) {
         const estimatedInput = countTokens(lastUserText)
         const expectedOut = config.context?.reserveForOutput ?? 500
-        const modelId = String(params.modelId ?? "")
-        const breakCheck = breaker.check(modelId, estimatedInput, expectedOut)
+        const modelId = requestModelId
+        const breakCheck = breaker.check(modelId, estimatedInput, expectedOut, scope)
         if (!breakCheck.allowed) {
           const estCost = safeCost(modelId, estimatedInput, expectedOut)
           try {
@@ -219,9 +667,38 @@ export function buildTransformParams(ctx: MiddlewareContext) {
           config.onBlocked?.(breakCheck.reason ?? "Budget exceeded")
           throw new TokenShieldBlockedError(
             breakCheck.reason ?? "Request blocked by TokenShield breaker",
-            ERROR_CODES.BREAKER_SESSION_LIMIT,
+            breakCheck.trippedBy?.unit === "tokens"
+              ? ERROR_CODES.BREAKER_TOKEN_LIMIT
+              : ERROR_CODES.BREAKER_SESSION_LIMIT,
           )
         }
+
+        // "downgrade" action: send the request to the cheaper fallback instead
+        const fallback = breakCheck.downgradeTo
+        if (fallback && fallback !== modelId) {
+          let downgradeSaved = 0
+          try {
+            const origCost = estimateCost(modelId, estimatedInput, expectedOut)
+            const fallbackCost = estimateCost(fallback, estimatedInput, expectedOut)
+            downgradeSaved = Math.max(0, origCost.totalCost - fallbackCost.totalCost)
+            meta.routerSaved = downgradeSaved
+          } catch {
+            // Unknown model — can't compute savings
+          }
+          if (!meta.originalModel) meta.originalModel = modelId
+          params = { ...params, modelId: fallback }
+
+          try {
+            instanceEvents.emit("router:downgraded", {
+              originalModel: modelId,
+              selectedModel: fallback,
+              complexity: 0,
+              savedCost: downgradeSaved,
+            })
+          } catch {
+            /* non-fatal */
+          }
+        }
       }
 
       // -- 0b. USER BUDGET CHECK --
@@ -243,23 +720,67 @@ export function buildTransformParams(ctx: MiddlewareContext) {
           )
         }
         meta.userId = userId
+        const anomalyPause = overrideUserId ? undefined : anomalyActions?.userPause(userId)
+        if (anomalyPause) {
+          const reason = `User ${userId} paused after a ${anomalyPause.anomaly.type} anomaly`
+          config.onBlocked?.(reason)
+          throw new TokenShieldBlockedError(reason, ERROR_CODES.BUDGET_USER_PAUSED, {
+            suggestion: `Retry after ${new Date(anomalyPause.expiresAt).toISOString()}`,
+            details: { userId, anomaly: anomalyPause.anomaly, until: anomalyPause.expiresAt },
+          })
+        }
         const modelId = String(params.modelId ?? "")
         const estimatedInput = lastUserText ? countTokens(lastUserText) : 0
         const expectedOut = config.context?.reserveForOutput ?? 500
-        const budgetCheck = userBudgetManager.check(userId, modelId, estimatedInput, expectedOut)
-        if (!budgetCheck.allowed) {
+        const budgetCheck = overrideUserId
+          ? null
+          : userBudgetManager.check(userId, modelId, estimatedInput, expectedOut)
+        if (budgetCheck && !budgetCheck.allowed) {
           config.onBlocked?.(budgetCheck.reason ?? "User budget exceeded")
+          const credits = budgetCheck.insufficientCredits
+          if (credits) {
+            throw new TokenShieldBlockedError(
+              budgetCheck.reason ?? "Insufficient credits",
+              ERROR_CODES.BUDGET_INSUFFICIENT_CREDITS,
+              {
+                suggestion: "Top up the user's wallet with userBudgetManager.credit()",
+                details: {
+                  userId,
+                  balance: credits.balance,
+                  available: credits.available,
+                  required: credits.required,
+                },
+              },
+            )
+          }
+          const exceeded = budgetCheck.exceeded
+          const daily = exceeded
+            ? exceeded.limitType === "daily"
+            : budgetCheck.status.spend.daily >= (budgetCheck.status.limits?.daily ?? Infinity)
           throw new TokenShieldBlockedError(
             budgetCheck.reason ?? "Request blocked by user budget limit",
-            budgetCheck.status.spend.daily >= (budgetCheck.status.limits?.daily ?? Infinity)
-              ? ERROR_CODES.BUDGET_DAILY_EXCEEDED
-              : ERROR_CODES.BUDGET_MONTHLY_EXCEEDED,
+            exceeded?.unit === "tokens"
+              ? daily
+                ? ERROR_CODES.BUDGET_DAILY_TOKENS_EXCEEDED
+                : ERROR_CODES.BUDGET_MONTHLY_TOKENS_EXCEEDED
+              : daily
+                ? ERROR_CODES.BUDGET_DAILY_EXCEEDED
+                : ERROR_CODES.BUDGET_MONTHLY_EXCEEDED,
+            {
+              details: {
+                userId,
+                level: exceeded?.level ?? "user",
+                levelId: exceeded?.levelId ?? userId,
+              },
+            },
           )
         }
 
-        // Store the estimated cost that was reserved as in-flight
+        // Store the estimated cost that was reserved as in-flight (none for overrides)
         try {
-          meta.userBudgetInflight = estimateCost(modelId, estimatedInput, expectedOut).totalCost
+          meta.userBudgetInflight = budgetCheck
+            ? estimateCost(modelId, estimatedInput, expectedOut).totalCost
+            : 0
         } catch {
           meta.userBudgetInflight = 0
         }
@@ -322,7 +843,10 @@ export function buildTransformParams(ctx: MiddlewareContext) {
             )
           }
           try {
-            instanceEvents.emit("request:allowed", { prompt: lastUserText, model: guardModelId })
+            instanceEvents.emit("request:allowed", {
+              prompt: loggedUserText,
+              model: guardModelId,
+            })
           } catch {
             /* non-fatal */
           }
@@ -330,13 +854,39 @@ export function buildTransformParams(ctx: MiddlewareContext) {
 
         // -- 2. CACHE LOOKUP --
         if (cache && lastUserText) {
+          const cacheKey = buildCacheKey(params, config.cache?.key)
+          meta.cacheContextKey = cacheKey.contextKey || undefined
+          // Masked requests would be cached under the raw prompt and unmasked response
+          meta.cacheSkipped =
+            !cacheKey.cacheable ||
+            piiPolicies.includes("skip-cache") ||
+            piiPolicies.includes("mask-before-send")
+          if (!meta.cacheSkipped) {
+            const tags = resolveCacheTags(params, config.cache?.tagResolver)
+            if (tags.length > 0) meta.cacheTags = tags
+          }
+        }
+        if (cache && lastUserText && !meta.cacheSkipped) {
           const modelId = String(params.modelId ?? "")
-          const lookup = await cache.lookup(lastUserText, modelId)
+          const requestId = createRequestId()
+          const lookup = await cache.lookup(lastUserText, modelId, {
+            contextKey: meta.cacheContextKey,
+            accept: structuredOutputFilter(params.responseFormat),
+            requestId,
+          })
           if (lookup.hit && lookup.entry) {
             meta.cacheHit = {
+              key: lookup.entry.key,
+              requestId,
+              matchType: lookup.matchType,
+              similarity: lookup.similarity,
+              ...(lookup.stale ? { stale: true } : {}),
               response: lookup.entry.response,
               inputTokens: lookup.entry.inputTokens,
               outputTokens: lookup.entry.outputTokens,
+              finishReason: lookup.entry.finishReason,
+              chunkTimings: lookup.entry.chunkTimings,
+              content: lookup.entry.content,
             }
             const savedCost = safeCost(modelId, lookup.entry.inputTokens, lookup.entry.outputTokens)
             try {
@@ -344,6 +894,9 @@ export function buildTransformParams(ctx: MiddlewareContext) {
                 matchType: lookup.matchType ?? "fuzzy",
                 similarity: lookup.similarity ?? 1,
                 savedCost,
+                ...(lookup.stale ? { stale: true } : {}),
+                key: lookup.entry.key,
+                requestId,
               })
             } catch {
               /* non-fatal */
@@ -352,8 +905,9 @@ export function buildTransformParams(ctx: MiddlewareContext) {
             span?.end({ cacheHit: true, contextSaved: 0 })
             return params // wrapGenerate will short-circuit
           } else {
+            if (lookup.embedding) meta.cacheEmbedding = lookup.embedding
             try {
-              instanceEvents.emit("cache:miss", { prompt: lastUserText })
+              instanceEvents.emit("cache:miss", { prompt: loggedUserText })
             } catch {
               /* non-fatal */
             }
@@ -364,6 +918,9 @@ export function buildTransformParams(ctx: MiddlewareContext) {
         if (userBudgetManager && meta.userId && meta.userBudgetInflight) {
           userBudgetManager.releaseInflight(meta.userId, meta.userBudgetInflight)
         }
+        if (meta.controlOverride) {
+          control.releaseOverride(meta.controlOverride, meta.controlOverrideReserved ?? 0)
+        }
         throw err
       }
 
@@ -495,7 +1052,46 @@ export function buildTransformParams(ctx: MiddlewareContext) {
       }
 
       // -- 4. MODEL ROUTER (skipped when tier routing already applied a budget-enforced model) --
-      if (config.routerOverride && lastUserText) {
+      // Anomaly actions only ever route down to the forced model, never up
+      let forcedModel = anomalyActions?.forcedModel(meta.userId)
+      const forcedPricing = forcedModel ? MODEL_PRICING[forcedModel] : undefined
+      const currentPricing = MODEL_PRICING[String(params.modelId)]
+      if (
+        forcedModel === params.modelId ||
+        (forcedPricing &&
+          currentPricing &&
+          forcedPricing.inputPerMillion >= currentPricing.inputPerMillion)
+      ) {
+        forcedModel = undefined
+      }
+      if (forcedModel) {
+        const originalModelId = String(params.modelId)
+        let forcedSaved = 0
+        try {
+          const expectedOut = config.context?.reserveForOutput ?? 500
+          const inputTokens = meta.originalInputTokens ?? 0
+          forcedSaved = Math.max(
+            0,
+            estimateCost(originalModelId, inputTokens, expectedOut).totalCost -
+              estimateCost(forcedModel, inputTokens, expectedOut).totalCost,
+          )
+          meta.routerSaved = (meta.routerSaved ?? 0) + forcedSaved
+        } catch {
+          // Unknown model — can't compute savings
+        }
+        if (!meta.originalModel) meta.originalModel = originalModelId
+        params = { ...params, modelId: forcedModel }
+        try {
+          instanceEvents.emit("router:downgraded", {
+            originalModel: originalModelId,
+            selectedModel: forcedModel,
+            complexity: 0,
+            savedCost: forcedSaved,
+          })
+        } catch {
+          /* non-fatal */
+        }
+      } else if (config.routerOverride && lastUserText) {
         const overrideModel = config.routerOverride(lastUserText)
         if (overrideModel && overrideModel !== params.modelId) {
           if (!meta.originalModel) meta.originalModel = String(params.modelId)
@@ -632,6 +1228,30 @@ export function buildTransformParams(ctx: MiddlewareContext) {
         }
       }
 
+      // -- 6. PII MASK -- placeholders are restored in wrapGenerate/wrapStream
+      if (piiScanner && piiPolicies.includes("mask-before-send")) {
+        const masked = piiScanner.mask(workingMessages.map((m) => m.content))
+        if (Object.keys(masked.placeholders).length > 0) {
+          workingMessages = workingMessages.map((m, i) => ({ ...m, content: masked.texts[i] }))
+          meta.piiPlaceholders = masked.placeholders
+        }
+      }
+
+      // Folded into the leading system message: providers such as Anthropic
+      // reject system messages that follow user or assistant turns
+      if (loopHint) {
+        const [first, ...rest] = workingMessages
+        workingMessages =
+          first?.role === "system"
+            ? [{ ...first, content: `${first.content}\n\n${loopHint}` }, ...rest]
+            : [{ role: "system", content: loopHint }, ...workingMessages]
+        try {
+          instanceEvents.emit("loop:hintInjected", { sessionId: meta.loopSession!, hint: loopHint })
+        } catch {
+          /* non-fatal */
+        }
+      }
+
       // Rebuild the prompt in AI SDK format
       const rebuiltPrompt = workingMessages.map((msg) => ({
         role: msg.role,
@@ -8,7 +8,7 @@
 import type { ResponseCache } from "./response-cache"
 import type { RequestGuard } from "./request-guard"
 import type { CostLedger } from "./cost-ledger"
-import type { CostCircuitBreaker, BreakerConfig } from "./circuit-breaker"
+import type { CostCircuitBreaker, BreakerConfig, BreakerState } from "./circuit-breaker"
 import type {
   UserBudgetManager,
   UserBudgetConfig,
@@ -20,9 +20,23 @@ import type { TokenShieldLogger, LogEntry } from "./logger"
 import type { ProviderAdapter, AdapterConfig } from "./provider-adapter"
 import type { ComplexityScore } from "./model-router"
 import type { AnomalyDetector, AnomalyConfig, AnomalyEvent } from "./anomaly-detector"
+import type { AnomalyActionPolicy, AnomalyActionRule } from "./anomaly-actions"
 import type { AuditLog, AuditLogConfig } from "./audit-log"
 import type { CompressorConfig } from "./prompt-compressor"
 import type { DeltaEncoderConfig } from "./conversation-delta-encoder"
+import type { StorageBackend } from "./storage-adapter"
+import type { EncryptionConfig } from "./crypto-store"
+import type {
+  ChunkTiming,
+  CachedContentPart,
+  CacheFeedbackConfig,
+  ContentType,
+} from "./response-cache"
+import type { ReplayConfig } from "./stream-replay"
+import type { Embedder } from "./embedding-index"
+import type { PiiScanner, PiiScannerConfig } from "./pii-scanner"
+import type { LoopDetector, LoopDetectorConfig, LoopDetection } from "./loop-detector"
+import type { ControlOverride, ControlPause, ShieldControl } from "./shield-control"
 import { estimateCost } from "./cost-estimator"
 
 // -------------------------------------------------------
@@ -93,8 +107,10 @@ export interface TokenShieldMiddlewareConfig {
      * - "bigram" (default): Fast bigram Dice coefficient. Good for near-duplicate detection.
      * - "holographic": Trigram-based holographic encoding with semantic seeding.
      *   Better for catching paraphrased prompts at the cost of slightly higher memory.
+     * - "minhash": LSH candidate lookup verified with the bigram score. Keeps
+     *   fuzzy lookups fast at 10k+ entries; very short prompts only match exactly.
      */
-    encodingStrategy?: "bigram" | "holographic"
+    encodingStrategy?: "bigram" | "holographic" | "minhash"
     /** Semantic seeds for holographic encoding (maps domain terms to seed angles) */
     semanticSeeds?: Record<string, number>
     /**
@@ -102,6 +118,51 @@ export interface TokenShieldMiddlewareConfig {
      * If not provided, storage errors are emitted as `storage:error` events on the event bus.
      */
     onStorageError?: (error: unknown) => void
+    /**
+     * Which parts of the request besides the last user message make up the
+     * cache key. A preset name or a CacheKeyConfig. Default: "last-message"
+     * (system prompt, tools, response format and sampling params are keyed;
+     * earlier turns are not).
+     */
+    key?: CacheKeyPreset | CacheKeyConfig
+    /**
+     * How streamed cache hits are replayed. Default: `{ mode: "instant" }`
+     * (the full response in one chunk). Use "paced" for token-by-token
+     * output or "recorded" to reproduce the original stream's cadence.
+     */
+    replay?: ReplayConfig
+    /**
+     * Derive invalidation tags for a request, e.g. from its tools or the
+     * product it asks about. Merged with per-request tags passed as
+     * `providerOptions: { tokenshield: { cacheTags: [...] } }`.
+     */
+    tagResolver?: (params: Record<string, unknown>) => string[] | undefined
+    /**
+     * Serve expired entries for this many extra ms per content type while
+     * the model call is re-run in the background to refresh them, e.g.
+     * `{ factual: 86_400_000, general: 3_600_000 }`. Default: none.
+     */
+    staleWhileRevalidateMs?: Partial<Record<ContentType, number>>
+    /**
+     * How `cache.reportFeedback()` verdicts evict entries or tighten their
+     * learned similarity floor.
+     */
+    feedback?: CacheFeedbackConfig
+    /**
+     * Embedding model for semantic matching (see `createHashingEmbedder()`
+     * for an offline stand-in). Each embed call is recorded in the ledger.
+     */
+    embedder?: Embedder
+    /** Minimum cosine similarity for an embedding match (default: 0.9) */
+    embeddingThreshold?: number
+    /** Approximate in-memory byte budget; larger entries are evicted first */
+    maxBytes?: number
+    /** How eviction picks a victim: least recently or least frequently used (default: "lru") */
+    evictionPolicy?: "lru" | "lfu"
+    /** Compress persisted responses of at least `minBytes` (default: 1024) */
+    compression?: boolean | { minBytes?: number }
+    /** Encrypt persisted entries. Overrides the top-level `encryption`. */
+    encryption?: EncryptionConfig
   }
 
   /** Context manager config */
@@ -135,6 +196,8 @@ export interface TokenShieldMiddlewareConfig {
     persist?: boolean
     /** Optional feature tag attached to every entry */
     feature?: string
+    /** Encrypt persisted entries. Overrides the top-level `encryption`. */
+    encryption?: EncryptionConfig
   }
 
   /**
@@ -173,10 +236,47 @@ export interface TokenShieldMiddlewareConfig {
     onAbort?: (usage: { inputTokens: number; outputTokens: number; estimatedCost: number }) => void
   }
 
-  /** Anomaly detection config */
+  /**
+   * Scan prompts for personal data and secrets (emails, phone and card
+   * numbers, API keys, high-entropy tokens) before caching, logging and
+   * sending. Policies decide whether a flagged request skips the cache,
+   * is redacted in events, is sent with reversible placeholders, or is
+   * blocked (`PII_BLOCKED`). Disabled when omitted.
+   */
+  pii?: PiiScannerConfig
+
+  /**
+   * Anomaly detection config. Each request is checked with its model,
+   * `ledger.feature` and (with user budgets) `userBudget.getUserId()`, so
+   * baselines are kept per user, model and feature by default.
+   */
   anomaly?: AnomalyConfig & {
     /** Called when an anomaly is detected */
     onAnomalyDetected?: (event: AnomalyEvent) => void
+    /**
+     * Temporary countermeasures for matching anomalies: tighten the guard
+     * rate limit, force a cheaper model, pause the user or pause the
+     * request's breaker scope. Actions lift after `durationMs` and are
+     * recorded in the audit log. Not applied in dry-run mode.
+     */
+    actions?: AnomalyActionRule[]
+  }
+
+  /**
+   * Detect runaway agent loops: near-duplicate prompts, repeating tool-call
+   * sequences, context that grows with no new user input and retry chains.
+   * Loops are reported, answered with a stop hint, or blocked
+   * (`LOOP_*` error codes). Disabled when omitted.
+   */
+  loop?: LoopDetectorConfig & {
+    /**
+     * Session (agent run or conversation) a request belongs to. Defaults to
+     * `providerOptions.tokenshield.sessionId`, then to a fingerprint of the
+     * `userBudget.getUserId()` user and the first system and user messages.
+     */
+    getSessionId?: (params: Record<string, unknown>) => string | undefined
+    /** Called when a loop is detected, before its action is applied */
+    onLoopDetected?: (detection: LoopDetection) => void
   }
 
   /**
@@ -229,6 +329,36 @@ export interface TokenShieldMiddlewareConfig {
   /** Optional enterprise audit logging. Records all pipeline events to a tamper-evident log. */
   auditLog?: AuditLogConfig | AuditLog
 
+  /**
+   * Server-side persistence backend shared by the cache, ledger, audit log and
+   * user budgets (each module gets its own key namespace). Use this on Node
+   * servers so state survives restarts and is shared between instances.
+   * Module-level `backend` options take precedence. Default: IndexedDB in
+   * browsers, process-local memory elsewhere.
+   */
+  storage?: StorageBackend
+
+  /**
+   * Where `shield.control` pauses and overrides are shared. Defaults to
+   * `storage` (namespace "control"), then IndexedDB in browsers and
+   * process-local memory elsewhere. Each instance re-reads the shared
+   * state at most every `syncIntervalMs` (default: 1000).
+   */
+  control?: {
+    backend?: StorageBackend
+    syncIntervalMs?: number
+  }
+
+  /**
+   * Encrypt everything the cache, ledger, audit log and user budgets persist
+   * (AES-GCM via EncryptedStore). Plaintext data written before encryption
+   * was enabled is read normally and re-written encrypted. Module-level
+   * `encryption` options take precedence; `{ mode: "none" }` opts a module out.
+   * Passphrase and session modes need browser storage, so use `{ mode: "key" }`
+   * on servers.
+   */
+  encryption?: EncryptionConfig
+
   /**
    * Optional prompt compression. Reduces user message tokens by 15-40% using
    * stopword elision, verbose pattern contraction, and redundancy elimination.
@@ -246,6 +376,44 @@ export interface TokenShieldMiddlewareConfig {
   delta?: boolean | DeltaEncoderConfig
 }
 
+/**
+ * Cache-key presets:
+ * - "last-message": last user message + system prompt, tools, response format, sampling params
+ * - "full-conversation": additionally keys every earlier turn
+ * - "deterministic-only": like "full-conversation", but skips caching entirely
+ *   when the request sets temperature > 0
+ */
+export type CacheKeyPreset = "last-message" | "full-conversation" | "deterministic-only"
+
+/**
+ * Fine-grained cache-key composition. Unset fields inherit from `preset`.
+ * Messages after the last user message (tool calls and results of the
+ * current turn) are always part of the key.
+ */
+export interface CacheKeyConfig {
+  /** Base preset (default: "last-message") */
+  preset?: CacheKeyPreset
+  /** Key on system messages */
+  systemPrompt?: boolean
+  /** Number of messages before the last user message to key on (Infinity = all) */
+  previousTurns?: number
+  /** Key on tool definitions and toolChoice */
+  tools?: boolean
+  /** Key on responseFormat (e.g. JSON schema for structured output) */
+  responseFormat?: boolean
+  /** Key on temperature, seed, topP and topK */
+  sampling?: boolean
+  /** providerOptions namespaces to key on, e.g. ["openai"] (default: none) */
+  providerOptions?: string[]
+  /** Skip cache lookup and storage when temperature > 0 */
+  deterministicOnly?: boolean
+  /**
+   * Custom key component appended to the built key. Return null to skip
+   * caching for this request.
+   */
+  build?: (params: Record<string, unknown>) => string | null
+}
+
 // -------------------------------------------------------
 // Return Type
 // -------------------------------------------------------
@@ -266,6 +434,10 @@ export interface TokenShieldMiddleware {
   userBudgetManager: UserBudgetManager | null
   /** Access the anomaly detector */
   anomalyDetector: AnomalyDetector | null
+  /** Anomaly actions in force, null when `anomaly.actions` is not configured */
+  anomalyActions: AnomalyActionPolicy | null
+  /** Access the agent loop detector, null when `loop` is not configured */
+  loopDetector: LoopDetector | null
   /** Per-instance event bus. Events are also forwarded to the global shieldEvents. */
   events: ReturnType<typeof createEventBus>
   /** Access the logger for span/event data */
@@ -274,6 +446,8 @@ export interface TokenShieldMiddleware {
   providerAdapter: ProviderAdapter | null
   /** Access the audit log for compliance/forensic data */
   auditLog: AuditLog | null
+  /** Manual kill switch and budget overrides, enforced before the breaker */
+  control: ShieldControl
   /** Pre-model transform — runs breaker, budget, guard, cache, context, router, prefix */
   transformParams: (args: { params: Record<string, unknown> }) => Promise<Record<string, unknown>>
   /** Wraps non-streaming model calls with caching, ledger, budget tracking */
@@ -314,6 +488,10 @@ export interface HealthCheckResult {
   guardBlockedRate: number | null
   /** Whether circuit breaker is tripped */
   breakerTripped: boolean | null
+  /** Tripped flag and open/half-open state per breaker scope, null if breaker disabled */
+  breakerScopes: Record<string, { tripped: boolean; state: BreakerState }> | null
+  /** Manual pauses and overrides in effect; `paused` is true while all traffic is paused */
+  control: { paused: boolean; pauses: ControlPause[]; overrides: ControlOverride[] }
   /** Ledger total spend, null if ledger disabled */
   totalSpent: number | null
   /** Ledger total saved, null if ledger disabled */
@@ -326,9 +504,24 @@ export interface HealthCheckResult {
 
 export interface ShieldMeta {
   cacheHit?: {
+    /**
+     * Cache entry key. Returned in `providerMetadata.tokenshield.cacheKey`
+     * for reportFeedback() and used to deduplicate background revalidation.
+     */
+    key?: string
+    /** ID the lookup was tracked under; also accepted by reportFeedback() */
+    requestId?: string
+    matchType?: "exact" | "fuzzy"
+    similarity?: number
+    /** Served from the stale-while-revalidate window; a refresh runs after the response */
+    stale?: boolean
     response: string
     inputTokens: number
     outputTokens: number
+    finishReason?: string
+    chunkTimings?: ChunkTiming[]
+    /** Full content array for tool-call / reasoning / structured responses */
+    content?: CachedContentPart[]
   }
   originalInputTokens?: number
   originalModel?: string
@@ -340,16 +533,36 @@ export interface ShieldMeta {
   userId?: string
   /** Estimated cost reserved as in-flight during budget check */
   userBudgetInflight?: number
+  /** Circuit breaker scope the request was checked against */
+  breakerScope?: string
+  /** User whose manual override let this request bypass breaker and budget limits */
+  controlOverride?: string
+  /** Estimated cost claimed from that override while the request is in flight */
+  controlOverrideReserved?: number
   /** True when user budget tier routing was applied — prevents complexity router from overriding */
   tierRouted?: boolean
   /** True when this request was held back from routing for A/B quality comparison */
   abTestHoldout?: boolean
   /** Cached last user text to avoid redundant extraction in wrapGenerate/wrapStream */
   lastUserText?: string
+  /** Request-context fingerprint used to scope cache lookup and storage */
+  cacheContextKey?: string
+  /** True when the cache-key policy excluded this request from caching */
+  cacheSkipped?: boolean
+  /** Invalidation tags to attach when the response is cached */
+  cacheTags?: string[]
+  /** Prompt embedding from the missed cache lookup, reused when the response is stored */
+  cacheEmbedding?: { embedderId: string; vector: number[] }
   /** Tokens saved by prompt compressor */
   compressorSaved?: number
   /** Tokens saved by delta encoder */
   deltaSaved?: number
+  /** PII types found in the prompt */
+  piiTypes?: string[]
+  /** Placeholder → original value for PII masked before sending; restored in the response */
+  piiPlaceholders?: Record<string, string>
+  /** Loop detector session the request was checked in; its outcome feeds retry chains */
+  loopSession?: string
 }
 
 /**
@@ -386,10 +599,14 @@ export interface MiddlewareContext {
   breaker: CostCircuitBreaker | null
   userBudgetManager: UserBudgetManager | null
   anomalyDetector: AnomalyDetector | null
+  anomalyActions: AnomalyActionPolicy | null
+  piiScanner: PiiScanner | null
+  loopDetector: LoopDetector | null
   instanceEvents: ReturnType<typeof createEventBus>
   log: TokenShieldLogger | null
   adapter: ProviderAdapter | null
   auditLog: AuditLog | null
+  control: ShieldControl
 }
 
 // -------------------------------------------------------
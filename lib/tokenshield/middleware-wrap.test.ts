@@ -51,6 +51,43 @@ describe("wrapGenerate", () => {
       shield.dispose()
     })
 
+    it("returns the cache key and request ID in providerMetadata for feedback", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10 },
+      })
+      await shield.cache!.store("What is 2+2?", "5", "gpt-4o-mini", 10, 5)
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "What is 2+2?" }]),
+      }
+      const result = (await shield.wrapGenerate({
+        doGenerate: vi.fn(),
+        params: await shield.transformParams({ params }),
+      })) as { providerMetadata: { tokenshield: Record<string, unknown> } }
+      const metadata = result.providerMetadata.tokenshield
+      expect(metadata).toMatchObject({ cacheHit: true, matchType: "exact", stale: false })
+      expect(typeof metadata.cacheKey).toBe("string")
+
+      // A thumbs-down in the UI evicts the wrong answer
+      const feedback = await shield.cache!.reportFeedback(String(metadata.requestId), "bad")
+      expect(feedback).toMatchObject({ action: "evicted", key: metadata.cacheKey })
+      const doGenerate = vi.fn().mockResolvedValue({
+        text: "4",
+        usage: { promptTokens: 10, completionTokens: 5 },
+      })
+      await shield.wrapGenerate({ doGenerate, params: await shield.transformParams({ params }) })
+      expect(doGenerate).toHaveBeenCalled()
+      shield.dispose()
+    })
+
     it("calls onUsage with saved cost for cache hits", async () => {
       const onUsage = vi.fn()
       const shield = tokenShieldMiddleware({
@@ -86,6 +123,145 @@ describe("wrapGenerate", () => {
       expect(onUsage.mock.calls[0][0].saved).toBeGreaterThan(0)
       shield.dispose()
     })
+
+    it("serves a stale hit immediately and refreshes it in the background", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const shield = tokenShieldMiddleware({
+          modules: {
+            guard: false,
+            cache: true,
+            context: false,
+            router: false,
+            prefix: false,
+            ledger: true,
+          },
+          cache: { maxEntries: 10, ttlMs: 1000, staleWhileRevalidateMs: { general: 60_000 } },
+        })
+        const params = {
+          modelId: "gpt-4o-mini",
+          prompt: makePrompt([{ role: "user", content: "Tell me a joke" }]),
+        }
+        await shield.cache!.store("Tell me a joke", "Old joke", "gpt-4o-mini", 10, 5)
+        vi.setSystemTime(Date.now() + 5000)
+
+        const doGenerate = vi.fn().mockResolvedValue({
+          text: "New joke",
+          usage: { promptTokens: 10, completionTokens: 6 },
+          finishReason: "stop",
+        })
+        const stale = await shield.wrapGenerate({
+          doGenerate,
+          params: await shield.transformParams({ params }),
+        })
+        expect(stale).toHaveProperty("text", "Old joke")
+        await new Promise((r) => setTimeout(r, 10))
+        expect(doGenerate).toHaveBeenCalledTimes(1)
+
+        const summary = shield.ledger!.getSummary()
+        expect(summary.staleHits).toBe(1)
+        // The refresh is a real call and is billed as one
+        expect(summary.totalSpent).toBeGreaterThan(0)
+
+        const fresh = await shield.wrapGenerate({
+          doGenerate: vi.fn(),
+          params: await shield.transformParams({ params }),
+        })
+        expect(fresh).toHaveProperty("text", "New joke")
+        shield.dispose()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("caches tool-call responses and returns the original content parts", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10 },
+      })
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "Weather in Paris?" }]),
+      }
+      const content = [
+        { type: "reasoning", text: "Need the weather tool." },
+        { type: "tool-call", toolCallId: "call_1", toolName: "weather", args: '{"city":"Paris"}' },
+      ]
+      await shield.wrapGenerate({
+        doGenerate: vi.fn().mockResolvedValue({
+          content,
+          finishReason: "tool-calls",
+          usage: { promptTokens: 12, completionTokens: 8 },
+        }),
+        params: await shield.transformParams({ params }),
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const doGenerate = vi.fn()
+      const result = (await shield.wrapGenerate({
+        doGenerate,
+        params: await shield.transformParams({ params }),
+      })) as Record<string, unknown>
+      expect(doGenerate).not.toHaveBeenCalled()
+      expect(result.content).toEqual(content)
+      expect(result.finishReason).toBe("tool-calls")
+      expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 8 })
+      shield.dispose()
+    })
+
+    it("caches v1 results that only carry toolCalls and replays them", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10 },
+      })
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "Weather in Paris?" }]),
+      }
+      const toolCalls = [
+        {
+          toolCallType: "function",
+          toolCallId: "call_1",
+          toolName: "weather",
+          args: '{"city":"Paris"}',
+        },
+      ]
+      await shield.wrapGenerate({
+        doGenerate: vi.fn().mockResolvedValue({
+          text: "",
+          toolCalls,
+          finishReason: "tool-calls",
+          usage: { promptTokens: 12, completionTokens: 8 },
+        }),
+        params: await shield.transformParams({ params }),
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const doGenerate = vi.fn()
+      const result = (await shield.wrapGenerate({
+        doGenerate,
+        params: await shield.transformParams({ params }),
+      })) as Record<string, unknown>
+      expect(doGenerate).not.toHaveBeenCalled()
+      expect(result.toolCalls).toEqual(toolCalls)
+      expect(result.text).toBe("")
+      expect(result.finishReason).toBe("tool-calls")
+      shield.dispose()
+    })
   })
 
   describe("normal call path", () => {
@@ -363,6 +539,183 @@ describe("wrapStream", () => {
       expect((result as Record<string, unknown>).stream).toBeInstanceOf(ReadableStream)
       shield.dispose()
     })
+
+    it("replays recorded chunks with the original usage and finishReason", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10, replay: { mode: "recorded", speed: 100 } },
+      })
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "Tell me a story" }]),
+      }
+
+      // First call streams from the model and records chunk timings
+      const live = await shield.wrapStream({
+        doStream: vi.fn().mockResolvedValue({
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: "text-delta", textDelta: "Once upon " })
+              controller.enqueue({ type: "text-delta", textDelta: "a time" })
+              controller.enqueue({ type: "finish", finishReason: "length" })
+              controller.close()
+            },
+          }),
+        }),
+        params: await shield.transformParams({ params }),
+      })
+      const liveReader = ((live as Record<string, unknown>).stream as ReadableStream).getReader()
+      while (!(await liveReader.read()).done) {
+        /* drain */
+      }
+      await new Promise((r) => setTimeout(r, 10))
+
+      // Second call is a cache hit replayed along the recorded boundaries
+      const doStream = vi.fn()
+      const replay = await shield.wrapStream({
+        doStream,
+        params: await shield.transformParams({ params }),
+      })
+      expect(doStream).not.toHaveBeenCalled()
+      const reader = ((replay as Record<string, unknown>).stream as ReadableStream).getReader()
+      const deltas: string[] = []
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        deltas.push((value as { textDelta: string }).textDelta)
+      }
+      expect(deltas).toEqual(["Once upon ", "a time"])
+      expect(await (replay as Record<string, unknown>).finishReason).toBe("length")
+      const usage = (await (replay as Record<string, unknown>).usage) as {
+        completionTokens: number
+      }
+      expect(usage.completionTokens).toBeGreaterThan(0)
+      shield.dispose()
+    })
+
+    it("replays streamed tool calls and reasoning in their original order", async () => {
+      const shield = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { maxEntries: 10 },
+      })
+      const params = {
+        modelId: "gpt-4o-mini",
+        prompt: makePrompt([{ role: "user", content: "Weather in Paris?" }]),
+      }
+      const toolCall = {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call_1",
+        toolName: "weather",
+        args: '{"city":"Paris"}',
+      }
+
+      const live = await shield.wrapStream({
+        doStream: vi.fn().mockResolvedValue({
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: "reasoning", textDelta: "Need " })
+              controller.enqueue({ type: "reasoning", textDelta: "the tool." })
+              controller.enqueue({ type: "text-delta", textDelta: "Checking." })
+              controller.enqueue(toolCall)
+              controller.enqueue({ type: "finish", finishReason: "tool-calls" })
+              controller.close()
+            },
+          }),
+        }),
+        params: await shield.transformParams({ params }),
+      })
+      const liveReader = ((live as Record<string, unknown>).stream as ReadableStream).getReader()
+      while (!(await liveReader.read()).done) {
+        /* drain */
+      }
+      await new Promise((r) => setTimeout(r, 10))
+
+      const doStream = vi.fn()
+      const replay = await shield.wrapStream({
+        doStream,
+        params: await shield.transformParams({ params }),
+      })
+      expect(doStream).not.toHaveBeenCalled()
+      const reader = ((replay as Record<string, unknown>).stream as ReadableStream).getReader()
+      const parts: unknown[] = []
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        parts.push(value)
+      }
+      expect(parts).toEqual([
+        { type: "reasoning", textDelta: "Need the tool." },
+        { type: "text-delta", textDelta: "Checking." },
+        toolCall,
+      ])
+      expect(await (replay as Record<string, unknown>).finishReason).toBe("tool-calls")
+      shield.dispose()
+    })
+
+    it("revalidates a stale streamed hit by draining doStream when doGenerate is absent", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const shield = tokenShieldMiddleware({
+          modules: {
+            guard: false,
+            cache: true,
+            context: false,
+            router: false,
+            prefix: false,
+            ledger: false,
+          },
+          cache: { maxEntries: 10, ttlMs: 1000, staleWhileRevalidateMs: { general: 60_000 } },
+        })
+        const params = {
+          modelId: "gpt-4o-mini",
+          prompt: makePrompt([{ role: "user", content: "Tell me a joke" }]),
+        }
+        await shield.cache!.store("Tell me a joke", "Old joke", "gpt-4o-mini", 10, 5)
+        vi.setSystemTime(Date.now() + 5000)
+
+        const doStream = vi.fn().mockResolvedValue({
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: "text-delta", textDelta: "New " })
+              controller.enqueue({ type: "text-delta", textDelta: "joke" })
+              controller.close()
+            },
+          }),
+          usage: Promise.resolve({ promptTokens: 10, completionTokens: 6 }),
+          finishReason: Promise.resolve("stop"),
+        })
+        const replay = await shield.wrapStream({
+          doStream,
+          params: await shield.transformParams({ params }),
+        })
+        const reader = ((replay as Record<string, unknown>).stream as ReadableStream).getReader()
+        expect((await reader.read()).value).toEqual({ type: "text-delta", textDelta: "Old joke" })
+        await new Promise((r) => setTimeout(r, 10))
+        expect(doStream).toHaveBeenCalledTimes(1)
+
+        const lookup = await shield.cache!.lookup("Tell me a joke", "gpt-4o-mini")
+        expect(lookup.entry?.response).toBe("New joke")
+        expect(lookup.stale).toBeUndefined()
+        shield.dispose()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
   })
 
   describe("normal stream path", () => {
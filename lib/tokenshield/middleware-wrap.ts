@@ -8,7 +8,11 @@
 
 import { MODEL_PRICING } from "./cost-estimator"
 import { StreamTokenTracker } from "./stream-tracker"
+import { createReplayStream, MAX_RECORDED_CHUNKS } from "./stream-replay"
+import type { CachedContentPart, ChunkTiming } from "./response-cache"
+import type { AnomalyEvent } from "./anomaly-detector"
 import type { EventBus, TokenShieldEvents } from "./event-bus"
+import { createPiiUnmasker, unmaskPii } from "./pii-scanner"
 import {
   extractLastUserText,
   safeCost,
@@ -30,6 +34,49 @@ function safeEmit<K extends keyof TokenShieldEvents>(
   }
 }
 
+/** Concatenate the text parts of an AI SDK content array. */
+function textOfContent(content: CachedContentPart[]): string {
+  return content
+    .filter((p) => p.type === "text" && typeof p.text === "string")
+    .map((p) => p.text as string)
+    .join("")
+}
+
+/**
+ * Accumulates streamed parts into an AI SDK content array: consecutive text
+ * or reasoning deltas merge into one part, tool calls are kept whole.
+ */
+class StreamContentCollector {
+  readonly parts: CachedContentPart[] = []
+
+  private appendDelta(type: "text" | "reasoning", delta: string): void {
+    const last = this.parts[this.parts.length - 1]
+    if (last && last.type === type) last.text = (last.text as string) + delta
+    else this.parts.push({ type, text: delta })
+  }
+
+  add(chunk: Record<string, unknown>): void {
+    const delta =
+      typeof chunk.textDelta === "string"
+        ? chunk.textDelta
+        : typeof chunk.delta === "string"
+          ? chunk.delta
+          : undefined
+    if (chunk.type === "text-delta" && delta !== undefined) {
+      this.appendDelta("text", delta)
+    } else if ((chunk.type === "reasoning" || chunk.type === "reasoning-delta") && delta) {
+      this.appendDelta("reasoning", delta)
+    } else if (chunk.type === "tool-call") {
+      this.parts.push({ ...chunk, type: "tool-call" })
+    }
+  }
+
+  /** True when the stream produced anything besides plain text */
+  hasNonText(): boolean {
+    return this.parts.some((p) => p.type !== "text")
+  }
+}
+
 /**
  * Conservative fallback input price ($/M tokens) used when the model isn't
  * in MODEL_PRICING. Used for savings estimation, so a mid-tier price avoids
@@ -53,7 +100,17 @@ async function recordPostRequestUsage(
     params: Record<string, unknown>
   },
 ): Promise<void> {
-  const { config, guard, ledger, breaker, userBudgetManager, anomalyDetector, instanceEvents } = ctx
+  const {
+    config,
+    guard,
+    ledger,
+    breaker,
+    userBudgetManager,
+    anomalyDetector,
+    anomalyActions,
+    instanceEvents,
+    control,
+  } = ctx
   const { modelId, inputTokens, outputTokens, latencyMs, meta, params } = opts
 
   // Compute per-request savings
@@ -65,8 +122,9 @@ async function recordPostRequestUsage(
   const prefixSavedDollars = meta?.prefixSaved ?? 0
 
   // Record in ledger
+  let ledgerEntryId: string | undefined
   if (ledger) {
-    await ledger.record({
+    const entry = await ledger.record({
       model: modelId,
       inputTokens,
       outputTokens,
@@ -80,6 +138,7 @@ async function recordPostRequestUsage(
       feature: config.ledger?.feature,
       latencyMs,
     })
+    ledgerEntryId = entry.id
   }
 
   const perRequestCost = safeCost(modelId, inputTokens, outputTokens)
@@ -109,15 +168,23 @@ async function recordPostRequestUsage(
     }
   }
 
-  // Record spending in circuit breaker
-  if (breaker && perRequestCost > 0) {
-    breaker.recordSpend(perRequestCost, modelId)
+  // Record spending in circuit breaker (tokens count even when the model is free)
+  const tokens = { input: inputTokens, output: outputTokens }
+  if (breaker && (perRequestCost > 0 || inputTokens + outputTokens > 0)) {
+    breaker.recordSpend(perRequestCost, modelId, tokens, meta?.breakerScope)
   }
 
   // Record spending in per-user budget manager
   if (userBudgetManager && meta?.userId) {
     await userBudgetManager
-      .recordSpend(meta.userId, perRequestCost, modelId, meta.userBudgetInflight)
+      .recordSpend(
+        meta.userId,
+        perRequestCost,
+        modelId,
+        meta.userBudgetInflight,
+        tokens,
+        ledgerEntryId,
+      )
       .catch((err) => {
         // IDB write failed — inflight already released synchronously
         safeEmit(instanceEvents, "storage:error", {
@@ -128,14 +195,344 @@ async function recordPostRequestUsage(
       })
   }
 
+  // Draw the request down from the manual override that let it through
+  if (meta?.controlOverride) {
+    await control
+      .consumeOverride(meta.controlOverride, perRequestCost, meta.controlOverrideReserved)
+      .catch((err) => {
+        safeEmit(instanceEvents, "storage:error", {
+          module: "control",
+          operation: "consumeOverride",
+          error: err,
+        })
+      })
+  }
+
   // Detect anomalies
   if (anomalyDetector) {
-    const anomaly = anomalyDetector.check(perRequestCost, inputTokens + outputTokens)
+    const anomaly = anomalyDetector.check(perRequestCost, inputTokens + outputTokens, {
+      userId: meta?.userId,
+      model: modelId,
+      feature: config.ledger?.feature,
+    })
     if (anomaly) {
       safeEmit(instanceEvents, "anomaly:detected", anomaly)
       config.anomaly?.onAnomalyDetected?.(anomaly)
+      if (anomalyActions && !config.dryRun) await applyAnomalyActions(ctx, anomaly, meta, modelId)
+    }
+  }
+}
+
+/**
+ * Start the anomaly actions whose rules match. Forced models and user
+ * pauses are read by transformParams; guard limits and breaker-scope
+ * pauses take effect here.
+ */
+async function applyAnomalyActions(
+  ctx: MiddlewareContext,
+  anomaly: AnomalyEvent,
+  meta: ShieldMeta | undefined,
+  modelId: string,
+): Promise<void> {
+  const { guard, anomalyActions, instanceEvents, control } = ctx
+  if (!anomalyActions) return
+  const applied = anomalyActions.apply(anomaly, {
+    userId: meta?.userId,
+    scope: meta?.breakerScope ?? modelId,
+  })
+  for (const action of applied) {
+    if (action.type === "tighten-guard") {
+      guard?.updateConfig({ maxRequestsPerMinute: anomalyActions.guardRateLimit() })
+    } else if (action.type === "trip-breaker") {
+      await control
+        .pause(`${anomaly.type} anomaly on ${anomaly.key}`, {
+          scope: action.scope,
+          until: action.expiresAt,
+        })
+        .catch((err) => {
+          safeEmit(instanceEvents, "storage:error", {
+            module: "control",
+            operation: "pause",
+            error: err,
+          })
+        })
+    }
+    safeEmit(instanceEvents, "anomaly:actionApplied", action)
+  }
+}
+
+/**
+ * Response metadata for a cache hit, surfaced as
+ * `providerMetadata.tokenshield` so a UI can send feedback on the answer.
+ */
+function cacheHitMetadata(hit: NonNullable<ShieldMeta["cacheHit"]>) {
+  return {
+    tokenshield: {
+      cacheHit: true,
+      cacheKey: hit.key ?? null,
+      requestId: hit.requestId ?? null,
+      matchType: hit.matchType ?? null,
+      similarity: hit.similarity ?? null,
+      stale: hit.stale ?? false,
+    },
+  }
+}
+
+/** Restore PII placeholders in a value's strings, descending into arrays and objects. */
+function unmaskValue(value: unknown, placeholders: Record<string, string>): unknown {
+  if (typeof value === "string") return unmaskPii(value, placeholders)
+  if (Array.isArray(value)) return value.map((v) => unmaskValue(v, placeholders))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, unmaskValue(v, placeholders)]),
+    )
+  }
+  return value
+}
+
+/** Restore PII placeholders in a tool call's arguments (v1 `args`, v2 `input`). */
+function unmaskToolCall<T extends Record<string, unknown>>(
+  call: T,
+  placeholders: Record<string, string>,
+): T {
+  const restored: Record<string, unknown> = { ...call }
+  if (call.args !== undefined) restored.args = unmaskValue(call.args, placeholders)
+  if (call.input !== undefined) restored.input = unmaskValue(call.input, placeholders)
+  return restored as T
+}
+
+/** Restore PII placeholders in a completed model call's text, content and tool-call args. */
+function unmaskGenerateResult(
+  result: Record<string, unknown>,
+  placeholders: Record<string, string>,
+): Record<string, unknown> {
+  const restored = { ...result }
+  if (typeof result.text === "string") restored.text = unmaskPii(result.text, placeholders)
+  if (Array.isArray(result.content)) {
+    restored.content = (result.content as CachedContentPart[]).map((part) => {
+      if (part.type === "tool-call") return unmaskToolCall(part, placeholders)
+      return typeof part.text === "string"
+        ? { ...part, text: unmaskPii(part.text, placeholders) }
+        : part
+    })
+  }
+  if (Array.isArray(result.toolCalls)) {
+    restored.toolCalls = (result.toolCalls as Array<Record<string, unknown>>).map((call) =>
+      unmaskToolCall(call, placeholders),
+    )
+  }
+  return restored
+}
+
+/**
+ * Restore PII placeholders in a model stream. Text deltas pass through an
+ * unmasker that holds back a possibly split placeholder; held-back text is
+ * released before the next non-text chunk and at the end of the stream.
+ * Tool-call argument deltas (v1 `tool-call-delta`, v2 `tool-input-delta`)
+ * get an unmasker per call, released before the call's `tool-call` or
+ * `tool-input-end` chunk; complete `tool-call` chunks are unmasked whole.
+ */
+function unmaskStream(
+  stream: ReadableStream,
+  placeholders: Record<string, string>,
+): ReadableStream {
+  const unmasker = createPiiUnmasker(placeholders)
+  const argUnmaskers = new Map<string, ReturnType<typeof createPiiUnmasker>>()
+  const release = (controller: TransformStreamDefaultController) => {
+    const rest = unmasker.flush()
+    if (rest) controller.enqueue({ type: "text-delta", textDelta: rest })
+  }
+  const releaseArgs = (
+    controller: TransformStreamDefaultController,
+    id: string,
+    chunk: Record<string, unknown>,
+  ) => {
+    const rest = argUnmaskers.get(id)?.flush()
+    argUnmaskers.delete(id)
+    if (!rest) return
+    controller.enqueue(
+      chunk.type === "tool-input-end"
+        ? { type: "tool-input-delta", id, delta: rest }
+        : {
+            type: "tool-call-delta",
+            toolCallType: chunk.toolCallType ?? "function",
+            toolCallId: id,
+            toolName: chunk.toolName,
+            argsTextDelta: rest,
+          },
+    )
+  }
+  return stream.pipeThrough(
+    new TransformStream({
+      transform(chunk, controller) {
+        const c = chunk as Record<string, unknown>
+        if (c?.type === "text-delta" && typeof c.textDelta === "string") {
+          const text = unmasker.push(c.textDelta)
+          if (text) controller.enqueue({ ...c, textDelta: text })
+          return
+        }
+        release(controller)
+        const argDelta =
+          c?.type === "tool-call-delta"
+            ? { id: c.toolCallId, key: "argsTextDelta" }
+            : c?.type === "tool-input-delta"
+              ? { id: c.id, key: "delta" }
+              : undefined
+        if (argDelta && typeof c[argDelta.key] === "string") {
+          const id = String(argDelta.id)
+          let argUnmasker = argUnmaskers.get(id)
+          if (!argUnmasker) {
+            argUnmasker = createPiiUnmasker(placeholders)
+            argUnmaskers.set(id, argUnmasker)
+          }
+          const text = argUnmasker.push(c[argDelta.key] as string)
+          if (text) controller.enqueue({ ...c, [argDelta.key]: text })
+          return
+        }
+        if (c?.type === "tool-call") {
+          releaseArgs(controller, String(c.toolCallId), c)
+          controller.enqueue(unmaskToolCall(c, placeholders))
+          return
+        }
+        if (c?.type === "tool-input-end") releaseArgs(controller, String(c.id), c)
+        controller.enqueue(chunk)
+      },
+      flush(controller) {
+        release(controller)
+        for (const id of [...argUnmaskers.keys()]) releaseArgs(controller, id, {})
+      },
+    }),
+  )
+}
+
+/** A v1 result's text and `toolCalls` as content parts; undefined without tool calls. */
+function contentOfToolCalls(result: Record<string, unknown>): CachedContentPart[] | undefined {
+  if (!Array.isArray(result.toolCalls) || result.toolCalls.length === 0) return undefined
+  const text = typeof result.text === "string" && result.text ? result.text : undefined
+  return [
+    ...(text ? [{ type: "text", text }] : []),
+    ...(result.toolCalls as Array<Record<string, unknown>>).map((call) => ({
+      ...call,
+      type: "tool-call",
+    })),
+  ]
+}
+
+/** The tool-call parts of cached content in the v1 `toolCalls` shape. */
+function toolCallsOf(content: CachedContentPart[]): Array<Record<string, unknown>> {
+  return content
+    .filter((part) => part.type === "tool-call")
+    .map(({ type: _type, ...call }) => ({ toolCallType: "function", ...call }))
+}
+
+/** Usage, text and content (v2 `content`, or v1 `toolCalls`) of a completed model call. */
+function readGenerateResult(result: Record<string, unknown>) {
+  const usage = result.usage as { promptTokens?: number; completionTokens?: number } | undefined
+  const content = Array.isArray(result.content)
+    ? (result.content as CachedContentPart[])
+    : contentOfToolCalls(result)
+  return {
+    inputTokens: usage?.promptTokens ?? 0,
+    outputTokens: usage?.completionTokens ?? 0,
+    content,
+    responseText: String(result.text ?? (content ? textOfContent(content) : "")),
+    finishReason: typeof result.finishReason === "string" ? result.finishReason : undefined,
+  }
+}
+
+/** Store a completed model call in the cache; null when there is nothing to store. */
+function storeGenerateResult(
+  ctx: MiddlewareContext,
+  params: Record<string, unknown>,
+  meta: ShieldMeta | undefined,
+  modelId: string,
+  read: ReturnType<typeof readGenerateResult>,
+): Promise<void> | null {
+  const { cache } = ctx
+  const { responseText, content } = read
+  if (!cache || !(responseText || content?.length) || meta?.cacheSkipped) return null
+  const cachedUserText = meta?.lastUserText ?? extractLastUserText(params)
+  if (!cachedUserText) return null
+  return cache.store(cachedUserText, responseText, modelId, read.inputTokens, read.outputTokens, {
+    contextKey: meta?.cacheContextKey,
+    tags: meta?.cacheTags,
+    finishReason: read.finishReason,
+    content,
+    embedding: meta?.cacheEmbedding,
+  })
+}
+
+/** Run a streaming call to completion and shape it like a doGenerate result. */
+async function generateFromStream(
+  doStream: () => Promise<Record<string, unknown>>,
+): Promise<Record<string, unknown>> {
+  const result = await doStream()
+  const collector = new StreamContentCollector()
+  let finishReason: unknown
+  let usage: unknown
+  const reader = (result.stream as ReadableStream).getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    const chunk = value as Record<string, unknown>
+    collector.add(chunk)
+    if (chunk.type === "finish") {
+      finishReason = chunk.finishReason
+      usage = chunk.usage
     }
   }
+  return {
+    text: textOfContent(collector.parts),
+    ...(collector.hasNonText() ? { content: collector.parts } : {}),
+    usage: usage ?? (await result.usage),
+    finishReason: finishReason ?? (await result.finishReason),
+  }
+}
+
+/**
+ * Refresh a stale cache hit in the background: re-run the model call,
+ * overwrite the entry with the fresh response and record the call's real
+ * cost. Concurrent stale hits on the same entry share one refresh; on
+ * failure the stale entry stays until its window closes.
+ */
+function revalidateInBackground(
+  ctx: MiddlewareContext,
+  params: Record<string, unknown>,
+  meta: ShieldMeta,
+  call: () => Promise<Record<string, unknown>>,
+): void {
+  const { cache, log } = ctx
+  const key = meta.cacheHit?.key
+  if (!cache || !meta.cacheHit?.stale || !key) return
+  const modelId = String(params.modelId ?? "")
+  // The cache hit already released the user's in-flight reservation
+  const refreshMeta: ShieldMeta = {
+    ...meta,
+    cacheHit: undefined,
+    userBudgetInflight: undefined,
+    controlOverrideReserved: undefined,
+  }
+
+  const refresh = cache.revalidate(key, async () => {
+    const startTime = Date.now()
+    const read = readGenerateResult(await call())
+    const latencyMs = Date.now() - startTime
+    await storeGenerateResult(ctx, params, refreshMeta, modelId, read)
+    await recordPostRequestUsage(ctx, {
+      modelId,
+      inputTokens: read.inputTokens,
+      outputTokens: read.outputTokens,
+      latencyMs,
+      meta: refreshMeta,
+      params,
+    })
+    log?.debug("cache", "Revalidated stale entry", { model: modelId })
+  })
+  refresh?.catch((err) => {
+    log?.warn("cache", "Background revalidation failed — keeping stale entry", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
 }
 
 /**
@@ -144,7 +541,7 @@ async function recordPostRequestUsage(
  * and records usage in the ledger.
  */
 export function buildWrapGenerate(ctx: MiddlewareContext) {
-  const { config, cache, ledger, userBudgetManager, adapter, log } = ctx
+  const { config, ledger, userBudgetManager, loopDetector, adapter, control, log } = ctx
 
   return async ({
     doGenerate,
@@ -163,6 +560,9 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
       if (userBudgetManager && meta.userId && meta.userBudgetInflight) {
         userBudgetManager.releaseInflight(meta.userId, meta.userBudgetInflight)
       }
+      if (meta.controlOverride) {
+        control.releaseOverride(meta.controlOverride, meta.controlOverrideReserved ?? 0)
+      }
 
       if (ledger) {
         await ledger.recordCacheHit({
@@ -170,6 +570,7 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
           savedInputTokens: meta.cacheHit.inputTokens,
           savedOutputTokens: meta.cacheHit.outputTokens,
           feature: config.ledger?.feature,
+          stale: meta.cacheHit.stale,
         })
       }
 
@@ -187,10 +588,21 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
         saved: cacheHitSavedDollars,
       })
 
+      revalidateInBackground(ctx, params, meta, doGenerate)
+
+      // Replayed in both shapes: v2 reads `content`, v1 reads `toolCalls`
+      const cachedContent = meta.cacheHit.content
+      const toolCalls = cachedContent ? toolCallsOf(cachedContent) : []
       return {
+        ...(cachedContent ? { content: cachedContent } : {}),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
         text: meta.cacheHit.response,
-        usage: { promptTokens: 0, completionTokens: 0 },
-        finishReason: "stop",
+        usage: {
+          promptTokens: meta.cacheHit.inputTokens,
+          completionTokens: meta.cacheHit.outputTokens,
+        },
+        finishReason: meta.cacheHit.finishReason ?? "stop",
+        providerMetadata: cacheHitMetadata(meta.cacheHit),
       }
     }
 
@@ -205,6 +617,10 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
       if (userBudgetManager && meta?.userId && meta.userBudgetInflight) {
         userBudgetManager.releaseInflight(meta.userId, meta.userBudgetInflight)
       }
+      if (meta?.controlOverride) {
+        control.releaseOverride(meta.controlOverride, meta.controlOverrideReserved ?? 0)
+      }
+      if (loopDetector && meta?.loopSession) loopDetector.recordOutcome(meta.loopSession, false)
       // Record failure in provider adapter
       if (adapter) {
         const provider = adapter.getProviderForModel(modelId)
@@ -219,6 +635,8 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
       throw err
     }
     const latencyMs = Date.now() - startTime
+    if (loopDetector && meta?.loopSession) loopDetector.recordOutcome(meta.loopSession, true)
+    if (meta?.piiPlaceholders) result = unmaskGenerateResult(result, meta.piiPlaceholders)
 
     // Record success in provider adapter
     if (adapter) {
@@ -233,24 +651,15 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
     }
 
     // Extract usage from result
-    const usage = result.usage as { promptTokens?: number; completionTokens?: number } | undefined
-    const inputTokens = usage?.promptTokens ?? 0
-    const outputTokens = usage?.completionTokens ?? 0
-    const responseText = String(result.text ?? "")
+    const read = readGenerateResult(result)
+    const { inputTokens, outputTokens } = read
 
     // Store in cache for future requests (fire-and-forget)
-    if (cache && responseText) {
-      const cachedUserText = meta?.lastUserText ?? extractLastUserText(params)
-      if (cachedUserText) {
-        cache
-          .store(cachedUserText, responseText, modelId, inputTokens, outputTokens)
-          .catch((err) => {
-            log?.debug("cache", "Failed to store response", {
-              error: err instanceof Error ? err.message : String(err),
-            })
-          })
-      }
-    }
+    storeGenerateResult(ctx, params, meta, modelId, read)?.catch((err) => {
+      log?.debug("cache", "Failed to store response", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
 
     // Record usage, savings, and emit events
     await recordPostRequestUsage(ctx, {
@@ -272,13 +681,26 @@ export function buildWrapGenerate(ctx: MiddlewareContext) {
  * pipes chunks through a StreamTokenTracker, and records usage when done.
  */
 export function buildWrapStream(ctx: MiddlewareContext) {
-  const { config, cache, ledger, userBudgetManager, instanceEvents, adapter, log } = ctx
+  const {
+    config,
+    cache,
+    ledger,
+    userBudgetManager,
+    loopDetector,
+    instanceEvents,
+    adapter,
+    control,
+    log,
+  } = ctx
 
   return async ({
     doStream,
+    doGenerate,
     params,
   }: {
     doStream: () => Promise<Record<string, unknown>>
+    /** Passed by the AI SDK; preferred over draining doStream for revalidation */
+    doGenerate?: () => Promise<Record<string, unknown>>
     params: Record<string, unknown>
   }) => {
     const meta = getShieldMeta(params)
@@ -290,6 +712,9 @@ export function buildWrapStream(ctx: MiddlewareContext) {
       if (userBudgetManager && meta.userId && meta.userBudgetInflight) {
         userBudgetManager.releaseInflight(meta.userId, meta.userBudgetInflight)
       }
+      if (meta.controlOverride) {
+        control.releaseOverride(meta.controlOverride, meta.controlOverrideReserved ?? 0)
+      }
 
       if (ledger) {
         await ledger.recordCacheHit({
@@ -297,6 +722,7 @@ export function buildWrapStream(ctx: MiddlewareContext) {
           savedInputTokens: meta.cacheHit.inputTokens,
           savedOutputTokens: meta.cacheHit.outputTokens,
           feature: config.ledger?.feature,
+          stale: meta.cacheHit.stale,
         })
       }
 
@@ -314,18 +740,23 @@ export function buildWrapStream(ctx: MiddlewareContext) {
         saved: streamCacheHitSavedDollars,
       })
 
-      const cachedText = meta.cacheHit.response
-      const simulatedStream = new ReadableStream({
-        start(controller) {
-          controller.enqueue({ type: "text-delta", textDelta: cachedText })
-          controller.close()
-        },
+      revalidateInBackground(ctx, params, meta, doGenerate ?? (() => generateFromStream(doStream)))
+
+      const simulatedStream = createReplayStream(meta.cacheHit.response, {
+        replay: config.cache?.replay,
+        timings: meta.cacheHit.chunkTimings,
+        content: meta.cacheHit.content,
+        abortSignal: params.abortSignal as AbortSignal | undefined,
       })
 
       return {
         stream: simulatedStream,
-        usage: Promise.resolve({ promptTokens: 0, completionTokens: 0 }),
-        finishReason: Promise.resolve("stop"),
+        usage: Promise.resolve({
+          promptTokens: meta.cacheHit.inputTokens,
+          completionTokens: meta.cacheHit.outputTokens,
+        }),
+        finishReason: Promise.resolve(meta.cacheHit.finishReason ?? "stop"),
+        providerMetadata: cacheHitMetadata(meta.cacheHit),
       }
     }
 
@@ -339,6 +770,10 @@ export function buildWrapStream(ctx: MiddlewareContext) {
       if (userBudgetManager && meta?.userId && meta.userBudgetInflight) {
         userBudgetManager.releaseInflight(meta.userId, meta.userBudgetInflight)
       }
+      if (meta?.controlOverride) {
+        control.releaseOverride(meta.controlOverride, meta.controlOverrideReserved ?? 0)
+      }
+      if (loopDetector && meta?.loopSession) loopDetector.recordOutcome(meta.loopSession, false)
       if (adapter) {
         const provider = adapter.getProviderForModel(modelId)
         if (provider) {
@@ -352,6 +787,7 @@ export function buildWrapStream(ctx: MiddlewareContext) {
       throw err
     }
     const streamLatencyMs = Date.now() - startTime
+    if (loopDetector && meta?.loopSession) loopDetector.recordOutcome(meta.loopSession, true)
 
     if (adapter) {
       const provider = adapter.getProviderForModel(modelId)
@@ -389,19 +825,35 @@ export function buildWrapStream(ctx: MiddlewareContext) {
       tracker.setInputTokens(meta.originalInputTokens)
     }
 
-    const originalStream = result.stream as ReadableStream
+    const originalStream = meta?.piiPlaceholders
+      ? unmaskStream(result.stream as ReadableStream, meta.piiPlaceholders)
+      : (result.stream as ReadableStream)
+
+    // Record chunk cadence so cache hits can replay it ("recorded" replay mode)
+    const chunkTimings: ChunkTiming[] = []
+    let firstChunkAt: number | null = null
+    let streamFinishReason: string | undefined
+    const streamContent = new StreamContentCollector()
 
     // Helper to record usage in ledger and breaker after streaming ends
     const recordStreamUsage = (usage: { inputTokens: number; outputTokens: number }) => {
       const latencyMs = Date.now() - startTime
 
       // Store in cache (fire-and-forget)
-      if (cache) {
+      if (cache && !meta?.cacheSkipped) {
         const cachedUserText = meta?.lastUserText ?? extractLastUserText(params)
         const responseText = tracker.getText()
-        if (cachedUserText && responseText) {
+        const hasNonText = streamContent.hasNonText()
+        if (cachedUserText && (responseText || hasNonText)) {
           cache
-            .store(cachedUserText, responseText, modelId, usage.inputTokens, usage.outputTokens)
+            .store(cachedUserText, responseText, modelId, usage.inputTokens, usage.outputTokens, {
+              contextKey: meta?.cacheContextKey,
+              tags: meta?.cacheTags,
+              finishReason: streamFinishReason,
+              chunkTimings: chunkTimings.length <= MAX_RECORDED_CHUNKS ? chunkTimings : undefined,
+              content: hasNonText ? streamContent.parts : undefined,
+              embedding: meta?.cacheEmbedding,
+            })
             .catch((err) => {
               log?.debug("cache", "Failed to store streamed response", {
                 error: err instanceof Error ? err.message : String(err),
@@ -462,14 +914,22 @@ export function buildWrapStream(ctx: MiddlewareContext) {
           }
 
           const c = value as Record<string, unknown>
+          if (c) streamContent.add(c)
           if (c && c.type === "text-delta" && typeof c.textDelta === "string") {
             tracker.addChunk(c.textDelta)
+            const now = Date.now()
+            if (firstChunkAt === null) firstChunkAt = now
+            if (chunkTimings.length <= MAX_RECORDED_CHUNKS) {
+              chunkTimings.push({ atMs: now - firstChunkAt, length: c.textDelta.length })
+            }
 
             const chunkUsage = tracker.getUsage()
             safeEmit(instanceEvents, "stream:chunk", {
               outputTokens: chunkUsage.outputTokens,
               estimatedCost: chunkUsage.estimatedCost,
             })
+          } else if (c && c.type === "finish" && typeof c.finishReason === "string") {
+            streamFinishReason = c.finishReason
           }
 
           try {
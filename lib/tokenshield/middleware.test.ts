@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from "vitest"
 import { tokenShieldMiddleware, TokenShieldBlockedError, getLedger } from "./middleware"
+import { createMemoryBackend } from "./storage-adapter"
+import type { Embedder } from "./embedding-index"
 
 /**
  * Integration tests for the TokenShield AI SDK middleware.
@@ -140,6 +142,157 @@ describe("tokenShieldMiddleware", () => {
       )
       expect(onBlocked).toHaveBeenCalled()
     })
+
+    it("blocks with BREAKER_TOKEN_LIMIT once a token quota is used up", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: false,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        breaker: {
+          limits: {},
+          tokenLimits: { perHour: { total: 70 } },
+          action: "stop",
+          persist: false,
+        },
+        context: { reserveForOutput: 10 },
+      })
+
+      // The first response meters 50 input + 20 output tokens, using up the quota
+      const transformed = await mw.transformParams({ params: makeParams("First request") })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate(),
+        params: transformed as Record<string, unknown>,
+      })
+
+      const blocked = await mw
+        .transformParams({ params: makeParams("Second request") })
+        .catch((err: unknown) => err)
+      expect(blocked).toBeInstanceOf(TokenShieldBlockedError)
+      expect((blocked as TokenShieldBlockedError).code).toBe("BREAKER_TOKEN_LIMIT")
+    })
+
+    it("rewrites the model to the fallback with the downgrade action", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: false,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        breaker: {
+          limits: { perSession: 0 },
+          action: "downgrade",
+          downgradeTo: { session: "gpt-4o-mini" },
+          persist: false,
+        },
+      })
+      const downgraded = vi.fn()
+      const tripped = vi.fn()
+      mw.events.on("router:downgraded", downgraded)
+      mw.events.on("breaker:tripped", tripped)
+
+      const transformed = await mw.transformParams({ params: makeParams("Hello there", "gpt-4o") })
+      expect((transformed as { modelId: string }).modelId).toBe("gpt-4o-mini")
+      expect(downgraded).toHaveBeenCalledWith(
+        expect.objectContaining({ originalModel: "gpt-4o", selectedModel: "gpt-4o-mini" }),
+      )
+      expect(tripped).toHaveBeenCalledWith(expect.objectContaining({ action: "downgrade" }))
+    })
+
+    it("checks the feature's scope and reports scopes in healthCheck", async () => {
+      const makeShield = (feature: string) =>
+        tokenShieldMiddleware({
+          modules: {
+            guard: false,
+            cache: false,
+            context: false,
+            router: false,
+            prefix: false,
+            ledger: true,
+          },
+          ledger: { feature },
+          breaker: {
+            limits: { perSession: 100 },
+            action: "stop",
+            scopeBy: "feature",
+            scopes: { summarize: { limits: { perSession: 0 } } },
+            persist: false,
+          },
+        })
+
+      const summarize = makeShield("summarize")
+      const blocked = await summarize
+        .transformParams({ params: makeParams("Summarize this") })
+        .catch((err: unknown) => err)
+      expect(blocked).toBeInstanceOf(TokenShieldBlockedError)
+      expect((blocked as Error).message).toContain("Circuit breaker (summarize)")
+
+      const health = summarize.healthCheck()
+      expect(health.healthy).toBe(true)
+      expect(health.breakerScopes).toEqual({ summarize: { tripped: true, state: "open" } })
+
+      const chat = makeShield("chat")
+      await expect(
+        chat.transformParams({ params: makeParams("Hello there") }),
+      ).resolves.toBeDefined()
+    })
+
+    it("emits breaker:halfOpen for probes and breaker:recovered when limits clear", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      const t0 = new Date("2025-01-15T10:00:00Z").getTime()
+      vi.setSystemTime(t0)
+      try {
+        const mw = tokenShieldMiddleware({
+          modules: {
+            guard: false,
+            cache: false,
+            context: false,
+            router: false,
+            prefix: false,
+            ledger: false,
+          },
+          breaker: {
+            limits: {},
+            tokenLimits: { perHour: { total: 70 } },
+            action: "stop",
+            halfOpen: { cooldownMs: 60_000 },
+            persist: false,
+          },
+          context: { reserveForOutput: 10 },
+        })
+        const halfOpen = vi.fn()
+        const recovered = vi.fn()
+        mw.events.on("breaker:halfOpen", halfOpen)
+        mw.events.on("breaker:recovered", recovered)
+
+        // The first response uses up the hourly token quota
+        const transformed = await mw.transformParams({ params: makeParams("First request") })
+        await mw.wrapGenerate({
+          doGenerate: mockDoGenerate(),
+          params: transformed as Record<string, unknown>,
+        })
+        await expect(mw.transformParams({ params: makeParams("Blocked") })).rejects.toThrow(
+          TokenShieldBlockedError,
+        )
+
+        vi.setSystemTime(t0 + 60_000)
+        await mw.transformParams({ params: makeParams("Probe request") })
+        expect(halfOpen).toHaveBeenCalledWith({ limitType: "hour", probes: 1 })
+
+        vi.setSystemTime(t0 + 61 * 60_000)
+        await mw.transformParams({ params: makeParams("After the window rolls") })
+        expect(recovered).toHaveBeenCalledWith({ downtimeMs: 61 * 60_000 })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
   })
 
   describe("request guard", () => {
@@ -200,6 +353,482 @@ describe("tokenShieldMiddleware", () => {
       expect(doGenerate2).not.toHaveBeenCalled()
       expect(r2.text).toBe("TypeScript is a typed superset of JS.")
     })
+
+    it("shares cached responses across instances through a storage backend", async () => {
+      const storage = createMemoryBackend()
+      const modules = {
+        guard: false,
+        cache: true,
+        context: false,
+        router: false,
+        prefix: false,
+        ledger: true,
+      }
+      const mw1 = tokenShieldMiddleware({ modules, storage })
+      const t1 = await mw1.transformParams({ params: makeParams("What is TypeScript?") })
+      await mw1.wrapGenerate({
+        doGenerate: mockDoGenerate("TypeScript is a typed superset of JS."),
+        params: t1 as Record<string, unknown>,
+      })
+
+      const keys = await storage.keys()
+      expect(keys.some((k) => k.startsWith("cache:"))).toBe(true)
+      expect(keys.some((k) => k.startsWith("ledger:"))).toBe(true)
+
+      // A second instance (e.g. another server process) hits the shared cache
+      const mw2 = tokenShieldMiddleware({ modules, storage })
+      const doGenerate2 = mockDoGenerate("Should not see this.")
+      const t2 = await mw2.transformParams({ params: makeParams("What is TypeScript?") })
+      const r2 = await mw2.wrapGenerate({
+        doGenerate: doGenerate2,
+        params: t2 as Record<string, unknown>,
+      })
+      expect(doGenerate2).not.toHaveBeenCalled()
+      expect(r2.text).toBe("TypeScript is a typed superset of JS.")
+    })
+
+    it("tags cached responses and emits cache:invalidated when they are purged", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        cache: { tagResolver: () => ["catalog"] },
+      })
+      const invalidated = vi.fn()
+      mw.events.on("cache:invalidated", invalidated)
+      const storeSpy = vi.spyOn(mw.cache!, "store")
+
+      const params = {
+        ...makeParams("How much is the blue widget?"),
+        providerOptions: { tokenshield: { cacheTags: ["product:blue-widget"] } },
+      }
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("It costs $10."),
+        params: (await mw.transformParams({ params })) as Record<string, unknown>,
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      expect(storeSpy.mock.calls[0][5]).toMatchObject({
+        tags: ["product:blue-widget", "catalog"],
+      })
+      expect(await mw.cache!.invalidateByTag("product:blue-widget")).toBe(1)
+      expect(invalidated).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "tag", removed: 1 }),
+      )
+
+      const doGenerate = mockDoGenerate("It now costs $12.")
+      const result = await mw.wrapGenerate({
+        doGenerate,
+        params: (await mw.transformParams({ params })) as Record<string, unknown>,
+      })
+      expect(doGenerate).toHaveBeenCalled()
+      expect(result.text).toBe("It now costs $12.")
+      mw.dispose()
+    })
+
+    it("records paid embedding calls in the ledger", async () => {
+      const embedder: Embedder = {
+        id: "test-embedder",
+        model: "text-embedding-3-small",
+        costPerMillionTokens: 0.02,
+        embed: () => new Float32Array([1, 0, 0]),
+      }
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: true,
+        },
+        cache: { embedder },
+      })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("Go to Billing."),
+        params: (await mw.transformParams({
+          params: makeParams("How do I cancel my plan?"),
+        })) as Record<string, unknown>,
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const summary = getLedger(mw)!.getSummary()
+      expect(summary.embeddingCalls).toBe(1)
+      expect(summary.embeddingCost).toBeGreaterThan(0)
+      expect(summary.totalCalls).toBe(1)
+      mw.dispose()
+    })
+
+    it("embeds a missed prompt once for lookup and store", async () => {
+      const embed = vi.fn((text: string) => new Float32Array(/cancel/.test(text) ? [1, 0] : [0, 1]))
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: true,
+        },
+        cache: { embedder: { id: "test-embedder", costPerMillionTokens: 0.02, embed } },
+      })
+      for (const prompt of ["How do I cancel my plan?", "What are your opening hours?"]) {
+        await mw.wrapGenerate({
+          doGenerate: mockDoGenerate("Answer."),
+          params: (await mw.transformParams({ params: makeParams(prompt) })) as Record<
+            string,
+            unknown
+          >,
+        })
+        await new Promise((r) => setTimeout(r, 10))
+      }
+
+      // First prompt: store only (empty index). Second: one lookup, reused by store.
+      expect(embed).toHaveBeenCalledTimes(2)
+      expect(getLedger(mw)!.getSummary().embeddingCalls).toBe(2)
+      mw.dispose()
+    })
+  })
+
+  describe("encryption at rest", () => {
+    it("encrypts cache and ledger records written to the shared storage backend", async () => {
+      const storage = createMemoryBackend()
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ])
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: true,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: true,
+        },
+        storage,
+        encryption: { mode: "key", key },
+      })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("Your order ships Tuesday."),
+        params: (await mw.transformParams({
+          params: makeParams("When does order 1234 ship?"),
+        })) as Record<string, unknown>,
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      const keys = await storage.keys()
+      expect(keys.some((k) => k.startsWith("cache:"))).toBe(true)
+      expect(keys.some((k) => k.startsWith("ledger:"))).toBe(true)
+      for (const k of keys) {
+        const raw = JSON.stringify(await storage.get(k))
+        expect(raw).toContain("tokenshield-encrypted-v1")
+        expect(raw).not.toContain("Tuesday")
+      }
+      mw.dispose()
+    })
+  })
+
+  describe("PII protection", () => {
+    const cacheOnly = {
+      guard: false,
+      cache: true,
+      context: false,
+      router: false,
+      prefix: false,
+      ledger: false,
+    }
+
+    /** Text of the last user message in transformed params */
+    function sentUserText(params: unknown): string {
+      const prompt = (params as { prompt: Array<{ role: string; content: { text: string }[] }> })
+        .prompt
+      return prompt.filter((m) => m.role === "user").pop()!.content[0].text
+    }
+
+    it("skips the cache and redacts logged prompts by default", async () => {
+      const storage = createMemoryBackend()
+      const mw = tokenShieldMiddleware({ modules: cacheOnly, storage, pii: {} })
+      const detected = vi.fn()
+      const misses = vi.fn()
+      mw.events.on("pii:detected", detected)
+      mw.events.on("cache:miss", misses)
+
+      const params = makeParams("My email is jane@example.com")
+      const transformed = await mw.transformParams({ params })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("Noted."),
+        params: transformed as Record<string, unknown>,
+      })
+      await new Promise((r) => setTimeout(r, 10))
+
+      expect(detected).toHaveBeenCalledWith({
+        types: ["email"],
+        count: 1,
+        policies: ["skip-cache", "redact-before-log"],
+      })
+      expect(misses).not.toHaveBeenCalled()
+      expect(sentUserText(transformed)).toBe("My email is jane@example.com")
+      expect((await storage.keys()).some((k) => k.startsWith("cache:"))).toBe(false)
+      mw.dispose()
+    })
+
+    it("redacts prompts in events when caching is still allowed", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: cacheOnly,
+        pii: { policy: "redact-before-log" },
+      })
+      const misses = vi.fn()
+      mw.events.on("cache:miss", misses)
+      await mw.transformParams({ params: makeParams("Call me on +1 415-555-0132") })
+      expect(misses).toHaveBeenCalledWith({ prompt: "Call me on [PHONE]" })
+      mw.dispose()
+    })
+
+    it("blocks requests when the policy says so", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: cacheOnly,
+        pii: { policyByType: { "credit-card": "block" } },
+      })
+      const err = await mw
+        .transformParams({ params: makeParams("Charge 4111 1111 1111 1111") })
+        .catch((e) => e)
+      expect(err).toBeInstanceOf(TokenShieldBlockedError)
+      expect(err.code).toBe("PII_BLOCKED")
+      mw.dispose()
+    })
+
+    it("masks values before sending and restores them in generated text", async () => {
+      const storage = createMemoryBackend()
+      const mw = tokenShieldMiddleware({
+        modules: cacheOnly,
+        storage,
+        pii: { policy: "mask-before-send" },
+      })
+      const transformed = await mw.transformParams({
+        params: makeParams("Draft a reply to jane@example.com"),
+      })
+      expect(sentUserText(transformed)).toBe("Draft a reply to [EMAIL_1]")
+
+      const result = await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("Sent to [EMAIL_1]."),
+        params: transformed as Record<string, unknown>,
+      })
+      expect(result.text).toBe("Sent to jane@example.com.")
+      await new Promise((r) => setTimeout(r, 10))
+      // Neither the raw prompt nor the unmasked response is persisted
+      expect((await storage.keys()).some((k) => k.startsWith("cache:"))).toBe(false)
+      mw.dispose()
+    })
+
+    it("restores placeholders split across stream chunks", async () => {
+      const mw = tokenShieldMiddleware({ modules: cacheOnly, pii: { policy: "mask-before-send" } })
+      const transformed = await mw.transformParams({
+        params: makeParams("Draft a reply to jane@example.com"),
+      })
+      const chunks = [
+        { type: "text-delta", textDelta: "Sent to [EMA" },
+        { type: "text-delta", textDelta: "IL_1" },
+        { type: "text-delta", textDelta: "]." },
+        { type: "finish", finishReason: "stop", usage: { promptTokens: 10, completionTokens: 5 } },
+      ]
+      const doStream = vi.fn(async () => ({
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk)
+            controller.close()
+          },
+        }),
+      }))
+      const result = await mw.wrapStream({
+        doStream,
+        params: transformed as Record<string, unknown>,
+      })
+
+      let text = ""
+      const reader = (result.stream as ReadableStream).getReader()
+      for (let r = await reader.read(); !r.done; r = await reader.read()) {
+        if (r.value.type === "text-delta") text += r.value.textDelta
+      }
+      expect(text).toBe("Sent to jane@example.com.")
+      mw.dispose()
+    })
+
+    it("restores placeholders in generated tool-call content", async () => {
+      const mw = tokenShieldMiddleware({ modules: cacheOnly, pii: { policy: "mask-before-send" } })
+      const transformed = await mw.transformParams({
+        params: makeParams("Email jane@example.com the report"),
+      })
+      const result = await mw.wrapGenerate({
+        doGenerate: vi.fn(async () => ({
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "c1",
+              toolName: "send_email",
+              input: '{"to":"[EMAIL_1]"}',
+            },
+          ],
+          usage: { promptTokens: 10, completionTokens: 5 },
+          finishReason: "tool-calls",
+        })),
+        params: transformed as Record<string, unknown>,
+      })
+      expect((result.content as Array<{ input: string }>)[0].input).toBe(
+        '{"to":"jane@example.com"}',
+      )
+      mw.dispose()
+    })
+
+    it("restores placeholders in streamed tool-call arguments", async () => {
+      const mw = tokenShieldMiddleware({ modules: cacheOnly, pii: { policy: "mask-before-send" } })
+      const transformed = await mw.transformParams({
+        params: makeParams("Email jane@example.com the report"),
+      })
+      const call = { toolCallType: "function", toolCallId: "c1", toolName: "send_email" }
+      const chunks = [
+        { type: "tool-call-delta", ...call, argsTextDelta: '{"to":"[EMA' },
+        { type: "tool-call-delta", ...call, argsTextDelta: 'IL_1]"}' },
+        { type: "tool-call", ...call, args: '{"to":"[EMAIL_1]"}' },
+        {
+          type: "finish",
+          finishReason: "tool-calls",
+          usage: { promptTokens: 10, completionTokens: 5 },
+        },
+      ]
+      const doStream = vi.fn(async () => ({
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk)
+            controller.close()
+          },
+        }),
+      }))
+      const result = await mw.wrapStream({
+        doStream,
+        params: transformed as Record<string, unknown>,
+      })
+
+      let argsText = ""
+      let args: unknown
+      const reader = (result.stream as ReadableStream).getReader()
+      for (let r = await reader.read(); !r.done; r = await reader.read()) {
+        if (r.value.type === "tool-call-delta") argsText += r.value.argsTextDelta
+        if (r.value.type === "tool-call") args = r.value.args
+      }
+      expect(argsText).toBe('{"to":"jane@example.com"}')
+      expect(args).toBe('{"to":"jane@example.com"}')
+      mw.dispose()
+    })
+  })
+
+  describe("loop detection", () => {
+    const noModules = {
+      guard: false,
+      cache: false,
+      context: false,
+      router: false,
+      prefix: false,
+      ledger: false,
+    }
+
+    /** Agent step: the same user task followed by `steps` search → read tool rounds */
+    function agentStep(steps: number) {
+      const prompt: Array<{ role: string; content: Array<Record<string, unknown>> }> = [
+        { role: "system", content: [{ type: "text", text: "You are a research agent." }] },
+        { role: "user", content: [{ type: "text", text: "Find the release date" }] },
+      ]
+      for (let i = 0; i < steps; i++) {
+        for (const toolName of ["search", "read"]) {
+          prompt.push({
+            role: "assistant",
+            content: [{ type: "tool-call", toolCallId: `c${i}`, toolName, input: { q: "date" } }],
+          })
+          prompt.push({
+            role: "tool",
+            content: [{ type: "tool-result", toolCallId: `c${i}`, toolName, output: "nothing" }],
+          })
+        }
+      }
+      return { modelId: "gpt-4o-mini", prompt }
+    }
+
+    it("injects a stop hint when an agent repeats the same tool calls", async () => {
+      const mw = tokenShieldMiddleware({ modules: noModules, loop: { action: "stop-hint" } })
+      const detected = vi.fn()
+      const hinted = vi.fn()
+      mw.events.on("loop:detected", detected)
+      mw.events.on("loop:hintInjected", hinted)
+
+      await mw.transformParams({ params: agentStep(2) })
+      expect(detected).not.toHaveBeenCalled()
+
+      const transformed = (await mw.transformParams({ params: agentStep(3) })) as {
+        prompt: Array<{ role: string; content: Array<{ text: string }> }>
+      }
+      expect(detected).toHaveBeenCalledWith(
+        expect.objectContaining({ signals: ["tool-cycle"], action: "stop-hint" }),
+      )
+      expect(hinted).toHaveBeenCalledTimes(1)
+      const systemIndexes = transformed.prompt.flatMap((m, i) => (m.role === "system" ? [i] : []))
+      expect(systemIndexes).toEqual([0])
+      expect(transformed.prompt[0].content[0].text).toBe(
+        `You are a research agent.\n\n${mw.loopDetector!.stopHint}`,
+      )
+      mw.dispose()
+    })
+
+    it("blocks retry chains with a loop error code", async () => {
+      const onLoopDetected = vi.fn()
+      const mw = tokenShieldMiddleware({
+        modules: noModules,
+        loop: { maxRetries: 2, maxSimilarPrompts: 10, action: "block", onLoopDetected },
+      })
+      const params = {
+        ...makeParams("Generate the report"),
+        providerOptions: { tokenshield: { sessionId: "job-42" } },
+      }
+      const failing = vi.fn(async () => {
+        throw new Error("upstream 500")
+      })
+      for (let i = 0; i < 2; i++) {
+        const transformed = await mw.transformParams({ params })
+        await expect(
+          mw.wrapGenerate({ doGenerate: failing, params: transformed as Record<string, unknown> }),
+        ).rejects.toThrow("upstream 500")
+      }
+
+      const err = await mw.transformParams({ params }).catch((e) => e)
+      expect(err).toBeInstanceOf(TokenShieldBlockedError)
+      expect(err.code).toBe("LOOP_RETRY_CHAIN")
+      expect(err.details).toMatchObject({ sessionId: "job-42", signals: ["retry-chain"] })
+      expect(onLoopDetected).toHaveBeenCalledTimes(1)
+      mw.dispose()
+    })
+
+    it("keeps users who ask the same question out of each other's session", async () => {
+      let userId = ""
+      const mw = tokenShieldMiddleware({
+        modules: noModules,
+        loop: { action: "block" },
+        userBudget: {
+          getUserId: () => userId,
+          budgets: { defaultBudget: { daily: 100, monthly: 1000 } },
+        },
+      })
+      for (const user of ["ana", "ben", "cho", "dev"]) {
+        userId = user
+        await expect(
+          mw.transformParams({ params: makeParams("How do I reset my password?") }),
+        ).resolves.toBeDefined()
+      }
+      mw.dispose()
+    })
   })
 
   describe("context trimming", () => {
@@ -350,6 +979,74 @@ describe("tokenShieldMiddleware", () => {
       )
     })
 
+    it("reports the blocking hierarchy level in the error details", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: false,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        userBudget: {
+          getUserId: () => "user-2",
+          budgets: {
+            defaultBudget: { daily: 100, monthly: 1000 },
+            hierarchy: {
+              teams: { search: { limits: { daily: 1, monthly: 0 } } },
+              members: { "user-1": { team: "search" }, "user-2": { team: "search" } },
+            },
+          },
+        },
+      })
+      await mw.userBudgetManager!.recordSpend("user-1", 1, "gpt-4o-mini")
+
+      const err = await mw.transformParams({ params: makeParams("Hello") }).catch((e) => e)
+      expect(err).toBeInstanceOf(TokenShieldBlockedError)
+      expect(err.code).toBe("BUDGET_DAILY_EXCEEDED")
+      expect(err.details).toMatchObject({ userId: "user-2", level: "team", levelId: "search" })
+    })
+
+    it("debits wallet credits per request and reconciles them with the ledger", async () => {
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: false,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: true,
+        },
+        context: { reserveForOutput: 10 },
+        userBudget: {
+          getUserId: () => "user-1",
+          budgets: { wallet: {} },
+        },
+      })
+      const budgets = mw.userBudgetManager!
+
+      const refused = await mw.transformParams({ params: makeParams("Hello") }).catch((e) => e)
+      expect(refused).toBeInstanceOf(TokenShieldBlockedError)
+      expect(refused.code).toBe("BUDGET_INSUFFICIENT_CREDITS")
+
+      await budgets.credit("user-1", 1, "top-up")
+      const params = await mw.transformParams({ params: makeParams("Hello") })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate(),
+        params: params as Record<string, unknown>,
+      })
+
+      const debit = budgets.getTransactions("user-1")[1]
+      expect(debit.type).toBe("debit")
+      expect(budgets.getBalance("user-1")?.balance).toBeCloseTo(1 - debit.amount)
+      expect(budgets.reconcileWallet(getLedger(mw)!.getEntriesSince(60_000))).toMatchObject({
+        matched: 1,
+        mismatched: [],
+        unmatchedEntries: [],
+      })
+    })
+
     it("applies tier model routing for budget users", async () => {
       const mw = tokenShieldMiddleware({
         modules: {
@@ -523,6 +1220,231 @@ describe("tokenShieldMiddleware", () => {
     })
   })
 
+  describe("anomaly detection", () => {
+    it("checks each request against the baseline for its user and model", async () => {
+      const onAnomalyDetected = vi.fn()
+      const mw = tokenShieldMiddleware({
+        modules: {
+          guard: false,
+          cache: false,
+          context: false,
+          router: false,
+          prefix: false,
+          ledger: false,
+        },
+        userBudget: {
+          getUserId: () => "user-1",
+          budgets: { defaultBudget: { daily: 100, monthly: 1000 } },
+        },
+        anomaly: { onAnomalyDetected },
+      })
+
+      for (let i = 0; i < 6; i++) {
+        const params = await mw.transformParams({ params: makeParams("Hello") })
+        await mw.wrapGenerate({
+          doGenerate: mockDoGenerate(),
+          params: params as Record<string, unknown>,
+        })
+      }
+      expect(onAnomalyDetected).not.toHaveBeenCalled()
+
+      const params = await mw.transformParams({ params: makeParams("Hello") })
+      await mw.wrapGenerate({
+        doGenerate: mockDoGenerate("...", { promptTokens: 50, completionTokens: 50_000 }),
+        params: params as Record<string, unknown>,
+      })
+      expect(onAnomalyDetected).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: "user:user-1|model:gpt-4o-mini",
+          context: { userId: "user-1", model: "gpt-4o-mini", feature: undefined },
+        }),
+      )
+      expect(mw.anomalyDetector!.getBaselineKeys()).toEqual(["user:user-1|model:gpt-4o-mini"])
+    })
+
+    it("saves baselines on dispose and restores them in the next instance", async () => {
+      const storage = createMemoryBackend()
+      const modules = {
+        guard: false,
+        cache: false,
+        context: false,
+        router: false,
+        prefix: false,
+        ledger: false,
+      }
+      const first = tokenShieldMiddleware({ modules, storage })
+      await new Promise((r) => setTimeout(r, 10))
+      const params = await first.transformParams({ params: makeParams("Hello") })
+      await first.wrapGenerate({
+        doGenerate: mockDoGenerate(),
+        params: params as Record<string, unknown>,
+      })
+      first.dispose()
+      await new Promise((r) => setTimeout(r, 10))
+
+      const second = tokenShieldMiddleware({ modules, storage })
+      await new Promise((r) => setTimeout(r, 10))
+      expect(second.anomalyDetector!.getBaselines("model:gpt-4o-mini").tokenHistory).toBe(1)
+      second.dispose()
+    })
+
+    it("doesn't overwrite persisted baselines when disposed before they load", async () => {
+      const storage = createMemoryBackend()
+      const modules = {
+        guard: false,
+        cache: false,
+        context: false,
+        router: false,
+        prefix: false,
+        ledger: false,
+      }
+      const first = tokenShieldMiddleware({ modules, storage })
+      await new Promise((r) => setTimeout(r, 10))
+      await first.wrapGenerate({
+        doGenerate: mockDoGenerate(),
+        params: (await first.transformParams({ params: makeParams("Hello") })) as Record<
+          string,
+          unknown
+        >,
+      })
+      first.dispose()
+      await new Promise((r) => setTimeout(r, 10))
+
+      const read = storage.get.bind(storage)
+      storage.get = async (key) => {
+        await new Promise((r) => setTimeout(r, 5))
+        return read(key)
+      }
+      tokenShieldMiddleware({ modules, storage }).dispose()
+      await new Promise((r) => setTimeout(r, 30))
+
+      const third = tokenShieldMiddleware({ modules, storage })
+      await new Promise((r) => setTimeout(r, 30))
+      expect(third.anomalyDetector!.getBaselines("model:gpt-4o-mini").tokenHistory).toBe(1)
+      third.dispose()
+    })
+
+    describe("actions", () => {
+      const modules = {
+        guard: false,
+        cache: false,
+        context: false,
+        router: false,
+        prefix: false,
+        ledger: false,
+      }
+
+      /** Six ordinary requests to build a baseline, then one 1000x token spike */
+      async function spike(mw: ReturnType<typeof tokenShieldMiddleware>, modelId: string) {
+        for (let i = 0; i <= 6; i++) {
+          const params = await mw.transformParams({ params: makeParams("Hello", modelId) })
+          await mw.wrapGenerate({
+            doGenerate: mockDoGenerate(
+              "...",
+              i < 6
+                ? { promptTokens: 50, completionTokens: 50 }
+                : { promptTokens: 50, completionTokens: 50_000 },
+            ),
+            params: params as Record<string, unknown>,
+          })
+        }
+      }
+
+      it("pauses the anomalous user and a breaker scope until the actions expire", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] })
+        vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+        try {
+          const mw = tokenShieldMiddleware({
+            modules,
+            auditLog: {},
+            userBudget: {
+              getUserId: () => "user-1",
+              budgets: { defaultBudget: { daily: 100, monthly: 1000 } },
+            },
+            anomaly: {
+              actions: [
+                { action: { type: "pause-user" }, durationMs: 60_000 },
+                { action: { type: "trip-breaker", scope: "reports" }, durationMs: 60_000 },
+              ],
+            },
+          })
+          await spike(mw, "gpt-4o-mini")
+
+          const blocked = await mw
+            .transformParams({ params: makeParams("Hello") })
+            .catch((err: unknown) => err)
+          expect(blocked).toBeInstanceOf(TokenShieldBlockedError)
+          expect((blocked as TokenShieldBlockedError).code).toBe("BUDGET_USER_PAUSED")
+          expect(mw.control.getState().pauses.map((p) => p.scope)).toEqual(["reports"])
+
+          vi.setSystemTime(new Date("2025-01-15T10:01:01Z"))
+          await expect(mw.transformParams({ params: makeParams("Hello") })).resolves.toBeDefined()
+          expect(mw.anomalyActions!.getActive()).toEqual([])
+          expect(
+            mw
+              .auditLog!.getEntries()
+              .map((e) => e.eventType)
+              .filter((t) => t.startsWith("anomaly_action") || t === "traffic_paused"),
+          ).toEqual([
+            "anomaly_action_applied",
+            "traffic_paused",
+            "anomaly_action_applied",
+            "anomaly_action_expired",
+            "anomaly_action_expired",
+          ])
+          mw.dispose()
+        } finally {
+          vi.useRealTimers()
+        }
+      })
+
+      it("tightens the guard from its resolved limit and restores it on expiry", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] })
+        vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+        try {
+          const mw = tokenShieldMiddleware({
+            modules: { ...modules, guard: true },
+            guard: { debounceMs: 0 },
+            anomaly: { actions: [{ action: { type: "tighten-guard" }, durationMs: 60_000 }] },
+          })
+          const limit = mw.guard!.getConfig().maxRequestsPerMinute
+          await spike(mw, "gpt-4o-mini")
+          expect(mw.guard!.getConfig().maxRequestsPerMinute).toBe(limit / 2)
+
+          vi.setSystemTime(new Date("2025-01-15T10:01:01Z"))
+          await mw.transformParams({ params: makeParams("Hello again") })
+          expect(mw.guard!.getConfig().maxRequestsPerMinute).toBe(limit)
+          mw.dispose()
+        } finally {
+          vi.useRealTimers()
+        }
+      })
+
+      it("forces requests down to the cheapest router tier", async () => {
+        const mw = tokenShieldMiddleware({
+          modules,
+          router: {
+            tiers: [
+              { modelId: "gpt-4o", maxComplexity: 100 },
+              { modelId: "gpt-4o-mini", maxComplexity: 40 },
+            ],
+          },
+          anomaly: { actions: [{ action: { type: "force-tier" } }] },
+        })
+        const applied = vi.fn()
+        mw.events.on("anomaly:actionApplied", applied)
+        await spike(mw, "gpt-4o")
+        expect(applied).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "force-tier", model: "gpt-4o-mini" }),
+        )
+
+        const params = await mw.transformParams({ params: makeParams("Hello", "gpt-4o") })
+        expect(params.modelId).toBe("gpt-4o-mini")
+        mw.dispose()
+      })
+    })
+  })
+
   describe("streaming", () => {
     it("wraps stream and records usage when stream completes", async () => {
       const onUsage = vi.fn()
@@ -629,6 +1551,114 @@ describe("tokenShieldMiddleware", () => {
     })
   })
 
+  describe("manual control", () => {
+    const modules = {
+      guard: false,
+      cache: false,
+      context: false,
+      router: false,
+      prefix: false,
+      ledger: false,
+    }
+
+    it("pauses traffic across instances sharing storage and records it in the audit log", async () => {
+      const storage = createMemoryBackend()
+      const admin = tokenShieldMiddleware({ modules, storage, auditLog: {} })
+      const worker = tokenShieldMiddleware({ modules, storage, control: { syncIntervalMs: 0 } })
+
+      await admin.control.pause("provider incident")
+      const blocked = await worker
+        .transformParams({ params: makeParams("Hello there") })
+        .catch((err: unknown) => err)
+      expect(blocked).toBeInstanceOf(TokenShieldBlockedError)
+      expect((blocked as TokenShieldBlockedError).code).toBe("CONTROL_PAUSED")
+      expect(admin.healthCheck().healthy).toBe(false)
+      expect(admin.healthCheck().control.paused).toBe(true)
+
+      await admin.control.resume()
+      await expect(
+        worker.transformParams({ params: makeParams("Hello there") }),
+      ).resolves.toBeDefined()
+      expect(admin.auditLog!.getEntries().map((e) => e.eventType)).toEqual([
+        "traffic_paused",
+        "traffic_resumed",
+      ])
+    })
+
+    it("only blocks requests matching a scoped pause until it lapses", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+      try {
+        const mw = tokenShieldMiddleware({ modules })
+        await mw.control.pause("bad deploy", {
+          scope: "gpt-4o",
+          until: Date.now() + 60_000,
+        })
+
+        await expect(mw.transformParams({ params: makeParams("Hello", "gpt-4o") })).rejects.toThrow(
+          "Traffic paused for gpt-4o: bad deploy",
+        )
+        await expect(
+          mw.transformParams({ params: makeParams("Hello", "gpt-4o-mini") }),
+        ).resolves.toBeDefined()
+        expect(mw.healthCheck().healthy).toBe(true)
+
+        vi.setSystemTime(Date.now() + 61_000)
+        await expect(
+          mw.transformParams({ params: makeParams("Hello", "gpt-4o") }),
+        ).resolves.toBeDefined()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("lets an overridden user bypass budget and breaker limits until the grant runs out", async () => {
+      const mw = tokenShieldMiddleware({
+        modules,
+        context: { reserveForOutput: 10 },
+        breaker: { limits: { perSession: 0 }, action: "stop", persist: false },
+        userBudget: {
+          getUserId: () => "admin",
+          budgets: { users: { admin: { daily: 0.000001, monthly: 100 } } },
+        },
+      })
+      await expect(mw.transformParams({ params: makeParams("Hello") })).rejects.toThrow(
+        TokenShieldBlockedError,
+      )
+
+      await mw.control.grantOverride("admin", 0.000025, Date.now() + 60_000)
+      expect(mw.healthCheck().control.overrides).toHaveLength(1)
+      const t1 = await mw.transformParams({ params: makeParams("Hello") })
+      // Records $0.0000195, leaving less than the next request's estimate
+      await mw.wrapGenerate({ doGenerate: mockDoGenerate(), params: t1 as Record<string, unknown> })
+      expect(mw.control.getState().overrides[0].remaining).toBeCloseTo(0.0000055, 10)
+
+      await expect(mw.transformParams({ params: makeParams("Hello again") })).rejects.toThrow(
+        TokenShieldBlockedError,
+      )
+    })
+
+    it("keeps the last known state when the shared state can't be read", async () => {
+      const backend = createMemoryBackend()
+      const mw = tokenShieldMiddleware({ modules, control: { backend, syncIntervalMs: 0 } })
+      const storageErrors = vi.fn()
+      mw.events.on("storage:error", storageErrors)
+      await mw.control.pause("provider incident")
+
+      backend.get = async () => {
+        throw new Error("backend unavailable")
+      }
+      const blocked = await mw
+        .transformParams({ params: makeParams("Hello there") })
+        .catch((err: unknown) => err)
+      expect((blocked as TokenShieldBlockedError).code).toBe("CONTROL_PAUSED")
+      expect(storageErrors).toHaveBeenCalledWith(
+        expect.objectContaining({ module: "control", operation: "refresh" }),
+      )
+      mw.dispose()
+    })
+  })
+
   describe("TokenShieldBlockedError", () => {
     it("is catchable with instanceof", () => {
       const err = new TokenShieldBlockedError("test")
@@ -37,6 +37,11 @@ import { CostLedger } from "./cost-ledger"
 import { CostCircuitBreaker } from "./circuit-breaker"
 import { UserBudgetManager } from "./user-budget-manager"
 import { AnomalyDetector } from "./anomaly-detector"
+import { AnomalyActionPolicy } from "./anomaly-actions"
+import { MODEL_PRICING } from "./cost-estimator"
+import { PiiScanner } from "./pii-scanner"
+import { LoopDetector } from "./loop-detector"
+import { ShieldControl } from "./shield-control"
 import { TokenShieldConfigSchema } from "./config-schemas"
 import { TokenShieldConfigError } from "./errors"
 import * as v from "valibot"
@@ -50,6 +55,7 @@ import { TokenShieldLogger, createLogger, type LogEntry } from "./logger"
 import { ProviderAdapter, type AdapterConfig } from "./provider-adapter"
 import { AuditLog, type AuditLogConfig } from "./audit-log"
 import { isModulePermitted } from "./license"
+import { createNamespacedBackend, type StorageBackend } from "./storage-adapter"
 
 import type {
   TokenShieldMiddlewareConfig,
@@ -89,6 +95,8 @@ export function tokenShieldMiddleware(
     if (config.ledger) schemaInput.ledger = config.ledger
     if (config.breaker) schemaInput.breaker = config.breaker
     if (config.userBudget?.budgets) schemaInput.userBudget = config.userBudget.budgets
+    if (config.encryption) schemaInput.encryption = config.encryption
+    if (config.control) schemaInput.control = config.control
     v.parse(TokenShieldConfigSchema, schemaInput)
   } catch (err) {
     if (err instanceof v.ValiError) {
@@ -130,18 +138,60 @@ export function tokenShieldMiddleware(
     } catch { /* non-fatal */ }
   }
 
+  /** Namespaced view of the shared storage backend for one module, if configured. */
+  const storageFor = (namespace: string): StorageBackend | undefined =>
+    config.storage ? createNamespacedBackend(config.storage, namespace) : undefined
+
   const cache = modules.cache
     ? new ResponseCache({
         maxEntries: config.cache?.maxEntries ?? 500,
         ttlMs: config.cache?.ttlMs ?? 3600000,
         similarityThreshold: config.cache?.similarityThreshold ?? 0.85,
+        staleWhileRevalidateMs: config.cache?.staleWhileRevalidateMs,
+        feedback: config.cache?.feedback,
         encodingStrategy: config.cache?.encodingStrategy,
         semanticSeeds: config.cache?.semanticSeeds,
         onStorageError: config.cache?.onStorageError ?? defaultOnStorageError("cache", "idb"),
+        embedder: config.cache?.embedder,
+        embeddingThreshold: config.cache?.embeddingThreshold,
+        encryption: config.cache?.encryption ?? config.encryption,
+        maxBytes: config.cache?.maxBytes,
+        evictionPolicy: config.cache?.evictionPolicy,
+        compression: config.cache?.compression,
+        onEmbedding: (usage) => {
+          // Free local embedders, and ones that can't be priced, aren't recorded
+          if (usage.cost === 0 || (!usage.model && usage.cost === undefined)) return
+          ledger
+            ?.recordEmbedding({
+              model: usage.model ?? usage.embedderId,
+              inputTokens: usage.inputTokens,
+              cost: usage.cost,
+              feature: config.ledger?.feature,
+            })
+            .catch(() => {
+              /* non-fatal */
+            })
+        },
+        onEmbeddingError: defaultOnStorageError("cache", "embed"),
+        onInvalidate: (event) => {
+          try {
+            instanceEvents.emit("cache:invalidated", event)
+          } catch {
+            /* non-fatal */
+          }
+        },
+        backend: storageFor("cache"),
       })
     : null
 
-  const ledger = modules.ledger ? new CostLedger({ persist: config.ledger?.persist }) : null
+  const ledger = modules.ledger
+    ? new CostLedger({
+        persist: config.ledger?.persist,
+        backend: storageFor("ledger"),
+        encryption: config.ledger?.encryption ?? config.encryption,
+        onStorageError: defaultOnStorageError("ledger", "crypto"),
+      })
+    : null
 
   const breaker = config.breaker
     ? new CostCircuitBreaker({
@@ -154,6 +204,10 @@ export function tokenShieldMiddleware(
               currentSpend: detail.currentSpend,
               limit: detail.limit,
               percentUsed: detail.percentUsed,
+              unit: detail.unit,
+              tokenKind: detail.tokenKind,
+              modelFamily: detail.modelFamily,
+              scope: detail.scope,
             })
           } catch { /* non-fatal */ }
         },
@@ -164,10 +218,37 @@ export function tokenShieldMiddleware(
               limitType: detail.limitType,
               currentSpend: detail.currentSpend,
               limit: detail.limit,
-              action: config.breaker?.action ?? "stop",
+              action: detail.action,
+              unit: detail.unit,
+              tokenKind: detail.tokenKind,
+              modelFamily: detail.modelFamily,
+              scope: detail.scope,
             })
           } catch { /* non-fatal */ }
         },
+        onHalfOpen: (detail) => {
+          config.breaker?.onHalfOpen?.(detail)
+          const halfOpen = detail.scope
+            ? (config.breaker?.scopes?.[detail.scope] ?? config.breaker?.defaultScope)?.halfOpen
+            : config.breaker?.halfOpen
+          try {
+            instanceEvents.emit("breaker:halfOpen", {
+              limitType: detail.limitType,
+              probes: halfOpen?.maxProbes ?? 1,
+              scope: detail.scope,
+            })
+          } catch {
+            /* non-fatal */
+          }
+        },
+        onRecovered: (downtimeMs, scope) => {
+          config.breaker?.onRecovered?.(downtimeMs, scope)
+          try {
+            instanceEvents.emit("breaker:recovered", { downtimeMs, scope })
+          } catch {
+            /* non-fatal */
+          }
+        },
         onReset: (window) => {
           config.breaker?.onReset?.(window)
           // breaker:reset is not an event bus type — call audit log directly if available
@@ -178,6 +259,10 @@ export function tokenShieldMiddleware(
   const userBudgetManager = config.userBudget
     ? new UserBudgetManager({
         ...config.userBudget.budgets,
+        backend: config.userBudget.budgets.backend ?? storageFor("user-budgets"),
+        encryption: config.userBudget.budgets.encryption ?? config.encryption,
+        onStorageError:
+          config.userBudget.budgets.onStorageError ?? defaultOnStorageError("budget", "crypto"),
         onBudgetExceeded: config.userBudget.onBudgetExceeded
           ? (userId, event) => config.userBudget?.onBudgetExceeded?.(userId, event)
           : undefined,
@@ -187,7 +272,31 @@ export function tokenShieldMiddleware(
       })
     : null
 
-  const anomalyDetector = modules.anomaly ? new AnomalyDetector(config.anomaly) : null
+  const anomalyDetector = modules.anomaly
+    ? new AnomalyDetector({
+        ...config.anomaly,
+        backend: config.anomaly?.backend ?? storageFor("anomaly"),
+        encryption: config.anomaly?.encryption ?? config.encryption,
+        onStorageError: config.anomaly?.onStorageError ?? defaultOnStorageError("anomaly", "idb"),
+      })
+    : null
+  // Anomaly actions force the cheapest router tier unless a rule names a model
+  const cheapestTier = (config.router?.tiers ?? [])
+    .map((t) => t.modelId)
+    .sort(
+      (a, b) =>
+        (MODEL_PRICING[a]?.inputPerMillion ?? Infinity) -
+        (MODEL_PRICING[b]?.inputPerMillion ?? Infinity),
+    )[0]
+  const anomalyActions =
+    anomalyDetector && config.anomaly?.actions?.length
+      ? new AnomalyActionPolicy(config.anomaly.actions, {
+          guardRateLimit: guard?.getConfig().maxRequestsPerMinute,
+          fallbackModel: cheapestTier,
+        })
+      : null
+  const piiScanner = config.pii ? new PiiScanner(config.pii) : null
+  const loopDetector = config.loop ? new LoopDetector(config.loop) : null
 
   // Create a per-instance event bus so that multiple middleware instances
   // don't mix events. Forward all events to the global shieldEvents singleton
@@ -199,22 +308,36 @@ export function tokenShieldMiddleware(
     "cache:hit",
     "cache:miss",
     "cache:store",
+    "cache:invalidated",
     "context:trimmed",
     "router:downgraded",
     "router:holdback",
     "ledger:entry",
     "breaker:warning",
     "breaker:tripped",
+    "breaker:halfOpen",
+    "breaker:recovered",
+    "control:paused",
+    "control:resumed",
+    "control:overrideGranted",
     "userBudget:warning",
     "userBudget:exceeded",
+    "userBudget:grace",
     "userBudget:spend",
+    "userBudget:credit",
+    "userBudget:insufficientCredits",
     "stream:chunk",
     "stream:abort",
     "stream:complete",
     "anomaly:detected",
+    "anomaly:actionApplied",
+    "anomaly:actionExpired",
     "compressor:applied",
     "delta:applied",
     "storage:error",
+    "pii:detected",
+    "loop:detected",
+    "loop:hintInjected",
   ]
   const forwardingCleanups: Array<() => void> = []
   for (const name of EVENT_NAMES) {
@@ -242,6 +365,44 @@ export function tokenShieldMiddleware(
           )
         : null
 
+  const control = new ShieldControl({
+    backend: config.control?.backend ?? storageFor("control"),
+    syncIntervalMs: config.control?.syncIntervalMs,
+    onPause: (pause) => {
+      try {
+        instanceEvents.emit("control:paused", {
+          reason: pause.reason,
+          scope: pause.scope,
+          until: pause.until,
+        })
+      } catch {
+        /* non-fatal */
+      }
+    },
+    onResume: (pause) => {
+      try {
+        instanceEvents.emit("control:resumed", {
+          reason: pause.reason,
+          scope: pause.scope,
+          pausedMs: Date.now() - pause.pausedAt,
+        })
+      } catch {
+        /* non-fatal */
+      }
+    },
+    onOverrideGranted: (override) => {
+      try {
+        instanceEvents.emit("control:overrideGranted", {
+          userId: override.userId,
+          amount: override.amount,
+          expiresAt: override.expiresAt,
+        })
+      } catch {
+        /* non-fatal */
+      }
+    },
+  })
+
   // Auto-connect logger to the event bus for structured observability
   let loggerCleanup: (() => void) | null = null
   if (log) {
@@ -249,7 +410,10 @@ export function tokenShieldMiddleware(
   }
 
   // Hydrate persisted budget data from IndexedDB (after logger init so failures are logged)
-  if (userBudgetManager && config.userBudget?.budgets.persist) {
+  if (
+    userBudgetManager &&
+    (config.userBudget?.budgets.persist || config.userBudget?.budgets.backend || config.storage)
+  ) {
     userBudgetManager.hydrate().catch((err) => {
       log?.warn("budget", "Failed to hydrate budget data — starting from $0", {
         error: err instanceof Error ? err.message : String(err),
@@ -257,6 +421,36 @@ export function tokenShieldMiddleware(
     })
   }
 
+  // Restore anomaly baselines so a restart doesn't start detection from scratch
+  if (anomalyDetector && (config.anomaly?.persist || config.anomaly?.backend || config.storage)) {
+    anomalyDetector.hydrate().catch((err) => {
+      log?.warn("anomaly", "Failed to hydrate anomaly baselines", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+  }
+
+  // Server backends have no page-load lifecycle, so restore cache and ledger state eagerly
+  if (config.storage) {
+    cache?.hydrate().catch((err) => {
+      log?.warn("cache", "Failed to hydrate cache from storage backend", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+    ledger?.hydrate().catch((err) => {
+      log?.warn("ledger", "Failed to hydrate ledger from storage backend", {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+  }
+
+  // Load pauses and overrides set by other tabs or processes so healthCheck() reports them
+  control.refresh(true).catch((err) => {
+    log?.warn("control", "Failed to load shared pause/override state", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
+
   // Initialize provider adapter if configured
   const adapter: ProviderAdapter | null =
     config.providerAdapter instanceof ProviderAdapter
@@ -270,7 +464,11 @@ export function tokenShieldMiddleware(
     config.auditLog instanceof AuditLog
       ? config.auditLog
       : config.auditLog
-        ? new AuditLog(config.auditLog as AuditLogConfig)
+        ? new AuditLog({
+            backend: storageFor("audit"),
+            encryption: config.encryption,
+            ...(config.auditLog as AuditLogConfig),
+          })
         : null
 
   // Wire audit log to event bus — maps pipeline events to audit entries
@@ -318,11 +516,29 @@ export function tokenShieldMiddleware(
     })
     on("anomaly:detected", (d) => {
       const data = d as unknown as Record<string, unknown>
+      const context = data.context as Record<string, unknown> | undefined
       auditLog.logAnomalyDetected(
-        String(data.metric ?? ""),
+        String(data.type ?? ""),
         Number(data.value ?? 0),
-        Number(data.zscore ?? 0),
-        data.model ? String(data.model) : undefined,
+        Number(data.zScore ?? 0),
+        context?.model ? String(context.model) : undefined,
+      )
+    })
+    on("anomaly:actionApplied", (d) => {
+      const data = d as unknown as Record<string, unknown>
+      auditLog.logAnomalyActionApplied(
+        String(data.type ?? ""),
+        data.scope || data.userId ? String(data.scope ?? data.userId) : undefined,
+        Number(data.expiresAt ?? 0),
+        data.userId ? String(data.userId) : undefined,
+      )
+    })
+    on("anomaly:actionExpired", (d) => {
+      const data = d as unknown as Record<string, unknown>
+      auditLog.logAnomalyActionExpired(
+        String(data.type ?? ""),
+        data.scope || data.userId ? String(data.scope ?? data.userId) : undefined,
+        data.userId ? String(data.userId) : undefined,
       )
     })
     on("router:downgraded", (d) => {
@@ -333,6 +549,30 @@ export function tokenShieldMiddleware(
         String(data.reason ?? "complexity"),
       )
     })
+    on("control:paused", (d) => {
+      const data = d as Record<string, unknown>
+      auditLog.logTrafficPaused(
+        String(data.reason ?? ""),
+        data.scope ? String(data.scope) : undefined,
+        typeof data.until === "number" ? data.until : undefined,
+      )
+    })
+    on("control:resumed", (d) => {
+      const data = d as Record<string, unknown>
+      auditLog.logTrafficResumed(
+        String(data.reason ?? ""),
+        data.scope ? String(data.scope) : undefined,
+        Number(data.pausedMs ?? 0),
+      )
+    })
+    on("control:overrideGranted", (d) => {
+      const data = d as Record<string, unknown>
+      auditLog.logOverrideGranted(
+        String(data.userId ?? ""),
+        Number(data.amount ?? 0),
+        Number(data.expiresAt ?? 0),
+      )
+    })
     on("compressor:applied", (d) => {
       const data = d as Record<string, unknown>
       auditLog.logCompressorApplied(
@@ -354,7 +594,7 @@ export function tokenShieldMiddleware(
   // Auto-hydrate audit log from IndexedDB if persistence is enabled
   if (auditLog && config.auditLog && !(config.auditLog instanceof AuditLog)) {
     const auditConfig = config.auditLog as AuditLogConfig
-    if (auditConfig.persist) {
+    if (auditConfig.persist || auditConfig.backend || config.storage) {
       auditLog.hydrate().catch((err) => {
         log?.warn("audit", "Failed to hydrate audit log — starting fresh", {
           error: err instanceof Error ? err.message : String(err),
@@ -392,10 +632,14 @@ export function tokenShieldMiddleware(
     breaker,
     userBudgetManager,
     anomalyDetector,
+    anomalyActions,
+    piiScanner,
+    loopDetector,
     instanceEvents,
     log,
     adapter,
     auditLog,
+    control,
   }
 
   // Initialize registered plugins
@@ -412,10 +656,13 @@ export function tokenShieldMiddleware(
     guard,
     userBudgetManager,
     anomalyDetector,
+    anomalyActions,
+    loopDetector,
     events: instanceEvents,
     logger: log,
     providerAdapter: adapter,
     auditLog,
+    control,
     transformParams: buildTransformParams(ctx),
     wrapGenerate: buildWrapGenerate(ctx),
     wrapStream: buildWrapStream(ctx),
@@ -424,9 +671,11 @@ export function tokenShieldMiddleware(
       const guardStats = guard?.stats() ?? null
       const breakerStatus = breaker?.getStatus() ?? null
       const ledgerSummary = ledger?.getSummary() ?? null
+      const controlState = control.getState()
+      const paused = controlState.pauses.some((p) => p.scope === undefined)
 
       return {
-        healthy: !(breakerStatus?.tripped ?? false),
+        healthy: !(breakerStatus?.tripped ?? false) && !paused,
         modules: {
           guard: modules.guard,
           cache: modules.cache,
@@ -441,6 +690,15 @@ export function tokenShieldMiddleware(
         cacheHitRate: cacheStats ? cacheStats.hitRate : null,
         guardBlockedRate: guardStats ? guardStats.blockedRate : null,
         breakerTripped: breakerStatus ? breakerStatus.tripped : null,
+        breakerScopes: breakerStatus
+          ? Object.fromEntries(
+              Object.entries(breakerStatus.scopes).map(([scope, s]) => [
+                scope,
+                { tripped: s.tripped, state: s.state },
+              ]),
+            )
+          : null,
+        control: { paused, ...controlState },
         totalSpent: ledgerSummary ? ledgerSummary.totalSpent : null,
         totalSaved: ledgerSummary ? ledgerSummary.totalSaved : null,
       }
@@ -458,6 +716,8 @@ export function tokenShieldMiddleware(
       guard?.dispose()
       adapter?.dispose()
       auditLog?.dispose()
+      // Keep what the detector learned since its last periodic save
+      anomalyDetector?.saveIfHydrated().catch(defaultOnStorageError("anomaly", "save"))
     },
   }
 }
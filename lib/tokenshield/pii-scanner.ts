@@ -0,0 +1,354 @@
+/**
+ * TokenShield - PII Scanner
+ *
+ * Finds personal data and credentials in prompts before they reach the
+ * cache, the logs or the provider. Detectors combine regular expressions
+ * with validation (Luhn for card numbers, range checks for SSNs and IPs)
+ * and an entropy check that catches API keys and tokens with no known
+ * prefix.
+ *
+ * What happens to a prompt with findings is decided by policies:
+ * - "skip-cache":        the request is neither looked up nor stored
+ * - "redact-before-log": events and logs see `[EMAIL]`-style redactions
+ * - "mask-before-send":  values are swapped for reversible placeholders
+ *                        (`[EMAIL_1]`) and restored in the response;
+ *                        the request also skips the cache
+ * - "block":             the request is rejected
+ */
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type PiiType =
+  | "email"
+  | "phone"
+  | "credit-card"
+  | "ssn"
+  | "ip-address"
+  | "api-key"
+  | "secret"
+
+export type PiiPolicy = "skip-cache" | "redact-before-log" | "mask-before-send" | "block"
+
+/** A pattern-based detector. Built-in types can be extended with custom ones. */
+export interface PiiDetector {
+  /** Finding type, used for redaction labels and `policyByType` */
+  type: string
+  /** Regex to search with; the `g` flag is added when missing */
+  pattern: RegExp
+  /** Extra check on each match, e.g. a checksum. Return false to discard it. */
+  validate?: (match: string) => boolean
+}
+
+export interface PiiMatch {
+  type: string
+  value: string
+  /** Offset of the first character in the scanned text */
+  start: number
+  /** Offset one past the last character */
+  end: number
+}
+
+export interface PiiScannerConfig {
+  /** Built-in detectors to run (default: all) */
+  detectors?: PiiType[]
+  /** Additional detectors, run alongside the built-in ones */
+  customDetectors?: PiiDetector[]
+  /** Tuning for the "secret" detector (high-entropy tokens) */
+  entropy?: {
+    /** Minimum token length (default: 24) */
+    minLength?: number
+    /** Minimum Shannon entropy in bits per character (default: 3.5) */
+    minBitsPerChar?: number
+  }
+  /** Policies applied to any finding (default: ["skip-cache", "redact-before-log"]) */
+  policy?: PiiPolicy | PiiPolicy[]
+  /** Policies for specific finding types. Replaces `policy` for that type. */
+  policyByType?: Partial<Record<string, PiiPolicy | PiiPolicy[]>>
+  /** Exact values that are never reported (e.g. your own support address) */
+  allowlist?: string[]
+}
+
+export interface PiiScanResult {
+  matches: PiiMatch[]
+  /** Distinct finding types, in order of first appearance */
+  types: string[]
+  /** Union of the policies that apply to the findings */
+  policies: PiiPolicy[]
+}
+
+/** Masked texts plus the placeholder → original value map needed to restore them */
+export interface PiiMaskResult {
+  texts: string[]
+  placeholders: Record<string, string>
+}
+
+// -------------------------------------------------------
+// Validation helpers
+// -------------------------------------------------------
+
+/** Luhn checksum over the digits of `value` (separators are ignored). */
+export function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, "")
+  if (digits.length < 12) return false
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+/** Shannon entropy of a string in bits per character. */
+export function shannonEntropy(text: string): number {
+  if (!text) return 0
+  const counts = new Map<string, number>()
+  for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1)
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / text.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length
+}
+
+// -------------------------------------------------------
+// Built-in detectors
+// -------------------------------------------------------
+
+const BUILTIN_DETECTORS: Record<Exclude<PiiType, "secret">, PiiDetector> = {
+  email: {
+    type: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  "api-key": {
+    type: "api-key",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abposr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|sk_live_[0-9A-Za-z]{24,})/g,
+  },
+  "credit-card": {
+    type: "credit-card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => {
+      const n = digitCount(match)
+      return n >= 13 && n <= 19 && luhnValid(match)
+    },
+  },
+  ssn: {
+    type: "ssn",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: (match) => {
+      const [area, group, serial] = match.split("-")
+      return (
+        area !== "000" && area !== "666" && area[0] !== "9" && group !== "00" && serial !== "0000"
+      )
+    },
+  },
+  phone: {
+    type: "phone",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g,
+    validate: (match) => {
+      const n = digitCount(match)
+      return n >= 10 && n <= 15
+    },
+  },
+  "ip-address": {
+    type: "ip-address",
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    validate: (match) => match.split(".").every((octet) => Number(octet) <= 255),
+  },
+}
+
+/** Candidate tokens for the entropy detector */
+const SECRET_CANDIDATE = /[A-Za-z0-9+/_=-]{16,}/g
+
+const ALL_TYPES: PiiType[] = [
+  "email",
+  "api-key",
+  "credit-card",
+  "ssn",
+  "phone",
+  "ip-address",
+  "secret",
+]
+
+const DEFAULT_POLICY: PiiPolicy[] = ["skip-cache", "redact-before-log"]
+
+/** `[EMAIL_1]`, `[CREDIT_CARD_2]`, … */
+const PLACEHOLDER = /\[[A-Z][A-Z0-9_]*_\d+\]/g
+
+function label(type: string): string {
+  return type.toUpperCase().replace(/[^A-Z0-9]+/g, "_")
+}
+
+function asList(policy: PiiPolicy | PiiPolicy[]): PiiPolicy[] {
+  return Array.isArray(policy) ? policy : [policy]
+}
+
+// -------------------------------------------------------
+// Scanner
+// -------------------------------------------------------
+
+export class PiiScanner {
+  private detectors: PiiDetector[]
+  private entropyEnabled: boolean
+  private minSecretLength: number
+  private minBitsPerChar: number
+  private allowlist: Set<string>
+
+  constructor(private config: PiiScannerConfig = {}) {
+    const types = config.detectors ?? ALL_TYPES
+    this.detectors = [
+      ...types
+        .filter((t): t is Exclude<PiiType, "secret"> => t !== "secret")
+        .map((t) => BUILTIN_DETECTORS[t]),
+      ...(config.customDetectors ?? []),
+    ]
+    this.entropyEnabled = types.includes("secret")
+    this.minSecretLength = config.entropy?.minLength ?? 24
+    this.minBitsPerChar = config.entropy?.minBitsPerChar ?? 3.5
+    this.allowlist = new Set(config.allowlist ?? [])
+  }
+
+  /** Findings in `text`, in order. On overlap the earlier, then longer, match wins. */
+  scan(text: string): PiiMatch[] {
+    if (!text) return []
+    const found: PiiMatch[] = []
+    for (const detector of this.detectors) {
+      const pattern = new RegExp(
+        detector.pattern.source,
+        detector.pattern.flags.includes("g")
+          ? detector.pattern.flags
+          : detector.pattern.flags + "g",
+      )
+      for (const m of text.matchAll(pattern)) {
+        const value = m[0]
+        if (!value || this.allowlist.has(value)) continue
+        if (detector.validate && !detector.validate(value)) continue
+        found.push({ type: detector.type, value, start: m.index!, end: m.index! + value.length })
+      }
+    }
+    if (this.entropyEnabled) {
+      for (const m of text.matchAll(SECRET_CANDIDATE)) {
+        const value = m[0]
+        if (value.length < this.minSecretLength || this.allowlist.has(value)) continue
+        // Require a mix of letters and digits so long words and numbers don't qualify
+        if (!/[A-Za-z]/.test(value) || !/\d/.test(value)) continue
+        if (shannonEntropy(value) < this.minBitsPerChar) continue
+        found.push({ type: "secret", value, start: m.index!, end: m.index! + value.length })
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - b.start - (a.end - a.start))
+    const matches: PiiMatch[] = []
+    let cursor = 0
+    for (const match of found) {
+      if (match.start < cursor) continue
+      matches.push(match)
+      cursor = match.end
+    }
+    return matches
+  }
+
+  /** Scan several texts (e.g. every message) and resolve the applicable policies. */
+  check(texts: string | string[]): PiiScanResult {
+    const matches = (Array.isArray(texts) ? texts : [texts]).flatMap((t) => this.scan(t))
+    const types = [...new Set(matches.map((m) => m.type))]
+    const policies = new Set<PiiPolicy>()
+    for (const type of types) {
+      const policy = this.config.policyByType?.[type] ?? this.config.policy ?? DEFAULT_POLICY
+      for (const p of asList(policy)) policies.add(p)
+    }
+    return { matches, types, policies: [...policies] }
+  }
+
+  /** Replace each finding with its type label, e.g. `[EMAIL]`. Not reversible. */
+  redact(text: string): string {
+    return this.replace(text, (match) => `[${label(match.type)}]`)
+  }
+
+  /**
+   * Replace findings with numbered placeholders. The same value gets the
+   * same placeholder across all `texts`, so the model can refer to it
+   * consistently; unmaskPii() restores the originals.
+   */
+  mask(texts: string[]): PiiMaskResult {
+    const byValue = new Map<string, string>()
+    const counters = new Map<string, number>()
+    const placeholders: Record<string, string> = {}
+    const masked = texts.map((text) =>
+      this.replace(text, (match) => {
+        let placeholder = byValue.get(match.value)
+        if (!placeholder) {
+          const n = (counters.get(match.type) ?? 0) + 1
+          counters.set(match.type, n)
+          placeholder = `[${label(match.type)}_${n}]`
+          byValue.set(match.value, placeholder)
+          placeholders[placeholder] = match.value
+        }
+        return placeholder
+      }),
+    )
+    return { texts: masked, placeholders }
+  }
+
+  private replace(text: string, render: (match: PiiMatch) => string): string {
+    const matches = this.scan(text)
+    if (matches.length === 0) return text
+    let out = ""
+    let cursor = 0
+    for (const match of matches) {
+      out += text.slice(cursor, match.start) + render(match)
+      cursor = match.end
+    }
+    return out + text.slice(cursor)
+  }
+}
+
+// -------------------------------------------------------
+// Placeholder restoration
+// -------------------------------------------------------
+
+/** Restore the original values of mask placeholders in a model response. */
+export function unmaskPii(text: string, placeholders: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder) => placeholders[placeholder] ?? placeholder)
+}
+
+/**
+ * Incremental unmasking for streamed responses. A placeholder can be split
+ * across chunks, so a trailing `[…` that could still become one is held
+ * back until the next chunk (or flush()).
+ */
+export function createPiiUnmasker(placeholders: Record<string, string>): {
+  push(delta: string): string
+  flush(): string
+} {
+  const maxLength = Math.max(0, ...Object.keys(placeholders).map((p) => p.length))
+  let pending = ""
+  return {
+    push(delta) {
+      const text = pending + delta
+      const open = text.lastIndexOf("[")
+      if (open !== -1 && !text.includes("]", open) && text.length - open < maxLength) {
+        pending = text.slice(open)
+        return unmaskPii(text.slice(0, open), placeholders)
+      }
+      pending = ""
+      return unmaskPii(text, placeholders)
+    },
+    flush() {
+      const rest = unmaskPii(pending, placeholders)
+      pending = ""
+      return rest
+    },
+  }
+}
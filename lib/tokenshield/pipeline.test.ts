@@ -9,8 +9,10 @@ import {
   createContextStage,
   createRouterStage,
   createPrefixStage,
+  createPiiStage,
   type PipelineContext,
 } from "./pipeline"
+import { PiiScanner } from "./pii-scanner"
 import { CostCircuitBreaker } from "./circuit-breaker"
 import { RequestGuard } from "./request-guard"
 import { ResponseCache } from "./response-cache"
@@ -289,6 +291,37 @@ describe("createBreakerStage", () => {
     const result = stage.execute(ctx) as PipelineContext
     expect(result.aborted).toBe(false)
   })
+
+  it("switches to the fallback model with the downgrade action", () => {
+    const breaker = new CostCircuitBreaker({
+      limits: { perSession: 0 },
+      action: "downgrade",
+      downgradeTo: { session: "gpt-4o-mini" },
+    })
+    const stage = createBreakerStage(breaker, { reserveForOutput: 500 })
+    const ctx = makeCtx({ modelId: "gpt-4o", lastUserText: "Hello world" })
+    const result = stage.execute(ctx) as PipelineContext
+    expect(result.aborted).toBe(false)
+    expect(result.modelId).toBe("gpt-4o-mini")
+    expect(result.meta.originalModel).toBe("gpt-4o")
+  })
+
+  it("checks the resolved scope and records it in meta", () => {
+    const breaker = new CostCircuitBreaker({
+      limits: {},
+      action: "stop",
+      scopes: { "gpt-4o": { limits: { perSession: 0 } } },
+    })
+    const stage = createBreakerStage(breaker, {
+      reserveForOutput: 500,
+      scope: (ctx) => ctx.modelId,
+    })
+    const blocked = stage.execute(makeCtx({ modelId: "gpt-4o", lastUserText: "Hi there" }))
+    expect((blocked as PipelineContext).aborted).toBe(true)
+    expect((blocked as PipelineContext).meta.breakerScope).toBe("gpt-4o")
+    const allowed = stage.execute(makeCtx({ modelId: "gpt-4o-mini", lastUserText: "Hi there" }))
+    expect((allowed as PipelineContext).aborted).toBe(false)
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -354,6 +387,56 @@ describe("createCacheStage", () => {
     expect(result.aborted).toBe(false)
     expect(result.meta.cacheHit).toBeUndefined()
   })
+
+  it("skips the lookup when an earlier stage marked the request uncacheable", async () => {
+    const cache = new ResponseCache()
+    await cache.store("Hello", "World response", "gpt-4o-mini", 5, 10)
+    const stage = createCacheStage(cache)
+    const result = await stage.execute(makeCtx({ meta: { cacheSkipped: true } }))
+    expect(result.aborted).toBe(false)
+    expect(result.meta.cacheHit).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Pre-built stages: createPiiStage
+// ---------------------------------------------------------------------------
+
+describe("createPiiStage", () => {
+  const piiCtx = () =>
+    makeCtx({
+      messages: [{ role: "user", content: "Email jane@example.com" }],
+      lastUserText: "Email jane@example.com",
+    })
+
+  it("passes clean prompts through untouched", () => {
+    const stage = createPiiStage(new PiiScanner())
+    const result = stage.execute(makeCtx()) as PipelineContext
+    expect(result.meta).toEqual({})
+  })
+
+  it("marks the request uncacheable and stores a redacted prompt by default", () => {
+    const stage = createPiiStage(new PiiScanner())
+    const result = stage.execute(piiCtx()) as PipelineContext
+    expect(result.meta.piiTypes).toEqual(["email"])
+    expect(result.meta.cacheSkipped).toBe(true)
+    expect(result.meta.redactedText).toBe("Email [EMAIL]")
+  })
+
+  it("aborts when the policy is block", () => {
+    const stage = createPiiStage(new PiiScanner({ policy: "block" }))
+    const result = stage.execute(piiCtx()) as PipelineContext
+    expect(result.aborted).toBe(true)
+    expect(result.abortReason).toContain("email")
+  })
+
+  it("masks messages and records the placeholders", () => {
+    const stage = createPiiStage(new PiiScanner({ policy: "mask-before-send" }))
+    const result = stage.execute(piiCtx()) as PipelineContext
+    expect(result.messages[0].content).toBe("Email [EMAIL_1]")
+    expect(result.meta.piiPlaceholders).toEqual({ "[EMAIL_1]": "jane@example.com" })
+    expect(result.meta.cacheSkipped).toBe(true)
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -26,6 +26,7 @@ import { optimizePrefix } from "./prefix-optimizer"
 import { MODEL_PRICING, estimateCost } from "./cost-estimator"
 import { CostCircuitBreaker } from "./circuit-breaker"
 import { UserBudgetManager } from "./user-budget-manager"
+import { PiiScanner } from "./pii-scanner"
 
 // -------------------------------------------------------
 // Types
@@ -56,10 +57,51 @@ export type PipelineHook = {
 // Pre-built stages
 // -------------------------------------------------------
 
-/** Stage 1: Circuit breaker -- blocks when session/time spending limits are exceeded. */
+/**
+ * Stage 0: PII scan -- applies the scanner's policies to the messages.
+ * Blocks, marks the request uncacheable (`meta.cacheSkipped`), stores a
+ * redacted prompt for logging (`meta.redactedText`) and/or masks the
+ * messages (`meta.piiPlaceholders` restores them in the response). Masked
+ * requests are marked uncacheable too.
+ */
+export function createPiiStage(scanner: PiiScanner): PipelineStage {
+  return {
+    name: "pii",
+    execute(ctx) {
+      if (ctx.aborted) return ctx
+      const result = scanner.check(ctx.messages.map((m) => m.content))
+      if (result.types.length === 0) return ctx
+      ctx.meta.piiTypes = result.types
+      if (result.policies.includes("block")) {
+        ctx.aborted = true
+        ctx.abortReason = `Prompt contains sensitive data (${result.types.join(", ")})`
+        return ctx
+      }
+      if (result.policies.includes("skip-cache") || result.policies.includes("mask-before-send")) {
+        ctx.meta.cacheSkipped = true
+      }
+      if (result.policies.includes("redact-before-log")) {
+        ctx.meta.redactedText = scanner.redact(ctx.lastUserText)
+      }
+      if (result.policies.includes("mask-before-send")) {
+        const masked = scanner.mask(ctx.messages.map((m) => m.content))
+        ctx.messages = ctx.messages.map((m, i) => ({ ...m, content: masked.texts[i] }))
+        ctx.meta.piiPlaceholders = masked.placeholders
+      }
+      return ctx
+    },
+  }
+}
+
+/**
+ * Stage 1: Circuit breaker -- blocks when session/time spending limits are
+ * exceeded, or switches to the fallback model with the "downgrade" action.
+ * With `scope`, the request is also checked against that scope's limits;
+ * the key is kept in `meta.breakerScope` for recordSpend().
+ */
 export function createBreakerStage(
   breaker: CostCircuitBreaker,
-  config: { reserveForOutput: number },
+  config: { reserveForOutput: number; scope?: (ctx: PipelineContext) => string | undefined },
 ): PipelineStage {
   return {
     name: "breaker",
@@ -67,10 +109,15 @@ export function createBreakerStage(
       if (ctx.aborted) return ctx
       if (!ctx.lastUserText) return ctx
       const estimatedInput = countTokens(ctx.lastUserText)
-      const check = breaker.check(ctx.modelId, estimatedInput, config.reserveForOutput)
+      const scope = config.scope?.(ctx)
+      if (scope !== undefined) ctx.meta.breakerScope = scope
+      const check = breaker.check(ctx.modelId, estimatedInput, config.reserveForOutput, scope)
       if (!check.allowed) {
         ctx.aborted = true
         ctx.abortReason = check.reason ?? "Budget exceeded (circuit breaker)"
+      } else if (check.downgradeTo && check.downgradeTo !== ctx.modelId) {
+        if (!ctx.meta.originalModel) ctx.meta.originalModel = ctx.modelId
+        ctx.modelId = check.downgradeTo
       }
       return ctx
     },
@@ -157,7 +204,7 @@ export function createCacheStage(cache: ResponseCache): PipelineStage {
   return {
     name: "cache",
     async execute(ctx) {
-      if (ctx.aborted) return ctx
+      if (ctx.aborted || ctx.meta.cacheSkipped) return ctx
       if (!ctx.lastUserText) return ctx
       const lookup = await cache.lookup(ctx.lastUserText, ctx.modelId)
       if (lookup.hit && lookup.entry) {
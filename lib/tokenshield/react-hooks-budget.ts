@@ -8,7 +8,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from "react"
-import { CostCircuitBreaker } from "./circuit-breaker"
+import { CostCircuitBreaker, type BreakerState, type BreakerStatus } from "./circuit-breaker"
 import { UserBudgetManager, type UserBudgetStatus } from "./user-budget-manager"
 import { subscribeToEvent } from "./event-bus"
 import { useTokenShield } from "./react-context"
@@ -116,30 +116,78 @@ export function useFeatureCost(featureName: string): LedgerSnapshot {
 // Circuit Breaker Budget Alert
 // -------------------------------------------------------
 
-/**
- * Subscribe to circuit breaker events for budget warnings.
- * Polls the breaker's status every 2 seconds and returns
- * derived budget alert values.
- */
-export function useBudgetAlert(breaker?: CostCircuitBreaker): {
+type BudgetAlertState = {
   isOverBudget: boolean
   currentSpend: number
   limit: number
   percentUsed: number
   limitType: string | null
+  /** What `currentSpend` and `limit` count: dollars, or tokens for a tripped token quota */
+  unit: "usd" | "tokens"
+}
+
+/** Alert values for one breaker status: the worst tripped limit, else the fullest one */
+function budgetAlertFor(status: BreakerStatus): BudgetAlertState {
+  if (status.trippedLimits.length > 0) {
+    const worst = status.trippedLimits.reduce((a, b) => (a.percentUsed >= b.percentUsed ? a : b))
+    return {
+      isOverBudget: status.tripped,
+      currentSpend: worst.currentSpend,
+      limit: worst.limit,
+      percentUsed: worst.percentUsed,
+      limitType: worst.limitType,
+      unit: worst.unit ?? "usd",
+    }
+  }
+
+  const { spend, remaining } = status
+  const windows = [
+    { type: "session", spent: spend.session, left: remaining.session },
+    { type: "hour", spent: spend.lastHour, left: remaining.hour },
+    { type: "day", spent: spend.lastDay, left: remaining.day },
+    { type: "month", spent: spend.lastMonth, left: remaining.month },
+  ]
+
+  const alert: BudgetAlertState = {
+    isOverBudget: false,
+    currentSpend: 0,
+    limit: 0,
+    percentUsed: 0,
+    limitType: null,
+    unit: "usd",
+  }
+  for (const w of windows) {
+    if (w.left === null) continue
+    const limit = w.spent + w.left
+    const pct = limit > 0 ? (w.spent / limit) * 100 : 0
+    if (pct > alert.percentUsed) {
+      alert.percentUsed = pct
+      alert.currentSpend = w.spent
+      alert.limit = limit
+      alert.limitType = w.type
+    }
+  }
+  return alert
+}
+
+/**
+ * Subscribe to circuit breaker events for budget warnings.
+ * Polls the breaker's status every 2 seconds and returns
+ * derived budget alert values, overall and per breaker scope.
+ */
+export function useBudgetAlert(breaker?: CostCircuitBreaker): BudgetAlertState & {
+  scopes: Record<string, BudgetAlertState & { state: BreakerState }>
 } {
-  const [budgetState, setBudgetState] = useState<{
-    isOverBudget: boolean
-    currentSpend: number
-    limit: number
-    percentUsed: number
-    limitType: string | null
-  }>({
+  const [budgetState, setBudgetState] = useState<
+    BudgetAlertState & { scopes: Record<string, BudgetAlertState & { state: BreakerState }> }
+  >({
     isOverBudget: false,
     currentSpend: 0,
     limit: 0,
     percentUsed: 0,
     limitType: null,
+    unit: "usd",
+    scopes: {},
   })
 
   useEffect(() => {
@@ -147,76 +195,13 @@ export function useBudgetAlert(breaker?: CostCircuitBreaker): {
 
     function poll() {
       const status = breaker!.getStatus()
-
-      if (status.trippedLimits.length > 0) {
-        const worst = status.trippedLimits.reduce((a, b) =>
-          a.percentUsed >= b.percentUsed ? a : b,
-        )
-        setBudgetState({
-          isOverBudget: status.tripped,
-          currentSpend: worst.currentSpend,
-          limit: worst.limit,
-          percentUsed: worst.percentUsed,
-          limitType: worst.limitType,
-        })
-      } else {
-        const spend = status.spend
-        const remaining = status.remaining
-
-        let highestPercent = 0
-        let highestSpend = 0
-        let highestLimit = 0
-        let highestType: string | null = null
-
-        if (remaining.session !== null) {
-          const limit = spend.session + remaining.session
-          const pct = limit > 0 ? (spend.session / limit) * 100 : 0
-          if (pct > highestPercent) {
-            highestPercent = pct
-            highestSpend = spend.session
-            highestLimit = limit
-            highestType = "session"
-          }
-        }
-        if (remaining.hour !== null) {
-          const limit = spend.lastHour + remaining.hour
-          const pct = limit > 0 ? (spend.lastHour / limit) * 100 : 0
-          if (pct > highestPercent) {
-            highestPercent = pct
-            highestSpend = spend.lastHour
-            highestLimit = limit
-            highestType = "hour"
-          }
-        }
-        if (remaining.day !== null) {
-          const limit = spend.lastDay + remaining.day
-          const pct = limit > 0 ? (spend.lastDay / limit) * 100 : 0
-          if (pct > highestPercent) {
-            highestPercent = pct
-            highestSpend = spend.lastDay
-            highestLimit = limit
-            highestType = "day"
-          }
-        }
-        if (remaining.month !== null) {
-          const limit = spend.lastMonth + remaining.month
-          const pct = limit > 0 ? (spend.lastMonth / limit) * 100 : 0
-          if (pct > highestPercent) {
-            highestPercent = pct
-            highestSpend = spend.lastMonth
-            highestLimit = limit
-            highestType = "month"
-          }
-        }
-
-        setBudgetState({
-          isOverBudget: false,
-          currentSpend: highestSpend,
-          limit: highestLimit,
-          percentUsed: highestPercent,
-          limitType: highestType,
-        })
-      }
+      const scopes = Object.fromEntries(
+        Object.entries(status.scopes).map(([scope, s]) => [
+          scope,
+          { ...budgetAlertFor(s), state: s.state },
+        ]),
+      )
+      setBudgetState({ ...budgetAlertFor(status), scopes })
     }
 
     poll()
@@ -234,7 +219,8 @@ export function useBudgetAlert(breaker?: CostCircuitBreaker): {
 /**
  * Track per-user budget status in real time.
  * Subscribes to a UserBudgetManager instance and returns the current
- * budget state for the given userId.
+ * budget state for the given userId. `remaining` includes rollover and
+ * grace; `inGrace` flags spend running past a limit on grace.
  */
 export function useUserBudget(manager: UserBudgetManager, userId: string): UserBudgetStatus {
   const getSnapshot = useCallback(() => manager.getStatus(userId), [manager, userId])
@@ -5,6 +5,7 @@ import {
   useRequestGuard,
   useEventLog,
   useProviderHealth,
+  useCacheStats,
   usePipelineMetrics,
   type EventLogEntry,
   type PipelineMetrics,
@@ -32,6 +33,10 @@ describe("react-hooks-pipeline", () => {
       expect(typeof useProviderHealth).toBe("function")
     })
 
+    it("exports useCacheStats as a function", () => {
+      expect(typeof useCacheStats).toBe("function")
+    })
+
     it("exports usePipelineMetrics as a function", () => {
       expect(typeof usePipelineMetrics).toBe("function")
     })
@@ -14,6 +14,7 @@ import { calculateSavings } from "./cost-estimator"
 import type { GuardResult } from "./request-guard"
 import { subscribeToAnyEvent, type TokenShieldEvents } from "./event-bus"
 import type { ProviderAdapter, ProviderHealth } from "./provider-adapter"
+import type { ResponseCache } from "./response-cache"
 import { useTokenShield } from "./react-context"
 
 // -------------------------------------------------------
@@ -210,21 +211,35 @@ export function useEventLog(maxEntries = 50): EventLogEntry[] {
       "cache:hit",
       "cache:miss",
       "cache:store",
+      "cache:invalidated",
       "context:trimmed",
       "router:downgraded",
       "ledger:entry",
       "breaker:warning",
       "breaker:tripped",
+      "breaker:halfOpen",
+      "breaker:recovered",
+      "control:paused",
+      "control:resumed",
+      "control:overrideGranted",
       "userBudget:warning",
       "userBudget:exceeded",
+      "userBudget:grace",
       "userBudget:spend",
+      "userBudget:credit",
+      "userBudget:insufficientCredits",
       "stream:chunk",
       "stream:abort",
       "stream:complete",
       "anomaly:detected",
+      "anomaly:actionApplied",
+      "anomaly:actionExpired",
       "router:holdback",
       "compressor:applied",
       "delta:applied",
+      "pii:detected",
+      "loop:detected",
+      "loop:hintInjected",
     ]
 
     const handlers: Array<() => void> = []
@@ -282,6 +297,37 @@ export function useProviderHealth(adapter?: ProviderAdapter): ProviderHealth[] {
   return health
 }
 
+// -------------------------------------------------------
+// Cache Stats Hook
+// -------------------------------------------------------
+
+export type CacheStats = ReturnType<ResponseCache["stats"]>
+
+/**
+ * Poll a ResponseCache's stats (hit rate, stale hits, feedback verdicts)
+ * every 2 seconds. Pass the middleware's `shield.cache`.
+ */
+export function useCacheStats(cache?: ResponseCache | null): CacheStats | null {
+  const [stats, setStats] = useState<CacheStats | null>(null)
+
+  useEffect(() => {
+    if (!cache) {
+      setStats(null)
+      return
+    }
+
+    function poll() {
+      setStats(cache!.stats())
+    }
+
+    poll()
+    const interval = setInterval(poll, 2000)
+    return () => clearInterval(interval)
+  }, [cache])
+
+  return stats
+}
+
 // -------------------------------------------------------
 // Pipeline Metrics Hook
 // -------------------------------------------------------
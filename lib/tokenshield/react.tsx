@@ -52,7 +52,9 @@ export {
   useRequestGuard,
   useEventLog,
   useProviderHealth,
+  useCacheStats,
   usePipelineMetrics,
+  type CacheStats,
   type EventLogEntry,
   type PipelineMetrics,
 } from "./react-hooks-pipeline"
@@ -67,5 +69,6 @@ export {
   UserBudgetSection,
   EventLogSection,
   ProviderHealthSection,
+  CacheSection,
   PipelineMetricsSection,
 } from "./dashboard-sections"
@@ -446,6 +446,13 @@ export class RequestGuard {
     }
   }
 
+  /**
+   * The resolved configuration, defaults included.
+   */
+  getConfig(): Readonly<GuardConfig> {
+    return { ...this.config }
+  }
+
   /**
    * Update configuration at runtime.
    */
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from "vitest"
 import { normalizeText, textSimilarity, ResponseCache } from "./response-cache"
+import { createMemoryBackend } from "./storage-adapter"
+import { createHashingEmbedder, type Embedder } from "./embedding-index"
 
 describe("response-cache", () => {
   describe("normalizeText", () => {
@@ -175,6 +177,49 @@ describe("response-cache", () => {
       }
     })
 
+    it("serves entries inside the stale-while-revalidate window flagged as stale", async () => {
+      vi.useFakeTimers()
+      try {
+        const cache = new ResponseCache({
+          maxEntries: 10,
+          ttlMs: 1000,
+          staleWhileRevalidateMs: { general: 5000 },
+        })
+        await cache.store("explain closures", "A closure captures scope.", "gpt-4o-mini", 10, 20)
+
+        const fresh = await cache.lookup("explain closures", "gpt-4o-mini")
+        expect(fresh.hit).toBe(true)
+        expect(fresh.stale).toBeUndefined()
+
+        vi.advanceTimersByTime(2000)
+        const stale = await cache.lookup("explain closures", "gpt-4o-mini")
+        expect(stale.hit).toBe(true)
+        expect(stale.stale).toBe(true)
+        expect(cache.peek("explain closures", "gpt-4o-mini").stale).toBe(true)
+        expect(cache.stats().staleHits).toBe(1)
+
+        vi.advanceTimersByTime(5000)
+        expect((await cache.lookup("explain closures", "gpt-4o-mini")).hit).toBe(false)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("revalidate() runs one refresh per key at a time", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      let release!: () => void
+      const refresh = vi.fn(() => new Promise<void>((resolve) => (release = resolve)))
+
+      const first = cache.revalidate("ts_key", refresh)
+      expect(first).not.toBeNull()
+      expect(cache.revalidate("ts_key", refresh)).toBeNull()
+      expect(refresh).toHaveBeenCalledTimes(1)
+
+      release()
+      await first
+      expect(cache.revalidate("ts_key", async () => {})).not.toBeNull()
+    })
+
     it("maintains separate caches per model (no cross-contamination)", async () => {
       const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
       await cache.store("What is AI?", "AI is gpt-4o response", "gpt-4o", 10, 20)
@@ -189,6 +234,23 @@ describe("response-cache", () => {
       expect(miniResult.entry?.response).toBe("AI is mini response")
     })
 
+    it("scopes exact and fuzzy matches to the request context key", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, similarityThreshold: 0.8 })
+      await cache.store("Summarize this file", "French summary", "gpt-4o", 10, 20, {
+        contextKey: "ctx-fr",
+      })
+
+      expect(
+        (await cache.lookup("Summarize this file", "gpt-4o", { contextKey: "ctx-fr" })).hit,
+      ).toBe(true)
+      expect(
+        (await cache.lookup("Summarize this file", "gpt-4o", { contextKey: "ctx-de" })).hit,
+      ).toBe(false)
+      expect((await cache.lookup("Summarize this file", "gpt-4o")).hit).toBe(false)
+      expect(cache.peek("Summarize this file!", "gpt-4o", { contextKey: "ctx-de" }).hit).toBe(false)
+      expect(cache.peek("Summarize this file!", "gpt-4o", { contextKey: "ctx-fr" }).hit).toBe(true)
+    })
+
     it("peek returns fuzzy match when threshold < 1", async () => {
       const cache = new ResponseCache({
         maxEntries: 10,
@@ -251,6 +313,31 @@ describe("response-cache", () => {
       // accessCount should be 3, tokens per hit = 150, so 3*150 = 450
       expect(stats.totalSavedTokens).toBe(450)
     })
+
+    it("rejects entries the accept predicate refuses, on both lookup and peek", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await cache.store("give me json", "not json", "gpt-4o-mini", 10, 5)
+      const accept = (entry: { response: string }) => entry.response.startsWith("{")
+
+      expect((await cache.lookup("give me json", "gpt-4o-mini", { accept })).hit).toBe(false)
+      expect(cache.peek("give me json", "gpt-4o-mini", { accept }).hit).toBe(false)
+      expect((await cache.lookup("give me json", "gpt-4o-mini")).hit).toBe(true)
+    })
+
+    it("stores and returns content parts alongside the text", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      const content = [
+        { type: "tool-call", toolCallId: "1", toolName: "weather", args: '{"city":"Paris"}' },
+      ]
+      await cache.store("weather in paris", "", "gpt-4o-mini", 10, 5, {
+        content,
+        finishReason: "tool-calls",
+      })
+      const result = await cache.lookup("weather in paris", "gpt-4o-mini")
+      expect(result.hit).toBe(true)
+      expect(result.entry?.content).toEqual(content)
+      expect(result.entry?.finishReason).toBe("tool-calls")
+    })
   })
 
   describe("ResponseCache (holographic encoding)", () => {
@@ -302,4 +389,618 @@ describe("response-cache", () => {
       expect(typeof result.hit).toBe("boolean")
     })
   })
+
+  describe("feedback", () => {
+    it("evicts an exact match reported bad by request ID", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await cache.store("What is the refund policy?", "No refunds.", "gpt-4o-mini", 10, 5)
+      const hit = await cache.lookup("What is the refund policy?", "gpt-4o-mini", {
+        requestId: "req-1",
+      })
+      expect(hit.matchType).toBe("exact")
+
+      const result = await cache.reportFeedback("req-1", "bad")
+      expect(result).toEqual({ found: true, action: "evicted", key: hit.entry!.key })
+      expect((await cache.lookup("What is the refund policy?", "gpt-4o-mini")).hit).toBe(false)
+      expect(cache.stats().feedback).toEqual({ good: 0, bad: 1, evictions: 1, demotions: 0 })
+    })
+
+    it("raises the similarity floor when a fuzzy match is reported bad", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, similarityThreshold: 0.6 })
+      await cache.store("how do I reset my password", "Use the reset link.", "gpt-4o-mini", 10, 5)
+      const fuzzy = await cache.lookup("how do I reset my passcode", "gpt-4o-mini", {
+        requestId: "req-2",
+      })
+      expect(fuzzy.matchType).toBe("fuzzy")
+
+      const result = await cache.reportFeedback("req-2", "bad")
+      expect(result.action).toBe("demoted")
+      expect(result.minSimilarity).toBeGreaterThan(fuzzy.similarity!)
+
+      // The same paraphrase no longer matches, but the exact prompt still does
+      expect((await cache.lookup("how do I reset my passcode", "gpt-4o-mini")).hit).toBe(false)
+      expect((await cache.lookup("how do I reset my password", "gpt-4o-mini")).hit).toBe(true)
+    })
+
+    it("evicts a fuzzy-matched entry after maxBadReports", async () => {
+      const cache = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        similarityThreshold: 0.5,
+        feedback: { maxBadReports: 2, thresholdStep: 0.01 },
+      })
+      await cache.store("how do I reset my password", "Use the reset link.", "gpt-4o-mini", 10, 5)
+      await cache.lookup("how do I reset my passcode", "gpt-4o-mini", { requestId: "a" })
+      expect((await cache.reportFeedback("a", "bad")).action).toBe("demoted")
+      await cache.lookup("how can I reset my password", "gpt-4o-mini", { requestId: "b" })
+      expect((await cache.reportFeedback("b", "bad")).action).toBe("evicted")
+      expect(cache.stats().entries).toBe(0)
+    })
+
+    it("lowers the floor again on good feedback and accepts entry keys", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, similarityThreshold: 0.5 })
+      await cache.store("how do I reset my password", "Use the reset link.", "gpt-4o-mini", 10, 5)
+      // Two users get the same entry through different paraphrases
+      const worse = await cache.lookup("how do I reset my passcode", "gpt-4o-mini", {
+        requestId: "a",
+      })
+      const better = await cache.lookup("how can I reset my password", "gpt-4o-mini", {
+        requestId: "b",
+      })
+      expect(better.similarity!).toBeGreaterThan(worse.similarity!)
+
+      const bad = await cache.reportFeedback("a", "bad")
+      expect(bad.minSimilarity!).toBeGreaterThan(better.similarity!)
+      expect((await cache.lookup("how can I reset my password", "gpt-4o-mini")).hit).toBe(false)
+
+      const good = await cache.reportFeedback("b", "good")
+      expect(good.action).toBe("reinforced")
+      expect(good.minSimilarity).toBe(better.similarity)
+      expect((await cache.lookup("how can I reset my password", "gpt-4o-mini")).hit).toBe(true)
+
+      const byKey = await cache.reportFeedback(better.entry!.key, "good")
+      expect(byKey.found).toBe(true)
+      expect(cache.peek("how do I reset my password", "gpt-4o-mini").entry?.feedback).toEqual({
+        good: 2,
+        bad: 1,
+      })
+    })
+
+    it("reports unknown IDs as not found", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      expect(await cache.reportFeedback("missing", "bad")).toEqual({
+        found: false,
+        action: "none",
+      })
+      expect(cache.stats().feedback.bad).toBe(0)
+    })
+  })
+
+  describe("invalidation", () => {
+    async function seeded(backend = createMemoryBackend()) {
+      const onInvalidate = vi.fn()
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend, onInvalidate })
+      await cache.store("price of widget", "$10", "gpt-4o-mini", 10, 5, {
+        tags: ["product:widget", "pricing"],
+      })
+      await cache.store("price of gadget", "$20", "gpt-4o", 10, 5, { tags: ["product:gadget"] })
+      await cache.store("opening hours", "9 to 5", "gpt-4o-mini", 10, 5)
+      return { cache, backend, onInvalidate }
+    }
+
+    it("invalidateByTag removes tagged entries from memory and the persisted store", async () => {
+      const { cache, backend, onInvalidate } = await seeded()
+      expect(await cache.invalidateByTag("product:widget")).toBe(1)
+      expect((await cache.lookup("price of widget", "gpt-4o-mini")).hit).toBe(false)
+      expect((await cache.lookup("price of gadget", "gpt-4o")).hit).toBe(true)
+      expect(await backend.keys()).toHaveLength(2)
+      expect(onInvalidate).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "tag", removed: 1, tags: ["product:widget"] }),
+      )
+    })
+
+    it("invalidateByTag matches any of several tags", async () => {
+      const { cache } = await seeded()
+      expect(await cache.invalidateByTag(["pricing", "product:gadget"])).toBe(2)
+      expect(cache.stats().entries).toBe(1)
+    })
+
+    it("invalidateByModel removes only that model's entries", async () => {
+      const { cache, onInvalidate } = await seeded()
+      expect(await cache.invalidateByModel("gpt-4o-mini")).toBe(2)
+      expect((await cache.lookup("price of gadget", "gpt-4o")).hit).toBe(true)
+      expect(onInvalidate).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "model", model: "gpt-4o-mini", removed: 2 }),
+      )
+    })
+
+    it("invalidateWhere reaches entries that are only in the persisted store", async () => {
+      const { backend } = await seeded()
+      // A fresh instance sharing the backend has nothing in memory yet
+      const other = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend })
+      expect(await other.invalidateWhere((e) => e.response.startsWith("$"))).toBe(2)
+      expect(await backend.keys()).toHaveLength(1)
+    })
+
+    it("invalidateOlderThan accepts an age or a cutoff date", async () => {
+      vi.useFakeTimers()
+      try {
+        const { cache } = await seeded()
+        vi.advanceTimersByTime(10_000)
+        await cache.store("new question", "new answer", "gpt-4o-mini", 10, 5)
+        expect(await cache.invalidateOlderThan(5_000)).toBe(3)
+        expect(await cache.invalidateOlderThan(new Date(Date.now() + 1))).toBe(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("does not call onInvalidate when nothing matched", async () => {
+      const { cache, onInvalidate } = await seeded()
+      expect(await cache.invalidateByTag("unknown")).toBe(0)
+      expect(onInvalidate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("snapshots", () => {
+    it("round-trips entries through a JSON snapshot", async () => {
+      const source = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await source.store("what is react", "A UI library", "gpt-4o-mini", 12, 4, {
+        tags: ["docs"],
+        finishReason: "stop",
+      })
+      const json = await source.exportSnapshot()
+      const parsed = JSON.parse(json)
+      expect(parsed.format).toBe("tokenshield-cache-snapshot")
+      expect(parsed.version).toBe(1)
+      expect(parsed.entries[0]).toMatchObject({
+        prompt: "what is react",
+        contentType: expect.any(String),
+        createdAt: expect.any(Number),
+        key: expect.stringMatching(/^ts_/),
+      })
+
+      const target = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      expect(await target.importSnapshot(json)).toEqual({
+        imported: 1,
+        skipped: 0,
+        expired: 0,
+        invalid: 0,
+      })
+      const hit = await target.lookup("what is react", "gpt-4o-mini")
+      expect(hit.hit).toBe(true)
+      expect(hit.entry?.tags).toEqual(["docs"])
+      expect(hit.entry?.finishReason).toBe("stop")
+    })
+
+    it("exports JSONL with a header line and includes persisted-only entries", async () => {
+      const backend = createMemoryBackend()
+      const writer = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend })
+      await writer.store("alpha question", "a", "gpt-4o-mini", 1, 1)
+      const reader = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend })
+      const lines = (await reader.exportSnapshot({ format: "jsonl" })).trim().split("\n")
+      expect(JSON.parse(lines[0])).toMatchObject({ version: 1, count: 1 })
+      expect(JSON.parse(lines[1]).prompt).toBe("alpha question")
+    })
+
+    it("skips expired entries on export and import", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const cache = new ResponseCache({ maxEntries: 10, ttlMs: 1_000 })
+        await cache.store("old question", "old", "gpt-4o-mini", 1, 1)
+        const snapshot = await cache.exportSnapshot()
+        vi.setSystemTime(Date.now() + 5_000)
+        expect(JSON.parse(await cache.exportSnapshot()).entries).toHaveLength(0)
+        const fresh = new ResponseCache({ maxEntries: 10, ttlMs: 1_000 })
+        expect((await fresh.importSnapshot(snapshot)).expired).toBe(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("resolves conflicts with newest-wins by default and keep-existing on request", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await cache.store("capital of france", "Paris (live)", "gpt-4o-mini", 5, 2)
+      const now = Date.now()
+      const older = [{ prompt: "capital of france", response: "old", createdAt: now - 1_000 }]
+      const newer = [{ prompt: "capital of france", response: "new", createdAt: now + 1_000 }]
+
+      expect((await cache.warm(older, { model: "gpt-4o-mini" })).skipped).toBe(1)
+      expect(
+        (await cache.warm(newer, { model: "gpt-4o-mini", conflict: "keep-existing" })).skipped,
+      ).toBe(1)
+      expect((await cache.lookup("capital of france", "gpt-4o-mini")).entry?.response).toBe(
+        "Paris (live)",
+      )
+
+      expect((await cache.warm(newer, { model: "gpt-4o-mini" })).imported).toBe(1)
+      expect((await cache.lookup("capital of france", "gpt-4o-mini")).entry?.response).toBe("new")
+    })
+
+    it("warms from JSONL text, estimating missing token counts", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      const corpus = [
+        JSON.stringify({ prompt: "how do hooks work", response: "They run on render" }),
+        JSON.stringify({ prompt: "missing response" }),
+        JSON.stringify({ prompt: "what is jsx", response: "Syntax sugar", model: "gpt-4o" }),
+      ].join("\n")
+      const result = await cache.warm(corpus, { model: "gpt-4o-mini" })
+      expect(result).toMatchObject({ imported: 2, invalid: 1 })
+      const hit = await cache.lookup("how do hooks work", "gpt-4o-mini")
+      expect(hit.entry?.inputTokens).toBeGreaterThan(0)
+      expect((await cache.lookup("what is jsx", "gpt-4o")).hit).toBe(true)
+    })
+
+    it("recomputes keys instead of trusting the snapshot", async () => {
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await cache.importSnapshot({
+        format: "tokenshield-cache-snapshot",
+        version: 1,
+        exportedAt: Date.now(),
+        entries: [
+          {
+            key: "stale-hash",
+            prompt: "define latency",
+            response: "Delay",
+            model: "gpt-4o-mini",
+          } as never,
+        ],
+      })
+      const hit = await cache.lookup("define latency", "gpt-4o-mini")
+      expect(hit.entry?.key).toMatch(/^ts_/)
+    })
+
+    it("rejects snapshots from a newer schema version", async () => {
+      const cache = new ResponseCache()
+      const data = JSON.stringify({
+        format: "tokenshield-cache-snapshot",
+        version: 99,
+        entries: [],
+      })
+      await expect(cache.importSnapshot(data)).rejects.toMatchObject({
+        code: "SNAPSHOT_VERSION_UNSUPPORTED",
+      })
+    })
+
+    it("rebuilds the holographic index so imported entries match paraphrases", async () => {
+      const source = new ResponseCache({ maxEntries: 10, ttlMs: 60_000 })
+      await source.store("how do I reset my password", "Use the reset link", "gpt-4o-mini", 8, 4)
+      const snapshot = await source.exportSnapshot()
+
+      const target = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        encodingStrategy: "holographic",
+      })
+      const learn = vi.spyOn(
+        (target as unknown as { holoEngine: { learn: (...args: unknown[]) => Promise<void> } })
+          .holoEngine,
+        "learn",
+      )
+      await target.importSnapshot(snapshot)
+      expect(learn).toHaveBeenCalledTimes(1)
+      expect(learn.mock.calls[0][0]).toBe("how do I reset my password")
+    })
+  })
+
+  describe("minhash encoding", () => {
+    const prompt = "how do I reset the password on my account"
+    const paraphrase = "how do I reset the password on my account please"
+
+    function minhashCache(config: Partial<ConstructorParameters<typeof ResponseCache>[0]> = {}) {
+      return new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        encodingStrategy: "minhash",
+        ...config,
+      })
+    }
+
+    function indexSize(cache: ResponseCache): number {
+      return (cache as unknown as { minhash: { size: number } }).minhash.size
+    }
+
+    it("finds fuzzy matches through LSH candidates verified by textSimilarity", async () => {
+      const cache = minhashCache()
+      await cache.store(prompt, "Use the reset link", "gpt-4o-mini", 10, 5)
+      await cache.store("what are your opening hours on weekends", "9 to 5", "gpt-4o-mini", 10, 5)
+      const result = await cache.lookup(paraphrase, "gpt-4o-mini")
+      expect(result.hit).toBe(true)
+      expect(result.matchType).toBe("fuzzy")
+      expect(result.similarity).toBeCloseTo(textSimilarity(paraphrase, prompt))
+      expect(cache.peek(paraphrase, "gpt-4o-mini").hit).toBe(true)
+      expect((await cache.lookup(paraphrase, "gpt-4o")).hit).toBe(false)
+    })
+
+    it("keeps the index in sync with LRU eviction and invalidation", async () => {
+      const cache = minhashCache({ maxEntries: 2 })
+      await cache.store(prompt, "a", "gpt-4o-mini", 1, 1)
+      await cache.store("tell me a story about a brave little toaster", "b", "gpt-4o-mini", 1, 1)
+      await cache.store("what are your opening hours on weekends", "c", "gpt-4o-mini", 1, 1)
+      expect(indexSize(cache)).toBe(2)
+      expect((await cache.lookup(paraphrase, "gpt-4o-mini")).hit).toBe(false)
+
+      await cache.invalidateWhere((entry) => entry.response === "c")
+      expect(indexSize(cache)).toBe(1)
+    })
+
+    it("drops expired entries from the index on lookup", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const cache = minhashCache({ ttlMs: 1_000 })
+        await cache.store(prompt, "a", "gpt-4o-mini", 1, 1)
+        vi.setSystemTime(Date.now() + 5_000)
+        expect((await cache.lookup(paraphrase, "gpt-4o-mini")).hit).toBe(false)
+        expect(indexSize(cache)).toBe(0)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("indexes hydrated and imported entries", async () => {
+      const backend = createMemoryBackend()
+      await minhashCache({ backend }).store(prompt, "a", "gpt-4o-mini", 1, 1)
+
+      const hydrated = minhashCache({ backend })
+      expect(await hydrated.hydrate()).toBe(1)
+      expect((await hydrated.lookup(paraphrase, "gpt-4o-mini")).hit).toBe(true)
+
+      const imported = minhashCache()
+      await imported.importSnapshot(await hydrated.exportSnapshot())
+      expect(indexSize(imported)).toBe(1)
+      expect((await imported.lookup(paraphrase, "gpt-4o-mini")).hit).toBe(true)
+    })
+  })
+
+  describe("embeddings", () => {
+    /** Maps known paraphrases onto the same axis, like a real embedding model would */
+    function topicEmbedder(): Embedder & { calls: string[] } {
+      const calls: string[] = []
+      return {
+        id: "topics-v1",
+        model: "text-embedding-3-small",
+        calls,
+        embed(text: string) {
+          calls.push(text)
+          const cancel = /cancel|end my subscription/.test(text) ? 1 : 0
+          return new Float32Array([cancel, 1 - cancel, 0.01])
+        },
+      }
+    }
+
+    it("matches paraphrases by cosine similarity and reports embed usage", async () => {
+      const onEmbedding = vi.fn()
+      const embedder = topicEmbedder()
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, embedder, onEmbedding })
+      await cache.store("how do I cancel my plan", "Go to Billing", "gpt-4o-mini", 10, 5)
+
+      const result = await cache.lookup("steps to end my subscription", "gpt-4o-mini")
+      expect(result.hit).toBe(true)
+      expect(result.matchType).toBe("fuzzy")
+      expect(result.similarity).toBeGreaterThan(0.99)
+      expect(onEmbedding).toHaveBeenCalledWith(
+        expect.objectContaining({ embedderId: "topics-v1", purpose: "lookup" }),
+      )
+      expect(onEmbedding.mock.calls[0][0]).toMatchObject({
+        purpose: "store",
+        model: "text-embedding-3-small",
+      })
+    })
+
+    it("stores a missed prompt with the lookup's embedding instead of re-embedding", async () => {
+      const embedder = topicEmbedder()
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, embedder })
+      await cache.store("how do I cancel my plan", "Go to Billing", "gpt-4o-mini", 10, 5)
+
+      const miss = await cache.lookup("what are your opening hours", "gpt-4o-mini")
+      expect(miss.hit).toBe(false)
+      expect(miss.embedding).toMatchObject({ embedderId: "topics-v1" })
+      await cache.store("what are your opening hours", "9 to 5", "gpt-4o-mini", 10, 5, {
+        embedding: miss.embedding,
+      })
+      expect(embedder.calls).toEqual(["how do I cancel my plan", "what are your opening hours"])
+      expect((await cache.lookup("what are your opening hours", "gpt-4o-mini")).hit).toBe(true)
+    })
+
+    it("respects embeddingThreshold, model scoping and expiry", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const cache = new ResponseCache({
+          maxEntries: 10,
+          ttlMs: 1_000,
+          embedder: createHashingEmbedder(),
+          embeddingThreshold: 0.95,
+        })
+        await cache.store("how do I cancel my plan", "Go to Billing", "gpt-4o-mini", 10, 5)
+        expect((await cache.lookup("can you cancel the plan", "gpt-4o-mini")).hit).toBe(true)
+        expect((await cache.lookup("can you cancel the plan", "gpt-4o")).hit).toBe(false)
+        vi.setSystemTime(Date.now() + 5_000)
+        expect((await cache.lookup("can you cancel the plan", "gpt-4o-mini")).hit).toBe(false)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("persists vectors with entries so hydrate skips re-embedding", async () => {
+      const backend = createMemoryBackend()
+      const writer = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        backend,
+        embedder: topicEmbedder(),
+      })
+      await writer.store("how do I cancel my plan", "Go to Billing", "gpt-4o-mini", 10, 5)
+      const [key] = await backend.keys()
+      expect(
+        ((await backend.get(key)) as { embedding?: { embedderId: string } }).embedding,
+      ).toMatchObject({
+        embedderId: "topics-v1",
+      })
+
+      const embedder = topicEmbedder()
+      const reader = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend, embedder })
+      await reader.hydrate()
+      expect(embedder.calls).toEqual([])
+      expect((await reader.lookup("steps to end my subscription", "gpt-4o-mini")).hit).toBe(true)
+    })
+
+    it("falls back to text matching when the embedder fails", async () => {
+      const onEmbeddingError = vi.fn()
+      const cache = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        onEmbeddingError,
+        embedder: {
+          id: "broken",
+          embed: () => {
+            throw new Error("offline")
+          },
+        },
+      })
+      await cache.store("what is the capital of france", "Paris", "gpt-4o-mini", 5, 1)
+      expect(onEmbeddingError).toHaveBeenCalled()
+      expect((await cache.lookup("what is the capital of france?", "gpt-4o-mini")).hit).toBe(true)
+    })
+  })
+
+  describe("byte budget and compression", () => {
+    const big = (label: string) => `${label}: ${"lorem ipsum dolor sit amet ".repeat(40)}`
+
+    it("tracks bytes and evicts by size when over maxBytes", async () => {
+      const cache = new ResponseCache({ maxEntries: 100, ttlMs: 60_000, maxBytes: 2_500 })
+      await cache.store("short one", "ok", "gpt-4o-mini", 1, 1)
+      await cache.store("short two", "ok", "gpt-4o-mini", 1, 1)
+      expect(cache.stats().bytes).toBeGreaterThan(0)
+      expect(cache.stats().avgEntryBytes).toBeCloseTo(cache.stats().bytes / 2)
+
+      await cache.store("long one", big("a"), "gpt-4o-mini", 1, 300)
+      await cache.store("long two", big("b"), "gpt-4o-mini", 1, 300)
+      const stats = cache.stats()
+      expect(stats.bytes).toBeLessThanOrEqual(2_500)
+      expect(stats.evictions.bytes).toBe(1)
+      // The large entry went first; the small ones survive
+      expect((await cache.lookup("long one", "gpt-4o-mini")).hit).toBe(false)
+      expect((await cache.lookup("short one", "gpt-4o-mini")).hit).toBe(true)
+    })
+
+    it("skips entries larger than the whole budget", async () => {
+      const cache = new ResponseCache({ maxEntries: 100, ttlMs: 60_000, maxBytes: 500 })
+      await cache.store("small", "ok", "gpt-4o-mini", 1, 1)
+      await cache.store("huge", big("x"), "gpt-4o-mini", 1, 300)
+      expect(cache.stats().entries).toBe(1)
+      expect(cache.stats().evictions.bytes).toBe(1)
+    })
+
+    it("evicts the least frequently used entry under the lfu policy", async () => {
+      const cache = new ResponseCache({
+        maxEntries: 2,
+        ttlMs: 60_000,
+        similarityThreshold: 1,
+        evictionPolicy: "lfu",
+      })
+      await cache.store("popular question", "a", "gpt-4o-mini", 1, 1)
+      await cache.store("rare question", "b", "gpt-4o-mini", 1, 1)
+      await cache.lookup("popular question", "gpt-4o-mini")
+      await cache.lookup("popular question", "gpt-4o-mini")
+      await cache.lookup("rare question", "gpt-4o-mini")
+      await cache.store("new question", "c", "gpt-4o-mini", 1, 1)
+      expect((await cache.lookup("popular question", "gpt-4o-mini")).hit).toBe(true)
+      expect((await cache.lookup("rare question", "gpt-4o-mini")).hit).toBe(false)
+      expect(cache.stats().evictions.capacity).toBe(1)
+    })
+
+    it("counts evictions by reason", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      try {
+        const cache = new ResponseCache({ maxEntries: 10, ttlMs: 1_000, similarityThreshold: 1 })
+        await cache.store("expiring", "a", "gpt-4o-mini", 1, 1)
+        await cache.store("tagged", "b", "gpt-4o-mini", 1, 1, { tags: ["t"] })
+        await cache.invalidateByTag("t")
+        vi.setSystemTime(Date.now() + 5_000)
+        await cache.lookup("expiring", "gpt-4o-mini")
+        expect(cache.stats().evictions).toMatchObject({ expired: 1, invalidated: 1 })
+        expect(cache.stats().bytes).toBe(0)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("compresses persisted responses and reads them back transparently", async () => {
+      const backend = createMemoryBackend()
+      const response = big("answer")
+      const writer = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        backend,
+        compression: true,
+      })
+      await writer.store("explain lorem ipsum", response, "gpt-4o-mini", 5, 300)
+      await writer.store("tiny", "ok", "gpt-4o-mini", 1, 1)
+
+      const stored = await Promise.all((await backend.keys()).map((k) => backend.get(k)))
+      const compressed = stored.find((e) => (e as { compressed?: unknown }).compressed) as {
+        response: string
+        compressed: { codec: string }
+      }
+      expect(compressed.response).toBe("")
+      expect(["gzip", "lzw"]).toContain(compressed.compressed.codec)
+      expect(stored.filter((e) => (e as { compressed?: unknown }).compressed)).toHaveLength(1)
+      expect(writer.stats().bytes).toBeLessThan(response.length)
+
+      const reader = new ResponseCache({
+        maxEntries: 10,
+        ttlMs: 60_000,
+        backend,
+        compression: true,
+      })
+      expect((await reader.lookup("explain lorem ipsum", "gpt-4o-mini")).entry?.response).toBe(
+        response,
+      )
+      const hydrated = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend })
+      await hydrated.hydrate()
+      expect(JSON.parse(await hydrated.exportSnapshot()).entries[0].response).toBeDefined()
+      expect((await hydrated.lookup("explain lorem ipsum", "gpt-4o-mini")).entry?.response).toBe(
+        response,
+      )
+    })
+  })
+
+  describe("encryption", () => {
+    const newKey = () =>
+      crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"])
+
+    it("persists entries encrypted and reads them back with the same key", async () => {
+      const backend = createMemoryBackend()
+      const encryption = { mode: "key" as const, key: await newKey() }
+      const writer = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend, encryption })
+      await writer.store("what is my account number", "It is 4242-0000", "gpt-4o-mini", 5, 5)
+
+      const [key] = await backend.keys()
+      const raw = JSON.stringify(await backend.get(key))
+      expect(raw).not.toContain("4242")
+      expect(raw).not.toContain("account number")
+      expect(await backend.ttl(key)).toBeGreaterThan(0)
+
+      const reader = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend, encryption })
+      await reader.hydrate()
+      expect(
+        (await reader.lookup("what is my account number", "gpt-4o-mini")).entry?.response,
+      ).toBe("It is 4242-0000")
+    })
+
+    it("migrates plaintext entries written before encryption was enabled", async () => {
+      const backend = createMemoryBackend()
+      const plain = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend })
+      await plain.store("legacy prompt", "legacy answer", "gpt-4o-mini", 5, 5)
+
+      const encryption = { mode: "key" as const, key: await newKey() }
+      const cache = new ResponseCache({ maxEntries: 10, ttlMs: 60_000, backend, encryption })
+      expect((await cache.lookup("legacy prompt", "gpt-4o-mini")).entry?.response).toBe(
+        "legacy answer",
+      )
+      await new Promise((r) => setTimeout(r, 10))
+      const [key] = await backend.keys()
+      expect(JSON.stringify(await backend.get(key))).not.toContain("legacy answer")
+    })
+  })
 })
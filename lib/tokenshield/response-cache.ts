@@ -11,8 +11,28 @@
  * npm dependencies: idb-keyval
  */
 
-import { get, set, del, keys, createStore } from "./storage-adapter"
+import { get, set, del, keys, createStore, type StorageBackend } from "./storage-adapter"
+import { EncryptedStore, type EncryptionConfig } from "./crypto-store"
 import { NeuroElasticEngine } from "./neuro-elastic"
+import { SemanticMinHashIndex } from "./semantic-minhash"
+import { VectorIndex, type Embedder, type EmbeddingUsage } from "./embedding-index"
+import {
+  compressText,
+  decompressText,
+  jsonByteSize,
+  type CompressedText,
+} from "./cache-compression"
+import { countFast } from "./token-counter"
+import {
+  parseSnapshot,
+  serializeSnapshot,
+  toWarmEntry,
+  type CacheSnapshot,
+  type SnapshotEncoding,
+  type SnapshotImportOptions,
+  type SnapshotImportResult,
+  type WarmEntry,
+} from "./cache-snapshot"
 
 /**
  * Content type classification for TTL-aware caching.
@@ -36,6 +56,140 @@ export interface CacheEntry {
   lastAccessed: number
   /** Detected content type for TTL resolution */
   contentType: ContentType
+  /**
+   * Fingerprint of the request context the response was generated under
+   * (system prompt, earlier turns, tools, sampling params). Entries only
+   * match lookups with the same context key. Absent for prompt-only entries.
+   */
+  contextKey?: string
+  /** Why the model stopped generating ("stop", "length", ...). Absent for older entries. */
+  finishReason?: string
+  /** Original streaming cadence, recorded so cache hits can replay it faithfully */
+  chunkTimings?: ChunkTiming[]
+  /**
+   * Full AI SDK content array (text, reasoning, tool-call parts) for
+   * responses that are more than plain text. `response` still holds the
+   * concatenated text so fuzzy matching and stats keep working.
+   */
+  content?: CachedContentPart[]
+  /** Labels for targeted invalidation, e.g. ["product:42", "catalog"] */
+  tags?: string[]
+  /** User verdicts reported through reportFeedback() */
+  feedback?: { good: number; bad: number }
+  /**
+   * Learned per-entry similarity floor. Raised when a fuzzy match on this
+   * entry is reported bad, so looser paraphrases stop matching it.
+   */
+  minSimilarity?: number
+  /** Prompt embedding from CacheConfig.embedder, persisted so reloads skip re-embedding */
+  embedding?: { embedderId: string; vector: number[] }
+  /**
+   * Persisted form only: `response` and `content` compressed as JSON. Set
+   * by CacheConfig.compression; entries are decompressed when read back.
+   */
+  compressed?: CompressedText
+}
+
+/** Why an entry left the in-memory cache; counted in stats().evictions */
+export type CacheEvictionReason = "capacity" | "bytes" | "expired" | "feedback" | "invalidated"
+
+/**
+ * One part of a model response, stored as the AI SDK produced it, e.g.
+ * `{ type: "tool-call", toolCallId, toolName, input }`.
+ */
+export interface CachedContentPart {
+  type: string
+  [key: string]: unknown
+}
+
+/** One streamed text chunk: when it arrived and how much text it carried. */
+export interface ChunkTiming {
+  /** Milliseconds since the first chunk of the stream */
+  atMs: number
+  /** Length of the chunk in UTF-16 code units */
+  length: number
+}
+
+/** Options shared by lookup(), peek() and store(). */
+export interface CacheKeyOptions {
+  /** Request-context fingerprint; see CacheEntry.contextKey */
+  contextKey?: string
+}
+
+/** Options accepted by lookup() and peek(). */
+export interface CacheLookupOptions extends CacheKeyOptions {
+  /** Reject candidate entries (e.g. cached JSON that fails the requested schema) */
+  accept?: (entry: CacheEntry) => boolean
+  /**
+   * Caller-chosen ID for this lookup. On a hit, the match is remembered so
+   * reportFeedback(requestId, ...) can judge the match, not just the entry.
+   */
+  requestId?: string
+}
+
+export type CacheFeedbackVerdict = "good" | "bad"
+
+/** What reportFeedback() did with a verdict. */
+export interface CacheFeedbackResult {
+  /** False when neither a tracked request nor a cache entry matched the ID */
+  found: boolean
+  action: "evicted" | "demoted" | "reinforced" | "none"
+  /** Key of the entry the verdict applied to */
+  key?: string
+  /** The entry's similarity floor after the verdict */
+  minSimilarity?: number
+}
+
+export interface CacheFeedbackConfig {
+  /**
+   * Bad reports on fuzzy matches before the entry is evicted outright
+   * (default: 3). A bad report on an exact match always evicts.
+   */
+  maxBadReports?: number
+  /** How far above the reported match's similarity the floor is raised (default: 0.05) */
+  thresholdStep?: number
+  /** Recent lookups remembered for requestId feedback (default: 1000) */
+  maxTrackedRequests?: number
+}
+
+/** Result of lookup() and peek(). */
+export interface CacheLookupResult {
+  hit: boolean
+  entry?: CacheEntry
+  matchType?: "exact" | "fuzzy"
+  similarity?: number
+  /** True when the entry is past its TTL but inside the stale-while-revalidate window */
+  stale?: boolean
+  /** On a miss, the prompt embedding the lookup computed; pass it to store() to skip re-embedding */
+  embedding?: CacheEntry["embedding"]
+}
+
+/** Extra response metadata accepted by store(). */
+export interface CacheStoreOptions extends CacheKeyOptions {
+  finishReason?: string
+  chunkTimings?: ChunkTiming[]
+  content?: CachedContentPart[]
+  tags?: string[]
+  /** Prompt embedding from a missed lookup(); ignored when another embedder produced it */
+  embedding?: CacheEntry["embedding"]
+}
+
+/** What triggered an invalidation */
+export type CacheInvalidationReason = "tag" | "model" | "predicate" | "age"
+
+/** Summary of one invalidate*() call, passed to `onInvalidate`. */
+export interface CacheInvalidation {
+  reason: CacheInvalidationReason
+  /** Number of distinct entries removed from memory and/or the persisted store */
+  removed: number
+  /** Keys of the removed entries */
+  keys: string[]
+  /** Tags matched (reason "tag") */
+  tags?: string[]
+  /** Model matched (reason "model") */
+  model?: string
+  /** Entries created before this epoch-ms timestamp were removed (reason "age") */
+  before?: number
 }
 
 export interface CacheConfig {
@@ -51,16 +205,35 @@ export interface CacheConfig {
    * - time-sensitive: Current events, prices, weather — default 5 minutes
    */
   ttlByContentType?: Partial<Record<ContentType, number>>
+  /**
+   * Per-content-type stale-while-revalidate windows in milliseconds. For
+   * this long after its TTL, an entry is still served but flagged `stale`
+   * so the caller can refresh it in the background. Unset = 0 (expired
+   * entries are misses).
+   */
+  staleWhileRevalidateMs?: Partial<Record<ContentType, number>>
   /** Similarity threshold for fuzzy matching (0-1). 1 = exact only */
   similarityThreshold: number
   /** IndexedDB store name */
   storeName: string
+  /**
+   * Server-side persistence backend. When set, entries are persisted here
+   * (in any runtime) instead of IndexedDB, with per-entry TTLs.
+   */
+  backend?: StorageBackend
+  /**
+   * Encrypt persisted entries with AES-GCM (see EncryptedStore). Existing
+   * plaintext entries are read normally and re-written encrypted.
+   */
+  encryption?: EncryptionConfig
   /**
    * Similarity encoding strategy:
    * - "bigram" (default): Fast bigram Dice coefficient — good for near-duplicates
    * - "holographic": Trigram-based holographic encoding with semantic seeding — better for paraphrases
+   * - "minhash": LSH buckets pick candidates, bigram similarity verifies them — sublinear
+   *   fuzzy lookup for large caches. Prompts under two words only match exactly.
    */
-  encodingStrategy?: "bigram" | "holographic"
+  encodingStrategy?: "bigram" | "holographic" | "minhash"
   /**
    * Semantic seeds for holographic encoding. Maps domain terms to seed angles.
    * Terms sharing the same seed value will be encoded closer together.
@@ -73,6 +246,38 @@ export interface CacheConfig {
    * Without this callback, storage errors are silently ignored.
    */
   onStorageError?: (error: unknown) => void
+  /** Called after each invalidate*() call that removed at least one entry */
+  onInvalidate?: (event: CacheInvalidation) => void
+  /** How reportFeedback() verdicts adjust entries */
+  feedback?: CacheFeedbackConfig
+  /**
+   * Embedding model for semantic matching. Prompts are embedded on store
+   * and lookup; lookups that miss exactly are matched by cosine similarity
+   * before falling back to the text strategies. peek() does not embed.
+   */
+  embedder?: Embedder
+  /** Minimum cosine similarity for an embedding match (0-1, default: 0.9) */
+  embeddingThreshold?: number
+  /** Called after each embed() call, e.g. to record its cost in the CostLedger */
+  onEmbedding?: (usage: EmbeddingUsage) => void
+  /** Called when embed() throws; the request falls back to text matching */
+  onEmbeddingError?: (error: unknown) => void
+  /**
+   * Byte budget for cached entries, measured on their persisted (possibly
+   * compressed) JSON form. Entries larger than the budget are not cached.
+   */
+  maxBytes?: number
+  /**
+   * Which entry to evict when a budget is exceeded (default: "lru"). When
+   * over `maxBytes`, larger entries are preferred: LRU weighs idle time by
+   * size, LFU weighs size against access count.
+   */
+  evictionPolicy?: "lru" | "lfu"
+  /**
+   * Compress responses before persisting them. `minBytes` (default: 1024)
+   * skips small entries; compression is kept only when it saves space.
+   */
+  compression?: boolean | { minBytes?: number }
 }
 
 /** Default per-content-type TTL values */
@@ -188,11 +393,13 @@ export function textSimilarity(a: string, b: string): number {
  * Uses a fast djb2 hash - no crypto needed for cache keys.
  * Includes the model ID so that different models produce different cache keys,
  * preventing cross-model contamination (e.g. a gpt-4o response being served
- * for a gpt-4o-mini request).
+ * for a gpt-4o-mini request). A non-empty context key is appended so the
+ * same question asked under a different system prompt or tool set misses.
  */
-function hashKey(text: string, model?: string): string {
+function hashKey(text: string, model?: string, contextKey?: string): string {
   const normalized = normalizeText(text)
-  const input = model ? `${normalized}|model:${model}` : normalized
+  let input = model ? `${normalized}|model:${model}` : normalized
+  if (contextKey) input += `|ctx:${contextKey}`
   let hash = 5381
   for (let i = 0; i < input.length; i++) {
     hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0
@@ -208,10 +415,36 @@ export class ResponseCache {
   private idbStore: ReturnType<typeof createStore> | null = null
   /** Optional holographic encoding engine for enhanced fuzzy matching */
   private holoEngine: NeuroElasticEngine | null = null
+  /** Optional LSH index (values are entry keys) that narrows the fuzzy scan */
+  private minhash: SemanticMinHashIndex<string> | null = null
+  /** Keys currently in the LSH index */
+  private minhashKeys = new Set<string>()
+  /** Prompt embeddings by entry key (only with an embedder) */
+  private vectors: VectorIndex | null = null
+  /** Persisted size of each in-memory entry, for the maxBytes budget */
+  private sizes = new Map<string, number>()
+  private bytesUsed = 0
+  private evictions: Record<CacheEvictionReason, number> = {
+    capacity: 0,
+    bytes: 0,
+    expired: 0,
+    feedback: 0,
+    invalidated: 0,
+  }
   /** Total lookup() calls (hits + misses) for accurate hit rate calculation */
   private totalLookups = 0
   /** Total cache hits across all lookup() calls */
   private totalHits = 0
+  /** Hits served from the stale-while-revalidate window */
+  private totalStaleHits = 0
+  /** Keys with a background revalidation in flight */
+  private revalidating = new Set<string>()
+  /** requestId → the match a lookup returned, for reportFeedback() (insertion-ordered, bounded) */
+  private recentHits = new Map<
+    string,
+    { key: string; matchType: "exact" | "fuzzy"; similarity: number }
+  >()
+  private feedbackStats = { good: 0, bad: 0, evictions: 0, demotions: 0 }
 
   constructor(config: Partial<CacheConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
@@ -227,6 +460,18 @@ export class ResponseCache {
         onStorageError: this.config.onStorageError,
       })
     }
+    if (this.config.embedder) {
+      this.vectors = new VectorIndex()
+    }
+    if (this.config.encodingStrategy === "minhash") {
+      // Word bigrams and 4-row bands favour recall; candidates are verified
+      // with textSimilarity. Capacity is unbounded because the cache owns eviction.
+      this.minhash = new SemanticMinHashIndex<string>({
+        bands: 32,
+        shingleSize: 2,
+        maxEntries: Infinity,
+      })
+    }
   }
 
   /** Resolve the TTL for a cache entry based on its content type */
@@ -244,19 +489,183 @@ export class ResponseCache {
     return DEFAULT_CONTENT_TTL[contentType]
   }
 
-  /** Check if a cache entry has expired */
+  /** TTL plus the stale-while-revalidate window: how long an entry can be served at all */
+  private getMaxAge(contentType: ContentType): number {
+    return this.getTtl(contentType) + (this.config.staleWhileRevalidateMs?.[contentType] ?? 0)
+  }
+
+  /** Milliseconds until an entry expires (used as the backend TTL on rewrites) */
+  private remainingTtl(entry: CacheEntry): number {
+    return Math.max(0, entry.createdAt + this.getMaxAge(entry.contentType) - Date.now())
+  }
+
+  /** Check if a cache entry has expired (past its TTL and any stale window) */
   private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.createdAt >= this.getMaxAge(entry.contentType)
+  }
+
+  /** Past its TTL but still inside the stale-while-revalidate window */
+  private isStale(entry: CacheEntry): boolean {
     return Date.now() - entry.createdAt >= this.getTtl(entry.contentType)
   }
 
-  private getStore(): ReturnType<typeof createStore> | null {
-    if (typeof window === "undefined") return null
-    if (!this.idbStore) {
-      this.idbStore = createStore(this.config.storeName, "responses")
+  /** Build a hit result, flagging stale entries and counting them */
+  private hitResult(
+    entry: CacheEntry,
+    matchType: "exact" | "fuzzy",
+    similarity: number,
+    count = true,
+    requestId?: string,
+  ): CacheLookupResult {
+    const stale = this.isStale(entry)
+    if (count) {
+      this.totalHits++
+      if (stale) this.totalStaleHits++
     }
+    if (requestId) this.trackHit(requestId, entry.key, matchType, similarity)
+    return { hit: true, entry, matchType, similarity, ...(stale ? { stale } : {}) }
+  }
+
+  /**
+   * Run `refresh` for a stale entry unless a refresh for the same key is
+   * already running. Returns null when the call was deduplicated.
+   */
+  revalidate(key: string, refresh: () => Promise<void>): Promise<void> | null {
+    if (this.revalidating.has(key)) return null
+    this.revalidating.add(key)
+    return refresh().finally(() => {
+      this.revalidating.delete(key)
+    })
+  }
+
+  private getStore(): ReturnType<typeof createStore> | null {
+    if (this.idbStore) return this.idbStore
+    const { backend, encryption, storeName } = this.config
+    if (!backend && typeof window === "undefined") return null
+    this.idbStore =
+      encryption && encryption.mode !== "none"
+        ? new EncryptedStore({
+            dbName: storeName,
+            storeName: "responses",
+            encryption,
+            backend,
+            onStorageError: this.config.onStorageError,
+          })
+        : (backend ?? createStore(storeName, "responses"))
     return this.idbStore
   }
 
+  /** True when an entry was stored under the given request context */
+  private sameContext(entry: CacheEntry, contextKey: string | undefined): boolean {
+    return (entry.contextKey ?? "") === (contextKey ?? "")
+  }
+
+  /** Fuzzy similarity clears both the global threshold and the entry's learned floor */
+  private clearsThreshold(entry: CacheEntry, similarity: number): boolean {
+    return similarity >= this.config.similarityThreshold && similarity >= (entry.minSimilarity ?? 0)
+  }
+
+  private trackHit(
+    requestId: string,
+    key: string,
+    matchType: "exact" | "fuzzy",
+    similarity: number,
+  ): void {
+    this.recentHits.delete(requestId)
+    this.recentHits.set(requestId, { key, matchType, similarity })
+    const max = this.config.feedback?.maxTrackedRequests ?? 1000
+    while (this.recentHits.size > max) {
+      const oldest = this.recentHits.keys().next().value
+      if (oldest === undefined) break
+      this.recentHits.delete(oldest)
+    }
+  }
+
+  /** Context match plus the caller's accept() filter */
+  private matches(entry: CacheEntry, options: CacheLookupOptions): boolean {
+    if (!this.sameContext(entry, options.contextKey)) return false
+    return options.accept ? options.accept(entry) : true
+  }
+
+  /** Add an entry to the LSH and vector indexes (skipping ones already indexed) */
+  private indexEntry(entry: CacheEntry): void {
+    if (this.minhash && !this.minhashKeys.has(entry.key)) {
+      this.minhash.insert(entry.prompt, entry.key)
+      this.minhashKeys.add(entry.key)
+    }
+    if (
+      this.vectors &&
+      entry.embedding &&
+      entry.embedding.embedderId === this.config.embedder?.id
+    ) {
+      this.vectors.add(entry.key, entry.embedding.vector)
+    }
+  }
+
+  /** Put an entry in memory and the fuzzy indexes, tracking its size */
+  private remember(entry: CacheEntry, bytes?: number): void {
+    const { key } = entry
+    const size = bytes ?? this.sizes.get(key) ?? jsonByteSize(entry)
+    this.bytesUsed += size - (this.sizes.get(key) ?? 0)
+    this.sizes.set(key, size)
+    this.memoryCache.set(key, entry)
+    this.indexEntry(entry)
+  }
+
+  /** Drop an entry from memory and the fuzzy indexes */
+  private forget(key: string, reason?: CacheEvictionReason): void {
+    if (this.memoryCache.delete(key) && reason) this.evictions[reason]++
+    this.bytesUsed -= this.sizes.get(key) ?? 0
+    this.sizes.delete(key)
+    if (this.minhash && this.minhashKeys.delete(key)) {
+      this.minhash.remove(key)
+    }
+    this.vectors?.remove(key)
+  }
+
+  /** Embed text with the configured embedder, reporting usage. Null on failure. */
+  private async embed(text: string, purpose: EmbeddingUsage["purpose"]): Promise<number[] | null> {
+    const embedder = this.config.embedder
+    if (!embedder) return null
+    let vector: Float32Array
+    try {
+      vector = await embedder.embed(text)
+    } catch (err) {
+      this.config.onEmbeddingError?.(err)
+      return null
+    }
+    const inputTokens = countFast(text)
+    this.config.onEmbedding?.({
+      embedderId: embedder.id,
+      ...(embedder.model ? { model: embedder.model } : {}),
+      inputTokens,
+      ...(embedder.costPerMillionTokens !== undefined
+        ? { cost: (inputTokens / 1_000_000) * embedder.costPerMillionTokens }
+        : {}),
+      purpose,
+    })
+    return Array.from(vector)
+  }
+
+  /** Attach an embedding to an entry unless it already has one from this embedder */
+  private async withEmbedding(entry: CacheEntry): Promise<CacheEntry> {
+    const embedder = this.config.embedder
+    if (!embedder || entry.embedding?.embedderId === embedder.id) return entry
+    const vector = await this.embed(entry.prompt, "store")
+    return vector ? { ...entry, embedding: { embedderId: embedder.id, vector } } : entry
+  }
+
+  /** Entries worth scoring for a fuzzy match: LSH candidates with minhash, else all */
+  private fuzzyCandidates(prompt: string): Iterable<CacheEntry> {
+    if (!this.minhash) return this.memoryCache.values()
+    const found: CacheEntry[] = []
+    for (const { entry } of this.minhash.candidates(prompt)) {
+      const cached = this.memoryCache.get(entry.data)
+      if (cached) found.push(cached)
+    }
+    return found
+  }
+
   /**
    * Copy-on-read: create a new entry with incremented access count.
    * Avoids shared mutable state across concurrent lookups.
@@ -274,19 +683,17 @@ export class ResponseCache {
    * access counts or timestamps. Used by dry-run mode to avoid
    * side-effects while still reporting what would happen.
    */
-  peek(
-    prompt: string,
-    model: string,
-  ): { hit: boolean; matchType?: "exact" | "fuzzy"; similarity?: number; entry?: CacheEntry } {
-    const key = hashKey(prompt, model)
+  peek(prompt: string, model: string, options: CacheLookupOptions = {}): CacheLookupResult {
+    const { contextKey } = options
+    const key = hashKey(prompt, model, contextKey)
     const normalized = normalizeText(prompt)
 
     // Exact match from memory only (no IDB, no mutations)
     const memHit = this.memoryCache.get(key)
     if (memHit && !this.isExpired(memHit)) {
       // Verify normalized prompt matches to guard against djb2 hash collisions
-      if (memHit.normalizedKey === normalized) {
-        return { hit: true, entry: memHit, matchType: "exact", similarity: 1 }
+      if (memHit.normalizedKey === normalized && this.matches(memHit, options)) {
+        return this.hitResult(memHit, "exact", 1, false)
       }
     }
 
@@ -294,17 +701,18 @@ export class ResponseCache {
     if (this.config.similarityThreshold < 1) {
       let bestMatch: CacheEntry | undefined
       let bestSimilarity = 0
-      for (const entry of this.memoryCache.values()) {
+      for (const entry of this.fuzzyCandidates(prompt)) {
         if (model && entry.model !== model) continue
+        if (!this.matches(entry, options)) continue
         if (this.isExpired(entry)) continue
         const sim = textSimilarity(prompt, entry.prompt)
-        if (sim > bestSimilarity && sim >= this.config.similarityThreshold) {
+        if (sim > bestSimilarity && this.clearsThreshold(entry, sim)) {
           bestSimilarity = sim
           bestMatch = entry
         }
       }
       if (bestMatch) {
-        return { hit: true, entry: bestMatch, matchType: "fuzzy", similarity: bestSimilarity }
+        return this.hitResult(bestMatch, "fuzzy", bestSimilarity, false)
       }
     }
 
@@ -317,14 +725,12 @@ export class ResponseCache {
   async lookup(
     prompt: string,
     model: string,
-  ): Promise<{
-    hit: boolean
-    entry?: CacheEntry
-    matchType?: "exact" | "fuzzy"
-    similarity?: number
-  }> {
-    const key = hashKey(prompt, model)
+    options: CacheLookupOptions = {},
+  ): Promise<CacheLookupResult> {
+    const { contextKey } = options
+    const key = hashKey(prompt, model, contextKey)
     const normalized = normalizeText(prompt)
+    let embedding: CacheEntry["embedding"]
     this.totalLookups++
 
     // 1. Exact match from memory (key is already model-scoped)
@@ -332,14 +738,13 @@ export class ResponseCache {
     if (memHit) {
       if (!this.isExpired(memHit)) {
         // Verify normalized prompt matches to guard against djb2 hash collisions
-        if (memHit.normalizedKey === normalized) {
+        if (memHit.normalizedKey === normalized && this.matches(memHit, options)) {
           const updated = this.touchEntry(memHit)
           this.memoryCache.set(key, updated)
-          this.totalHits++
-          return { hit: true, entry: updated, matchType: "exact", similarity: 1 }
+          return this.hitResult(updated, "exact", 1, true, options.requestId)
         }
       } else {
-        this.memoryCache.delete(key)
+        this.forget(key, "expired")
       }
     }
 
@@ -347,21 +752,16 @@ export class ResponseCache {
     const lookupStore = this.getStore()
     if (lookupStore) {
       try {
-        const idbHit = await get<CacheEntry>(key, lookupStore)
-        if (idbHit) {
+        const stored = await get<CacheEntry>(key, lookupStore)
+        const idbHit = stored && (await this.decode(stored))
+        if (stored && idbHit) {
           if (!this.isExpired(idbHit)) {
             // Verify normalized prompt matches to guard against hash collisions
-            if (idbHit.normalizedKey === normalized) {
+            if (idbHit.normalizedKey === normalized && this.matches(idbHit, options)) {
               const updated = this.touchEntry(idbHit)
-              this.memoryCache.set(key, updated)
-              await set(key, updated, lookupStore)
-              this.totalHits++
-              return {
-                hit: true,
-                entry: updated,
-                matchType: "exact",
-                similarity: 1,
-              }
+              this.remember(updated, jsonByteSize(stored))
+              await this.writeStored(updated, lookupStore)
+              return this.hitResult(updated, "exact", 1, true, options.requestId)
             }
           }
           await del(key, lookupStore)
@@ -374,38 +774,60 @@ export class ResponseCache {
 
     // 3. Fuzzy match against memory cache
     if (this.config.similarityThreshold < 1) {
-      // 3a. Holographic encoding (enhanced paraphrase detection)
+      // 3a. Embedding similarity (when an embedder is configured)
+      if (this.vectors && this.vectors.size > 0) {
+        const query = await this.embed(prompt, "lookup")
+        if (query) embedding = { embedderId: this.config.embedder!.id, vector: query }
+        const minScore = this.config.embeddingThreshold ?? 0.9
+        for (const { key: entryKey, score } of query ? this.vectors.search(query, minScore) : []) {
+          const entry = this.memoryCache.get(entryKey)
+          if (!entry || (model && entry.model !== model) || !this.matches(entry, options)) continue
+          if (this.isExpired(entry)) {
+            this.forget(entryKey, "expired")
+            continue
+          }
+          if (!this.clearsThreshold(entry, score)) continue
+          const updated = this.touchEntry(entry)
+          this.memoryCache.set(entryKey, updated)
+          return this.hitResult(updated, "fuzzy", score, true, options.requestId)
+        }
+      }
+
+      // 3b. Holographic encoding (enhanced paraphrase detection)
       if (this.holoEngine) {
         const holoResult = this.holoEngine.find(prompt, model)
         if (holoResult) {
           // Find the corresponding cache entry by prompt, with TTL check
           for (const [entryKey, entry] of this.memoryCache.entries()) {
-            if (entry.prompt === holoResult.prompt && (!model || entry.model === model)) {
+            if (
+              entry.prompt === holoResult.prompt &&
+              (!model || entry.model === model) &&
+              this.matches(entry, options)
+            ) {
               if (this.isExpired(entry)) continue
+              if (!this.clearsThreshold(entry, holoResult.score)) continue
               const updated = this.touchEntry(entry)
               this.memoryCache.set(entryKey, updated)
-              this.totalHits++
-              return {
-                hit: true,
-                entry: updated,
-                matchType: "fuzzy",
-                similarity: holoResult.score,
-              }
+              return this.hitResult(updated, "fuzzy", holoResult.score, true, options.requestId)
             }
           }
         }
       }
 
-      // 3b. Bigram fallback (original algorithm)
+      // 3c. Bigram fallback (original algorithm)
       let bestMatch: CacheEntry | undefined
       let bestSimilarity = 0
 
-      for (const entry of this.memoryCache.values()) {
+      for (const entry of this.fuzzyCandidates(prompt)) {
         if (model && entry.model !== model) continue
-        if (this.isExpired(entry)) continue
+        if (!this.matches(entry, options)) continue
+        if (this.isExpired(entry)) {
+          if (this.minhash) this.forget(entry.key, "expired")
+          continue
+        }
 
         const sim = textSimilarity(prompt, entry.prompt)
-        if (sim > bestSimilarity && sim >= this.config.similarityThreshold) {
+        if (sim > bestSimilarity && this.clearsThreshold(entry, sim)) {
           bestSimilarity = sim
           bestMatch = entry
         }
@@ -414,17 +836,11 @@ export class ResponseCache {
       if (bestMatch) {
         const updated = this.touchEntry(bestMatch)
         this.memoryCache.set(updated.key, updated)
-        this.totalHits++
-        return {
-          hit: true,
-          entry: updated,
-          matchType: "fuzzy",
-          similarity: bestSimilarity,
-        }
+        return this.hitResult(updated, "fuzzy", bestSimilarity, true, options.requestId)
       }
     }
 
-    return { hit: false }
+    return embedding ? { hit: false, embedding } : { hit: false }
   }
 
   /**
@@ -436,8 +852,10 @@ export class ResponseCache {
     model: string,
     inputTokens: number,
     outputTokens: number,
+    options: CacheStoreOptions = {},
   ): Promise<void> {
-    const key = hashKey(prompt, model)
+    const { contextKey, finishReason, chunkTimings, content, tags, embedding } = options
+    const key = hashKey(prompt, model, contextKey)
     const entry: CacheEntry = {
       key,
       normalizedKey: normalizeText(prompt),
@@ -450,42 +868,299 @@ export class ResponseCache {
       accessCount: 0,
       lastAccessed: Date.now(),
       contentType: classifyContentType(prompt),
+      ...(contextKey ? { contextKey } : {}),
+      ...(finishReason ? { finishReason } : {}),
+      ...(chunkTimings && chunkTimings.length > 0 ? { chunkTimings } : {}),
+      ...(content && content.length > 0 ? { content } : {}),
+      ...(tags && tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+      ...(embedding ? { embedding } : {}),
     }
+    await this.insert(await this.withEmbedding(entry))
+  }
 
-    this.memoryCache.set(key, entry)
+  /** Write an entry to memory and the persistent store, evicting LRU over capacity */
+  private async insert(entry: CacheEntry, learn = true): Promise<void> {
+    const { key } = entry
+    const persistStore = this.getStore()
+    const stored = persistStore ? await this.encode(entry) : entry
+    const bytes = jsonByteSize(stored)
+    if (this.config.maxBytes !== undefined && bytes > this.config.maxBytes) {
+      this.evictions.bytes++
+      return
+    }
+    this.remember(entry, bytes)
 
     // Teach the holographic engine about this entry
-    if (this.holoEngine) {
-      this.holoEngine.learn(prompt, response, model, inputTokens, outputTokens).catch((err) => { this.config.onStorageError?.(err) })
+    if (this.holoEngine && learn) {
+      this.holoEngine
+        .learn(entry.prompt, entry.response, entry.model, entry.inputTokens, entry.outputTokens)
+        .catch((err) => {
+          this.config.onStorageError?.(err)
+        })
     }
 
-    // Evict LRU if over capacity
-    if (this.memoryCache.size > this.config.maxEntries) {
-      let oldestKey = ""
-      let oldestAccess = Infinity
-      for (const [k, v] of this.memoryCache) {
-        if (v.lastAccessed < oldestAccess) {
-          oldestAccess = v.lastAccessed
-          oldestKey = k
+    this.enforceBudgets(key)
+    if (!this.memoryCache.has(key)) return
+
+    // Persist to IDB
+    if (persistStore) {
+      try {
+        await set(key, stored, persistStore, { ttlMs: this.remainingTtl(entry) })
+      } catch (err) {
+        this.config.onStorageError?.(err)
+      }
+    }
+  }
+
+  /**
+   * Evict entries until both the entry-count and byte budgets are met.
+   * `keep` (the entry just inserted) is spared so LFU doesn't evict newcomers
+   * before they have had a chance to be read.
+   */
+  private enforceBudgets(keep?: string): void {
+    const { maxEntries, maxBytes } = this.config
+    while (this.memoryCache.size > maxEntries && this.evictOne("capacity", keep));
+    while (maxBytes !== undefined && this.bytesUsed > maxBytes && this.evictOne("bytes", keep));
+  }
+
+  /** Evict the entry the eviction policy ranks first, from memory and IDB */
+  private evictOne(reason: "capacity" | "bytes", keep?: string): boolean {
+    const lfu = this.config.evictionPolicy === "lfu"
+    const now = Date.now()
+    let victim = ""
+    let bestScore = -Infinity
+    let bestIdle = -Infinity
+    for (const [k, v] of this.memoryCache) {
+      if (k === keep) continue
+      const idle = now - v.lastAccessed
+      const size = this.sizes.get(k) ?? 0
+      const score =
+        reason === "bytes"
+          ? lfu
+            ? size / (v.accessCount + 1)
+            : (idle + 1) * size
+          : lfu
+            ? -v.accessCount
+            : idle
+      if (score > bestScore || (score === bestScore && idle > bestIdle)) {
+        bestScore = score
+        bestIdle = idle
+        victim = k
+      }
+    }
+    if (!victim) return false
+    this.forget(victim, reason)
+    // Evict from IDB to keep stores coherent
+    try {
+      const store = this.getStore()
+      if (store)
+        del(victim, store).catch((err) => {
+          this.config.onStorageError?.(err)
+        })
+    } catch {
+      /* IDB not available */
+    }
+    return true
+  }
+
+  /** Compress an entry's response for persistence when compression is on and it pays off */
+  private async encode(entry: CacheEntry): Promise<CacheEntry> {
+    const { compression } = this.config
+    if (!compression) return entry
+    const minBytes = typeof compression === "object" ? (compression.minBytes ?? 1024) : 1024
+    const payload = JSON.stringify({ response: entry.response, content: entry.content })
+    if (jsonByteSize(payload) < minBytes) return entry
+    try {
+      const { content: _content, ...rest } = entry
+      const encoded: CacheEntry = { ...rest, response: "", compressed: await compressText(payload) }
+      return jsonByteSize(encoded) < jsonByteSize(entry) ? encoded : entry
+    } catch (err) {
+      this.config.onStorageError?.(err)
+      return entry
+    }
+  }
+
+  /** Inverse of encode(); undefined when the payload can't be decompressed */
+  private async decode(entry: CacheEntry): Promise<CacheEntry | undefined> {
+    if (!entry.compressed) return entry
+    try {
+      const payload = JSON.parse(await decompressText(entry.compressed)) as {
+        response: string
+        content?: CachedContentPart[]
+      }
+      const { compressed: _compressed, ...rest } = entry
+      return {
+        ...rest,
+        response: payload.response,
+        ...(payload.content ? { content: payload.content } : {}),
+      }
+    } catch (err) {
+      this.config.onStorageError?.(err)
+      return undefined
+    }
+  }
+
+  /** Read and decode a persisted entry */
+  private async readStored(
+    key: string,
+    store: NonNullable<ReturnType<ResponseCache["getStore"]>>,
+  ): Promise<CacheEntry | undefined> {
+    const stored = await get<CacheEntry>(key, store)
+    return stored ? this.decode(stored) : undefined
+  }
+
+  /** Encode and persist an entry with its remaining lifetime as TTL */
+  private async writeStored(
+    entry: CacheEntry,
+    store: NonNullable<ReturnType<ResponseCache["getStore"]>>,
+  ): Promise<void> {
+    await set(entry.key, await this.encode(entry), store, { ttlMs: this.remainingTtl(entry) })
+  }
+
+  /**
+   * Export every live entry (memory and persisted) as a versioned snapshot.
+   * Entries keep their keys, content types and timestamps; hit counters
+   * are included so warm caches retain their LRU ordering.
+   */
+  async exportSnapshot(
+    options: { format?: SnapshotEncoding; includeExpired?: boolean } = {},
+  ): Promise<string> {
+    const entries = new Map<string, CacheEntry>()
+    for (const [key, entry] of this.memoryCache) entries.set(key, entry)
+    const store = this.getStore()
+    if (store) {
+      try {
+        const allKeys = (await keys(store)) as string[]
+        for (const key of allKeys) {
+          if (entries.has(key)) continue
+          const entry = await this.readStored(key, store)
+          if (entry) entries.set(key, entry)
         }
+      } catch (err) {
+        this.config.onStorageError?.(err)
       }
-      if (oldestKey) {
-        this.memoryCache.delete(oldestKey)
-        // Evict from IDB to keep stores coherent
+    }
+    const live = [...entries.values()].filter(
+      (entry) => options.includeExpired || !this.isExpired(entry),
+    )
+    return serializeSnapshot(live, options.format)
+  }
+
+  /**
+   * Import a snapshot produced by exportSnapshot() (JSON or JSONL).
+   * Throws TokenShieldSnapshotError for malformed input or a snapshot
+   * version newer than this build understands.
+   */
+  async importSnapshot(
+    data: string | CacheSnapshot,
+    options: SnapshotImportOptions = {},
+  ): Promise<SnapshotImportResult> {
+    return this.merge(parseSnapshot(data).records, undefined, options)
+  }
+
+  /**
+   * Pre-seed the cache from prompt/response pairs — an array, or the text
+   * of a JSON / JSONL file. Records may be bare pairs or snapshot entries.
+   * `model` is used for pairs that don't name one.
+   */
+  async warm(
+    corpus: string | WarmEntry[],
+    options: SnapshotImportOptions & { model?: string } = {},
+  ): Promise<SnapshotImportResult> {
+    return this.merge(parseSnapshot(corpus).records, options.model, options)
+  }
+
+  private async merge(
+    records: unknown[],
+    defaultModel: string | undefined,
+    options: SnapshotImportOptions,
+  ): Promise<SnapshotImportResult> {
+    const conflict = options.conflict ?? "newest-wins"
+    const result: SnapshotImportResult = { imported: 0, skipped: 0, expired: 0, invalid: 0 }
+    const now = Date.now()
+    const store = this.getStore()
+
+    for (const record of records) {
+      const pair = toWarmEntry(record, defaultModel)
+      if (!pair) {
+        result.invalid++
+        continue
+      }
+      const extra = record as Partial<CacheEntry>
+      // Keys are recomputed rather than trusted so older snapshots survive
+      // hashing changes.
+      const key = hashKey(pair.prompt, pair.model, pair.contextKey)
+      const entry: CacheEntry = {
+        ...(extra.finishReason ? { finishReason: extra.finishReason } : {}),
+        ...(extra.chunkTimings?.length ? { chunkTimings: extra.chunkTimings } : {}),
+        ...(extra.content?.length ? { content: extra.content } : {}),
+        ...(extra.feedback ? { feedback: extra.feedback } : {}),
+        ...(typeof extra.minSimilarity === "number" ? { minSimilarity: extra.minSimilarity } : {}),
+        ...(extra.embedding && Array.isArray(extra.embedding.vector)
+          ? { embedding: extra.embedding }
+          : {}),
+        key,
+        normalizedKey: normalizeText(pair.prompt),
+        prompt: pair.prompt,
+        response: pair.response,
+        model: pair.model!,
+        inputTokens: pair.inputTokens ?? countFast(pair.prompt),
+        outputTokens: pair.outputTokens ?? countFast(pair.response),
+        createdAt: pair.createdAt ?? now,
+        accessCount: typeof extra.accessCount === "number" ? extra.accessCount : 0,
+        lastAccessed: typeof extra.lastAccessed === "number" ? extra.lastAccessed : now,
+        contentType: pair.contentType ?? classifyContentType(pair.prompt),
+        ...(pair.contextKey ? { contextKey: pair.contextKey } : {}),
+        ...(pair.tags?.length ? { tags: [...new Set(pair.tags)] } : {}),
+      }
+      if (this.isExpired(entry)) {
+        result.expired++
+        continue
+      }
+
+      let existing = this.memoryCache.get(key)
+      if (!existing && store) {
         try {
-          const store = this.getStore()
-          if (store) del(oldestKey, store).catch((err) => { this.config.onStorageError?.(err) })
-        } catch {
-          /* IDB not available */
+          existing = await this.readStored(key, store)
+        } catch (err) {
+          this.config.onStorageError?.(err)
+        }
+      }
+      if (existing && !this.isExpired(existing)) {
+        if (conflict === "keep-existing" || existing.createdAt >= entry.createdAt) {
+          result.skipped++
+          continue
         }
       }
+
+      await this.insert(await this.withEmbedding(entry), false)
+      result.imported++
     }
 
-    // Persist to IDB
-    const persistStore = this.getStore()
-    if (persistStore) {
+    if (result.imported > 0) await this.rebuildIndexes()
+    return result
+  }
+
+  /** Rebuild the fuzzy indexes from memory so replaced entries don't linger */
+  private async rebuildIndexes(): Promise<void> {
+    if (this.minhash || this.vectors) {
+      this.minhash?.clear()
+      this.minhashKeys.clear()
+      this.vectors?.clear()
+      for (const entry of this.memoryCache.values()) this.indexEntry(entry)
+    }
+    if (this.holoEngine) {
       try {
-        await set(key, entry, persistStore)
+        await this.holoEngine.clear()
+        for (const entry of this.memoryCache.values()) {
+          await this.holoEngine.learn(
+            entry.prompt,
+            entry.response,
+            entry.model,
+            entry.inputTokens,
+            entry.outputTokens,
+          )
+        }
       } catch (err) {
         this.config.onStorageError?.(err)
       }
@@ -502,15 +1177,21 @@ export class ResponseCache {
       const allKeys = (await keys(store)) as string[]
       let loaded = 0
       for (const key of allKeys) {
-        const entry = (await get(key, store)) as CacheEntry | undefined
+        const stored = (await get(key, store)) as CacheEntry | undefined
+        const entry = stored && (await this.decode(stored))
         if (entry) {
           // Backfill contentType for entries created before this feature
           if (!entry.contentType) {
             entry.contentType = classifyContentType(entry.prompt)
           }
         }
-        if (entry && !this.isExpired(entry)) {
-          this.memoryCache.set(key, entry)
+        if (stored && entry && !this.isExpired(entry)) {
+          // Embed entries persisted before the embedder was configured (or by another one)
+          const embedded = await this.withEmbedding(entry)
+          if (embedded !== entry) {
+            await this.writeStored(embedded, store)
+          }
+          this.remember(embedded, embedded === entry ? jsonByteSize(stored) : undefined)
           // Populate holographic engine so fuzzy matching works after reload
           if (this.holoEngine) {
             this.holoEngine
@@ -524,10 +1205,11 @@ export class ResponseCache {
               .catch((err) => { this.config.onStorageError?.(err) })
           }
           loaded++
-        } else if (entry) {
+        } else if (stored) {
           await del(key, store) // clean expired
         }
       }
+      this.enforceBudgets()
       return loaded
     } catch {
       return 0
@@ -541,8 +1223,14 @@ export class ResponseCache {
     entries: number
     totalSavedTokens: number
     totalHits: number
+    staleHits: number
     totalLookups: number
     hitRate: number
+    feedback: { good: number; bad: number; evictions: number; demotions: number }
+    /** Persisted size of the in-memory entries (see CacheConfig.maxBytes) */
+    bytes: number
+    avgEntryBytes: number
+    evictions: Record<CacheEvictionReason, number>
   } {
     let totalSavedTokens = 0
     for (const entry of this.memoryCache.values()) {
@@ -552,8 +1240,13 @@ export class ResponseCache {
       entries: this.memoryCache.size,
       totalSavedTokens,
       totalHits: this.totalHits,
+      staleHits: this.totalStaleHits,
       totalLookups: this.totalLookups,
       hitRate: this.totalLookups > 0 ? this.totalHits / this.totalLookups : 0,
+      feedback: { ...this.feedbackStats },
+      bytes: this.bytesUsed,
+      avgEntryBytes: this.memoryCache.size > 0 ? this.bytesUsed / this.memoryCache.size : 0,
+      evictions: { ...this.evictions },
     }
   }
 
@@ -564,8 +1257,166 @@ export class ResponseCache {
   dispose(): void {
     this.memoryCache.clear()
     this.holoEngine = null
+    this.minhash?.clear()
+    this.minhashKeys.clear()
+    this.vectors?.clear()
     this.totalLookups = 0
     this.totalHits = 0
+    this.totalStaleHits = 0
+    this.recentHits.clear()
+    this.feedbackStats = { good: 0, bad: 0, evictions: 0, demotions: 0 }
+    this.sizes.clear()
+    this.bytesUsed = 0
+    this.evictions = { capacity: 0, bytes: 0, expired: 0, feedback: 0, invalidated: 0 }
+  }
+
+  /**
+   * Record a user verdict on a cached answer. `id` is either the requestId
+   * passed to lookup() or an entry key (`CacheEntry.key`).
+   *
+   * - "bad" on an exact match, or on an entry addressed by key: evicts it.
+   * - "bad" on a fuzzy match: raises the entry's similarity floor above
+   *   the reported match, evicting once it collects `maxBadReports`.
+   * - "good" on a fuzzy match: lowers the floor back to that similarity.
+   */
+  async reportFeedback(id: string, verdict: CacheFeedbackVerdict): Promise<CacheFeedbackResult> {
+    const hit = this.recentHits.get(id)
+    const key = hit?.key ?? id
+    let entry = this.memoryCache.get(key)
+    const store = this.getStore()
+    if (!entry && store) {
+      try {
+        entry = await this.readStored(key, store)
+      } catch (err) {
+        this.config.onStorageError?.(err)
+      }
+    }
+    if (!entry) return { found: false, action: "none" }
+
+    this.recentHits.delete(id)
+    this.feedbackStats[verdict]++
+    const feedback = {
+      good: (entry.feedback?.good ?? 0) + (verdict === "good" ? 1 : 0),
+      bad: (entry.feedback?.bad ?? 0) + (verdict === "bad" ? 1 : 0),
+    }
+    const fuzzy = hit?.matchType === "fuzzy"
+    let minSimilarity = entry.minSimilarity
+    let action: CacheFeedbackResult["action"]
+
+    if (verdict === "bad") {
+      const maxBad = this.config.feedback?.maxBadReports ?? 3
+      if (!fuzzy || feedback.bad >= maxBad) {
+        this.forget(key, "feedback")
+        if (store) {
+          try {
+            await del(key, store)
+          } catch (err) {
+            this.config.onStorageError?.(err)
+          }
+        }
+        this.feedbackStats.evictions++
+        return { found: true, action: "evicted", key }
+      }
+      const step = this.config.feedback?.thresholdStep ?? 0.05
+      minSimilarity = Math.min(1, Math.max(minSimilarity ?? 0, hit.similarity + step))
+      this.feedbackStats.demotions++
+      action = "demoted"
+    } else {
+      if (fuzzy && minSimilarity !== undefined && hit.similarity < minSimilarity) {
+        minSimilarity = hit.similarity
+      }
+      action = "reinforced"
+    }
+
+    const updated: CacheEntry = {
+      ...entry,
+      feedback,
+      ...(minSimilarity !== undefined ? { minSimilarity } : {}),
+    }
+    this.remember(updated)
+    if (store) {
+      try {
+        await this.writeStored(updated, store)
+      } catch (err) {
+        this.config.onStorageError?.(err)
+      }
+    }
+    return { found: true, action, key, minSimilarity }
+  }
+
+  /**
+   * Remove every entry (in memory and in the persisted store) for which
+   * `predicate` returns true. Expired persisted entries are cleaned up
+   * along the way. Returns the number of entries removed.
+   */
+  async invalidateWhere(predicate: (entry: CacheEntry) => boolean): Promise<number> {
+    return this.invalidate(predicate, { reason: "predicate" })
+  }
+
+  /** Remove entries carrying any of the given tags. */
+  async invalidateByTag(tag: string | string[]): Promise<number> {
+    const tags = Array.isArray(tag) ? tag : [tag]
+    if (tags.length === 0) return 0
+    const wanted = new Set(tags)
+    return this.invalidate((entry) => entry.tags?.some((t) => wanted.has(t)) ?? false, {
+      reason: "tag",
+      tags,
+    })
+  }
+
+  /** Remove all entries generated by `model`. */
+  async invalidateByModel(model: string): Promise<number> {
+    return this.invalidate((entry) => entry.model === model, { reason: "model", model })
+  }
+
+  /**
+   * Remove entries older than `maxAgeMs` milliseconds, or created before
+   * the given Date.
+   */
+  async invalidateOlderThan(cutoff: number | Date): Promise<number> {
+    const before = cutoff instanceof Date ? cutoff.getTime() : Date.now() - cutoff
+    return this.invalidate((entry) => entry.createdAt < before, { reason: "age", before })
+  }
+
+  private async invalidate(
+    predicate: (entry: CacheEntry) => boolean,
+    details: Omit<CacheInvalidation, "removed" | "keys">,
+  ): Promise<number> {
+    const removed = new Set<string>()
+    for (const [key, entry] of this.memoryCache) {
+      if (predicate(entry)) {
+        this.forget(key, "invalidated")
+        removed.add(key)
+      }
+    }
+
+    const store = this.getStore()
+    if (store) {
+      try {
+        const allKeys = (await keys(store)) as string[]
+        for (const key of allKeys) {
+          if (removed.has(key)) {
+            await del(key, store)
+            continue
+          }
+          const entry = await this.readStored(key, store)
+          if (!entry) continue
+          if (predicate(entry)) {
+            await del(key, store)
+            removed.add(key)
+          } else if (this.isExpired(entry)) {
+            await del(key, store)
+          }
+        }
+      } catch (err) {
+        this.config.onStorageError?.(err)
+      }
+    }
+
+    if (removed.size > 0) {
+      this.config.onInvalidate?.({ ...details, removed: removed.size, keys: [...removed] })
+    }
+    return removed.size
   }
 
   /**
@@ -575,9 +1426,18 @@ export class ResponseCache {
     this.memoryCache.clear()
     this.totalLookups = 0
     this.totalHits = 0
+    this.totalStaleHits = 0
+    this.recentHits.clear()
+    this.feedbackStats = { good: 0, bad: 0, evictions: 0, demotions: 0 }
+    this.sizes.clear()
+    this.bytesUsed = 0
+    this.evictions = { capacity: 0, bytes: 0, expired: 0, feedback: 0, invalidated: 0 }
     if (this.holoEngine) {
       await this.holoEngine.clear()
     }
+    this.minhash?.clear()
+    this.minhashKeys.clear()
+    this.vectors?.clear()
     try {
       const store = this.getStore()
       if (!store) return
@@ -118,6 +118,8 @@ export class SemanticMinHashIndex<T = unknown> {
   private entries: MinHashEntry<T>[] = []
   /** LSH buckets: band index -> bucket hash -> entry indices */
   private buckets: Map<number, Map<number, number[]>> = new Map()
+  /** Entry data -> index of its latest entry, for O(1) removal */
+  private slots: Map<T, number> = new Map()
   /** Monotonic insertion counter — used as a proxy for "oldest" so we can
    *  avoid Date.now() overhead and get deterministic ordering */
   private insertionCounter = 0
@@ -227,6 +229,7 @@ export class SemanticMinHashIndex<T = unknown> {
       data,
       insertedAt: this.insertionCounter++,
     })
+    this.slots.set(data, idx)
 
     // Insert into LSH buckets
     for (let b = 0; b < this.config.bands; b++) {
@@ -253,20 +256,8 @@ export class SemanticMinHashIndex<T = unknown> {
    * @returns The best matching entry and its similarity, or null
    */
   find(prompt: string, threshold = 0.85): MinHashLookupResult<T> | null {
-    const shingles = this.shingle(prompt)
-    const querySignature = this.computeSignature(shingles)
-
-    // Collect candidate indices from LSH buckets
-    const candidateSet = new Set<number>()
-    for (let b = 0; b < this.config.bands; b++) {
-      const bucketKey = this.hashBand(querySignature, b)
-      const bucket = this.buckets.get(b)?.get(bucketKey)
-      if (bucket) {
-        for (const idx of bucket) {
-          candidateSet.add(idx)
-        }
-      }
-    }
+    const querySignature = this.computeSignature(this.shingle(prompt))
+    const candidateSet = this.collectCandidates(querySignature)
 
     // Find best candidate by estimated similarity
     let bestSim = 0
@@ -293,6 +284,49 @@ export class SemanticMinHashIndex<T = unknown> {
     return null
   }
 
+  /**
+   * Return every entry sharing at least one LSH bucket with the prompt,
+   * best estimated similarity first. Unlike find(), no threshold is
+   * applied — callers verify candidates with their own similarity.
+   */
+  candidates(prompt: string): MinHashLookupResult<T>[] {
+    const querySignature = this.computeSignature(this.shingle(prompt))
+    const results: MinHashLookupResult<T>[] = []
+    for (const idx of this.collectCandidates(querySignature)) {
+      const entry = this.entries[idx]
+      if (!entry) continue
+      results.push({ entry, similarity: this.estimateSimilarity(querySignature, entry.signature) })
+    }
+    return results.sort((x, y) => y.similarity - x.similarity)
+  }
+
+  /**
+   * Remove the entry last inserted with this data.
+   *
+   * @returns Whether an entry was removed
+   */
+  remove(data: T): boolean {
+    const idx = this.slots.get(data)
+    if (idx === undefined) return false
+    this.removeAt(idx)
+    return true
+  }
+
+  /** Collect candidate indices from the LSH buckets a signature falls into. */
+  private collectCandidates(signature: Uint32Array): Set<number> {
+    const candidateSet = new Set<number>()
+    for (let b = 0; b < this.config.bands; b++) {
+      const bucketKey = this.hashBand(signature, b)
+      const bucket = this.buckets.get(b)?.get(bucketKey)
+      if (bucket) {
+        for (const idx of bucket) {
+          candidateSet.add(idx)
+        }
+      }
+    }
+    return candidateSet
+  }
+
   /**
    * Remove the oldest entry (LRU eviction).
    */
@@ -309,27 +343,38 @@ export class SemanticMinHashIndex<T = unknown> {
       }
     }
 
+    this.removeAt(oldestIdx)
+  }
+
+  /** Remove the entry at an index, swapping the last entry into its slot. */
+  private removeAt(idx: number): void {
     const lastIdx = this.entries.length - 1
+    if (this.slots.get(this.entries[idx].data) === idx) {
+      this.slots.delete(this.entries[idx].data)
+    }
 
     // Remove the evicted entry from all its LSH buckets
-    this.removeBucketReferences(oldestIdx)
+    this.removeBucketReferences(idx)
 
-    if (oldestIdx !== lastIdx) {
+    if (idx !== lastIdx) {
       // Remove the last entry's bucket references before moving it
       this.removeBucketReferences(lastIdx)
 
       // Swap the evicted entry with the last entry (O(1) removal)
-      this.entries[oldestIdx] = this.entries[lastIdx]
+      this.entries[idx] = this.entries[lastIdx]
+      if (this.slots.get(this.entries[idx].data) === lastIdx) {
+        this.slots.set(this.entries[idx].data, idx)
+      }
 
       // Re-index the swapped entry at its new position
       for (let b = 0; b < this.config.bands; b++) {
-        const bucketKey = this.hashBand(this.entries[oldestIdx].signature, b)
+        const bucketKey = this.hashBand(this.entries[idx].signature, b)
         const bandBuckets = this.buckets.get(b)!
         const bucket = bandBuckets.get(bucketKey)
         if (bucket) {
-          bucket.push(oldestIdx)
+          bucket.push(idx)
         } else {
-          bandBuckets.set(bucketKey, [oldestIdx])
+          bandBuckets.set(bucketKey, [idx])
         }
       }
     }
@@ -361,6 +406,7 @@ export class SemanticMinHashIndex<T = unknown> {
   /** Clear all entries and buckets. */
   clear(): void {
     this.entries = []
+    this.slots.clear()
     this.insertionCounter = 0
     for (let b = 0; b < this.config.bands; b++) {
       this.buckets.set(b, new Map())
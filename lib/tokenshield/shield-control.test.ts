@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest"
+import { ShieldControl } from "./shield-control"
+import { createMemoryBackend } from "./storage-adapter"
+import { TokenShieldConfigError } from "./errors"
+
+describe("ShieldControl", () => {
+  describe("pause / resume", () => {
+    it("matches global pauses for every request and scoped pauses by target", async () => {
+      const control = new ShieldControl()
+      await control.pause("incident", { scope: "gpt-4o" })
+      expect(control.pausedFor(["gpt-4o-mini"])).toBeNull()
+      expect(control.pausedFor([undefined, "gpt-4o"])?.reason).toBe("incident")
+
+      await control.pause("all hands")
+      expect(control.pausedFor(["anything"])?.reason).toBe("all hands")
+    })
+
+    it("resumes one scope or everything and reports what was lifted", async () => {
+      const onResume = vi.fn()
+      const control = new ShieldControl({ onResume })
+      await control.pause("a", { scope: "chat" })
+      await control.pause("b", { scope: "search" })
+
+      expect((await control.resume("chat")).map((p) => p.reason)).toEqual(["a"])
+      expect(control.getState().pauses.map((p) => p.scope)).toEqual(["search"])
+      await control.resume()
+      expect(control.getState().pauses).toEqual([])
+      expect(onResume).toHaveBeenCalledTimes(2)
+    })
+
+    it("drops a pause once `until` has passed", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-01-15T10:00:00Z"))
+      try {
+        const control = new ShieldControl()
+        await control.pause("maintenance", { until: new Date("2025-01-15T10:05:00Z") })
+        expect(control.pausedFor([])).not.toBeNull()
+        vi.setSystemTime(new Date("2025-01-15T10:05:00Z"))
+        expect(control.pausedFor([])).toBeNull()
+        expect(control.getState().pauses).toEqual([])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("rejects an `until` in the past", async () => {
+      const control = new ShieldControl()
+      await expect(control.pause("late", { until: Date.now() - 1 })).rejects.toThrow(
+        TokenShieldConfigError,
+      )
+    })
+  })
+
+  describe("overrides", () => {
+    it("covers requests up to the remaining amount and drains as they run", async () => {
+      const control = new ShieldControl()
+      await control.grantOverride("admin", 1, Date.now() + 60_000)
+      expect(control.overrideFor("admin", 0.5)).not.toBeNull()
+      expect(control.overrideFor("someone-else")).toBeNull()
+
+      await control.consumeOverride("admin", 0.75)
+      expect(control.overrideFor("admin", 0.5)).toBeNull()
+      expect(control.overrideFor("admin", 0.25)?.remaining).toBeCloseTo(0.25)
+    })
+
+    it("keeps every concurrent deduction", async () => {
+      // Reads return copies a moment later, like a real storage backend
+      const backend = createMemoryBackend()
+      const read = backend.get.bind(backend)
+      backend.get = async <T>(key: string) => {
+        const value = structuredClone(await read<T>(key))
+        await new Promise((r) => setTimeout(r, 1))
+        return value
+      }
+      const control = new ShieldControl({ backend })
+      await control.grantOverride("admin", 1, Date.now() + 60_000)
+      await Promise.all(Array.from({ length: 4 }, () => control.consumeOverride("admin", 0.1)))
+      expect(control.getState().overrides[0].remaining).toBeCloseTo(0.6)
+    })
+
+    it("reserves in-flight estimates so parallel requests can't overspend the grant", async () => {
+      const control = new ShieldControl()
+      await control.grantOverride("admin", 1, Date.now() + 60_000)
+      expect(control.reserveOverride("admin", 0.6)).not.toBeNull()
+      expect(control.reserveOverride("admin", 0.6)).toBeNull()
+      expect(control.overrideFor("admin", 0.4)).not.toBeNull()
+
+      await control.consumeOverride("admin", 0.5, 0.6)
+      expect(control.reserveOverride("admin", 0.5)).not.toBeNull()
+      control.releaseOverride("admin", 0.5)
+      expect(control.overrideFor("admin", 0.5)?.remaining).toBeCloseTo(0.5)
+    })
+
+    it("validates the amount and expiry", async () => {
+      const control = new ShieldControl()
+      await expect(control.grantOverride("admin", 0, Date.now() + 1000)).rejects.toThrow(
+        TokenShieldConfigError,
+      )
+      await expect(control.grantOverride("admin", 5, Date.now() - 1000)).rejects.toThrow(
+        TokenShieldConfigError,
+      )
+    })
+  })
+
+  describe("shared state", () => {
+    it("sees changes made by another instance on the same backend after a refresh", async () => {
+      const backend = createMemoryBackend()
+      const admin = new ShieldControl({ backend })
+      const worker = new ShieldControl({ backend, syncIntervalMs: 60_000 })
+      await worker.refresh()
+
+      await admin.pause("incident")
+      await admin.grantOverride("admin", 2, Date.now() + 60_000)
+      // Within the sync interval the worker keeps its last read
+      await worker.refresh()
+      expect(worker.pausedFor([])).toBeNull()
+
+      await worker.refresh(true)
+      expect(worker.pausedFor([])?.reason).toBe("incident")
+      expect(worker.overrideFor("admin")?.amount).toBe(2)
+    })
+  })
+})
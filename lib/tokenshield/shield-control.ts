@@ -0,0 +1,279 @@
+/**
+ * TokenShield - Manual Control (kill switch and overrides)
+ *
+ * Operator controls for incidents: pause all LLM traffic (or one scope of
+ * it) without redeploying, and let a named user bypass budget and breaker
+ * limits up to a fixed dollar amount until an expiry time.
+ *
+ * State lives in a StorageBackend under a single key, so every tab or
+ * process sharing the backend sees the same pauses and overrides. Each
+ * instance re-reads the state at most once per `syncIntervalMs` and
+ * before every change, so writes from other instances are picked up
+ * without a restart. Changes from one instance are applied one at a
+ * time; concurrent writers in different instances are last-writer-wins.
+ *
+ * Features:
+ * - Global or scoped pauses (breaker scope, model ID or ledger feature)
+ *   with an optional automatic end time
+ * - Per-user dollar overrides that drain as the overridden requests run
+ * - Callbacks for each change, wired to events and the audit log by the
+ *   middleware
+ */
+
+import { TokenShieldConfigError } from "./errors"
+import { createMemoryBackend, createStore, get, set, type StorageBackend } from "./storage-adapter"
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export interface ControlPause {
+  /** Why traffic was paused, shown in block errors and audit entries */
+  reason: string
+  /**
+   * Breaker scope, model ID or ledger feature the pause applies to.
+   * Omitted for a global pause that stops all traffic.
+   */
+  scope?: string
+  /** When the pause lifts by itself (ms since epoch); omitted = until resume() */
+  until?: number
+  pausedAt: number
+}
+
+export interface ControlOverride {
+  userId: string
+  /** Dollar amount granted */
+  amount: number
+  /** Dollars left; requests stop bypassing limits once this reaches 0 */
+  remaining: number
+  /** When the override lapses (ms since epoch) */
+  expiresAt: number
+  grantedAt: number
+}
+
+export interface ControlState {
+  pauses: ControlPause[]
+  overrides: ControlOverride[]
+}
+
+export interface ShieldControlConfig {
+  /** Where the state is shared; defaults to IndexedDB in browsers and process memory elsewhere */
+  backend?: StorageBackend
+  /** Minimum ms between re-reads of the shared state (default: 1000) */
+  syncIntervalMs?: number
+  onPause?: (pause: ControlPause) => void
+  /** Called once per lifted pause */
+  onResume?: (pause: ControlPause) => void
+  onOverrideGranted?: (override: ControlOverride) => void
+}
+
+// -------------------------------------------------------
+// Implementation
+// -------------------------------------------------------
+
+const STATE_KEY = "state"
+
+export class ShieldControl {
+  private state: ControlState = { pauses: [], overrides: [] }
+  private store: StorageBackend
+  private syncIntervalMs: number
+  private lastSync = -Infinity
+  private config: ShieldControlConfig
+  /** Serializes read-modify-write cycles so concurrent changes don't drop each other */
+  private writeChain: Promise<void> = Promise.resolve()
+  /** Override dollars claimed by in-flight requests, per user */
+  private reserved = new Map<string, number>()
+
+  constructor(config: ShieldControlConfig = {}) {
+    this.config = config
+    this.syncIntervalMs = config.syncIntervalMs ?? 1000
+    if (config.backend) {
+      this.store = config.backend
+    } else if (typeof window !== "undefined") {
+      this.store = createStore("tokenshield-control", "state")
+    } else {
+      this.store = createMemoryBackend()
+    }
+  }
+
+  /**
+   * Pause traffic. A pause for the same scope (or a second global pause)
+   * replaces the earlier one.
+   */
+  async pause(
+    reason: string,
+    options: { scope?: string; until?: number | Date } = {},
+  ): Promise<ControlPause> {
+    const until = options.until instanceof Date ? options.until.getTime() : options.until
+    if (until !== undefined && !(until > Date.now())) {
+      throw new TokenShieldConfigError("pause `until` must be in the future", "until")
+    }
+    const pause: ControlPause = { reason, pausedAt: Date.now() }
+    if (options.scope) pause.scope = options.scope
+    if (until !== undefined) pause.until = until
+
+    await this.update((state) => {
+      state.pauses = state.pauses.filter((p) => p.scope !== pause.scope)
+      state.pauses.push(pause)
+    })
+    this.config.onPause?.(pause)
+    return pause
+  }
+
+  /**
+   * Lift the pause for one scope, or every pause when called without a
+   * scope. Returns the pauses that were lifted.
+   */
+  async resume(scope?: string): Promise<ControlPause[]> {
+    let lifted: ControlPause[] = []
+    await this.update((state) => {
+      lifted = state.pauses.filter((p) => scope === undefined || p.scope === scope)
+      state.pauses = state.pauses.filter((p) => !lifted.includes(p))
+    })
+    for (const pause of lifted) this.config.onResume?.(pause)
+    return lifted
+  }
+
+  /**
+   * Let `userId` bypass user budget and breaker limits for up to `amount`
+   * dollars until `expiresAt`. Replaces any earlier override for the user.
+   */
+  async grantOverride(
+    userId: string,
+    amount: number,
+    expiresAt: number | Date,
+  ): Promise<ControlOverride> {
+    const expires = expiresAt instanceof Date ? expiresAt.getTime() : expiresAt
+    if (!userId) {
+      throw new TokenShieldConfigError("override userId must be a non-empty string", "userId")
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new TokenShieldConfigError("override amount must be a positive number", "amount")
+    }
+    if (!(expires > Date.now())) {
+      throw new TokenShieldConfigError("override `expiresAt` must be in the future", "expiresAt")
+    }
+    const override: ControlOverride = {
+      userId,
+      amount,
+      remaining: amount,
+      expiresAt: expires,
+      grantedAt: Date.now(),
+    }
+
+    await this.update((state) => {
+      state.overrides = state.overrides.filter((o) => o.userId !== userId)
+      state.overrides.push(override)
+    })
+    this.config.onOverrideGranted?.(override)
+    return override
+  }
+
+  /**
+   * The pause that blocks a request, or null. `targets` are the request's
+   * scope keys (breaker scope, model ID, feature); global pauses match all.
+   */
+  pausedFor(targets: Array<string | undefined>): ControlPause | null {
+    const now = Date.now()
+    return (
+      this.state.pauses.find(
+        (p) =>
+          (p.until === undefined || p.until > now) &&
+          (p.scope === undefined || targets.includes(p.scope)),
+      ) ?? null
+    )
+  }
+
+  /**
+   * The user's live override if what is left of it after in-flight
+   * reservations still covers `estimatedCost`, or null.
+   */
+  overrideFor(userId: string, estimatedCost = 0): ControlOverride | null {
+    const now = Date.now()
+    const reserved = this.reserved.get(userId) ?? 0
+    return (
+      this.state.overrides.find(
+        (o) =>
+          o.userId === userId &&
+          o.expiresAt > now &&
+          o.remaining - reserved > 0 &&
+          o.remaining - reserved >= estimatedCost,
+      ) ?? null
+    )
+  }
+
+  /**
+   * Claim `estimatedCost` of the user's override for an in-flight request,
+   * so parallel requests can't each spend the same dollars. Returns null
+   * (and claims nothing) when the override doesn't cover it. Settle the
+   * claim with consumeOverride() or releaseOverride().
+   */
+  reserveOverride(userId: string, estimatedCost: number): ControlOverride | null {
+    const override = this.overrideFor(userId, estimatedCost)
+    if (override && estimatedCost > 0) {
+      this.reserved.set(userId, (this.reserved.get(userId) ?? 0) + estimatedCost)
+    }
+    return override
+  }
+
+  /** Give back an in-flight claim for a request that won't be charged. */
+  releaseOverride(userId: string, reserved: number): void {
+    const left = (this.reserved.get(userId) ?? 0) - reserved
+    if (left > 0) this.reserved.set(userId, left)
+    else this.reserved.delete(userId)
+  }
+
+  /**
+   * Deduct the actual cost of an overridden request from the user's
+   * override, settling the `reserved` amount it claimed.
+   */
+  async consumeOverride(userId: string, cost: number, reserved = 0): Promise<void> {
+    this.releaseOverride(userId, reserved)
+    if (cost <= 0) return
+    await this.update((state) => {
+      const override = state.overrides.find((o) => o.userId === userId)
+      if (override) override.remaining = Math.max(0, override.remaining - cost)
+    })
+  }
+
+  /** Active pauses and overrides; expired and used-up entries are left out. */
+  getState(): ControlState {
+    const now = Date.now()
+    return {
+      pauses: this.state.pauses.filter((p) => p.until === undefined || p.until > now),
+      overrides: this.state.overrides.filter((o) => o.expiresAt > now && o.remaining > 0),
+    }
+  }
+
+  /**
+   * Re-read the shared state if it is older than `syncIntervalMs` (or
+   * always, with `force`). Call before pausedFor()/overrideFor().
+   */
+  async refresh(force = false): Promise<void> {
+    const now = Date.now()
+    if (!force && now - this.lastSync < this.syncIntervalMs) return
+    this.lastSync = now
+    const stored = await get<ControlState>(STATE_KEY, this.store)
+    if (stored && Array.isArray(stored.pauses) && Array.isArray(stored.overrides)) {
+      this.state = stored
+    } else {
+      this.state = { pauses: [], overrides: [] }
+    }
+  }
+
+  /**
+   * Read-modify-write against the shared state, dropping expired entries.
+   * Runs after any earlier update has finished, successfully or not.
+   */
+  private update(mutate: (state: ControlState) => void): Promise<void> {
+    const run = this.writeChain.then(async () => {
+      await this.refresh(true)
+      const state = this.getState()
+      mutate(state)
+      this.state = state
+      await set(STATE_KEY, state, this.store)
+    })
+    this.writeChain = run.catch(() => {})
+    return run
+  }
+}
@@ -6,8 +6,18 @@
  * use the MemoryStore fallback.
  */
 
-import { describe, it, expect } from "vitest"
-import { createStore, get, set, del, keys, isPersistent } from "./storage-adapter"
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  createStore,
+  get,
+  set,
+  del,
+  keys,
+  isPersistent,
+  isStorageBackend,
+  createMemoryBackend,
+  createNamespacedBackend,
+} from "./storage-adapter"
 
 describe("StorageAdapter", () => {
   describe("createStore", () => {
@@ -118,4 +128,64 @@ describe("StorageAdapter", () => {
       expect(allKeys).toContain("dk2")
     })
   })
+
+  describe("StorageBackend", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("isStorageBackend recognizes backends and rejects other handles", () => {
+      expect(isStorageBackend(createMemoryBackend())).toBe(true)
+      expect(isStorageBackend(undefined)).toBe(false)
+      expect(isStorageBackend(() => {})).toBe(false)
+      expect(isStorageBackend({ get: () => {} })).toBe(false)
+    })
+
+    it("get/set/del/keys dispatch to a backend passed as the store", async () => {
+      const backend = createMemoryBackend()
+      await set("k", { v: 1 }, backend)
+      expect(await backend.get("k")).toEqual({ v: 1 })
+      expect(await get("k", backend)).toEqual({ v: 1 })
+      expect(await keys(backend)).toEqual(["k"])
+      await del("k", backend)
+      expect(await backend.get("k")).toBeUndefined()
+    })
+
+    it("expires keys after ttlMs", async () => {
+      vi.useFakeTimers()
+      const backend = createMemoryBackend()
+      await set("short", "x", backend, { ttlMs: 1000 })
+      await backend.set("forever", "y")
+      expect(await backend.ttl("short")).toBe(1000)
+      expect(await backend.ttl("forever")).toBeNull()
+      expect(await backend.ttl("missing")).toBeUndefined()
+
+      vi.advanceTimersByTime(1001)
+      expect(await get("short", backend)).toBeUndefined()
+      expect(await backend.keys()).toEqual(["forever"])
+    })
+
+    it("applies batch operations in order", async () => {
+      const backend = createMemoryBackend()
+      await backend.batch([
+        { type: "set", key: "a", value: 1 },
+        { type: "set", key: "b", value: 2 },
+        { type: "del", key: "a" },
+      ])
+      expect(await backend.keys()).toEqual(["b"])
+    })
+
+    it("namespaced backends share storage without key collisions", async () => {
+      const shared = createMemoryBackend()
+      const cache = createNamespacedBackend(shared, "cache")
+      const ledger = createNamespacedBackend(shared, "ledger")
+      await cache.set("ts_1", "cached")
+      await ledger.batch([{ type: "set", key: "ts_1", value: "entry" }])
+
+      expect(await cache.get("ts_1")).toBe("cached")
+      expect(await ledger.get("ts_1")).toBe("entry")
+      expect(await cache.keys()).toEqual(["ts_1"])
+      expect((await shared.keys()).sort()).toEqual(["cache:ts_1", "ledger:ts_1"])
+    })
+  })
 })
@@ -7,11 +7,66 @@
  *
  * All modules that persist data should import from this module instead of
  * directly from "idb-keyval" to guarantee Edge Runtime compatibility.
+ *
+ * Server deployments can pass a StorageBackend (filesystem, SQLite, Redis —
+ * see "./storage-backends") anywhere a store handle is accepted. The
+ * get/set/del/keys helpers below dispatch to it transparently, so persisting
+ * modules share one code path for IndexedDB, memory, and server storage.
  */
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type StoreHandle = any
 
+// -------------------------------------------------------
+// Backend interface
+// -------------------------------------------------------
+
+/** Options for a single write. */
+export interface StorageSetOptions {
+  /** Expire the key after this many milliseconds (omit for no expiry) */
+  ttlMs?: number
+}
+
+/** One operation in an atomic (where the backend supports it) batch write. */
+export type StorageBatchOp =
+  | { type: "set"; key: string; value: unknown; ttlMs?: number }
+  | { type: "del"; key: string }
+
+/**
+ * Pluggable key-value persistence backend.
+ *
+ * Values are JSON-serializable objects. Implementations must treat expired
+ * keys as absent in get() and keys(). Every persisting module (ResponseCache,
+ * CostLedger, AuditLog, UserBudgetManager) accepts one via its `backend` option.
+ */
+export interface StorageBackend {
+  get<T = unknown>(key: string): Promise<T | undefined>
+  set(key: string, value: unknown, options?: StorageSetOptions): Promise<void>
+  del(key: string): Promise<void>
+  /** All live (non-expired) keys */
+  keys(): Promise<string[]>
+  /** Apply several writes in order. Atomic when the underlying store supports it. */
+  batch(ops: StorageBatchOp[]): Promise<void>
+  /**
+   * Remaining time-to-live in milliseconds. Returns `null` when the key exists
+   * without an expiry, and `undefined` when the key does not exist.
+   */
+  ttl(key: string): Promise<number | null | undefined>
+}
+
+/** Type guard: distinguishes StorageBackend objects from idb-keyval store functions. */
+export function isStorageBackend(store: unknown): store is StorageBackend {
+  if (typeof store !== "object" || store === null) return false
+  const s = store as Record<string, unknown>
+  return (
+    typeof s.get === "function" &&
+    typeof s.set === "function" &&
+    typeof s.del === "function" &&
+    typeof s.keys === "function" &&
+    typeof s.batch === "function"
+  )
+}
+
 let _idbAvailable: boolean | null = null
 
 function isIndexedDBAvailable(): boolean {
@@ -32,23 +87,46 @@ function isIndexedDBAvailable(): boolean {
 // In-memory fallback store (Map-based)
 // -------------------------------------------------------
 
-class MemoryStore {
-  private data = new Map<string, unknown>()
+class MemoryStore implements StorageBackend {
+  private data = new Map<string, { value: unknown; expiresAt: number | null }>()
+
+  private live(key: string): { value: unknown; expiresAt: number | null } | undefined {
+    const item = this.data.get(key)
+    if (item && item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.data.delete(key)
+      return undefined
+    }
+    return item
+  }
 
-  get(key: string): unknown | undefined {
-    return this.data.get(key)
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.live(key)?.value as T | undefined
   }
 
-  set(key: string, value: unknown): void {
-    this.data.set(key, value)
+  async set(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+    const expiresAt = options?.ttlMs !== undefined ? Date.now() + options.ttlMs : null
+    this.data.set(key, { value, expiresAt })
   }
 
-  del(key: string): void {
+  async del(key: string): Promise<void> {
     this.data.delete(key)
   }
 
-  keys(): string[] {
-    return Array.from(this.data.keys())
+  async keys(): Promise<string[]> {
+    return Array.from(this.data.keys()).filter((k) => this.live(k) !== undefined)
+  }
+
+  async batch(ops: StorageBatchOp[]): Promise<void> {
+    for (const op of ops) {
+      if (op.type === "set") await this.set(op.key, op.value, { ttlMs: op.ttlMs })
+      else await this.del(op.key)
+    }
+  }
+
+  async ttl(key: string): Promise<number | null | undefined> {
+    const item = this.live(key)
+    if (!item) return undefined
+    return item.expiresAt === null ? null : item.expiresAt - Date.now()
   }
 }
 
@@ -65,6 +143,34 @@ function getMemoryStore(dbName: string, storeName: string): MemoryStore {
   return store
 }
 
+/**
+ * Create a standalone in-memory StorageBackend (not shared with createStore()).
+ * Useful for tests and for single-process servers that don't need durability.
+ */
+export function createMemoryBackend(): StorageBackend {
+  return new MemoryStore()
+}
+
+/**
+ * Scope a backend to a key namespace so several modules can share one
+ * database without key collisions. Keys are stored as `${namespace}:${key}`.
+ */
+export function createNamespacedBackend(
+  backend: StorageBackend,
+  namespace: string,
+): StorageBackend {
+  const prefix = `${namespace}:`
+  return {
+    get: <T = unknown>(key: string) => backend.get<T>(prefix + key),
+    set: (key, value, options) => backend.set(prefix + key, value, options),
+    del: (key) => backend.del(prefix + key),
+    keys: async () =>
+      (await backend.keys()).filter((k) => k.startsWith(prefix)).map((k) => k.slice(prefix.length)),
+    batch: (ops) => backend.batch(ops.map((op) => ({ ...op, key: prefix + op.key }))),
+    ttl: (key) => backend.ttl(prefix + key),
+  }
+}
+
 // -------------------------------------------------------
 // Public API (mirrors idb-keyval)
 // -------------------------------------------------------
@@ -84,8 +190,8 @@ export function createStore(dbName: string, storeName: string): StoreHandle {
 }
 
 export async function get<T>(key: string, store?: StoreHandle): Promise<T | undefined> {
-  if (store instanceof MemoryStore) {
-    return store.get(key) as T | undefined
+  if (isStorageBackend(store)) {
+    return store.get<T>(key)
   }
   if (isIndexedDBAvailable()) {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -93,37 +199,44 @@ export async function get<T>(key: string, store?: StoreHandle): Promise<T | unde
     return store ? idb.get(key, store) : idb.get(key)
   }
   // Fallback: no store passed and no IndexedDB
-  return getMemoryStore("default", "default").get(key) as T | undefined
+  return getMemoryStore("default", "default").get<T>(key)
 }
 
-export async function set(key: string, value: unknown, store?: StoreHandle): Promise<void> {
-  if (store instanceof MemoryStore) {
-    store.set(key, value)
-    return
+/**
+ * Write a value. `options.ttlMs` is honoured by StorageBackend stores and
+ * ignored by IndexedDB (callers still check expiry on read).
+ */
+export async function set(
+  key: string,
+  value: unknown,
+  store?: StoreHandle,
+  options?: StorageSetOptions,
+): Promise<void> {
+  if (isStorageBackend(store)) {
+    return store.set(key, value, options)
   }
   if (isIndexedDBAvailable()) {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const idb = require("idb-keyval")
     return store ? idb.set(key, value, store) : idb.set(key, value)
   }
-  getMemoryStore("default", "default").set(key, value)
+  return getMemoryStore("default", "default").set(key, value, options)
 }
 
 export async function del(key: string, store?: StoreHandle): Promise<void> {
-  if (store instanceof MemoryStore) {
-    store.del(key)
-    return
+  if (isStorageBackend(store)) {
+    return store.del(key)
   }
   if (isIndexedDBAvailable()) {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const idb = require("idb-keyval")
     return store ? idb.del(key, store) : idb.del(key)
   }
-  getMemoryStore("default", "default").del(key)
+  return getMemoryStore("default", "default").del(key)
 }
 
 export async function keys(store?: StoreHandle): Promise<string[]> {
-  if (store instanceof MemoryStore) {
+  if (isStorageBackend(store)) {
     return store.keys()
   }
   if (isIndexedDBAvailable()) {
@@ -0,0 +1,434 @@
+/**
+ * Server Storage Backend Tests
+ *
+ * Runs the same StorageBackend contract against the file, SQLite (sql.js)
+ * and Redis-protocol backends. Redis is exercised through an in-process
+ * fake RESP server so no external service is needed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createServer, type Server, type Socket } from "node:net"
+import initSqlJs from "sql.js"
+import {
+  FileStorageBackend,
+  SqliteStorageBackend,
+  RedisStorageBackend,
+  createRespClient,
+  RespError,
+  type RespClient,
+  type SqliteDatabase,
+  type StorageBackend,
+} from "./storage-backends"
+import { createNamespacedBackend } from "./storage-adapter"
+import { ResponseCache } from "./response-cache"
+import { CostLedger } from "./cost-ledger"
+
+// -------------------------------------------------------
+// Fixtures
+// -------------------------------------------------------
+
+/** Adapt a sql.js database to the better-sqlite3-style SqliteDatabase shape. */
+async function createSqlJsDatabase(): Promise<SqliteDatabase> {
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+  return {
+    exec: (sql) => db.exec(sql),
+    prepare: (sql) => ({
+      run: (...params) => db.run(sql, params as (string | number | null)[]),
+      get: (...params) => {
+        const stmt = db.prepare(sql)
+        try {
+          stmt.bind(params as (string | number | null)[])
+          return stmt.step() ? stmt.getAsObject() : undefined
+        } finally {
+          stmt.free()
+        }
+      },
+      all: (...params) => {
+        const stmt = db.prepare(sql)
+        const rows: unknown[] = []
+        try {
+          stmt.bind(params as (string | number | null)[])
+          while (stmt.step()) rows.push(stmt.getAsObject())
+        } finally {
+          stmt.free()
+        }
+        return rows
+      },
+    }),
+  }
+}
+
+/** Encode a reply value in RESP2. */
+function encode(value: unknown): string {
+  if (value === null) return "$-1\r\n"
+  if (value instanceof RespError) return `-${value.message}\r\n`
+  if (typeof value === "number") return `:${value}\r\n`
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encode).join("")}`
+  const s = String(value)
+  return `$${Buffer.byteLength(s)}\r\n${s}\r\n`
+}
+
+/** Parse complete RESP command arrays from a buffer. */
+function parseCommands(buf: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = []
+  let i = 0
+  outer: while (i < buf.length) {
+    const headerEnd = buf.indexOf("\r\n", i)
+    if (headerEnd === -1) break
+    const count = Number(buf.toString("utf8", i + 1, headerEnd))
+    let cursor = headerEnd + 2
+    const args: string[] = []
+    for (let n = 0; n < count; n++) {
+      const lenEnd = buf.indexOf("\r\n", cursor)
+      if (lenEnd === -1) break outer
+      const len = Number(buf.toString("utf8", cursor + 1, lenEnd))
+      if (buf.length < lenEnd + 2 + len + 2) break outer
+      args.push(buf.toString("utf8", lenEnd + 2, lenEnd + 2 + len))
+      cursor = lenEnd + 2 + len + 2
+    }
+    commands.push(args)
+    i = cursor
+  }
+  return { commands, rest: buf.subarray(i) }
+}
+
+/** Tiny Redis-protocol server supporting the commands RedisStorageBackend uses. */
+function startFakeRedis(): Promise<{ server: Server; port: number; sockets: Set<Socket> }> {
+  const data = new Map<string, { value: string; expiresAt: number | null }>()
+  const sockets = new Set<Socket>()
+
+  const live = (key: string) => {
+    const item = data.get(key)
+    if (item && item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      data.delete(key)
+      return undefined
+    }
+    return item
+  }
+
+  const run = (args: string[]): unknown => {
+    const [cmd, ...rest] = args
+    switch (cmd.toUpperCase()) {
+      case "AUTH":
+        return rest[rest.length - 1] === "secret"
+          ? "OK"
+          : new RespError("WRONGPASS invalid password")
+      case "SELECT":
+        return "OK"
+      case "GET":
+        return live(rest[0])?.value ?? null
+      case "SET": {
+        const pxIndex = rest.findIndex((a) => a.toUpperCase() === "PX")
+        const expiresAt = pxIndex >= 0 ? Date.now() + Number(rest[pxIndex + 1]) : null
+        data.set(rest[0], { value: rest[1], expiresAt })
+        return "OK"
+      }
+      case "DEL":
+        return data.delete(rest[0]) ? 1 : 0
+      case "PTTL": {
+        const item = live(rest[0])
+        if (!item) return -2
+        return item.expiresAt === null ? -1 : item.expiresAt - Date.now()
+      }
+      case "SCAN": {
+        const prefix = rest[2].replace(/\*$/, "").replace(/\\(.)/g, "$1")
+        const matches = Array.from(data.keys()).filter((k) => k.startsWith(prefix) && live(k))
+        // Two pages to exercise cursor iteration
+        const page = rest[0] === "0" ? 0 : 1
+        const half = Math.ceil(matches.length / 2)
+        return page === 0 && matches.length > 1
+          ? ["1", matches.slice(0, half)]
+          : ["0", page === 0 ? matches : matches.slice(half)]
+      }
+      default:
+        return new RespError(`ERR unknown command '${cmd}'`)
+    }
+  }
+
+  const server = createServer((socket) => {
+    sockets.add(socket)
+    socket.on("close", () => sockets.delete(socket))
+    let buffer: Buffer = Buffer.alloc(0)
+    let queued: string[][] | null = null
+    socket.on("data", (chunk) => {
+      const parsed = parseCommands(Buffer.concat([buffer, chunk]))
+      buffer = parsed.rest
+      let out = ""
+      for (const args of parsed.commands) {
+        const cmd = args[0].toUpperCase()
+        if (cmd === "MULTI") {
+          queued = []
+          out += encode("OK")
+        } else if (cmd === "EXEC") {
+          out += encode((queued ?? []).map(run))
+          queued = null
+        } else if (queued) {
+          queued.push(args)
+          out += encode("QUEUED")
+        } else {
+          out += encode(run(args))
+        }
+      }
+      if (out) socket.write(out)
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address()
+      resolve({ server, port: typeof address === "object" && address ? address.port : 0, sockets })
+    })
+  })
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// -------------------------------------------------------
+// Shared contract
+// -------------------------------------------------------
+
+function describeBackendContract(name: string, factory: () => Promise<StorageBackend>) {
+  describe(`${name} contract`, () => {
+    it("stores, retrieves and deletes JSON values", async () => {
+      const backend = await factory()
+      const value = { nested: { array: [1, 2, 3] }, flag: true, text: "héllo" }
+      await backend.set("obj", value)
+      expect(await backend.get("obj")).toEqual(value)
+      await backend.del("obj")
+      expect(await backend.get("obj")).toBeUndefined()
+    })
+
+    it("lists live keys", async () => {
+      const backend = await factory()
+      await backend.set("a", 1)
+      await backend.set("b", 2)
+      await backend.set("c", 3)
+      await backend.del("b")
+      expect((await backend.keys()).sort()).toEqual(["a", "c"])
+    })
+
+    it("honours TTLs", async () => {
+      const backend = await factory()
+      await backend.set("short", "x", { ttlMs: 30 })
+      await backend.set("forever", "y")
+      const remaining = await backend.ttl("short")
+      expect(remaining).toBeGreaterThan(0)
+      expect(remaining).toBeLessThanOrEqual(30)
+      expect(await backend.ttl("forever")).toBeNull()
+      expect(await backend.ttl("missing")).toBeUndefined()
+
+      await sleep(50)
+      expect(await backend.get("short")).toBeUndefined()
+      expect(await backend.keys()).toEqual(["forever"])
+    })
+
+    it("applies batches in order", async () => {
+      const backend = await factory()
+      await backend.batch([
+        { type: "set", key: "a", value: 1 },
+        { type: "set", key: "b", value: 2 },
+        { type: "del", key: "a" },
+        { type: "set", key: "b", value: 3 },
+      ])
+      expect(await backend.keys()).toEqual(["b"])
+      expect(await backend.get("b")).toBe(3)
+    })
+
+    it("persists response cache and ledger entries across instances", async () => {
+      const backend = await factory()
+      const cache = new ResponseCache({ backend: createNamespacedBackend(backend, "cache") })
+      await cache.store(
+        "What is TypeScript?",
+        "A typed superset of JavaScript.",
+        "gpt-4o-mini",
+        10,
+        20,
+      )
+      const ledger = new CostLedger({ backend: createNamespacedBackend(backend, "ledger") })
+      await ledger.record({ model: "gpt-4o-mini", inputTokens: 100, outputTokens: 50, savings: {} })
+
+      const cache2 = new ResponseCache({ backend: createNamespacedBackend(backend, "cache") })
+      await cache2.hydrate()
+      const hit = await cache2.lookup("What is TypeScript?", "gpt-4o-mini")
+      expect(hit.hit).toBe(true)
+
+      const ledger2 = new CostLedger({ backend: createNamespacedBackend(backend, "ledger") })
+      await ledger2.hydrate()
+      expect(ledger2.getSummary().totalCalls).toBe(1)
+    })
+  })
+}
+
+// -------------------------------------------------------
+// Backends
+// -------------------------------------------------------
+
+describe("FileStorageBackend", () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tokenshield-storage-"))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  let counter = 0
+  describeBackendContract(
+    "file",
+    async () => new FileStorageBackend({ path: join(dir, `store-${counter++}.jsonl`) }),
+  )
+
+  it("reloads state from disk in a new instance", async () => {
+    const path = join(dir, "reload.jsonl")
+    const first = new FileStorageBackend({ path })
+    await first.set("kept", { n: 1 })
+    await first.set("removed", { n: 2 })
+    await first.del("removed")
+
+    const second = new FileStorageBackend({ path })
+    expect(await second.get("kept")).toEqual({ n: 1 })
+    expect(await second.keys()).toEqual(["kept"])
+  })
+
+  it("skips a torn trailing line", async () => {
+    const path = join(dir, "torn.jsonl")
+    const first = new FileStorageBackend({ path })
+    await first.set("ok", 1)
+    const { appendFile } = await import("node:fs/promises")
+    await appendFile(path, '{"op":"set","key":"bro', "utf8")
+
+    const second = new FileStorageBackend({ path })
+    expect(await second.keys()).toEqual(["ok"])
+  })
+
+  it("compacts overwritten records", async () => {
+    const path = join(dir, "compact.jsonl")
+    const backend = new FileStorageBackend({ path, compactAfter: 5 })
+    for (let i = 0; i < 20; i++) await backend.set("counter", i)
+    const lines = (await readFile(path, "utf8")).trim().split("\n")
+    expect(lines.length).toBeLessThanOrEqual(6)
+
+    const reloaded = new FileStorageBackend({ path })
+    expect(await reloaded.get("counter")).toBe(19)
+  })
+})
+
+describe("SqliteStorageBackend", () => {
+  describeBackendContract(
+    "sqlite",
+    async () => new SqliteStorageBackend({ database: await createSqlJsDatabase() }),
+  )
+
+  it("rejects unsafe table names", async () => {
+    const database = await createSqlJsDatabase()
+    expect(() => new SqliteStorageBackend({ database, table: "kv; DROP TABLE x" })).toThrow(
+      /Invalid SQLite table name/,
+    )
+  })
+
+  it("rolls back a failed batch", async () => {
+    const database = await createSqlJsDatabase()
+    const backend = new SqliteStorageBackend({ database })
+    await backend.set("a", 1)
+    const circular: Record<string, unknown> = {}
+    circular.self = circular
+    await expect(
+      backend.batch([
+        { type: "del", key: "a" },
+        { type: "set", key: "b", value: circular },
+      ]),
+    ).rejects.toThrow()
+    expect(await backend.get("a")).toBe(1)
+    expect(await backend.get("b")).toBeUndefined()
+  })
+
+  it("serializes concurrent batches and writes", async () => {
+    const backend = new SqliteStorageBackend({ database: await createSqlJsDatabase() })
+    await Promise.all([
+      backend.batch([
+        { type: "set", key: "a", value: 1 },
+        { type: "set", key: "b", value: 2 },
+      ]),
+      backend.set("c", 3),
+      backend.batch([
+        { type: "set", key: "d", value: 4 },
+        { type: "del", key: "a" },
+      ]),
+    ])
+    expect((await backend.keys()).sort()).toEqual(["b", "c", "d"])
+  })
+})
+
+describe("RedisStorageBackend", () => {
+  let fake: { server: Server; port: number; sockets: Set<Socket> }
+  const clients: RespClient[] = []
+
+  beforeAll(async () => {
+    fake = await startFakeRedis()
+  })
+
+  afterAll(async () => {
+    await Promise.all(clients.map((c) => c.close()))
+    for (const s of fake.sockets) s.destroy()
+    await new Promise<void>((resolve) => fake.server.close(() => resolve()))
+  })
+
+  const connect = () => {
+    const client = createRespClient({ port: fake.port, password: "secret", db: 1 })
+    clients.push(client)
+    return client
+  }
+
+  let counter = 0
+  describeBackendContract(
+    "redis",
+    async () => new RedisStorageBackend({ client: connect(), prefix: `test${counter++}:` }),
+  )
+
+  it("isolates prefixes that contain glob characters", async () => {
+    const client = connect()
+    const a = new RedisStorageBackend({ client, prefix: "app*:" })
+    const b = new RedisStorageBackend({ client, prefix: "apple:" })
+    await a.set("k", 1)
+    await b.set("k", 2)
+    expect(await a.keys()).toEqual(["k"])
+    expect(await a.get("k")).toBe(1)
+  })
+
+  it("surfaces server error replies as RespError", async () => {
+    const client = connect()
+    await expect(client.command(["FLUSHALL"])).rejects.toBeInstanceOf(RespError)
+    // The connection stays usable after an error reply
+    expect(await client.command(["GET", "nothing"])).toBeNull()
+  })
+
+  it("closes the socket when AUTH fails on connect", async () => {
+    const before = fake.sockets.size
+    const client = createRespClient({ port: fake.port, password: "wrong" })
+    await expect(client.command(["GET", "x"])).rejects.toThrow(/WRONGPASS/)
+    for (let i = 0; i < 50 && fake.sockets.size > before; i++) await sleep(10)
+    expect(fake.sockets.size).toBe(before)
+  })
+
+  it("falls back to sequential commands when the client has no multi()", async () => {
+    const client = connect()
+    const backend = new RedisStorageBackend({
+      client: { command: (args) => client.command(args) },
+      prefix: "seq:",
+    })
+    await backend.batch([
+      { type: "set", key: "x", value: "1" },
+      { type: "set", key: "y", value: "2", ttlMs: 60_000 },
+    ])
+    expect((await backend.keys()).sort()).toEqual(["x", "y"])
+    expect(await backend.ttl("y")).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,626 @@
+/**
+ * TokenShield - Server Storage Backends
+ *
+ * StorageBackend implementations for Node.js servers, where IndexedDB is
+ * unavailable and the in-memory fallback resets on every restart:
+ *
+ * 1. FileStorageBackend   - Append-only JSON-lines file with periodic compaction
+ * 2. SqliteStorageBackend - Single key-value table on a better-sqlite3 / node:sqlite handle
+ * 3. RedisStorageBackend  - Any Redis-protocol server (Redis, Valkey, KeyDB, Dragonfly)
+ *
+ * Shipped as a separate entry point ("@tokenshield/ai-sdk/storage") so that
+ * Node built-ins are never pulled into browser or Edge bundles. Node modules
+ * are imported lazily on first use.
+ *
+ * Usage:
+ *   import { RedisStorageBackend, createRespClient } from '@tokenshield/ai-sdk/storage'
+ *
+ *   const storage = new RedisStorageBackend({ client: createRespClient({ port: 6379 }) })
+ *   const shield = tokenShieldMiddleware({ storage })
+ */
+
+import type { StorageBackend, StorageBatchOp, StorageSetOptions } from "./storage-adapter"
+
+export type { StorageBackend, StorageBatchOp, StorageSetOptions } from "./storage-adapter"
+
+/** Resolve an optional TTL into an absolute expiry timestamp (null = never). */
+function expiryFor(ttlMs: number | undefined, now: number): number | null {
+  return ttlMs !== undefined && ttlMs >= 0 ? now + ttlMs : null
+}
+
+// -------------------------------------------------------
+// 1. Filesystem (JSON lines)
+// -------------------------------------------------------
+
+export interface FileStorageConfig {
+  /** Path of the JSON-lines log file. Created on first write. */
+  path: string
+  /**
+   * Rewrite the file once it holds this many more lines than live keys
+   * (default: 1000). Compaction drops overwritten, deleted and expired records.
+   */
+  compactAfter?: number
+}
+
+type FileRecord =
+  | { op: "set"; key: string; value: unknown; expiresAt: number | null }
+  | { op: "del"; key: string }
+
+/**
+ * Append-only JSON-lines store. Each write appends one line; the full state
+ * is replayed into memory on first access. A torn final line (crash mid-write)
+ * is skipped on replay.
+ *
+ * Designed for a single process — use SqliteStorageBackend or
+ * RedisStorageBackend to share state between server instances.
+ */
+export class FileStorageBackend implements StorageBackend {
+  private config: Required<FileStorageConfig>
+  private data = new Map<string, { value: unknown; expiresAt: number | null }>()
+  private loaded: Promise<void> | null = null
+  /** Serializes file writes so appended lines never interleave */
+  private writeChain: Promise<void> = Promise.resolve()
+  private lineCount = 0
+
+  constructor(config: FileStorageConfig) {
+    this.config = { compactAfter: 1000, ...config }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const fs = await import("node:fs/promises")
+        let raw = ""
+        try {
+          raw = await fs.readFile(this.config.path, "utf8")
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+        }
+        for (const line of raw.split("\n")) {
+          if (!line.trim()) continue
+          let record: FileRecord
+          try {
+            record = JSON.parse(line) as FileRecord
+          } catch {
+            continue // torn write
+          }
+          this.lineCount++
+          if (record.op === "set") {
+            this.data.set(record.key, { value: record.value, expiresAt: record.expiresAt })
+          } else if (record.op === "del") {
+            this.data.delete(record.key)
+          }
+        }
+      })()
+    }
+    return this.loaded
+  }
+
+  private live(key: string): { value: unknown; expiresAt: number | null } | undefined {
+    const item = this.data.get(key)
+    if (item && item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.data.delete(key)
+      return undefined
+    }
+    return item
+  }
+
+  private append(records: FileRecord[]): Promise<void> {
+    const payload = records.map((r) => JSON.stringify(r)).join("\n") + "\n"
+    const run = async () => {
+      const fs = await import("node:fs/promises")
+      await fs.appendFile(this.config.path, payload, "utf8")
+      this.lineCount += records.length
+      if (this.lineCount - this.data.size > this.config.compactAfter) {
+        await this.compactNow()
+      }
+    }
+    const next = this.writeChain.then(run, run)
+    // Keep the chain alive after a failed write; the caller still sees the rejection
+    this.writeChain = next.catch(() => {})
+    return next
+  }
+
+  private async compactNow(): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const now = Date.now()
+    const lines: string[] = []
+    for (const [key, item] of this.data) {
+      if (item.expiresAt !== null && item.expiresAt <= now) continue
+      lines.push(JSON.stringify({ op: "set", key, value: item.value, expiresAt: item.expiresAt }))
+    }
+    // Write-then-rename so a crash mid-compaction never loses the old file
+    const tmp = `${this.config.path}.${process.pid}.tmp`
+    await fs.writeFile(tmp, lines.length > 0 ? lines.join("\n") + "\n" : "", "utf8")
+    await fs.rename(tmp, this.config.path)
+    this.lineCount = lines.length
+  }
+
+  /** Force a compaction of the log file. */
+  async compact(): Promise<void> {
+    await this.load()
+    const run = () => this.compactNow()
+    const next = this.writeChain.then(run, run)
+    this.writeChain = next.catch(() => {})
+    return next
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    await this.load()
+    return this.live(key)?.value as T | undefined
+  }
+
+  async set(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+    await this.batch([{ type: "set", key, value, ttlMs: options?.ttlMs }])
+  }
+
+  async del(key: string): Promise<void> {
+    await this.batch([{ type: "del", key }])
+  }
+
+  async keys(): Promise<string[]> {
+    await this.load()
+    return Array.from(this.data.keys()).filter((k) => this.live(k) !== undefined)
+  }
+
+  async batch(ops: StorageBatchOp[]): Promise<void> {
+    if (ops.length === 0) return
+    await this.load()
+    const now = Date.now()
+    const records: FileRecord[] = ops.map((op) =>
+      op.type === "set"
+        ? { op: "set", key: op.key, value: op.value, expiresAt: expiryFor(op.ttlMs, now) }
+        : { op: "del", key: op.key },
+    )
+    for (const r of records) {
+      if (r.op === "set") this.data.set(r.key, { value: r.value, expiresAt: r.expiresAt })
+      else this.data.delete(r.key)
+    }
+    await this.append(records)
+  }
+
+  async ttl(key: string): Promise<number | null | undefined> {
+    await this.load()
+    const item = this.live(key)
+    if (!item) return undefined
+    return item.expiresAt === null ? null : item.expiresAt - Date.now()
+  }
+}
+
+// -------------------------------------------------------
+// 2. SQLite
+// -------------------------------------------------------
+
+/** Prepared statement shape shared by better-sqlite3 and node:sqlite (sync or async). */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown
+  get(...params: unknown[]): unknown
+  all(...params: unknown[]): unknown[] | Promise<unknown[]>
+}
+
+/** Minimal database handle: better-sqlite3 `Database`, node:sqlite `DatabaseSync`, or a wrapper. */
+export interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+}
+
+export interface SqliteStorageConfig {
+  /** An open database handle */
+  database: SqliteDatabase
+  /** Table name (default: "tokenshield_kv"). Created if missing. */
+  table?: string
+}
+
+const SQL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Key-value table on SQLite. Values are stored as JSON text with an optional
+ * `expires_at` epoch-ms column; expired rows are ignored on read and removed
+ * lazily. Safe for multiple processes sharing one database file (WAL mode
+ * recommended).
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  private db: SqliteDatabase
+  private table: string
+  private initialized = false
+  /** Serializes writes so concurrent set/del calls never land inside another batch's transaction */
+  private writeChain: Promise<void> = Promise.resolve()
+
+  constructor(config: SqliteStorageConfig) {
+    const table = config.table ?? "tokenshield_kv"
+    if (!SQL_IDENTIFIER.test(table)) {
+      throw new Error(`Invalid SQLite table name: "${table}"`)
+    }
+    this.db = config.database
+    this.table = table
+  }
+
+  private async init(): Promise<void> {
+    if (this.initialized) return
+    await this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)`,
+    )
+    this.initialized = true
+  }
+
+  private write(run: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(run, run)
+    // Keep the chain alive after a failed write; the caller still sees the rejection
+    this.writeChain = next.catch(() => {})
+    return next
+  }
+
+  private async writeOp(op: StorageBatchOp, now: number): Promise<void> {
+    if (op.type === "set") {
+      await this.db
+        .prepare(
+          `INSERT INTO ${this.table} (key, value, expires_at) VALUES (?, ?, ?) ` +
+            `ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+        )
+        .run(op.key, JSON.stringify(op.value), expiryFor(op.ttlMs, now))
+    } else {
+      await this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(op.key)
+    }
+  }
+
+  private async row(
+    key: string,
+  ): Promise<{ value: string; expires_at: number | null } | undefined> {
+    await this.init()
+    const row = (await this.db
+      .prepare(`SELECT value, expires_at FROM ${this.table} WHERE key = ?`)
+      .get(key)) as { value: string; expires_at: number | null } | undefined | null
+    if (!row) return undefined
+    if (row.expires_at !== null && row.expires_at <= Date.now()) {
+      await this.write(() => this.writeOp({ type: "del", key }, Date.now()))
+      return undefined
+    }
+    return row
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const row = await this.row(key)
+    return row ? (JSON.parse(row.value) as T) : undefined
+  }
+
+  async set(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+    await this.init()
+    await this.write(() =>
+      this.writeOp({ type: "set", key, value, ttlMs: options?.ttlMs }, Date.now()),
+    )
+  }
+
+  async del(key: string): Promise<void> {
+    await this.init()
+    await this.write(() => this.writeOp({ type: "del", key }, Date.now()))
+  }
+
+  async keys(): Promise<string[]> {
+    await this.init()
+    const rows = (await this.db
+      .prepare(`SELECT key FROM ${this.table} WHERE expires_at IS NULL OR expires_at > ?`)
+      .all(Date.now())) as Array<{ key: string }>
+    return rows.map((r) => r.key)
+  }
+
+  async batch(ops: StorageBatchOp[]): Promise<void> {
+    if (ops.length === 0) return
+    await this.init()
+    await this.write(async () => {
+      const now = Date.now()
+      await this.db.exec("BEGIN")
+      try {
+        for (const op of ops) await this.writeOp(op, now)
+        await this.db.exec("COMMIT")
+      } catch (err) {
+        await this.db.exec("ROLLBACK")
+        throw err
+      }
+    })
+  }
+
+  async ttl(key: string): Promise<number | null | undefined> {
+    const row = await this.row(key)
+    if (!row) return undefined
+    return row.expires_at === null ? null : row.expires_at - Date.now()
+  }
+}
+
+// -------------------------------------------------------
+// 3. Redis protocol
+// -------------------------------------------------------
+
+/**
+ * Anything that can send a Redis command and resolve its reply. Matches the
+ * shipped RESP client, and adapts to node-redis (`sendCommand`) or ioredis
+ * (`call`) in one line.
+ */
+export interface RedisCommandClient {
+  command(args: string[]): Promise<unknown>
+  /** Optional MULTI/EXEC transaction; batch() falls back to sequential commands without it */
+  multi?(commands: string[][]): Promise<unknown[]>
+}
+
+export interface RedisStorageConfig {
+  client: RedisCommandClient
+  /** Prefix applied to every key (default: "tokenshield:") */
+  prefix?: string
+  /** Keys fetched per SCAN iteration (default: 200) */
+  scanCount?: number
+}
+
+/** Escape Redis glob metacharacters so a prefix matches literally in SCAN MATCH. */
+function escapeGlob(s: string): string {
+  return s.replace(/[*?[\]\\]/g, "\\$&")
+}
+
+/**
+ * Redis-backed store. Values are JSON strings; TTLs map to `SET ... PX`.
+ * Shared by every server instance pointed at the same Redis and prefix.
+ */
+export class RedisStorageBackend implements StorageBackend {
+  private client: RedisCommandClient
+  private prefix: string
+  private scanCount: number
+
+  constructor(config: RedisStorageConfig) {
+    this.client = config.client
+    this.prefix = config.prefix ?? "tokenshield:"
+    this.scanCount = config.scanCount ?? 200
+  }
+
+  private setArgs(key: string, value: unknown, ttlMs: number | undefined): string[] {
+    const args = ["SET", this.prefix + key, JSON.stringify(value)]
+    if (ttlMs !== undefined) args.push("PX", String(Math.max(1, Math.round(ttlMs))))
+    return args
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const reply = await this.client.command(["GET", this.prefix + key])
+    if (reply === null || reply === undefined) return undefined
+    return JSON.parse(String(reply)) as T
+  }
+
+  async set(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+    await this.client.command(this.setArgs(key, value, options?.ttlMs))
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.command(["DEL", this.prefix + key])
+  }
+
+  async keys(): Promise<string[]> {
+    const result: string[] = []
+    const match = escapeGlob(this.prefix) + "*"
+    let cursor = "0"
+    do {
+      const reply = (await this.client.command([
+        "SCAN",
+        cursor,
+        "MATCH",
+        match,
+        "COUNT",
+        String(this.scanCount),
+      ])) as [string, string[]]
+      cursor = String(reply[0])
+      for (const k of reply[1]) result.push(String(k).slice(this.prefix.length))
+    } while (cursor !== "0")
+    // SCAN may return a key more than once across iterations
+    return Array.from(new Set(result))
+  }
+
+  async batch(ops: StorageBatchOp[]): Promise<void> {
+    if (ops.length === 0) return
+    const commands = ops.map((op) =>
+      op.type === "set" ? this.setArgs(op.key, op.value, op.ttlMs) : ["DEL", this.prefix + op.key],
+    )
+    if (this.client.multi) {
+      await this.client.multi(commands)
+      return
+    }
+    for (const cmd of commands) await this.client.command(cmd)
+  }
+
+  async ttl(key: string): Promise<number | null | undefined> {
+    const reply = Number(await this.client.command(["PTTL", this.prefix + key]))
+    if (reply === -2) return undefined
+    if (reply === -1) return null
+    return reply
+  }
+}
+
+// -------------------------------------------------------
+// Minimal RESP2 client
+// -------------------------------------------------------
+
+/** Error reply from a Redis-protocol server (`-ERR ...`). */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RespError"
+  }
+}
+
+export interface RespClientConfig {
+  host?: string
+  port?: number
+  /** Sent with AUTH on connect */
+  password?: string
+  /** Sent with SELECT on connect */
+  db?: number
+}
+
+export interface RespClient extends RedisCommandClient {
+  multi(commands: string[][]): Promise<unknown[]>
+  /** Close the socket. Pending commands are rejected. */
+  close(): Promise<void>
+}
+
+/** Encode a command as a RESP array of bulk strings. */
+function encodeCommand(args: string[]): string {
+  let out = `*${args.length}\r\n`
+  for (const a of args) out += `$${Buffer.byteLength(a)}\r\n${a}\r\n`
+  return out
+}
+
+/**
+ * Parse one RESP2 reply from `buf` starting at `offset`.
+ * Returns null when the buffer does not yet hold a complete reply.
+ */
+function parseReply(buf: Buffer, offset: number): { value: unknown; next: number } | null {
+  if (offset >= buf.length) return null
+  const lineEnd = buf.indexOf("\r\n", offset)
+  if (lineEnd === -1) return null
+  const type = String.fromCharCode(buf[offset])
+  const line = buf.toString("utf8", offset + 1, lineEnd)
+  const afterLine = lineEnd + 2
+  switch (type) {
+    case "+":
+      return { value: line, next: afterLine }
+    case "-":
+      return { value: new RespError(line), next: afterLine }
+    case ":":
+      return { value: Number(line), next: afterLine }
+    case "$": {
+      const len = Number(line)
+      if (len === -1) return { value: null, next: afterLine }
+      if (buf.length < afterLine + len + 2) return null
+      return { value: buf.toString("utf8", afterLine, afterLine + len), next: afterLine + len + 2 }
+    }
+    case "*": {
+      const count = Number(line)
+      if (count === -1) return { value: null, next: afterLine }
+      const items: unknown[] = []
+      let cursor = afterLine
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, cursor)
+        if (!item) return null
+        items.push(item.value)
+        cursor = item.next
+      }
+      return { value: items, next: cursor }
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte: ${JSON.stringify(type)}`)
+  }
+}
+
+/**
+ * Create a lightweight Redis-protocol client over a single TCP connection.
+ * Commands are pipelined; replies are matched to callers in FIFO order.
+ * The socket is opened lazily on the first command.
+ */
+export function createRespClient(config: RespClientConfig = {}): RespClient {
+  type Pending = { resolve: (v: unknown) => void; reject: (e: unknown) => void }
+  const pending: Pending[] = []
+  let buffer: Buffer = Buffer.alloc(0)
+  let socket: import("node:net").Socket | null = null
+  let connecting: Promise<import("node:net").Socket> | null = null
+
+  const failAll = (err: unknown) => {
+    while (pending.length > 0) pending.shift()!.reject(err)
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk])
+    let offset = 0
+    while (pending.length > 0) {
+      let parsed: { value: unknown; next: number } | null
+      try {
+        parsed = parseReply(buffer, offset)
+      } catch (err) {
+        failAll(err)
+        socket?.destroy()
+        return
+      }
+      if (!parsed) break
+      offset = parsed.next
+      const p = pending.shift()!
+      if (parsed.value instanceof RespError) p.reject(parsed.value)
+      else p.resolve(parsed.value)
+    }
+    buffer = buffer.subarray(offset)
+  }
+
+  /** Write raw commands and register one pending reply per command. */
+  const send = (sock: import("node:net").Socket, commands: string[][]): Promise<unknown>[] => {
+    const replies = commands.map(
+      () => new Promise<unknown>((resolve, reject) => pending.push({ resolve, reject })),
+    )
+    sock.write(commands.map(encodeCommand).join(""))
+    return replies
+  }
+
+  const connect = (): Promise<import("node:net").Socket> => {
+    if (socket) return Promise.resolve(socket)
+    if (!connecting) {
+      connecting = (async () => {
+        const net = await import("node:net")
+        const sock = await new Promise<import("node:net").Socket>((resolve, reject) => {
+          const s = net.createConnection({
+            host: config.host ?? "127.0.0.1",
+            port: config.port ?? 6379,
+          })
+          s.once("connect", () => resolve(s))
+          s.once("error", reject)
+        })
+        sock.on("data", onData)
+        sock.on("error", failAll)
+        sock.on("close", () => {
+          socket = null
+          connecting = null
+          failAll(new RespError("Connection closed"))
+        })
+        const setup: string[][] = []
+        if (config.password) setup.push(["AUTH", config.password])
+        if (config.db !== undefined) setup.push(["SELECT", String(config.db)])
+        try {
+          if (setup.length > 0) await Promise.all(send(sock, setup))
+        } catch (err) {
+          // Don't leak the socket, or leave its unanswered setup replies queued
+          sock.removeAllListeners("close")
+          failAll(err)
+          sock.destroy()
+          throw err
+        }
+        socket = sock
+        return sock
+      })()
+      connecting.catch(() => {
+        connecting = null
+      })
+    }
+    return connecting
+  }
+
+  return {
+    async command(args) {
+      const sock = await connect()
+      return send(sock, [args])[0]
+    },
+    async multi(commands) {
+      const sock = await connect()
+      // Written in one chunk so no other command can interleave inside MULTI/EXEC
+      const replies = send(sock, [["MULTI"], ...commands, ["EXEC"]])
+      const settled = await Promise.allSettled(replies)
+      const exec = settled[settled.length - 1]
+      if (exec.status === "rejected") throw exec.reason
+      const queued = settled.slice(0, -1).find((r) => r.status === "rejected")
+      if (queued) throw (queued as PromiseRejectedResult).reason
+      const results = (exec.value as unknown[] | null) ?? []
+      const failed = results.find((r) => r instanceof RespError)
+      if (failed) throw failed
+      return results
+    },
+    async close() {
+      const sock = socket
+      socket = null
+      connecting = null
+      if (!sock) return
+      await new Promise<void>((resolve) => {
+        sock.once("close", () => resolve())
+        sock.end()
+      })
+    },
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { planReplay, createReplayStream } from "./stream-replay"
+
+/** Drain a stream and return its text-delta payloads */
+async function readDeltas(stream: ReadableStream): Promise<string[]> {
+  const reader = stream.getReader()
+  const deltas: string[] = []
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    deltas.push((value as { textDelta: string }).textDelta)
+  }
+  return deltas
+}
+
+describe("stream-replay", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe("planReplay", () => {
+    it("emits the whole text at once in instant mode", () => {
+      expect(planReplay("Hello world")).toEqual([{ text: "Hello world", delayMs: 0 }])
+    })
+
+    it("paces token-aligned chunks at the configured interval", () => {
+      const chunks = planReplay("Hello, world!", { mode: "paced", intervalMs: 10 })
+      expect(chunks.map((c) => c.text).join("")).toBe("Hello, world!")
+      expect(chunks.length).toBeGreaterThan(1)
+      expect(chunks[0].delayMs).toBe(0)
+      expect(chunks.slice(1).every((c) => c.delayMs === 10)).toBe(true)
+    })
+
+    it("reproduces recorded chunk boundaries and gaps", () => {
+      const timings = [
+        { atMs: 0, length: 4 },
+        { atMs: 40, length: 3 },
+        { atMs: 100, length: 5 },
+      ]
+      const chunks = planReplay("Helloo world", { mode: "recorded" }, timings)
+      expect(chunks).toEqual([
+        { text: "Hell", delayMs: 0 },
+        { text: "oo ", delayMs: 40 },
+        { text: "world", delayMs: 60 },
+      ])
+    })
+
+    it("applies playback speed to recorded gaps", () => {
+      const timings = [
+        { atMs: 0, length: 2 },
+        { atMs: 100, length: 2 },
+      ]
+      const chunks = planReplay("abcd", { mode: "recorded", speed: 4 }, timings)
+      expect(chunks[1].delayMs).toBe(25)
+    })
+
+    it("falls back to paced replay when timings do not match the text", () => {
+      const chunks = planReplay("Hello, world!", { mode: "recorded", intervalMs: 7 }, [
+        { atMs: 0, length: 3 },
+      ])
+      expect(chunks.map((c) => c.text).join("")).toBe("Hello, world!")
+      expect(chunks[1].delayMs).toBe(7)
+    })
+
+    it("compresses schedules longer than maxDurationMs", () => {
+      const chunks = planReplay("one two three four five six seven eight", {
+        mode: "paced",
+        intervalMs: 1000,
+        maxDurationMs: 100,
+      })
+      const total = chunks.reduce((sum, c) => sum + c.delayMs, 0)
+      expect(total).toBeCloseTo(100, 5)
+    })
+  })
+
+  describe("createReplayStream", () => {
+    it("streams text-delta parts that rejoin to the cached text", async () => {
+      const stream = createReplayStream("The quick brown fox", {
+        replay: { mode: "paced", intervalMs: 0 },
+      })
+      const deltas = await readDeltas(stream)
+      expect(deltas.length).toBeGreaterThan(1)
+      expect(deltas.join("")).toBe("The quick brown fox")
+    })
+
+    it("waits between chunks", async () => {
+      vi.useFakeTimers()
+      const stream = createReplayStream("ab", {
+        replay: { mode: "recorded" },
+        timings: [
+          { atMs: 0, length: 1 },
+          { atMs: 500, length: 1 },
+        ],
+      })
+      const reader = stream.getReader()
+      expect((await reader.read()).value).toEqual({ type: "text-delta", textDelta: "a" })
+
+      let second: unknown
+      const pending = reader.read().then((r) => (second = r.value))
+      await vi.advanceTimersByTimeAsync(499)
+      expect(second).toBeUndefined()
+      await vi.advanceTimersByTimeAsync(1)
+      await pending
+      expect(second).toEqual({ type: "text-delta", textDelta: "b" })
+    })
+
+    it("errors with the abort reason when the signal fires mid-replay", async () => {
+      vi.useFakeTimers()
+      const controller = new AbortController()
+      const stream = createReplayStream("Hello, world!", {
+        replay: { mode: "paced", intervalMs: 1000 },
+        abortSignal: controller.signal,
+      })
+      const reader = stream.getReader()
+      await reader.read()
+      const next = reader.read()
+      controller.abort(new Error("user stopped"))
+      await expect(next).rejects.toThrow("user stopped")
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("errors immediately for an already-aborted signal", async () => {
+      const stream = createReplayStream("Hello", { abortSignal: AbortSignal.abort() })
+      await expect(stream.getReader().read()).rejects.toMatchObject({ name: "AbortError" })
+    })
+
+    it("clears pending timers when cancelled", async () => {
+      vi.useFakeTimers()
+      const stream = createReplayStream("Hello, world!", {
+        replay: { mode: "paced", intervalMs: 1000 },
+      })
+      const reader = stream.getReader()
+      await reader.read()
+      void reader.read()
+      await reader.cancel()
+      expect(vi.getTimerCount()).toBe(0)
+    })
+  })
+})
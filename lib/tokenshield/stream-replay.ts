@@ -0,0 +1,239 @@
+/**
+ * TokenShield - Stream Replay
+ *
+ * Turns a cached response back into a stream that looks like a live one.
+ * Without this, a streamed cache hit arrives as a single text-delta and
+ * chat UIs jump from empty to the full answer in one frame.
+ *
+ * Modes:
+ * - "instant":  one chunk containing the full text (no delay)
+ * - "paced":    token-aligned chunks at a fixed interval
+ * - "recorded": the original chunk boundaries and inter-chunk gaps captured
+ *               when the response was first streamed (falls back to "paced"
+ *               for entries without recorded timings)
+ */
+
+import { splitTokenChunks } from "./token-counter"
+import type { CachedContentPart, ChunkTiming } from "./response-cache"
+
+export type ReplayMode = "instant" | "paced" | "recorded"
+
+export interface ReplayConfig {
+  /** Replay strategy (default: "instant") */
+  mode?: ReplayMode
+  /** Tokens per chunk in "paced" mode (default: 1) */
+  tokensPerChunk?: number
+  /** Delay between chunks in "paced" mode, in ms (default: 15) */
+  intervalMs?: number
+  /** Playback rate for "recorded" mode; 2 = twice as fast (default: 1) */
+  speed?: number
+  /**
+   * Upper bound on total replay time in ms. Longer schedules are compressed
+   * proportionally (default: 5000).
+   */
+  maxDurationMs?: number
+}
+
+/** A chunk of text and how long to wait before emitting it. */
+export interface ReplayChunk {
+  text: string
+  delayMs: number
+}
+
+/** Maximum chunk timings kept per cache entry (longer streams replay paced) */
+export const MAX_RECORDED_CHUNKS = 2048
+
+const DEFAULT_REPLAY: Required<Omit<ReplayConfig, "mode">> = {
+  tokensPerChunk: 1,
+  intervalMs: 15,
+  speed: 1,
+  maxDurationMs: 5000,
+}
+
+/** Slice text along recorded chunk lengths; null if the timings don't fit the text. */
+function fromTimings(text: string, timings: ChunkTiming[], speed: number): ReplayChunk[] | null {
+  let total = 0
+  for (const t of timings) total += t.length
+  if (total !== text.length) return null
+  const chunks: ReplayChunk[] = []
+  let offset = 0
+  let previousAt = timings[0]?.atMs ?? 0
+  for (const t of timings) {
+    if (t.length === 0) continue
+    chunks.push({
+      text: text.slice(offset, offset + t.length),
+      delayMs: Math.max(0, t.atMs - previousAt) / speed,
+    })
+    offset += t.length
+    previousAt = t.atMs
+  }
+  return chunks
+}
+
+/**
+ * Compute the chunk schedule for replaying `text`. The first chunk is
+ * always emitted immediately (time-to-first-token is not replayed).
+ */
+export function planReplay(
+  text: string,
+  config: ReplayConfig = {},
+  timings?: ChunkTiming[],
+): ReplayChunk[] {
+  if (!text) return []
+  const mode = config.mode ?? "instant"
+  if (mode === "instant") return [{ text, delayMs: 0 }]
+
+  const cfg = { ...DEFAULT_REPLAY, ...config }
+  let chunks: ReplayChunk[] | null = null
+  if (mode === "recorded" && timings && timings.length > 0) {
+    chunks = fromTimings(text, timings, cfg.speed > 0 ? cfg.speed : 1)
+  }
+  if (!chunks) {
+    chunks = splitTokenChunks(text, cfg.tokensPerChunk).map((piece, i) => ({
+      text: piece,
+      delayMs: i === 0 ? 0 : cfg.intervalMs,
+    }))
+  }
+
+  if (chunks.length > 0) chunks[0] = { ...chunks[0], delayMs: 0 }
+  const total = chunks.reduce((sum, c) => sum + c.delayMs, 0)
+  if (total > cfg.maxDurationMs) {
+    const scale = cfg.maxDurationMs / total
+    chunks = chunks.map((c) => ({ ...c, delayMs: c.delayMs * scale }))
+  }
+  return chunks
+}
+
+/** The reason to surface when a replay is aborted. */
+function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) return signal.reason
+  const err = new Error("The operation was aborted")
+  err.name = "AbortError"
+  return err
+}
+
+/** A stream part queued for replay with its delay. */
+interface ReplayPart {
+  part: Record<string, unknown>
+  delayMs: number
+}
+
+/**
+ * Expand cached content into replay parts in their original order. Text
+ * parts are paced like plain responses (recorded timings only apply when the
+ * response is a single text part); reasoning is emitted as one part and tool
+ * calls verbatim.
+ */
+function planContentReplay(
+  content: CachedContentPart[],
+  config: ReplayConfig | undefined,
+  timings: ChunkTiming[] | undefined,
+): ReplayPart[] {
+  const parts: ReplayPart[] = []
+  const textParts = content.filter((p) => p.type === "text").length
+  for (const item of content) {
+    if (item.type === "text" && typeof item.text === "string") {
+      for (const chunk of planReplay(item.text, config, textParts === 1 ? timings : undefined)) {
+        parts.push({
+          part: { type: "text-delta", textDelta: chunk.text },
+          delayMs: parts.length === 0 ? 0 : chunk.delayMs,
+        })
+      }
+    } else if (item.type === "reasoning" && typeof item.text === "string") {
+      parts.push({ part: { type: "reasoning", textDelta: item.text }, delayMs: 0 })
+    } else {
+      parts.push({ part: { ...item }, delayMs: 0 })
+    }
+  }
+  return parts
+}
+
+/**
+ * Create a ReadableStream of `text-delta` parts that replays `text`
+ * according to the schedule from planReplay(). When `content` holds
+ * non-text parts (tool calls, reasoning) those are replayed in order too.
+ * Honours `abortSignal`: pending timers are cleared and the stream errors
+ * with the abort reason.
+ */
+export function createReplayStream(
+  text: string,
+  options: {
+    replay?: ReplayConfig
+    timings?: ChunkTiming[]
+    content?: CachedContentPart[]
+    abortSignal?: AbortSignal
+  } = {},
+): ReadableStream {
+  const chunks: ReplayPart[] = options.content?.some((p) => p.type !== "text")
+    ? planContentReplay(options.content, options.replay, options.timings)
+    : planReplay(text, options.replay, options.timings).map((c) => ({
+        part: { type: "text-delta", textDelta: c.text },
+        delayMs: c.delayMs,
+      }))
+  const signal = options.abortSignal
+  let index = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let wake: (() => void) | null = null
+  let onAbort: (() => void) | null = null
+  /** Set once the stream is closed, cancelled or aborted */
+  let finished = false
+
+  const cleanup = () => {
+    finished = true
+    if (timer) clearTimeout(timer)
+    timer = null
+    wake = null
+    if (signal && onAbort) signal.removeEventListener("abort", onAbort)
+  }
+
+  return new ReadableStream({
+    start(controller) {
+      if (!signal) return
+      if (signal.aborted) {
+        finished = true
+        controller.error(abortReason(signal))
+        return
+      }
+      onAbort = () => {
+        const resume = wake
+        cleanup()
+        try {
+          controller.error(abortReason(signal))
+        } catch {
+          /* already closed */
+        }
+        resume?.()
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+    },
+    async pull(controller) {
+      if (finished) return
+      const chunk = chunks[index]
+      if (!chunk) {
+        cleanup()
+        controller.close()
+        return
+      }
+      if (chunk.delayMs > 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve
+          timer = setTimeout(resolve, chunk.delayMs)
+        })
+        timer = null
+        wake = null
+        if (finished) return
+      }
+      index++
+      controller.enqueue(chunk.part)
+      if (index >= chunks.length) {
+        cleanup()
+        controller.close()
+      }
+    },
+    cancel() {
+      const resume = wake
+      cleanup()
+      resume?.()
+    },
+  })
+}
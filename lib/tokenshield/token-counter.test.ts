@@ -9,6 +9,7 @@ import {
   countModelTokens,
   countFast,
   getTokenizerAccuracy,
+  splitTokenChunks,
 } from "./token-counter"
 
 describe("token-counter", () => {
@@ -78,6 +79,33 @@ describe("token-counter", () => {
     })
   })
 
+  describe("splitTokenChunks", () => {
+    it("splits on token boundaries and rejoins losslessly", () => {
+      const text = "Hello, world! TypeScript adds static types to JavaScript."
+      const chunks = splitTokenChunks(text)
+      expect(chunks.length).toBe(encodeText(text).length)
+      expect(chunks.join("")).toBe(text)
+    })
+
+    it("groups multiple tokens per chunk", () => {
+      const text = "one two three four five six"
+      const chunks = splitTokenChunks(text, 2)
+      expect(chunks.length).toBe(Math.ceil(encodeText(text).length / 2))
+      expect(chunks.join("")).toBe(text)
+    })
+
+    it("never splits a multi-byte character", () => {
+      const text = "Ship it 🚀🚀 — 日本語のテキスト"
+      const chunks = splitTokenChunks(text)
+      expect(chunks.join("")).toBe(text)
+      for (const chunk of chunks) expect(chunk).not.toContain("\uFFFD")
+    })
+
+    it("returns an empty array for empty text", () => {
+      expect(splitTokenChunks("")).toEqual([])
+    })
+  })
+
   describe("truncateToTokenBudget", () => {
     it("does not truncate short text", () => {
       const result = truncateToTokenBudget("Hello", 100)
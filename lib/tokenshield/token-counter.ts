@@ -191,6 +191,44 @@ export function decodeTokens(tokens: number[]): string {
   return decode(tokens)
 }
 
+/**
+ * Split text into chunks that each end on a BPE token boundary.
+ *
+ * Used to replay cached responses the way a provider would stream them.
+ * Tokens that only decode to part of a multi-byte character (some emoji,
+ * CJK) are merged with their neighbours so every chunk is valid text.
+ * Joining the chunks always reproduces the input exactly.
+ *
+ * @param text - The text to split
+ * @param tokensPerChunk - Tokens per chunk (default: 1)
+ * @returns Array of text chunks in order
+ * @example
+ * ```ts
+ * splitTokenChunks("Hello, world!")
+ * // ["Hello", ",", " world", "!"]
+ * ```
+ */
+export function splitTokenChunks(text: string, tokensPerChunk = 1): string[] {
+  if (!text) return []
+  const size = Math.max(1, Math.floor(tokensPerChunk))
+  const tokens = encode(text)
+  const chunks: string[] = []
+  let start = 0
+  while (start < tokens.length) {
+    let end = Math.min(start + size, tokens.length)
+    let piece = decode(tokens.slice(start, end))
+    // Extend until the chunk no longer ends mid-character
+    while (piece.endsWith("\uFFFD") && end < tokens.length) {
+      end++
+      piece = decode(tokens.slice(start, end))
+    }
+    chunks.push(piece)
+    start = end
+  }
+  // Guard against tokenizer round-trip drift (e.g. unusual normalization)
+  return chunks.join("") === text ? chunks : [text]
+}
+
 /**
  * Truncate text to fit within a specific token budget.
  *
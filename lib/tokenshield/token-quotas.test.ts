@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest"
+import {
+  describeQuota,
+  evaluateTokenQuotas,
+  exceedsQuota,
+  exhaustedQuotas,
+  modelFamilyOf,
+  tallyTokens,
+  tokenWindowStatus,
+  type TokenLimits,
+} from "./token-quotas"
+
+const limits: TokenLimits = {
+  total: 10_000,
+  byModelFamily: {
+    "gpt-4o": { output: 1_000 },
+    "gpt-4o-mini": { output: 5_000 },
+  },
+}
+
+const records = [
+  { model: "gpt-4o-2024-08-06", inputTokens: 300, outputTokens: 900 },
+  { model: "gpt-4o-mini", inputTokens: 2_000, outputTokens: 1_000 },
+  { model: "claude-haiku-4-5", inputTokens: 100, outputTokens: 100 },
+  { model: "legacy-record" },
+]
+
+describe("modelFamilyOf", () => {
+  it("picks the longest matching prefix", () => {
+    expect(modelFamilyOf("gpt-4o-mini-2024-07-18", limits)).toBe("gpt-4o-mini")
+    expect(modelFamilyOf("gpt-4o-2024-08-06", limits)).toBe("gpt-4o")
+    expect(modelFamilyOf("claude-haiku-4-5", limits)).toBeUndefined()
+  })
+})
+
+describe("tokenWindowStatus", () => {
+  it("reports usage and remaining quota globally and per family", () => {
+    const status = tokenWindowStatus(tallyTokens(records), limits)
+    expect(status.used).toEqual({ input: 2_400, output: 2_000, total: 4_400 })
+    expect(status.remaining).toEqual({ input: null, output: null, total: 5_600 })
+    expect(status.byModelFamily["gpt-4o"].used.output).toBe(900)
+    expect(status.byModelFamily["gpt-4o"].remaining.output).toBe(100)
+    expect(status.byModelFamily["gpt-4o-mini"].used.output).toBe(1_000)
+  })
+})
+
+describe("evaluateTokenQuotas", () => {
+  it("projects the next request onto the global and family quotas", () => {
+    const status = tokenWindowStatus(tallyTokens(records), limits)
+    const checks = evaluateTokenQuotas(status, limits, "gpt-4o", { input: 50, output: 100 })
+    expect(checks).toEqual([
+      { kind: "total", modelFamily: undefined, used: 4_400, projected: 4_550, limit: 10_000 },
+      { kind: "output", modelFamily: "gpt-4o", used: 900, projected: 1_000, limit: 1_000 },
+    ])
+    // Exactly fitting the quota is allowed; one more token is not
+    expect(exceedsQuota(checks[1])).toBe(false)
+    expect(exceedsQuota({ ...checks[1], projected: 1_001 })).toBe(true)
+    expect(describeQuota(checks[1])).toBe("gpt-4o output token")
+  })
+
+  it("treats a quota of 0 as blocking", () => {
+    const status = tokenWindowStatus(tallyTokens([]), { input: 0 })
+    const [check] = evaluateTokenQuotas(status, { input: 0 }, "any", { input: 0, output: 0 })
+    expect(exceedsQuota(check)).toBe(true)
+  })
+})
+
+describe("exhaustedQuotas", () => {
+  it("lists used-up quotas only", () => {
+    const tally = tallyTokens([...records, { model: "gpt-4o", inputTokens: 0, outputTokens: 100 }])
+    const status = tokenWindowStatus(tally, limits)
+    expect(exhaustedQuotas(status, limits)).toEqual([
+      { kind: "output", modelFamily: "gpt-4o", used: 1_000, limit: 1_000 },
+    ])
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * TokenShield - Token Quotas
+ *
+ * Token-denominated limits enforced alongside the dollar limits of the
+ * circuit breaker and per-user budgets. Dollar limits depend on the
+ * pricing table (which changes, falls back to estimates for unknown
+ * models, and reports $0 for free tiers); token quotas count what the
+ * provider actually metered, which is what usage contracts are written in.
+ *
+ * A quota can cap input, output and/or total tokens, globally and per
+ * model family. Families are model ID prefixes ("gpt-4o", "claude-");
+ * a model belongs to the longest prefix it starts with.
+ */
+
+// -------------------------------------------------------
+// Types
+// -------------------------------------------------------
+
+export type TokenKind = "input" | "output" | "total"
+
+/** Omitted fields have no quota; 0 blocks all usage of that kind. */
+export interface TokenQuota {
+  /** Maximum prompt tokens */
+  input?: number
+  /** Maximum completion tokens */
+  output?: number
+  /** Maximum prompt + completion tokens */
+  total?: number
+}
+
+export interface TokenLimits extends TokenQuota {
+  /** Separate quotas per model family, keyed by model ID prefix */
+  byModelFamily?: Record<string, TokenQuota>
+}
+
+export interface TokenUsage {
+  input: number
+  output: number
+  total: number
+}
+
+/** Tokens left under each quota (null = no quota of that kind) */
+export interface TokenRemaining {
+  input: number | null
+  output: number | null
+  total: number | null
+}
+
+export interface TokenWindowStatus {
+  used: TokenUsage
+  remaining: TokenRemaining
+  /** Usage and remaining quota for each configured model family */
+  byModelFamily: Record<string, { used: TokenUsage; remaining: TokenRemaining }>
+}
+
+/** Token counts accumulated from spend records, per model */
+export interface TokenTally {
+  input: number
+  output: number
+  byModel: Record<string, { input: number; output: number }>
+}
+
+/** One quota the next request would approach or exceed */
+export interface TokenQuotaCheck {
+  kind: TokenKind
+  /** Set when the quota belongs to a model family */
+  modelFamily?: string
+  /** Tokens counted so far in the window */
+  used: number
+  /** `used` plus the estimate for the next request */
+  projected: number
+  limit: number
+}
+
+const KINDS: TokenKind[] = ["input", "output", "total"]
+
+// -------------------------------------------------------
+// Tallying
+// -------------------------------------------------------
+
+export function emptyTally(): TokenTally {
+  return { input: 0, output: 0, byModel: {} }
+}
+
+/** Add a spend record's tokens to a tally. Records without token counts add nothing. */
+export function addToTally(
+  tally: TokenTally,
+  record: { model: string; inputTokens?: number; outputTokens?: number },
+): void {
+  const input = record.inputTokens ?? 0
+  const output = record.outputTokens ?? 0
+  if (input === 0 && output === 0) return
+  tally.input += input
+  tally.output += output
+  const perModel = tally.byModel[record.model]
+  if (perModel) {
+    perModel.input += input
+    perModel.output += output
+  } else {
+    tally.byModel[record.model] = { input, output }
+  }
+}
+
+export function tallyTokens(
+  records: Iterable<{ model: string; inputTokens?: number; outputTokens?: number }>,
+): TokenTally {
+  const tally = emptyTally()
+  for (const r of records) addToTally(tally, r)
+  return tally
+}
+
+// -------------------------------------------------------
+// Families and status
+// -------------------------------------------------------
+
+/** The configured family `model` belongs to: the longest matching prefix. */
+export function modelFamilyOf(model: string, limits?: TokenLimits): string | undefined {
+  let family: string | undefined
+  for (const prefix of Object.keys(limits?.byModelFamily ?? {})) {
+    if (model.startsWith(prefix) && (!family || prefix.length > family.length)) family = prefix
+  }
+  return family
+}
+
+function usageOf(input: number, output: number): TokenUsage {
+  return { input, output, total: input + output }
+}
+
+function familyUsage(tally: TokenTally, family: string, limits: TokenLimits): TokenUsage {
+  let input = 0
+  let output = 0
+  for (const [model, counts] of Object.entries(tally.byModel)) {
+    if (modelFamilyOf(model, limits) !== family) continue
+    input += counts.input
+    output += counts.output
+  }
+  return usageOf(input, output)
+}
+
+function remainingUnder(used: TokenUsage, quota: TokenQuota | undefined): TokenRemaining {
+  const left = (kind: TokenKind) => {
+    const limit = quota?.[kind]
+    return limit != null ? Math.max(0, limit - used[kind]) : null
+  }
+  return { input: left("input"), output: left("output"), total: left("total") }
+}
+
+/** Usage and remaining quota for one window. */
+export function tokenWindowStatus(tally: TokenTally, limits?: TokenLimits): TokenWindowStatus {
+  const used = usageOf(tally.input, tally.output)
+  const byModelFamily: TokenWindowStatus["byModelFamily"] = {}
+  for (const [family, quota] of Object.entries(limits?.byModelFamily ?? {})) {
+    const familyUsed = familyUsage(tally, family, limits!)
+    byModelFamily[family] = { used: familyUsed, remaining: remainingUnder(familyUsed, quota) }
+  }
+  return { used, remaining: remainingUnder(used, limits), byModelFamily }
+}
+
+// -------------------------------------------------------
+// Enforcement
+// -------------------------------------------------------
+
+/**
+ * Project the next request's tokens onto every quota that applies to it:
+ * the global quotas and those of the model's family. `status` must come
+ * from tokenWindowStatus() with the same `limits`. Callers decide what
+ * counts as a warning or a breach.
+ */
+export function evaluateTokenQuotas(
+  status: TokenWindowStatus,
+  limits: TokenLimits,
+  model: string,
+  estimate: { input: number; output: number },
+): TokenQuotaCheck[] {
+  const checks: TokenQuotaCheck[] = []
+  const next = usageOf(estimate.input, estimate.output)
+  const add = (quota: TokenQuota, used: TokenUsage, modelFamily?: string) => {
+    for (const kind of KINDS) {
+      const limit = quota[kind]
+      if (limit == null) continue
+      checks.push({
+        kind,
+        modelFamily,
+        used: used[kind],
+        projected: used[kind] + next[kind],
+        limit,
+      })
+    }
+  }
+  add(limits, status.used)
+  const family = modelFamilyOf(model, limits)
+  if (family) add(limits.byModelFamily![family], status.byModelFamily[family].used, family)
+  return checks
+}
+
+/**
+ * Whether a quota is breached: already used up, or too small for the next
+ * request. A request that exactly fits is allowed.
+ */
+export function exceedsQuota(check: TokenQuotaCheck): boolean {
+  return check.used >= check.limit || check.projected > check.limit
+}
+
+/** Quotas (global and per family) that are already used up in a window. */
+export function exhaustedQuotas(
+  status: TokenWindowStatus,
+  limits: TokenLimits,
+): Array<Omit<TokenQuotaCheck, "projected">> {
+  const exhausted: Array<Omit<TokenQuotaCheck, "projected">> = []
+  const collect = (quota: TokenQuota, used: TokenUsage, modelFamily?: string) => {
+    for (const kind of KINDS) {
+      const limit = quota[kind]
+      if (limit != null && used[kind] >= limit) {
+        exhausted.push({ kind, modelFamily, used: used[kind], limit })
+      }
+    }
+  }
+  collect(limits, status.used)
+  for (const [family, { used }] of Object.entries(status.byModelFamily)) {
+    collect(limits.byModelFamily![family], used, family)
+  }
+  return exhausted
+}
+
+/** Human-readable name of a quota, e.g. "output token" or "gpt-4o total token". */
+export function describeQuota(check: Pick<TokenQuotaCheck, "kind" | "modelFamily">): string {
+  return `${check.modelFamily ? `${check.modelFamily} ` : ""}${check.kind} token`
+}
@@ -1,5 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from "vitest"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { UserBudgetManager } from "./user-budget-manager"
+import { createMemoryBackend } from "./storage-adapter"
+import { TokenShieldConfigError } from "./errors"
 
 describe("UserBudgetManager", () => {
   let manager: UserBudgetManager
@@ -288,4 +290,396 @@ describe("UserBudgetManager", () => {
     // Inflight should be zero — released by estimated amount, not actual
     expect(manager.getStatus("user-1").inflight).toBe(0)
   })
+
+  // ---- calendar windows ----
+
+  describe("calendar windows", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("resets monthly spend on the configured month-start day", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-03-14T18:00:00Z"))
+      const m = new UserBudgetManager({
+        users: { alice: { daily: 0, monthly: 10 } },
+        windowMode: "calendar",
+        timeZone: "America/New_York",
+        monthStartDay: 15,
+      })
+      await m.recordSpend("alice", 10, "gpt-4o-mini")
+      const status = m.getStatus("alice")
+      expect(status.isOverBudget).toBe(true)
+      // Midnight on the 15th in New York (UTC-4 after the DST change)
+      expect(status.resetsAt.monthly).toBe(new Date("2025-03-15T04:00:00Z").getTime())
+
+      vi.setSystemTime(new Date("2025-03-15T04:00:01Z"))
+      expect(m.check("alice").allowed).toBe(true)
+      expect(m.getStatus("alice").spend.monthly).toBe(0)
+    })
+
+    it("reports rolling reset times by default", async () => {
+      await manager.recordSpend("user-1", 1, "gpt-4o-mini")
+      const status = manager.getStatus("user-1")
+      expect(status.resetsAt.daily).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000)
+      expect(manager.getStatus("nobody").resetsAt).toEqual({ daily: null, monthly: null })
+    })
+  })
+
+  // ---- rollover, grace and reset policies ----
+
+  describe("rollover, grace and reset policies", () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("carries yesterday's unused allowance into today, up to the cap", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-03-10T12:00:00Z"))
+      const m = new UserBudgetManager({
+        users: { alice: { daily: 5, monthly: 0, rollover: { daily: 2 } } },
+        windowMode: "calendar",
+      })
+      await m.recordSpend("alice", 1, "gpt-4o-mini")
+
+      vi.setSystemTime(new Date("2025-03-11T12:00:00Z"))
+      await m.recordSpend("alice", 5.5, "gpt-4o-mini")
+      const status = m.getStatus("alice")
+      expect(status.rollover.daily).toBe(2)
+      expect(status.remaining.daily).toBeCloseTo(1.5)
+      expect(m.check("alice", "gpt-4o-mini", 10, 10).allowed).toBe(true)
+    })
+
+    it("lets requests through the grace amount once, then blocks", async () => {
+      const onBudgetGrace = vi.fn()
+      const m = new UserBudgetManager({
+        users: { alice: { daily: 1, monthly: 0, grace: { daily: 0.5 } } },
+        onBudgetGrace,
+      })
+      await m.recordSpend("alice", 1.1, "gpt-4o-mini")
+
+      expect(m.check("alice").allowed).toBe(true)
+      expect(m.check("alice").allowed).toBe(true)
+      expect(onBudgetGrace).toHaveBeenCalledTimes(1)
+      expect(onBudgetGrace).toHaveBeenCalledWith(
+        "alice",
+        expect.objectContaining({ limitType: "daily", limit: 1, grace: 0.5 }),
+      )
+      expect(m.getStatus("alice").inGrace).toBe(true)
+
+      await m.recordSpend("alice", 0.4, "gpt-4o-mini")
+      const result = m.check("alice")
+      expect(result.allowed).toBe(false)
+      expect(result.exceeded).toMatchObject({ limitType: "daily", limit: 1.5 })
+    })
+
+    it("resets the monthly window on each user's billing anchor day", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] })
+      vi.setSystemTime(new Date("2025-03-19T12:00:00Z"))
+      const m = new UserBudgetManager({
+        users: {
+          alice: { daily: 0, monthly: 10, resetPolicy: { billingAnchor: "2024-11-20" } },
+          bob: { daily: 0, monthly: 10 },
+        },
+      })
+      await m.recordSpend("alice", 10, "gpt-4o-mini")
+      await m.recordSpend("bob", 10, "gpt-4o-mini")
+      expect(m.getStatus("alice").resetsAt.monthly).toBe(new Date("2025-03-20T00:00:00Z").getTime())
+
+      vi.setSystemTime(new Date("2025-03-20T00:00:01Z"))
+      expect(m.check("alice").allowed).toBe(true)
+      expect(m.check("bob").allowed).toBe(false)
+    })
+
+    it("rejects reset policies with an unknown time zone", () => {
+      expect(() =>
+        manager.updateUserBudget("user-1", {
+          daily: 5,
+          monthly: 50,
+          resetPolicy: { timeZone: "Mars/Olympus_Mons" },
+        }),
+      ).toThrow(TokenShieldConfigError)
+    })
+  })
+
+  // ---- token quotas ----
+
+  describe("token quotas", () => {
+    it("blocks a user who has used up a daily token quota", async () => {
+      const onBudgetExceeded = vi.fn()
+      const m = new UserBudgetManager({
+        users: { alice: { daily: 0, monthly: 0, tokens: { daily: { total: 1_000 } } } },
+        onBudgetExceeded,
+      })
+      await m.recordSpend("alice", 0, "llama-free", undefined, { input: 600, output: 400 })
+
+      const result = m.check("alice", "llama-free", 10, 10)
+      expect(result.allowed).toBe(false)
+      expect(result.reason).toContain("daily total token quota exceeded")
+      expect(result.exceeded).toMatchObject({ limitType: "daily", unit: "tokens" })
+      expect(onBudgetExceeded).toHaveBeenCalledWith(
+        "alice",
+        expect.objectContaining({ tokenKind: "total", currentSpend: 1_000, limit: 1_000 }),
+      )
+      expect(m.getStatus("alice").isOverBudget).toBe(true)
+    })
+
+    it("reports token usage per window and per model family", async () => {
+      const m = new UserBudgetManager({
+        defaultBudget: {
+          daily: 10,
+          monthly: 100,
+          tokens: { monthly: { byModelFamily: { "gpt-4o": { output: 5_000 } } } },
+        },
+      })
+      await m.recordSpend("bob", 0.01, "gpt-4o", undefined, { input: 100, output: 200 })
+      await m.recordSpend("bob", 0.01, "claude-haiku-4-5", undefined, { input: 50, output: 50 })
+      const status = m.getStatus("bob")
+      expect(status.tokens.daily.used).toEqual({ input: 150, output: 250, total: 400 })
+      expect(status.tokens.monthly.byModelFamily["gpt-4o"]).toEqual({
+        used: { input: 100, output: 200, total: 300 },
+        remaining: { input: null, output: 4_800, total: null },
+      })
+    })
+
+    it("warns at 80% of a token quota and re-arms when the budget is updated", async () => {
+      const onBudgetWarning = vi.fn()
+      const m = new UserBudgetManager({
+        users: { carol: { daily: 0, monthly: 0, tokens: { monthly: { input: 1_000 } } } },
+        onBudgetWarning,
+      })
+      await m.recordSpend("carol", 0, "gpt-4o-mini", undefined, { input: 850, output: 0 })
+      expect(m.check("carol", "gpt-4o-mini", 10, 10).allowed).toBe(true)
+      m.check("carol", "gpt-4o-mini", 10, 10)
+      expect(onBudgetWarning).toHaveBeenCalledTimes(1)
+      expect(onBudgetWarning.mock.calls[0][1]).toMatchObject({ unit: "tokens", tokenKind: "input" })
+
+      m.updateUserBudget("carol", { daily: 0, monthly: 0, tokens: { monthly: { input: 1_000 } } })
+      m.check("carol", "gpt-4o-mini", 10, 10)
+      expect(onBudgetWarning).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("hierarchy", () => {
+    const hierarchy = {
+      orgs: {
+        acme: { limits: { daily: 20, monthly: 0 }, defaultUserBudget: { daily: 8, monthly: 0 } },
+      },
+      teams: {
+        search: { org: "acme", limits: { daily: 5, monthly: 0 } },
+        research: { org: "acme", defaultUserBudget: { daily: 15, monthly: 0 } },
+      },
+      members: {
+        alice: { team: "search" },
+        bob: { team: "search" },
+        carol: { team: "research" },
+      },
+    }
+
+    it("blocks a user whose team has used up its rolled-up limit", async () => {
+      const onBudgetExceeded = vi.fn()
+      const m = new UserBudgetManager({ hierarchy, onBudgetExceeded })
+      await m.recordSpend("alice", 3, "gpt-4o-mini")
+      await m.recordSpend("bob", 2, "gpt-4o-mini")
+
+      const result = m.check("bob")
+      expect(result.allowed).toBe(false)
+      expect(result.reason).toContain("Team search")
+      expect(result.exceeded).toMatchObject({
+        level: "team",
+        levelId: "search",
+        limitType: "daily",
+      })
+      expect(onBudgetExceeded).toHaveBeenCalledWith(
+        "bob",
+        expect.objectContaining({ level: "team", levelId: "search", currentSpend: 5 }),
+      )
+      // Carol is in another team of the same org and is unaffected
+      expect(m.check("carol").allowed).toBe(true)
+    })
+
+    it("blocks at the org level once every team together reaches the org limit", async () => {
+      const m = new UserBudgetManager({
+        hierarchy: { ...hierarchy, members: { ...hierarchy.members, dan: { org: "acme" } } },
+      })
+      await m.recordSpend("carol", 14, "gpt-4o")
+      await m.recordSpend("alice", 4, "gpt-4o")
+      expect(m.check("dan").allowed).toBe(true)
+      await m.recordSpend("dan", 2, "gpt-4o")
+      expect(m.check("dan").exceeded).toMatchObject({ level: "org", levelId: "acme" })
+    })
+
+    it("inherits user limits from the team default, then the org default", () => {
+      const m = new UserBudgetManager({
+        hierarchy,
+        users: { alice: { daily: 2, monthly: 0 } },
+        defaultBudget: { daily: 1, monthly: 0 },
+      })
+      expect(m.getStatus("alice").limits?.daily).toBe(2)
+      expect(m.getStatus("carol").limits?.daily).toBe(15)
+      expect(m.getStatus("bob").limits?.daily).toBe(8)
+      expect(m.getStatus("stranger").limits?.daily).toBe(1)
+    })
+
+    it("resolves membership at request time with `resolve`", async () => {
+      const m = new UserBudgetManager({
+        hierarchy: {
+          ...hierarchy,
+          members: undefined,
+          resolve: (userId) => (userId.startsWith("s-") ? { team: "search" } : undefined),
+        },
+      })
+      expect(m.getMembership("s-1")).toEqual({ team: "search", org: "acme" })
+      await m.recordSpend("s-1", 5, "gpt-4o-mini")
+      expect(m.check("s-2").exceeded?.level).toBe("team")
+      expect(m.check("x-1").allowed).toBe(true)
+    })
+
+    it("rolls up spend and children in group statuses", async () => {
+      const m = new UserBudgetManager({ hierarchy })
+      await m.recordSpend("alice", 1, "gpt-4o-mini")
+      await m.recordSpend("carol", 2, "gpt-4o-mini")
+
+      const team = m.getGroupStatus("team", "search")
+      expect(team).toMatchObject({ level: "team", id: "search", org: "acme" })
+      expect(team.spend.daily).toBeCloseTo(1)
+      expect(team.remaining.daily).toBeCloseTo(4)
+      expect(team.children.sort()).toEqual(["alice", "bob"])
+
+      const org = m.getGroupStatus("org", "acme")
+      expect(org.spend.daily).toBeCloseTo(3)
+      expect(org.children.sort()).toEqual(["research", "search"])
+      expect(
+        m
+          .getAllGroupStatuses("team")
+          .map((t) => t.id)
+          .sort(),
+      ).toEqual(["research", "search"])
+    })
+  })
+
+  describe("wallet mode", () => {
+    it("refuses requests until the user has credits", async () => {
+      const m = new UserBudgetManager({ wallet: {} })
+      const refused = m.check("alice", "gpt-4o-mini", 1_000, 500)
+      expect(refused.allowed).toBe(false)
+      expect(refused.reason).toContain("insufficient credits")
+      expect(refused.insufficientCredits).toMatchObject({ balance: 0, available: 0 })
+
+      await m.credit("alice", 1, "top-up")
+      expect(m.check("alice", "gpt-4o-mini", 1_000, 500).allowed).toBe(true)
+    })
+
+    it("debits actual spend and releases the reservation", async () => {
+      const m = new UserBudgetManager({ wallet: {} })
+      await m.credit("alice", 1, "top-up")
+      m.check("alice", "gpt-4o", 1_000, 500)
+      const reserved = m.getStatus("alice").inflight
+      expect(reserved).toBeGreaterThan(0)
+      expect(m.getBalance("alice")!.available).toBeCloseTo(1 - reserved)
+
+      await m.recordSpend("alice", 0.25, "gpt-4o", reserved, undefined, "ts_1")
+      expect(m.getBalance("alice")).toEqual({ balance: 0.75, available: 0.75, overdraft: 0 })
+      expect(m.getStatus("alice").wallet?.balance).toBe(0.75)
+      expect(m.getTransactions("alice")[1]).toMatchObject({
+        type: "debit",
+        amount: 0.25,
+        model: "gpt-4o",
+        ledgerEntryId: "ts_1",
+      })
+    })
+
+    it("counts in-flight requests against the balance and frees them on failure", async () => {
+      const m = new UserBudgetManager({ wallet: {} })
+      await m.credit("alice", 0.01, "top-up")
+      // gpt-4o: 1,000 input + 500 output tokens costs $0.0075
+      expect(m.check("alice", "gpt-4o", 1_000, 500).allowed).toBe(true)
+      expect(m.check("alice", "gpt-4o", 1_000, 500).allowed).toBe(false)
+      m.releaseInflight("alice", m.getStatus("alice").inflight)
+      expect(m.check("alice", "gpt-4o", 1_000, 500).allowed).toBe(true)
+    })
+
+    it("lets a balance run into the overdraft allowance", async () => {
+      const m = new UserBudgetManager({ wallet: { overdraft: 2 } })
+      expect(m.check("alice", "gpt-4o-mini", 1_000, 500).allowed).toBe(true)
+      await m.recordSpend("alice", 1.5, "gpt-4o-mini")
+      expect(m.getBalance("alice")).toMatchObject({ balance: -1.5, available: 0.5 })
+    })
+
+    it("restores balances and history on hydrate", async () => {
+      const backend = createMemoryBackend()
+      const first = new UserBudgetManager({ wallet: {}, backend })
+      await first.credit("alice", 5, "top-up")
+      await first.recordSpend("alice", 2, "gpt-4o")
+
+      const second = new UserBudgetManager({ wallet: {}, backend })
+      await second.hydrate()
+      expect(second.getBalance("alice")?.balance).toBe(3)
+      expect(second.getTransactions("alice")).toHaveLength(2)
+    })
+
+    it("persists balances with a bounded tail of the history", async () => {
+      const backend = createMemoryBackend()
+      const first = new UserBudgetManager({ wallet: {}, backend })
+      await first.credit("alice", 1_000, "top-up")
+      for (let i = 0; i < 1_000; i++) await first.debit("alice", 0.5, "usage")
+
+      const second = new UserBudgetManager({ wallet: {}, backend })
+      await second.hydrate()
+      expect(second.getBalance("alice")?.balance).toBe(500)
+      expect(second.getTransactions("alice")).toHaveLength(1_000)
+      expect(second.getTransactions("alice")[0].type).toBe("debit")
+    })
+
+    it("adds spend recorded before hydrate to the persisted balance", async () => {
+      const backend = createMemoryBackend()
+      const first = new UserBudgetManager({ wallet: {}, backend })
+      await first.credit("alice", 50, "top-up")
+
+      const second = new UserBudgetManager({ wallet: {}, backend })
+      await second.recordSpend("alice", 1, "gpt-4o")
+      await second.hydrate()
+      expect(second.getBalance("alice")?.balance).toBe(49)
+
+      const third = new UserBudgetManager({ wallet: {}, backend })
+      await third.hydrate()
+      expect(third.getBalance("alice")?.balance).toBe(49)
+      expect(third.getTransactions("alice")).toHaveLength(2)
+    })
+
+    it("keeps plaintext balances when encryption is turned on", async () => {
+      const backend = createMemoryBackend()
+      const plain = new UserBudgetManager({ wallet: {}, backend })
+      await plain.credit("alice", 20, "top-up")
+
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ])
+      const encrypted = new UserBudgetManager({
+        wallet: {},
+        backend,
+        encryption: { mode: "key", key },
+      })
+      await encrypted.hydrate()
+      expect(encrypted.getBalance("alice")?.balance).toBe(20)
+      await encrypted.debit("alice", 5, "usage")
+      expect(JSON.stringify(await backend.get("wallet-balances"))).not.toContain("alice")
+
+      const reread = new UserBudgetManager({
+        wallet: {},
+        backend,
+        encryption: { mode: "key", key },
+      })
+      await reread.hydrate()
+      expect(reread.getBalance("alice")?.balance).toBe(15)
+    })
+
+    it("throws on wallet operations when wallet mode is off", async () => {
+      const m = new UserBudgetManager({})
+      await expect(m.credit("alice", 5, "top-up")).rejects.toThrow(TokenShieldConfigError)
+      expect(m.getBalance("alice")).toBeNull()
+      expect(() => m.exportTransactionsCSV()).toThrow(TokenShieldConfigError)
+    })
+  })
 })
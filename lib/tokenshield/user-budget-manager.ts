@@ -6,31 +6,56 @@
  * optionally routes budget-tier users to cheaper models.
  *
  * Architecture decisions:
- * - Client-side only — all data in IndexedDB via idb-keyval
+ * - Client-side by default — all data in IndexedDB via idb-keyval; servers
+ *   can pass a StorageBackend to share spend records across instances
  * - User IDs are opaque strings (JWT sub, database ID, username — your call)
- * - Budget inheritance: user-specific → defaultBudget → no limits
+ * - Budget inheritance: user-specific → team default → org default →
+ *   defaultBudget → no limits
+ * - Optional org → team → user hierarchy: spend rolls up and every level's
+ *   limits apply to each request
  * - Model tier routing: budget users can be auto-routed to cheaper models
  * - A limit of 0 means "no limit" for that time window
+ * - Optional token quotas per window, enforced alongside the dollar limits
+ * - Optional prepaid wallet mode: spend is debited from a credit balance
+ *   with an immutable transaction history (see credit-wallet.ts)
  *
  * Team tier feature ($99/month).
  */
 
 import { get, set, createStore, type UseStore } from "./storage-adapter"
+import { EncryptedStore } from "./crypto-store"
 import { estimateCost } from "./cost-estimator"
 import { shieldEvents } from "./event-bus"
+import { ONE_DAY_MS, retentionCutoff, validateWindowConfig, windowStart } from "./budget-windows"
+import { describeQuota, evaluateTokenQuotas, exceedsQuota } from "./token-quotas"
+import { TokenShieldConfigError } from "./errors"
+import {
+  CreditWallet,
+  type WalletBalance,
+  type WalletReconciliation,
+  type WalletTransaction,
+} from "./credit-wallet"
+import type { LedgerEntry } from "./cost-ledger"
 
 import {
+  type BudgetExceededEvent,
+  type BudgetGroupStatus,
+  type BudgetLevel,
+  type BudgetMembership,
   type UserBudgetLimits,
   type UserBudgetConfig,
   type UserBudgetStatus,
   type UserSpendRecord,
-  ONE_DAY_MS,
-  THIRTY_DAYS_MS,
   MAX_CACHE_SIZE,
   MAX_TRACKED_USERS,
   MAX_BUDGET_RECORDS,
   budgetPct,
   resolveUserLimits,
+  resolveMembership,
+  resolveGroupLimits,
+  resolveWindowConfig,
+  configuredLimits,
+  validateResetPolicy,
   computeSpendWindows,
   buildBudgetSnapshot,
   evictStaleWarnings,
@@ -39,6 +64,25 @@ import {
 /** Warning threshold: fire warnings when spend reaches this fraction of the limit */
 const WARNING_THRESHOLD = 0.8
 
+/**
+ * How far back spend records are kept when a monthly rollover or a reset
+ * policy needs the previous month: two of the longest calendar months.
+ */
+const EXTENDED_RETENTION_MS = 62 * ONE_DAY_MS
+
+/**
+ * Wallet transactions written to storage on each change. Balances are
+ * persisted on their own, so older history only lives in memory; this
+ * keeps every write small however long the history grows.
+ */
+const MAX_PERSISTED_WALLET_TRANSACTIONS = 1_000
+
+/** Budget windows with the budget-windows period each one maps to */
+const WINDOWS = [
+  ["daily", "day"],
+  ["monthly", "month"],
+] as const
+
 // Re-export all public types so existing imports from "./user-budget-manager" still work
 export type {
   UserBudgetTier,
@@ -46,7 +90,16 @@ export type {
   UserBudgetConfig,
   BudgetExceededEvent,
   BudgetWarningEvent,
+  BudgetGraceEvent,
+  BudgetResetPolicy,
   UserBudgetStatus,
+  BudgetLevel,
+  BudgetMembership,
+  BudgetGroupConfig,
+  BudgetTeamConfig,
+  BudgetOrgConfig,
+  BudgetHierarchyConfig,
+  BudgetGroupStatus,
 } from "./user-budget-types"
 
 // -------------------------------------------------------
@@ -61,6 +114,8 @@ export class UserBudgetManager {
   private warningFired = new Map<string, number>()
   /** Estimated cost of in-flight requests per user (prevents concurrent overspend) */
   private inflightByUser = new Map<string, number>()
+  /** In-flight cost per team/org, keyed `${level}:${id}` */
+  private inflightByGroup = new Map<string, number>()
   /** Monotonic version counter — incremented on every state change */
   private _version = 0
   /** Cached snapshots per user, invalidated when _version or time bucket changes */
@@ -68,11 +123,42 @@ export class UserBudgetManager {
     string,
     { version: number; timeBucket: number; snapshot: UserBudgetStatus }
   >()
+  /** Cached team/org snapshots, keyed `${level}:${id}` */
+  private _groupSnapshotCache = new Map<
+    string,
+    { version: number; timeBucket: number; snapshot: BudgetGroupStatus }
+  >()
+  /** Prepaid balances, when wallet mode is on */
+  private wallet: CreditWallet | null = null
+  /** Merge of the persisted wallet; runs once, before the first wallet write */
+  private walletLoad: Promise<void> | null = null
+  /** Keep the previous month's records (monthly rollover or reset policies in use) */
+  private extendedRetention = false
 
   constructor(config: UserBudgetConfig = {}) {
     this.config = config
+    validateWindowConfig(config)
+    for (const limits of configuredLimits(config)) this.trackLimits(limits)
+    if (config.wallet) this.wallet = new CreditWallet(config.wallet)
 
-    if (config.persist && typeof window !== "undefined") {
+    const { encryption } = config
+    if (encryption && encryption.mode !== "none") {
+      if (config.backend || (config.persist && typeof window !== "undefined")) {
+        try {
+          this.idbStore = new EncryptedStore({
+            dbName: "tokenshield-user-budgets",
+            storeName: "spend-records",
+            encryption,
+            backend: config.backend,
+            onStorageError: config.onStorageError,
+          })
+        } catch {
+          // SSR or IDB unavailable
+        }
+      }
+    } else if (config.backend) {
+      this.idbStore = config.backend
+    } else if (config.persist && typeof window !== "undefined") {
       try {
         this.idbStore = createStore("tokenshield-user-budgets", "spend-records")
       } catch {
@@ -95,12 +181,26 @@ export class UserBudgetManager {
     for (const l of this.listeners) l()
   }
 
+  /** Validate a limits object's reset policy and note whether it needs older records */
+  private trackLimits(limits: UserBudgetLimits): void {
+    validateResetPolicy(limits)
+    if (limits.resetPolicy || (limits.rollover?.monthly ?? 0) > 0) this.extendedRetention = true
+  }
+
+  /** Records older than this can no longer affect any status */
+  private retentionCutoff(now: number): number {
+    const cutoff = retentionCutoff(now, this.config)
+    return this.extendedRetention ? Math.min(cutoff, now - EXTENDED_RETENTION_MS) : cutoff
+  }
+
   /**
    * Check if a user is allowed to make a request. Call before every API call.
    * Returns { allowed, reason, status }.
    *
    * A limit value of 0 means "no limit" for that time window — only positive
-   * limits are enforced.
+   * limits are enforced. With a hierarchy, the request must also fit within
+   * the rolled-up limits of the user's team and org; `exceeded.level` says
+   * which level blocked it.
    */
   check(
     userId: string,
@@ -110,6 +210,10 @@ export class UserBudgetManager {
   ): {
     allowed: boolean
     reason?: string
+    /** The limit or quota that blocked the request */
+    exceeded?: BudgetExceededEvent
+    /** Set when wallet mode refused the request for lack of credits */
+    insufficientCredits?: WalletBalance & { required: number }
     status: UserBudgetStatus
   } {
     const status = this.getStatus(userId)
@@ -119,8 +223,10 @@ export class UserBudgetManager {
       return { allowed: true, status }
     }
 
-    // No limits configured — always allow
-    if (!status.limits) {
+    const groups = this.groupsOf(status)
+
+    // No limits configured at any level — always allow
+    if (!status.limits && groups.every((g) => !g.status.limits) && !this.wallet) {
       return { allowed: true, status }
     }
 
@@ -137,136 +243,236 @@ export class UserBudgetManager {
         // Unknown model, skip cost estimate
       }
     }
-
-    const now = Date.now()
+    const estimate = {
+      input: estimatedInputTokens ?? 0,
+      output: estimatedInputTokens ? (estimatedOutputTokens ?? 500) : 0,
+    }
 
     // Evict stale warning entries to prevent unbounded map growth
-    evictStaleWarnings(this.warningFired, now)
+    evictStaleWarnings(this.warningFired, Date.now())
 
     // Include in-flight cost from concurrent requests that haven't completed yet
     const inflight = this.inflightByUser.get(userId) ?? 0
 
-    // Check daily limit (0 = no daily limit)
-    if (status.limits.daily > 0) {
-      const projectedDaily = status.spend.daily + estimatedCostDollars + inflight
-      const dailyWarningKey = `${userId}-daily`
-      // Reset daily warning if it was fired more than 24 hours ago
-      const dailyWarningTime = this.warningFired.get(dailyWarningKey)
-      if (dailyWarningTime !== undefined && now - dailyWarningTime > ONE_DAY_MS) {
-        this.warningFired.delete(dailyWarningKey)
+    // The user's own limits first, then each ancestor's rolled-up limits
+    const levels = [
+      { level: "user" as const, id: userId, status, inflight },
+      ...groups.map((g) => ({
+        level: g.level,
+        id: g.id,
+        status: g.status,
+        inflight: this.inflightByGroup.get(`${g.level}:${g.id}`) ?? 0,
+      })),
+    ]
+    for (const level of levels) {
+      const blocked = this.checkLevel(userId, level, estimatedCostDollars, estimate, modelId ?? "")
+      if (blocked) return { allowed: false, ...blocked, status }
+    }
+
+    // Wallet mode: what is left after in-flight reservations must cover this request
+    if (this.wallet && !this.wallet.covers(userId, estimatedCostDollars, inflight)) {
+      const wallet = this.wallet.getBalance(userId, inflight)
+      const insufficientCredits = { ...wallet, required: estimatedCostDollars }
+      shieldEvents.emit("userBudget:insufficientCredits", {
+        userId,
+        balance: wallet.balance,
+        available: wallet.available,
+        required: estimatedCostDollars,
+      })
+      return {
+        allowed: false,
+        reason: `User ${userId} has insufficient credits ($${Math.max(0, wallet.available).toFixed(4)} available, $${estimatedCostDollars.toFixed(4)} required)`,
+        insufficientCredits,
+        status,
       }
-      if (
-        projectedDaily >= status.limits.daily * WARNING_THRESHOLD &&
-        !this.warningFired.has(dailyWarningKey)
-      ) {
-        this.warningFired.set(dailyWarningKey, now)
+    }
+
+    // Reserve estimated cost as in-flight to prevent concurrent overspend
+    if (estimatedCostDollars > 0) {
+      this.inflightByUser.set(userId, inflight + estimatedCostDollars)
+      for (const g of groups) {
+        const key = `${g.level}:${g.id}`
+        this.inflightByGroup.set(key, (this.inflightByGroup.get(key) ?? 0) + estimatedCostDollars)
+        this._groupSnapshotCache.delete(key)
+      }
+      // Invalidate snapshot cache so next getStatus() reflects the new inflight
+      // (no notify() — this is a read-path change, not a state mutation for React)
+      this._snapshotCache.delete(userId)
+      // FIFO eviction: remove the oldest entry when the map exceeds capacity
+      if (this.inflightByUser.size > MAX_TRACKED_USERS) {
+        const oldest = this.inflightByUser.keys().next().value
+        if (oldest !== undefined) this.inflightByUser.delete(oldest)
+      }
+    }
+
+    // Return fresh status that includes the just-reserved inflight
+    return { allowed: true, status: estimatedCostDollars > 0 ? this.getStatus(userId) : status }
+  }
+
+  /**
+   * Check one level's dollar limits and token quotas, firing warnings and
+   * exceeded events on the way. Returns the block, or null when the request fits.
+   */
+  private checkLevel(
+    userId: string,
+    target: {
+      level: BudgetLevel
+      id: string
+      status: Pick<UserBudgetStatus, "limits" | "spend" | "tokens" | "rollover">
+      inflight: number
+    },
+    estimatedCost: number,
+    estimate: { input: number; output: number },
+    modelId: string,
+  ): { reason: string; exceeded: BudgetExceededEvent } | null {
+    const { level, id, status, inflight } = target
+    const limits = status.limits
+    if (!limits) return null
+
+    const now = Date.now()
+    // Warning keys stay `${userId}-daily` for users so clearWarnings() finds them
+    const keyBase = level === "user" ? id : `${level}:${id}`
+    const label = level === "user" ? `User ${id}` : `${level === "team" ? "Team" : "Org"} ${id}`
+    const where = { level, levelId: id }
+    const windows = resolveWindowConfig(this.config, limits)
+
+    // Dollar limits (0 = no limit for that window), raised by rollover
+    for (const [limitType, period] of WINDOWS) {
+      if (!(limits[limitType] > 0)) continue
+      const limit = limits[limitType] + status.rollover[limitType]
+      const grace = Math.max(0, limits.grace?.[limitType] ?? 0)
+      const blockAt = limit + grace
+      const spent = status.spend[limitType]
+      const projected = spent + estimatedCost + inflight
+      const warningKey = `${keyBase}-${limitType}`
+      const graceKey = `${warningKey}:grace`
+      // Reset the warnings if they were fired before the current window
+      const windowOpened = windowStart(period, now, windows)
+      for (const key of [warningKey, graceKey]) {
+        const firedAt = this.warningFired.get(key)
+        if (firedAt !== undefined && firedAt < windowOpened) this.warningFired.delete(key)
+      }
+      if (projected >= limit * WARNING_THRESHOLD && !this.warningFired.has(warningKey)) {
+        this.warningFired.set(warningKey, now)
         const warningEvent = {
-          limitType: "daily" as const,
-          currentSpend: status.spend.daily,
-          limit: status.limits.daily,
-          percentUsed: budgetPct(projectedDaily, status.limits.daily),
+          limitType,
+          currentSpend: spent,
+          limit,
+          percentUsed: budgetPct(projected, limit),
           timestamp: Date.now(),
+          ...where,
         }
         this.config.onBudgetWarning?.(userId, warningEvent)
         shieldEvents.emit("userBudget:warning", {
           userId,
-          limitType: warningEvent.limitType,
-          currentSpend: warningEvent.currentSpend,
-          limit: warningEvent.limit,
+          limitType,
+          currentSpend: spent,
+          limit,
           percentUsed: warningEvent.percentUsed,
+          ...where,
         })
       }
-      if (projectedDaily >= status.limits.daily) {
-        const exceededEvent = {
-          limitType: "daily" as const,
-          currentSpend: status.spend.daily,
-          limit: status.limits.daily,
-          percentUsed: budgetPct(projectedDaily, status.limits.daily),
+      // Past the limit but within grace: allowed, with a one-time warning per window
+      if (projected >= limit && projected < blockAt) {
+        if (!this.warningFired.has(graceKey)) {
+          this.warningFired.set(graceKey, now)
+          const graceEvent = {
+            limitType,
+            currentSpend: spent,
+            limit,
+            grace,
+            timestamp: Date.now(),
+            ...where,
+          }
+          this.config.onBudgetGrace?.(userId, graceEvent)
+          shieldEvents.emit("userBudget:grace", {
+            userId,
+            limitType,
+            currentSpend: spent,
+            limit,
+            grace,
+            ...where,
+          })
+        }
+        continue
+      }
+      if (projected >= blockAt) {
+        const exceededEvent: BudgetExceededEvent = {
+          limitType,
+          currentSpend: spent,
+          limit: blockAt,
+          percentUsed: budgetPct(projected, blockAt),
           timestamp: Date.now(),
+          ...where,
         }
         this.config.onBudgetExceeded?.(userId, exceededEvent)
         shieldEvents.emit("userBudget:exceeded", {
           userId,
-          limitType: exceededEvent.limitType,
-          currentSpend: exceededEvent.currentSpend,
-          limit: exceededEvent.limit,
+          limitType,
+          currentSpend: spent,
+          limit: blockAt,
+          ...where,
         })
         return {
-          allowed: false,
-          reason: `User ${userId} daily budget exceeded ($${status.spend.daily.toFixed(4)} / $${status.limits.daily.toFixed(2)})`,
-          status,
+          exceeded: exceededEvent,
+          reason: `${label} ${limitType} budget exceeded ($${spent.toFixed(4)} / $${blockAt.toFixed(2)})`,
         }
       }
     }
 
-    // Check monthly limit (0 = no monthly limit)
-    if (status.limits.monthly > 0) {
-      const projectedMonthly = status.spend.monthly + estimatedCostDollars + inflight
-      const monthlyWarningKey = `${userId}-monthly`
-      // Reset monthly warning if it was fired more than 30 days ago
-      const monthlyWarningTime = this.warningFired.get(monthlyWarningKey)
-      if (monthlyWarningTime !== undefined && now - monthlyWarningTime > THIRTY_DAYS_MS) {
-        this.warningFired.delete(monthlyWarningKey)
-      }
-      if (
-        projectedMonthly >= status.limits.monthly * WARNING_THRESHOLD &&
-        !this.warningFired.has(monthlyWarningKey)
-      ) {
-        this.warningFired.set(monthlyWarningKey, now)
-        const warningEvent = {
-          limitType: "monthly" as const,
-          currentSpend: status.spend.monthly,
-          limit: status.limits.monthly,
-          percentUsed: budgetPct(projectedMonthly, status.limits.monthly),
+    // Token quotas (same warning threshold as the dollar limits)
+    for (const [limitType, period] of WINDOWS) {
+      const quota = limits.tokens?.[limitType]
+      if (!quota) continue
+      for (const q of evaluateTokenQuotas(status.tokens[limitType], quota, modelId, estimate)) {
+        const detail = {
+          limitType,
+          currentSpend: q.used,
+          limit: q.limit,
+          percentUsed: budgetPct(q.projected, q.limit),
           timestamp: Date.now(),
+          unit: "tokens" as const,
+          tokenKind: q.kind,
+          modelFamily: q.modelFamily,
+          ...where,
         }
-        this.config.onBudgetWarning?.(userId, warningEvent)
-        shieldEvents.emit("userBudget:warning", {
+        const eventFields = {
           userId,
-          limitType: warningEvent.limitType,
-          currentSpend: warningEvent.currentSpend,
-          limit: warningEvent.limit,
-          percentUsed: warningEvent.percentUsed,
-        })
-      }
-      if (projectedMonthly >= status.limits.monthly) {
-        const exceededEvent = {
-          limitType: "monthly" as const,
-          currentSpend: status.spend.monthly,
-          limit: status.limits.monthly,
-          percentUsed: budgetPct(projectedMonthly, status.limits.monthly),
-          timestamp: Date.now(),
+          limitType,
+          currentSpend: q.used,
+          limit: q.limit,
+          unit: "tokens" as const,
+          tokenKind: q.kind,
+          modelFamily: q.modelFamily,
+          ...where,
         }
-        this.config.onBudgetExceeded?.(userId, exceededEvent)
-        shieldEvents.emit("userBudget:exceeded", {
-          userId,
-          limitType: exceededEvent.limitType,
-          currentSpend: exceededEvent.currentSpend,
-          limit: exceededEvent.limit,
-        })
-        return {
-          allowed: false,
-          reason: `User ${userId} monthly budget exceeded ($${status.spend.monthly.toFixed(4)} / $${status.limits.monthly.toFixed(2)})`,
-          status,
+
+        const warningKey = `${keyBase}-${limitType}:${describeQuota(q)}`
+        const warningTime = this.warningFired.get(warningKey)
+        if (warningTime !== undefined && warningTime < windowStart(period, now, windows)) {
+          this.warningFired.delete(warningKey)
+        }
+        if (q.projected >= q.limit * WARNING_THRESHOLD && !this.warningFired.has(warningKey)) {
+          this.warningFired.set(warningKey, now)
+          this.config.onBudgetWarning?.(userId, detail)
+          shieldEvents.emit("userBudget:warning", {
+            ...eventFields,
+            percentUsed: detail.percentUsed,
+          })
         }
-      }
-    }
 
-    // Reserve estimated cost as in-flight to prevent concurrent overspend
-    if (estimatedCostDollars > 0) {
-      this.inflightByUser.set(userId, inflight + estimatedCostDollars)
-      // Invalidate snapshot cache so next getStatus() reflects the new inflight
-      // (no notify() — this is a read-path change, not a state mutation for React)
-      this._snapshotCache.delete(userId)
-      // FIFO eviction: remove the oldest entry when the map exceeds capacity
-      if (this.inflightByUser.size > MAX_TRACKED_USERS) {
-        const oldest = this.inflightByUser.keys().next().value
-        if (oldest !== undefined) this.inflightByUser.delete(oldest)
+        if (exceedsQuota(q)) {
+          this.config.onBudgetExceeded?.(userId, detail)
+          shieldEvents.emit("userBudget:exceeded", eventFields)
+          return {
+            exceeded: detail,
+            reason: `${label} ${limitType} ${describeQuota(q)} quota exceeded (${q.used} / ${q.limit} tokens)`,
+          }
+        }
       }
     }
 
-    // Return fresh status that includes the just-reserved inflight
-    return { allowed: true, status: estimatedCostDollars > 0 ? this.getStatus(userId) : status }
+    return null
   }
 
   /**
@@ -276,12 +482,17 @@ export class UserBudgetManager {
    * @param estimatedCost - The estimated cost that was reserved as in-flight by check().
    *   When provided, this amount (not the actual cost) is subtracted from in-flight
    *   to prevent phantom accumulation from estimation inaccuracies.
+   * @param tokens - Metered token counts, counted against token quotas.
+   * @param ledgerEntryId - CostLedger entry for the request; in wallet mode
+   *   the debit links to it for reconcileWallet().
    */
   async recordSpend(
     userId: string,
     cost: number,
     model: string,
     estimatedCost?: number,
+    tokens?: { input: number; output: number },
+    ledgerEntryId?: string,
   ): Promise<void> {
     if (cost < 0) return // Ignore negative costs
     if (!userId) return // Ignore empty user IDs
@@ -290,6 +501,7 @@ export class UserBudgetManager {
     // Use estimatedCost (what was reserved) rather than actual cost to prevent
     // phantom in-flight accumulation from estimation inaccuracies.
     const inflight = this.inflightByUser.get(userId) ?? 0
+    const membership = this.getMembership(userId)
     if (inflight > 0) {
       const inflightRelease = estimatedCost ?? cost
       const remaining = Math.max(0, inflight - inflightRelease)
@@ -298,11 +510,12 @@ export class UserBudgetManager {
       } else {
         this.inflightByUser.delete(userId)
       }
+      this.releaseGroupInflight(membership, inflightRelease)
     }
 
-    // Skip creating a record for zero-cost responses, but still notify
-    // so that React subscribers see the inflight release
-    if (cost === 0) {
+    // Skip creating a record for zero-cost responses (unless they used
+    // tokens), but still notify so that React subscribers see the inflight release
+    if (cost === 0 && !(tokens && tokens.input + tokens.output > 0)) {
       this.notify()
       return
     }
@@ -312,13 +525,18 @@ export class UserBudgetManager {
       cost,
       model,
       userId,
+      ...(tokens && { inputTokens: tokens.input, outputTokens: tokens.output }),
+      ...membership,
     }
 
     this.records.push(record)
+    if (this.wallet && cost > 0) {
+      this.wallet.debit(userId, cost, "usage", { model, ledgerEntryId })
+    }
 
-    // Clean up old records (keep last 30 days) + enforce hard cap
-    const thirtyDaysAgo = Date.now() - THIRTY_DAYS_MS
-    this.records = this.records.filter((r) => r.timestamp > thirtyDaysAgo)
+    // Clean up records outside every window + enforce hard cap
+    const cutoff = this.retentionCutoff(Date.now())
+    this.records = this.records.filter((r) => r.timestamp >= cutoff)
     if (this.records.length > MAX_BUDGET_RECORDS) {
       this.records = this.records.slice(-MAX_BUDGET_RECORDS)
     }
@@ -331,6 +549,7 @@ export class UserBudgetManager {
         // IDB write failed, data still in memory
       }
     }
+    if (this.wallet && cost > 0) await this.persistWallet()
 
     shieldEvents.emit("userBudget:spend", { userId, cost, model })
     this.notify()
@@ -350,11 +569,27 @@ export class UserBudgetManager {
       } else {
         this.inflightByUser.delete(userId)
       }
+      this.releaseGroupInflight(this.getMembership(userId), estimatedCost)
       // Invalidate snapshot cache so next getStatus() reflects released inflight
       this._snapshotCache.delete(userId)
     }
   }
 
+  /** Release a user's in-flight reservation from their team and org */
+  private releaseGroupInflight(membership: BudgetMembership, amount: number): void {
+    for (const [level, id] of [
+      ["team", membership.team],
+      ["org", membership.org],
+    ] as const) {
+      if (!id) continue
+      const key = `${level}:${id}`
+      const remaining = Math.max(0, (this.inflightByGroup.get(key) ?? 0) - amount)
+      if (remaining > 0) this.inflightByGroup.set(key, remaining)
+      else this.inflightByGroup.delete(key)
+      this._groupSnapshotCache.delete(key)
+    }
+  }
+
   /**
    * Get comprehensive budget status for a user.
    * Returns the same object reference if the underlying data hasn't changed,
@@ -379,11 +614,21 @@ export class UserBudgetManager {
       if (oldestKey !== undefined) this._snapshotCache.delete(oldestKey)
     }
 
-    const limits = resolveUserLimits(this.config, userId)
+    const membership = this.getMembership(userId)
+    const limits = resolveUserLimits(this.config, userId, membership)
     const now = Date.now()
-    const spend = computeSpendWindows(this.records, userId, now)
+    const spend = computeSpendWindows(
+      this.records,
+      userId,
+      now,
+      resolveWindowConfig(this.config, limits),
+    )
     const userInflight = this.inflightByUser.get(userId) ?? 0
-    const snapshot = buildBudgetSnapshot(userId, limits, spend, userInflight)
+    const snapshot: UserBudgetStatus = {
+      ...buildBudgetSnapshot(userId, limits, spend, userInflight, spend.resetsAt, spend.tokens),
+      ...membership,
+      ...(this.wallet && { wallet: this.wallet.getBalance(userId, userInflight) }),
+    }
 
     // If cached snapshot has identical values, keep the old reference
     if (
@@ -393,7 +638,17 @@ export class UserBudgetManager {
       cached.snapshot.isOverBudget === snapshot.isOverBudget &&
       cached.snapshot.inflight === snapshot.inflight &&
       cached.snapshot.tier === snapshot.tier &&
-      cached.snapshot.limits === snapshot.limits
+      cached.snapshot.limits === snapshot.limits &&
+      cached.snapshot.team === snapshot.team &&
+      cached.snapshot.org === snapshot.org &&
+      cached.snapshot.wallet?.balance === snapshot.wallet?.balance &&
+      cached.snapshot.rollover.daily === snapshot.rollover.daily &&
+      cached.snapshot.rollover.monthly === snapshot.rollover.monthly &&
+      cached.snapshot.inGrace === snapshot.inGrace &&
+      cached.snapshot.resetsAt.daily === snapshot.resetsAt.daily &&
+      cached.snapshot.resetsAt.monthly === snapshot.resetsAt.monthly &&
+      cached.snapshot.tokens.daily.used.total === snapshot.tokens.daily.used.total &&
+      cached.snapshot.tokens.monthly.used.total === snapshot.tokens.monthly.used.total
     ) {
       this._snapshotCache.set(userId, {
         version: this._version,
@@ -442,18 +697,234 @@ export class UserBudgetManager {
     return Array.from(userIds).map((id) => this.getStatus(id))
   }
 
+  /** A user's team and org (empty without a hierarchy). */
+  getMembership(userId: string): BudgetMembership {
+    return resolveMembership(this.config, userId)
+  }
+
+  /** Rolled-up status of the team and org above a user status, nearest first. */
+  private groupsOf(
+    status: UserBudgetStatus,
+  ): Array<{ level: "team" | "org"; id: string; status: BudgetGroupStatus }> {
+    const groups: Array<{ level: "team" | "org"; id: string; status: BudgetGroupStatus }> = []
+    if (status.team) {
+      groups.push({
+        level: "team",
+        id: status.team,
+        status: this.getGroupStatus("team", status.team, status.org),
+      })
+    }
+    if (status.org) {
+      groups.push({ level: "org", id: status.org, status: this.getGroupStatus("org", status.org) })
+    }
+    return groups
+  }
+
+  /**
+   * Rolled-up budget status for a team or org: the spend of every member,
+   * checked against the group's own limits. Cached like getStatus().
+   *
+   * @param org - The team's org, for teams not listed in `hierarchy.teams`
+   */
+  getGroupStatus(level: "team" | "org", id: string, org?: string): BudgetGroupStatus {
+    const key = `${level}:${id}`
+    const timeBucket = Math.floor(Date.now() / 10_000)
+    const cached = this._groupSnapshotCache.get(key)
+    if (cached && cached.version === this._version && cached.timeBucket === timeBucket) {
+      return cached.snapshot
+    }
+    if (this._groupSnapshotCache.size > MAX_CACHE_SIZE) {
+      const oldestKey = this._groupSnapshotCache.keys().next().value
+      if (oldestKey !== undefined) this._groupSnapshotCache.delete(oldestKey)
+    }
+
+    const parentOrg =
+      level === "team" ? (this.config.hierarchy?.teams?.[id]?.org ?? org) : undefined
+    const limits = resolveGroupLimits(this.config, level, id, parentOrg)
+    const spend = computeSpendWindows(
+      this.records,
+      (r) => r[level] === id,
+      Date.now(),
+      resolveWindowConfig(this.config, limits),
+    )
+    const {
+      userId: _userId,
+      tier: _tier,
+      ...rollup
+    } = buildBudgetSnapshot(
+      id,
+      limits,
+      spend,
+      this.inflightByGroup.get(key) ?? 0,
+      spend.resetsAt,
+      spend.tokens,
+    )
+    const snapshot: BudgetGroupStatus = {
+      ...rollup,
+      level,
+      id,
+      ...(parentOrg && { org: parentOrg }),
+      children: this.childrenOf(level, id),
+    }
+    this._groupSnapshotCache.set(key, { version: this._version, timeBucket, snapshot })
+    return snapshot
+  }
+
   /**
-   * Load spend records from IndexedDB (for session restore).
-   * Merges with any records already in memory to avoid losing
-   * spend data from requests that arrived before hydration completed.
+   * Status for every team or org that is configured or has recorded spend.
+   */
+  getAllGroupStatuses(level: "team" | "org"): BudgetGroupStatus[] {
+    const hierarchy = this.config.hierarchy
+    const ids = new Map<string, string | undefined>()
+    const configured = level === "team" ? hierarchy?.teams : hierarchy?.orgs
+    for (const id of Object.keys(configured ?? {})) ids.set(id, undefined)
+    for (const r of this.records) {
+      const id = r[level]
+      if (id && !ids.get(id)) ids.set(id, level === "team" ? r.org : undefined)
+    }
+    return Array.from(ids).map(([id, org]) => this.getGroupStatus(level, id, org))
+  }
+
+  /** Teams in an org, or users in a team, from config and recorded spend */
+  private childrenOf(level: "team" | "org", id: string): string[] {
+    const hierarchy = this.config.hierarchy
+    const children = new Set<string>()
+    if (level === "org") {
+      for (const [team, cfg] of Object.entries(hierarchy?.teams ?? {})) {
+        if (cfg.org === id) children.add(team)
+      }
+      for (const r of this.records) if (r.org === id && r.team) children.add(r.team)
+    } else {
+      for (const [user, m] of Object.entries(hierarchy?.members ?? {})) {
+        if (m.team === id) children.add(user)
+      }
+      for (const r of this.records) if (r.team === id) children.add(r.userId)
+    }
+    return Array.from(children)
+  }
+
+  // -------------------------------------------------------
+  // Wallet mode
+  // -------------------------------------------------------
+
+  /**
+   * Top up a user's credit balance. Returns the recorded transaction.
+   * Throws TokenShieldConfigError when wallet mode is off.
+   */
+  async credit(userId: string, amount: number, reason: string): Promise<WalletTransaction> {
+    const transaction = this.requireWallet().credit(userId, amount, reason)
+    await this.persistWallet()
+    shieldEvents.emit("userBudget:credit", {
+      userId,
+      amount,
+      balance: transaction.balance,
+      reason,
+    })
+    this._snapshotCache.delete(userId)
+    this.notify()
+    return transaction
+  }
+
+  /**
+   * Take credits from a user outside of request spend (e.g. a manual
+   * adjustment). Request costs are debited by recordSpend() automatically.
+   */
+  async debit(userId: string, amount: number, reason: string): Promise<WalletTransaction> {
+    const transaction = this.requireWallet().debit(userId, amount, reason)
+    await this.persistWallet()
+    this._snapshotCache.delete(userId)
+    this.notify()
+    return transaction
+  }
+
+  /** A user's balance, or null when wallet mode is off. */
+  getBalance(userId: string): WalletBalance | null {
+    return this.wallet?.getBalance(userId, this.inflightByUser.get(userId) ?? 0) ?? null
+  }
+
+  /** Wallet transactions oldest first, for one user or everyone. */
+  getTransactions(userId?: string): WalletTransaction[] {
+    return this.wallet?.getTransactions(userId) ?? []
+  }
+
+  /** Export the wallet transaction history as JSON. */
+  exportTransactionsJSON(): string {
+    return this.requireWallet().exportJSON()
+  }
+
+  /** Export the wallet transaction history as CSV. */
+  exportTransactionsCSV(): string {
+    return this.requireWallet().exportCSV()
+  }
+
+  /**
+   * Match spend debits against CostLedger entries (e.g.
+   * `ledger.getEntriesSince(...)`) to find unbilled or mismatched requests.
+   */
+  reconcileWallet(entries: LedgerEntry[]): WalletReconciliation {
+    return this.requireWallet().reconcile(entries)
+  }
+
+  private requireWallet(): CreditWallet {
+    if (!this.wallet) {
+      throw new TokenShieldConfigError(
+        "Wallet mode is not enabled; set `wallet` in the user budget config",
+        "wallet",
+      )
+    }
+    return this.wallet
+  }
+
+  private async persistWallet(): Promise<void> {
+    if (!this.wallet || !this.idbStore) return
+    // Writing before the persisted wallet is merged would overwrite it
+    await this.loadWallet()
+    try {
+      await set("wallet-balances", this.wallet.getBalances(), this.idbStore)
+      await set(
+        "wallet-transactions",
+        this.wallet.getRecentTransactions(MAX_PERSISTED_WALLET_TRANSACTIONS),
+        this.idbStore,
+      )
+    } catch {
+      // IDB write failed, data still in memory
+    }
+  }
+
+  /** Merge persisted balances and transactions into the wallet (once). */
+  private loadWallet(): Promise<void> {
+    const { wallet, idbStore } = this
+    if (!wallet || !idbStore) return Promise.resolve()
+    if (!this.walletLoad) {
+      this.walletLoad = (async () => {
+        try {
+          const balances = await get<Record<string, number>>("wallet-balances", idbStore)
+          const transactions = await get<WalletTransaction[]>("wallet-transactions", idbStore)
+          if (balances || transactions?.length) {
+            wallet.load(transactions ?? [], balances)
+            this.notify()
+          }
+        } catch {
+          // Unreadable wallet; balances start from the in-memory state
+        }
+      })()
+    }
+    return this.walletLoad
+  }
+
+  /**
+   * Load spend records (and wallet transactions) from IndexedDB for
+   * session restore. Merges with any records already in memory to avoid
+   * losing spend data from requests that arrived before hydration completed.
    */
   async hydrate(): Promise<number> {
     if (!this.idbStore) return 0
+    await this.loadWallet()
     try {
       const persisted = await get<UserSpendRecord[]>("user-budget-records", this.idbStore)
       if (persisted && persisted.length > 0) {
-        const thirtyDaysAgo = Date.now() - THIRTY_DAYS_MS
-        const validPersisted = persisted.filter((r: UserSpendRecord) => r.timestamp > thirtyDaysAgo)
+        const cutoff = this.retentionCutoff(Date.now())
+        const validPersisted = persisted.filter((r: UserSpendRecord) => r.timestamp >= cutoff)
 
         // Merge: keep any in-memory records that were added while hydration was in flight.
         // Deduplicate by checking timestamp+userId+cost+model.
@@ -477,15 +948,25 @@ export class UserBudgetManager {
     }
   }
 
+  /** Forget a user's fired warnings (dollar and token) so they can fire again */
+  private clearWarnings(userId: string): void {
+    for (const key of this.warningFired.keys()) {
+      for (const limitType of ["daily", "monthly"]) {
+        const base = `${userId}-${limitType}`
+        if (key === base || key.startsWith(`${base}:`)) this.warningFired.delete(key)
+      }
+    }
+  }
+
   /**
    * Update budget config for a specific user at runtime.
    */
   updateUserBudget(userId: string, limits: UserBudgetLimits): void {
+    this.trackLimits(limits)
     if (!this.config.users) this.config.users = {}
     this.config.users[userId] = limits
     // Clear warnings so they can re-fire with new limits
-    this.warningFired.delete(`${userId}-daily`)
-    this.warningFired.delete(`${userId}-monthly`)
+    this.clearWarnings(userId)
     this.notify()
   }
 
@@ -496,8 +977,7 @@ export class UserBudgetManager {
     if (this.config.users) {
       delete this.config.users[userId]
     }
-    this.warningFired.delete(`${userId}-daily`)
-    this.warningFired.delete(`${userId}-monthly`)
+    this.clearWarnings(userId)
     this._snapshotCache.delete(userId)
     this.notify()
   }
@@ -507,8 +987,7 @@ export class UserBudgetManager {
    */
   async resetUser(userId: string): Promise<void> {
     this.records = this.records.filter((r) => r.userId !== userId)
-    this.warningFired.delete(`${userId}-daily`)
-    this.warningFired.delete(`${userId}-monthly`)
+    this.clearWarnings(userId)
     this.inflightByUser.delete(userId)
     this._snapshotCache.delete(userId)
 
@@ -524,17 +1003,25 @@ export class UserBudgetManager {
   }
 
   /**
-   * Reset all spend records.
+   * Reset all spend records, and in wallet mode all balances and
+   * transactions.
    */
   async reset(): Promise<void> {
     this.records = []
+    this.wallet?.clear()
     this.warningFired.clear()
     this.inflightByUser.clear()
+    this.inflightByGroup.clear()
     this._snapshotCache.clear()
+    this._groupSnapshotCache.clear()
 
     if (this.idbStore) {
       try {
         await set("user-budget-records", [], this.idbStore)
+        if (this.wallet) {
+          await set("wallet-balances", {}, this.idbStore)
+          await set("wallet-transactions", [], this.idbStore)
+        }
       } catch {
         // IDB write failed
       }
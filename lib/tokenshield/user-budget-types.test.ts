@@ -2,7 +2,8 @@
  * User Budget Types & Utilities Tests
  *
  * Tests for pure utility functions: budgetPct, resolveUserLimits,
- * computeSpendWindows, buildBudgetSnapshot, evictStaleWarnings.
+ * resolveWindowConfig, computeSpendWindows, buildBudgetSnapshot,
+ * evictStaleWarnings.
  */
 
 import { describe, it, expect } from "vitest"
@@ -11,6 +12,7 @@ import {
   resolveUserLimits,
   computeSpendWindows,
   buildBudgetSnapshot,
+  resolveWindowConfig,
   evictStaleWarnings,
   ONE_DAY_MS,
   THIRTY_DAYS_MS,
@@ -97,6 +99,21 @@ describe("resolveUserLimits", () => {
 // computeSpendWindows
 // -------------------------------------------------------
 
+describe("resolveWindowConfig", () => {
+  it("returns the base config when the limits have no reset policy", () => {
+    const base = { windowMode: "rolling" as const }
+    expect(resolveWindowConfig(base, { daily: 1, monthly: 10 })).toBe(base)
+  })
+
+  it("switches to calendar months starting on the billing anchor's day", () => {
+    const windows = resolveWindowConfig(
+      { timeZone: "UTC" },
+      { daily: 1, monthly: 10, resetPolicy: { billingAnchor: "2025-02-20" } },
+    )
+    expect(windows).toEqual({ windowMode: "calendar", timeZone: "UTC", monthStartDay: 20 })
+  })
+})
+
 describe("computeSpendWindows", () => {
   const NOW = Date.now()
 
@@ -227,6 +244,31 @@ describe("buildBudgetSnapshot", () => {
     expect(snapshot.isOverBudget).toBe(false)
   })
 
+  it("adds capped rollover from the previous window to the limit", () => {
+    const limits = { daily: 10, monthly: 100, rollover: { daily: 3 } }
+    const spend = { daily: 8, monthly: 50, previous: { daily: 4, monthly: 20 } }
+    const snapshot = buildBudgetSnapshot("user-1", limits, spend, 0)
+
+    // 6 unused yesterday, capped at 3
+    expect(snapshot.rollover).toEqual({ daily: 3, monthly: 0 })
+    expect(snapshot.remaining.daily).toBe(5)
+    expect(snapshot.percentUsed.daily).toBeCloseTo(61.54, 1)
+  })
+
+  it("keeps requests allowed through the grace amount past the limit", () => {
+    const limits = { daily: 10, monthly: 100, grace: { daily: 2 } }
+    const inGrace = buildBudgetSnapshot("user-1", limits, { daily: 11, monthly: 50 }, 0)
+    expect(inGrace.inGrace).toBe(true)
+    expect(inGrace.isOverBudget).toBe(false)
+    expect(inGrace.remaining.daily).toBe(1)
+    expect(inGrace.grace).toEqual({ daily: 1, monthly: null })
+
+    const exhausted = buildBudgetSnapshot("user-1", limits, { daily: 12, monthly: 50 }, 0)
+    expect(exhausted.inGrace).toBe(false)
+    expect(exhausted.isOverBudget).toBe(true)
+    expect(exhausted.grace.daily).toBe(0)
+  })
+
   it("uses tier from limits when provided", () => {
     const limits = { daily: 10, monthly: 100, tier: "premium" as const }
     const snapshot = buildBudgetSnapshot("user-1", limits, { daily: 0, monthly: 0 }, 0)
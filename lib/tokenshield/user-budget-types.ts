@@ -8,32 +8,142 @@
  * Team tier feature ($99/month).
  */
 
+import type { StorageBackend } from "./storage-adapter"
+import type { EncryptionConfig } from "./crypto-store"
+import type { WalletBalance, WalletConfig } from "./credit-wallet"
+import {
+  type BudgetWindowConfig,
+  billingAnchorDay,
+  previousWindowStart,
+  validateWindowConfig,
+  windowResetsAt,
+  windowStart,
+} from "./budget-windows"
+import {
+  type TokenKind,
+  type TokenLimits,
+  type TokenTally,
+  type TokenWindowStatus,
+  addToTally,
+  emptyTally,
+  exhaustedQuotas,
+  tokenWindowStatus,
+} from "./token-quotas"
+
 // -------------------------------------------------------
 // Types
 // -------------------------------------------------------
 
 export type UserBudgetTier = "standard" | "premium" | "unlimited"
 
+/** A level of the org → team → user budget hierarchy */
+export type BudgetLevel = "org" | "team" | "user"
+
 export interface UserBudgetLimits {
-  /** Maximum dollar spend per 24-hour rolling window (0 = no daily limit) */
+  /** Maximum dollar spend per day (0 = no daily limit) */
   daily: number
-  /** Maximum dollar spend per 30-day rolling window (0 = no monthly limit) */
+  /** Maximum dollar spend per month (0 = no monthly limit) */
   monthly: number
   /** Model tier — controls which models this user can access */
   tier?: UserBudgetTier
+  /** Token quotas per window, enforced alongside the dollar limits */
+  tokens?: { daily?: TokenLimits; monthly?: TokenLimits }
+  /**
+   * Carry unused allowance from the previous window into the current one,
+   * up to these dollar caps. Only the previous window's base limit counts;
+   * rolled-over dollars don't roll over again.
+   */
+  rollover?: { daily?: number; monthly?: number }
+  /**
+   * Dollars a user may run past a limit (after rollover) before requests
+   * are blocked, so a conversation isn't cut off mid-way. Entering grace
+   * fires `userBudget:grace` once per window.
+   */
+  grace?: { daily?: number; monthly?: number }
+  /** When this user's windows reset; defaults to the manager's window config */
+  resetPolicy?: BudgetResetPolicy
+}
+
+/** Per-user schedule for budget window resets */
+export interface BudgetResetPolicy extends BudgetWindowConfig {
+  /**
+   * Billing-cycle anchor date (ms since epoch or ISO date). Monthly
+   * windows start on its day of the month and windows switch to calendar
+   * mode. Anchors on the 29th-31st start their months on the 28th.
+   */
+  billingAnchor?: number | string
+}
+
+/** Where a user sits in the budget hierarchy */
+export interface BudgetMembership {
+  team?: string
+  /** Derived from the team's `org` when omitted */
+  org?: string
+}
+
+/** Limits and inherited defaults for one org or team */
+export interface BudgetGroupConfig {
+  /** Limits on the rolled-up spend of every member */
+  limits?: UserBudgetLimits
+  /** Limits for members without an entry in `users` (a team's default wins over its org's) */
+  defaultUserBudget?: UserBudgetLimits
+}
+
+export interface BudgetTeamConfig extends BudgetGroupConfig {
+  /** The org the team belongs to */
+  org?: string
+}
+
+export interface BudgetOrgConfig extends BudgetGroupConfig {
+  /** Limits for teams in this org without their own `limits` */
+  defaultTeamBudget?: UserBudgetLimits
+}
+
+/**
+ * Org → team → user budget hierarchy. Spend rolls up from users to their
+ * team and org, and a request must fit within the limits of every level.
+ */
+export interface BudgetHierarchyConfig {
+  orgs?: Record<string, BudgetOrgConfig>
+  teams?: Record<string, BudgetTeamConfig>
+  /** Static user → team/org membership */
+  members?: Record<string, BudgetMembership>
+  /** Resolve membership at request time; takes precedence over `members` */
+  resolve?: (userId: string) => BudgetMembership | undefined
 }
 
-export interface UserBudgetConfig {
+/**
+ * Daily and monthly limits apply to rolling 24-hour and 30-day windows by
+ * default; `windowMode: "calendar"` resets them at midnight and on
+ * `monthStartDay` in `timeZone` instead.
+ */
+export interface UserBudgetConfig extends BudgetWindowConfig {
   /** Per-user budget overrides keyed by opaque user ID */
   users?: Record<string, UserBudgetLimits>
   /** Default budget applied when a user has no specific config */
   defaultBudget?: UserBudgetLimits
+  /** Org and team budgets above the users; see BudgetHierarchyConfig */
+  hierarchy?: BudgetHierarchyConfig
+  /**
+   * Prepaid credit wallets: each user's actual spend is debited from a
+   * balance topped up with credit(), and requests the balance can't cover
+   * are refused. Applies alongside any daily/monthly limits.
+   */
+  wallet?: WalletConfig
   /** Persist budget usage to IndexedDB (survives page refresh) */
   persist?: boolean
+  /** Server-side persistence backend; when set, spend records are stored here instead of IndexedDB */
+  backend?: StorageBackend
+  /** Encrypt persisted spend records with AES-GCM; plaintext records migrate on hydrate */
+  encryption?: EncryptionConfig
+  /** Called when decryption or key derivation fails */
+  onStorageError?: (error: unknown) => void
   /** Called when a user exceeds their daily or monthly limit */
   onBudgetExceeded?: (userId: string, event: BudgetExceededEvent) => void
   /** Called when a user reaches a warning threshold (80% of a limit) */
   onBudgetWarning?: (userId: string, event: BudgetWarningEvent) => void
+  /** Called when a user passes a limit and starts spending their grace amount */
+  onBudgetGrace?: (userId: string, event: BudgetGraceEvent) => void
   /** Model ID mappings per tier — used for automatic model routing */
   tierModels?: Partial<Record<UserBudgetTier, string>>
 }
@@ -41,43 +151,116 @@ export interface UserBudgetConfig {
 export interface BudgetExceededEvent {
   /** Which limit was hit */
   limitType: "daily" | "monthly"
-  /** Current spend in that window */
+  /** Current spend in that window (tokens when `unit` is "tokens") */
   currentSpend: number
-  /** The limit value in dollars */
+  /** The limit value in dollars (tokens when `unit` is "tokens") */
   limit: number
   /** Percentage of limit used (capped at 999) */
   percentUsed: number
   timestamp: number
+  /** Whether a dollar limit or a token quota was hit */
+  unit?: "usd" | "tokens"
+  /** For token quotas: which count hit its quota */
+  tokenKind?: TokenKind
+  /** For token quotas: the model family the quota belongs to */
+  modelFamily?: string
+  /** Hierarchy level whose limit this is */
+  level?: BudgetLevel
+  /** ID of the user, team or org at that level */
+  levelId?: string
+}
+
+export interface BudgetGraceEvent {
+  /** Which limit was passed */
+  limitType: "daily" | "monthly"
+  currentSpend: number
+  /** The limit that was passed, including rollover */
+  limit: number
+  /** Dollars allowed past the limit before requests are blocked */
+  grace: number
+  timestamp: number
+  /** Hierarchy level whose limit this is */
+  level?: BudgetLevel
+  /** ID of the user, team or org at that level */
+  levelId?: string
 }
 
 export interface BudgetWarningEvent {
   /** Which limit is approaching */
   limitType: "daily" | "monthly"
-  /** Current spend in that window */
+  /** Current spend in that window (tokens when `unit` is "tokens") */
   currentSpend: number
-  /** The limit value in dollars */
+  /** The limit value in dollars (tokens when `unit` is "tokens") */
   limit: number
   /** Percentage of limit used (capped at 999) */
   percentUsed: number
   timestamp: number
+  /** Whether a dollar limit or a token quota was hit */
+  unit?: "usd" | "tokens"
+  /** For token quotas: which count hit its quota */
+  tokenKind?: TokenKind
+  /** For token quotas: the model family the quota belongs to */
+  modelFamily?: string
+  /** Hierarchy level whose limit this is */
+  level?: BudgetLevel
+  /** ID of the user, team or org at that level */
+  levelId?: string
 }
 
 export interface UserBudgetStatus {
   userId: string
   /** Budget limits for this user (resolved via inheritance) */
   limits: UserBudgetLimits | null
-  /** Current spend in rolling windows */
+  /** Current spend in the daily and monthly windows */
   spend: { daily: number; monthly: number }
-  /** Remaining budget (null = unlimited or limit is 0) */
+  /**
+   * Remaining budget before requests are blocked, including rollover and
+   * grace (null = unlimited or limit is 0)
+   */
   remaining: { daily: number | null; monthly: number | null }
-  /** Percentage of each limit used (0 when limit is 0/unlimited) */
+  /** Percentage of each limit (plus rollover) used (0 when limit is 0/unlimited) */
   percentUsed: { daily: number; monthly: number }
-  /** Whether any limit is exceeded (accounts for in-flight requests) */
+  /** Unused allowance carried over from the previous windows */
+  rollover: { daily: number; monthly: number }
+  /** Grace dollars left past each limit (null = no grace configured) */
+  grace: { daily: number | null; monthly: number | null }
+  /** Whether spend has passed a limit and is running on grace */
+  inGrace: boolean
+  /**
+   * Whether any limit (plus rollover and grace) is exceeded; dollar limits
+   * account for in-flight requests
+   */
   isOverBudget: boolean
   /** Estimated cost of currently in-flight requests for this user */
   inflight: number
   /** The model tier for this user */
   tier: UserBudgetTier
+  /**
+   * When daily and monthly spend next reset (ms since epoch). Calendar
+   * windows reset at the next boundary; rolling windows when the oldest
+   * counted spend ages out, or null when nothing has been spent.
+   */
+  resetsAt: { daily: number | null; monthly: number | null }
+  /** Token usage and remaining token quota in the daily and monthly windows */
+  tokens: { daily: TokenWindowStatus; monthly: TokenWindowStatus }
+  /** The user's team and org when a hierarchy is configured */
+  team?: string
+  org?: string
+  /** Credit balance in wallet mode */
+  wallet?: WalletBalance
+}
+
+/** Rolled-up budget status for a team or org */
+export interface BudgetGroupStatus extends Omit<
+  UserBudgetStatus,
+  "userId" | "tier" | "team" | "org" | "wallet"
+> {
+  level: "team" | "org"
+  id: string
+  /** The org a team belongs to */
+  org?: string
+  /** Teams of an org, or users of a team, that are configured or have spent */
+  children: string[]
 }
 
 /** Internal record of a single user spend event */
@@ -86,6 +269,11 @@ export interface UserSpendRecord {
   cost: number
   model: string
   userId: string
+  inputTokens?: number
+  outputTokens?: number
+  /** Membership when the spend was recorded, so it rolls up to the right groups */
+  team?: string
+  org?: string
 }
 
 // -------------------------------------------------------
@@ -110,54 +298,211 @@ export function budgetPct(value: number, limit: number): number {
   return limit > 0 ? Math.min((value / limit) * 100, 999) : 0
 }
 
+/**
+ * Resolve a user's team and org: the hierarchy's resolver, then static
+ * `members`. A missing org is taken from the team's config.
+ */
+export function resolveMembership(config: UserBudgetConfig, userId: string): BudgetMembership {
+  const hierarchy = config.hierarchy
+  if (!hierarchy) return {}
+  const found = hierarchy.resolve?.(userId) ?? hierarchy.members?.[userId]
+  const team = found?.team || undefined
+  const org = found?.org || (team ? hierarchy.teams?.[team]?.org : undefined) || undefined
+  return { ...(team && { team }), ...(org && { org }) }
+}
+
 /**
  * Resolve the budget limits for a user via the inheritance chain:
- * user-specific config → defaultBudget → null (no limits).
+ * user-specific config → team default → org default → defaultBudget →
+ * null (no limits).
  */
 export function resolveUserLimits(
   config: UserBudgetConfig,
   userId: string,
+  membership: BudgetMembership = resolveMembership(config, userId),
 ): UserBudgetLimits | null {
   const userConfig = config.users?.[userId]
   if (userConfig) return userConfig
+  const { teams, orgs } = config.hierarchy ?? {}
+  const inherited =
+    (membership.team && teams?.[membership.team]?.defaultUserBudget) ||
+    (membership.org && orgs?.[membership.org]?.defaultUserBudget)
+  if (inherited) return inherited
   if (config.defaultBudget) return config.defaultBudget
   return null
 }
 
 /**
- * Compute daily and monthly spend for a user from a list of spend records.
+ * Resolve the limits of a team (its own, else its org's `defaultTeamBudget`)
+ * or an org. Returns null when the group has no limits.
+ */
+export function resolveGroupLimits(
+  config: UserBudgetConfig,
+  level: "team" | "org",
+  id: string,
+  org?: string,
+): UserBudgetLimits | null {
+  const { teams, orgs } = config.hierarchy ?? {}
+  if (level === "org") return orgs?.[id]?.limits ?? null
+  const team = teams?.[id]
+  const parent = team?.org ?? org
+  return team?.limits ?? (parent ? orgs?.[parent]?.defaultTeamBudget : undefined) ?? null
+}
+
+/** Every limits object in a config: users, defaults and hierarchy groups. */
+export function configuredLimits(config: UserBudgetConfig): UserBudgetLimits[] {
+  const { orgs, teams } = config.hierarchy ?? {}
+  const all: Array<UserBudgetLimits | undefined> = [
+    ...Object.values(config.users ?? {}),
+    config.defaultBudget,
+  ]
+  for (const team of Object.values(teams ?? {})) all.push(team.limits, team.defaultUserBudget)
+  for (const org of Object.values(orgs ?? {})) {
+    all.push(org.limits, org.defaultUserBudget, org.defaultTeamBudget)
+  }
+  return all.filter((l): l is UserBudgetLimits => !!l)
+}
+
+/** Check a limits object's reset policy up front, like validateWindowConfig(). */
+export function validateResetPolicy(limits: UserBudgetLimits): void {
+  const policy = limits.resetPolicy
+  if (!policy) return
+  validateWindowConfig(policy)
+  if (policy.billingAnchor !== undefined) billingAnchorDay(policy.billingAnchor)
+}
+
+const resolvedPolicies = new WeakMap<
+  BudgetResetPolicy,
+  { base: BudgetWindowConfig; windows: BudgetWindowConfig }
+>()
+
+/**
+ * The window config that applies to a limits object: the manager's,
+ * overridden by the limits' reset policy. A billing anchor switches to
+ * calendar windows starting on the anchor's day of the month.
+ */
+export function resolveWindowConfig(
+  base: BudgetWindowConfig,
+  limits: UserBudgetLimits | null,
+): BudgetWindowConfig {
+  const policy = limits?.resetPolicy
+  if (!policy) return base
+  const cached = resolvedPolicies.get(policy)
+  if (cached && cached.base === base) return cached.windows
+
+  const { billingAnchor, ...overrides } = policy
+  const windows: BudgetWindowConfig = {
+    windowMode: base.windowMode,
+    timeZone: base.timeZone,
+    monthStartDay: base.monthStartDay,
+    ...overrides,
+  }
+  if (billingAnchor !== undefined) {
+    windows.windowMode = "calendar"
+    windows.monthStartDay = billingAnchorDay(billingAnchor, windows.timeZone)
+  }
+  resolvedPolicies.set(policy, { base, windows })
+  return windows
+}
+
+/**
+ * Unused base allowance from the previous window that carries into the
+ * current one, capped by `limits.rollover`.
+ */
+export function rolloverFor(
+  limits: UserBudgetLimits,
+  window: "daily" | "monthly",
+  previousSpend: number,
+): number {
+  const cap = limits.rollover?.[window] ?? 0
+  const limit = limits[window]
+  if (!(cap > 0) || !(limit > 0)) return 0
+  return Math.min(cap, Math.max(0, limit - previousSpend))
+}
+
+/**
+ * Compute daily and monthly spend and token tallies for a user (or the
+ * records matching a predicate, for rolled-up group spend) from a list of
+ * spend records, along with when each window next resets.
  */
 export function computeSpendWindows(
   records: UserSpendRecord[],
-  userId: string,
+  userId: string | ((record: UserSpendRecord) => boolean),
   now: number,
-): { daily: number; monthly: number } {
-  const oneDayAgo = now - ONE_DAY_MS
-  const thirtyDaysAgo = now - THIRTY_DAYS_MS
+  windows: BudgetWindowConfig = {},
+): {
+  daily: number
+  monthly: number
+  resetsAt: UserBudgetStatus["resetsAt"]
+  tokens: { daily: TokenTally; monthly: TokenTally }
+  /** Spend in the window before each current one, for rollover */
+  previous: { daily: number; monthly: number }
+} {
+  const dayStart = windowStart("day", now, windows)
+  const monthStart = windowStart("month", now, windows)
+  const previousDayStart = previousWindowStart("day", now, windows)
+  const previousMonthStart = previousWindowStart("month", now, windows)
 
   let dailySpend = 0
   let monthlySpend = 0
+  const previous = { daily: 0, monthly: 0 }
+  let oldestDaily: number | null = null
+  let oldestMonthly: number | null = null
+  const tokens = { daily: emptyTally(), monthly: emptyTally() }
+  const matches =
+    typeof userId === "function" ? userId : (r: UserSpendRecord) => r.userId === userId
 
   for (const r of records) {
-    if (r.userId !== userId) continue
-    if (r.timestamp >= oneDayAgo) dailySpend += r.cost
-    if (r.timestamp >= thirtyDaysAgo) monthlySpend += r.cost
+    if (!matches(r)) continue
+    if (r.timestamp >= dayStart) {
+      dailySpend += r.cost
+      addToTally(tokens.daily, r)
+      if (oldestDaily === null || r.timestamp < oldestDaily) oldestDaily = r.timestamp
+    } else if (r.timestamp >= previousDayStart) {
+      previous.daily += r.cost
+    }
+    if (r.timestamp >= monthStart) {
+      monthlySpend += r.cost
+      addToTally(tokens.monthly, r)
+      if (oldestMonthly === null || r.timestamp < oldestMonthly) oldestMonthly = r.timestamp
+    } else if (r.timestamp >= previousMonthStart) {
+      previous.monthly += r.cost
+    }
   }
 
-  return { daily: dailySpend, monthly: monthlySpend }
+  return {
+    daily: dailySpend,
+    monthly: monthlySpend,
+    resetsAt: {
+      daily: windowResetsAt("day", now, windows, oldestDaily),
+      monthly: windowResetsAt("month", now, windows, oldestMonthly),
+    },
+    tokens,
+    previous,
+  }
 }
 
 /**
- * Build a full UserBudgetStatus snapshot from resolved limits, spend windows,
- * and in-flight cost.
+ * Build a full UserBudgetStatus snapshot from resolved limits, spend windows
+ * (with the previous windows' spend, for rollover), in-flight cost and
+ * token tallies.
  */
 export function buildBudgetSnapshot(
   userId: string,
   limits: UserBudgetLimits | null,
-  spend: { daily: number; monthly: number },
+  spend: { daily: number; monthly: number; previous?: { daily: number; monthly: number } },
   userInflight: number,
+  resetsAt: UserBudgetStatus["resetsAt"] = { daily: null, monthly: null },
+  tokenTallies: { daily: TokenTally; monthly: TokenTally } = {
+    daily: emptyTally(),
+    monthly: emptyTally(),
+  },
 ): UserBudgetStatus {
   const tier = limits?.tier ?? "standard"
+  const tokens = {
+    daily: tokenWindowStatus(tokenTallies.daily, limits?.tokens?.daily),
+    monthly: tokenWindowStatus(tokenTallies.monthly, limits?.tokens?.monthly),
+  }
 
   if (!limits) {
     return {
@@ -166,31 +511,54 @@ export function buildBudgetSnapshot(
       spend: { daily: spend.daily, monthly: spend.monthly },
       remaining: { daily: null, monthly: null },
       percentUsed: { daily: 0, monthly: 0 },
+      rollover: { daily: 0, monthly: 0 },
+      grace: { daily: null, monthly: null },
+      inGrace: false,
       isOverBudget: false,
       inflight: userInflight,
       tier,
+      resetsAt,
+      tokens,
     }
   }
 
-  const dailyRemaining = limits.daily > 0 ? Math.max(0, limits.daily - spend.daily) : null
-  const monthlyRemaining = limits.monthly > 0 ? Math.max(0, limits.monthly - spend.monthly) : null
-  const dailyPercent = limits.daily > 0 ? Math.min((spend.daily / limits.daily) * 100, 999) : 0
-  const monthlyPercent =
-    limits.monthly > 0 ? Math.min((spend.monthly / limits.monthly) * 100, 999) : 0
+  // Per window: the limit after rollover, then grace on top of it (0-limit means no limit)
+  const windows = (["daily", "monthly"] as const).map((window) => {
+    const base = limits[window]
+    const spent = spend[window]
+    const rollover = rolloverFor(limits, window, spend.previous?.[window] ?? 0)
+    const limit = base + rollover
+    const grace = base > 0 ? Math.max(0, limits.grace?.[window] ?? 0) : 0
+    return {
+      rollover,
+      remaining: base > 0 ? Math.max(0, limit + grace - spent) : null,
+      percentUsed: base > 0 ? Math.min((spent / limit) * 100, 999) : 0,
+      grace: grace > 0 ? Math.max(0, Math.min(grace, limit + grace - spent)) : null,
+      inGrace: grace > 0 && spent >= limit && spent < limit + grace,
+      // isOverBudget accounts for in-flight
+      over: base > 0 && spent + userInflight >= limit + grace,
+    }
+  })
+  const [daily, monthly] = windows
 
-  // isOverBudget accounts for in-flight; 0-limit means no limit for that window
-  const dailyOver = limits.daily > 0 && spend.daily + userInflight >= limits.daily
-  const monthlyOver = limits.monthly > 0 && spend.monthly + userInflight >= limits.monthly
+  const tokensOver =
+    (limits.tokens?.daily && exhaustedQuotas(tokens.daily, limits.tokens.daily).length > 0) ||
+    (limits.tokens?.monthly && exhaustedQuotas(tokens.monthly, limits.tokens.monthly).length > 0)
 
   return {
     userId,
     limits,
     spend: { daily: spend.daily, monthly: spend.monthly },
-    remaining: { daily: dailyRemaining, monthly: monthlyRemaining },
-    percentUsed: { daily: dailyPercent, monthly: monthlyPercent },
-    isOverBudget: dailyOver || monthlyOver,
+    remaining: { daily: daily.remaining, monthly: monthly.remaining },
+    percentUsed: { daily: daily.percentUsed, monthly: monthly.percentUsed },
+    rollover: { daily: daily.rollover, monthly: monthly.rollover },
+    grace: { daily: daily.grace, monthly: monthly.grace },
+    inGrace: daily.inGrace || monthly.inGrace,
+    isOverBudget: daily.over || monthly.over || !!tokensOver,
     inflight: userInflight,
     tier,
+    resetsAt,
+    tokens,
   }
 }
 
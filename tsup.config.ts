@@ -9,6 +9,7 @@ export default defineConfig({
     compressor: "lib/tokenshield/prompt-compressor.ts",
     "delta-encoder": "lib/tokenshield/conversation-delta-encoder.ts",
     middleware: "lib/tokenshield/middleware.ts",
+    storage: "lib/tokenshield/storage-backends.ts",
   },
   format: ["cjs", "esm"],
   outExtension({ format }) {